@@ -0,0 +1,5 @@
+import AuthGate from '@/components/AuthGate';
+
+export default function AdminLayout({ children }: Readonly<{ children: React.ReactNode }>) {
+  return <AuthGate role="admin">{children}</AuthGate>;
+}
@@ -1,33 +1,54 @@
 "use client";
 
-import { useState } from 'react';
-import { fetchVideos, generateMetadata, parseHashtags, updateVideoMetadata } from '@/hooks/apiHooks';
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { clearResultCache, createJob, fetchJob, fetchJobs, fetchResultCacheStats, startEmbeddingBackfill, updateJob } from '@/hooks/apiHooks';
 import LoadingSpinner from '@/components/LoadingSpinner';
-import { VideoData } from '@/types';
+import Sidebar from '@/components/Sidebar';
+import UserManager from '@/components/UserManager';
+import WorkspaceManager from '@/components/WorkspaceManager';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
+import { useIndexName, useIndexRegistry } from '@/hooks/useIndexRegistry';
+import { JobAction, JobItemStatus, JobSummary, ResultCacheKind, ResultCacheStats } from '@/types';
 
-// Content Index IDs from .env
-const adsIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID || 'default-ads-index';
-const contentIndexId = process.env.NEXT_PUBLIC_CONTENT_INDEX_ID || 'default-content-index';
+const JOB_POLL_INTERVAL_MS = 2000;
+
+const isJobActive = (job?: JobSummary) => job?.status === 'running' || job?.status === 'paused';
+
+const ITEM_STATUS_STYLES: Record<JobItemStatus, string> = {
+  pending: 'text-gray-500',
+  running: 'text-blue-600',
+  succeeded: 'text-green-600',
+  failed: 'text-red-600',
+  cancelled: 'text-gray-400',
+};
 
 export default function AdminPage() {
-  const [isAdsProcessing, setIsAdsProcessing] = useState(false);
-  const [isContentProcessing, setIsContentProcessing] = useState(false);
-  const [adsStatus, setAdsStatus] = useState<{ processed: number; total: number; current: string }>({ processed: 0, total: 0, current: '' });
-  const [contentStatus, setContentStatus] = useState<{ processed: number; total: number; current: string }>({ processed: 0, total: 0, current: '' });
+  const { adsIndexId, contentIndexId } = useWorkspace().workspace;
+  const { data: indexRegistry } = useIndexRegistry();
+  const getIndexName = useIndexName();
   const [logs, setLogs] = useState<string[]>([]);
   const [adsProcessLimit, setAdsProcessLimit] = useState<number>(0); // 0 means process all
   const [contentProcessLimit, setContentProcessLimit] = useState<number>(0); // 0 means process all
   const [processOnlyNoMetadata, setProcessOnlyNoMetadata] = useState<boolean>(false);
+  const [concurrency, setConcurrency] = useState<number>(3);
   const [configError, setConfigError] = useState<string | null>(null);
+  const [useCachedResults, setUseCachedResults] = useState<boolean>(true);
+  const [cacheStats, setCacheStats] = useState<ResultCacheStats | null>(null);
+  const [cacheVideoId, setCacheVideoId] = useState<string>('');
+  const [isClearingCache, setIsClearingCache] = useState(false);
+  const [isStartingJob, setIsStartingJob] = useState<{ ads: boolean; content: boolean }>({ ads: false, content: false });
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [showAllItems, setShowAllItems] = useState(false);
 
   const addLog = (message: string) => {
-    setLogs(prev => [message, ...prev].slice(0, 10)); // Keep last 100 logs
+    setLogs(prev => [message, ...prev].slice(0, 100)); // Keep last 100 logs
 
     // Check for configuration errors in logs
     if (message.includes('API returned a 400 error') ||
         message.includes('invalid index ID') ||
         message.includes('6836a0b9dad860d6bd2f61e7')) {
-      setConfigError('There appears to be an issue with your index configuration. Please check your .env file and ensure your index IDs are correct.');
+      setConfigError('There appears to be an issue with your index configuration. Please check the index IDs of this workspace.');
     }
 
     // Also check for limit errors
@@ -36,240 +57,121 @@ export default function AdminPage() {
     }
   };
 
-    // Function to fetch all videos from a specific index
-  const fetchAllVideos = async (indexId: string, pageSize: number = 50): Promise<VideoData[]> => {
+  // Jobs run on the server; poll while any of them is still going
+  const { data: jobs = [], refetch: refetchJobs } = useQuery({
+    queryKey: ['jobs'],
+    queryFn: fetchJobs,
+    refetchInterval: (query) => (query.state.data || []).some(isJobActive) ? JOB_POLL_INTERVAL_MS : false,
+  });
+
+  // Latest job per library and type (the list is sorted newest first)
+  const findLatestJob = (indexId: string, type: JobSummary['type']) =>
+    jobs.find(job => job.indexId === indexId && job.type === type);
+  const adsJob = findLatestJob(adsIndexId, 'regenerate-metadata');
+  const contentJob = findLatestJob(contentIndexId, 'regenerate-metadata');
+  const isAdsProcessing = isJobActive(adsJob) || isStartingJob.ads;
+  const isContentProcessing = isJobActive(contentJob) || isStartingJob.content;
+
+  const detailJobId = selectedJobId || jobs[0]?.id;
+  const { data: jobDetail } = useQuery({
+    queryKey: ['job', detailJobId],
+    queryFn: () => fetchJob(detailJobId!),
+    enabled: !!detailJobId,
+    refetchInterval: (query) => isJobActive(query.state.data) ? JOB_POLL_INTERVAL_MS : false,
+  });
+
+  // Start a server-side regeneration job for every video in an index
+  const regenerateAllMetadata = async (indexId: string, isAds: boolean = true) => {
+    const library = isAds ? 'Ads' : 'Content';
+    setIsStartingJob(prev => ({ ...prev, [isAds ? 'ads' : 'content']: true }));
+
     try {
-      // Check if indexId is provided and valid
-      if (!indexId) {
-        addLog(`❌ Error: Index ID is required but not provided`);
-        return [];
-      }
+      addLog(`Starting metadata job for ${library} Library (${indexId})...`);
+      const job = await createJob({
+        indexId,
+        concurrency,
+        options: {
+          useCache: useCachedResults,
+          onlyMissing: processOnlyNoMetadata,
+          limit: isAds ? adsProcessLimit : contentProcessLimit,
+        },
+      });
+
+      addLog(`🚀 Job ${job.id} started with ${job.counts.total} videos from ${library} Library`);
+      setSelectedJobId(job.id);
+      await refetchJobs();
+    } catch (error) {
+      console.error(`Error starting metadata job for ${library} Library:`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      addLog(`❌ Error starting metadata job: ${errorMessage}`);
 
-      // Ensure pageSize doesn't exceed the API limit
-      const validatedPageSize = Math.min(pageSize, 50);
-      if (pageSize > 50) {
-        addLog(`⚠️ Requested page size ${pageSize} exceeds API limit of 50. Using 50 instead.`);
+      // If the error is related to the API, add more specific details
+      if (errorMessage.includes('400')) {
+        addLog(`❌ API returned a 400 error - this might be due to an invalid index ID (${indexId}) or other request parameter`);
       }
+    } finally {
+      setIsStartingJob(prev => ({ ...prev, [isAds ? 'ads' : 'content']: false }));
+    }
+  };
 
-      let allVideos: VideoData[] = [];
-      let currentPage = 1;
-      let hasMorePages = true;
-
-      while (hasMorePages) {
-        addLog(`Fetching page ${currentPage} from index ${indexId}...`);
-        try {
-          const response = await fetchVideos(currentPage, indexId, validatedPageSize);
-
-          if (response && response.data && response.data.length > 0) {
-            allVideos = [...allVideos, ...response.data];
-            addLog(`Fetched ${response.data.length} videos from page ${currentPage}.`);
-
-            // Check if there are more pages
-            if (response.page_info && response.page_info.page < response.page_info.total_page) {
-              currentPage++;
-            } else {
-              hasMorePages = false;
-            }
-          } else {
-            addLog(`No videos found on page ${currentPage} or empty response.`);
-            hasMorePages = false;
-          }
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          addLog(`❌ Error fetching page ${currentPage}: ${errorMessage}`);
-
-          // If we get a 400 error, it might be due to an invalid indexId or other parameter issue
-          if (errorMessage.includes('400')) {
-            addLog(`❌ API returned a 400 error - this might be due to an invalid index ID (${indexId}) or other request parameter`);
-            // Break the loop completely to avoid further attempts with the same parameters
-            hasMorePages = false;
-            break;
-          }
-
-          // For other errors, we still continue to the next page
-          hasMorePages = false;
-        }
-
-        // Add a short delay between requests to avoid overwhelming the API
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
+  // Scan a library for videos without vectors and store their embeddings in a server-side job
+  const handleEmbeddingBackfill = async (indexId: string, name: string) => {
+    try {
+      addLog(`Scanning ${name} for videos without embeddings...`);
+      const { job, coverage } = await startEmbeddingBackfill(indexId, concurrency);
 
-      addLog(`Total videos fetched from ${indexId}: ${allVideos.length}`);
-      return allVideos;
+      if (coverage) {
+        addLog(`${name}: ${coverage.embedded}/${coverage.total} embedded, ${coverage.missing} missing, ${coverage.indexing} still indexing`);
+      }
+      if (job) {
+        addLog(`🚀 Embedding backfill ${job.id} running for ${job.counts.total} videos`);
+        setSelectedJobId(job.id);
+      } else {
+        addLog(`✅ Every indexed video in ${name} already has embeddings`);
+      }
+      await refetchJobs();
     } catch (error) {
-      console.error(`Error fetching videos from ${indexId}:`, error);
-      addLog(`❌ Error fetching videos: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return []; // Return empty array instead of throwing so we can continue with empty results
+      addLog(`❌ Error starting embedding backfill: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
-    // Function to regenerate metadata for a single video
-  const regenerateVideoMetadata = async (video: VideoData, indexId: string): Promise<boolean> => {
+  const handleJobAction = async (jobId: string, action: JobAction) => {
     try {
-      const videoId = video._id;
-      const videoTitle = video.system_metadata?.filename || video.system_metadata?.video_title || 'Unknown';
-      addLog(`Processing video: ${videoId} - ${videoTitle}`);
-
-      try {
-        // Generate new metadata
-        addLog(`Generating metadata for ${videoId}...`);
-        const hashtagText = await generateMetadata(videoId);
-
-        if (hashtagText) {
-          addLog(`Generated metadata for ${videoId}: ${hashtagText}`);
-
-          // Parse hashtags into metadata structure
-          const metadata = parseHashtags(hashtagText);
-
-          // Add delay before updating to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, 300));
-
-          // Update the video's metadata
-          addLog(`Updating metadata for ${videoId}...`);
-          try {
-            const updated = await updateVideoMetadata(videoId, indexId, metadata);
-
-            if (updated) {
-              addLog(`✅ Successfully updated metadata for ${videoId}`);
-              return true;
-            } else {
-              addLog(`❌ Failed to update metadata for ${videoId}`);
-              return false;
-            }
-          } catch (updateError) {
-            addLog(`❌ Error updating metadata for ${videoId}: ${updateError instanceof Error ? updateError.message : 'Unknown error'}`);
-            return false;
-          }
-        } else {
-          addLog(`❌ Failed to generate metadata for ${videoId} - Empty response`);
-          return false;
-        }
-      } catch (genError) {
-        addLog(`❌ Error generating metadata for ${videoId}: ${genError instanceof Error ? genError.message : 'Unknown error'}`);
-        return false;
-      }
+      await updateJob(jobId, action);
+      addLog(`Job ${jobId}: ${action}`);
+      setSelectedJobId(jobId);
+      await refetchJobs();
     } catch (error) {
-      console.error(`Error regenerating metadata for video ${video?._id || 'unknown'}:`, error);
-      addLog(`❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
-      return false;
+      addLog(`❌ Error (${action}) on job ${jobId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
-  // Function to regenerate metadata for all videos in an index
-  const regenerateAllMetadata = async (indexId: string, isAds: boolean = true) => {
+  const loadCacheStats = async () => {
     try {
-      // Set processing state
-      if (isAds) {
-        setIsAdsProcessing(true);
-        setAdsStatus({ processed: 0, total: 0, current: '' });
-      } else {
-        setIsContentProcessing(true);
-        setContentStatus({ processed: 0, total: 0, current: '' });
-      }
-
-      // Fetch all videos
-      const allVideos = await fetchAllVideos(indexId);
-
-      // Filter videos if needed
-      let videosToProcess = [...allVideos];
-
-      // Filter out videos that already have metadata if flag is set
-      if (processOnlyNoMetadata) {
-        videosToProcess = videosToProcess.filter(video =>
-          !video.user_metadata ||
-          Object.keys(video.user_metadata).length === 0 ||
-          (!video.user_metadata.sector &&
-           !video.user_metadata.emotions && !video.user_metadata.brands &&
-           !video.user_metadata.locations)
-        );
-        addLog(`Filtered to ${videosToProcess.length} videos without metadata.`);
-      }
-
-      // Apply limit if set
-      const limit = isAds ? adsProcessLimit : contentProcessLimit;
-      if (limit > 0 && videosToProcess.length > limit) {
-        videosToProcess = videosToProcess.slice(0, limit);
-        addLog(`Limited to ${limit} videos for processing.`);
-      }
-
-      // Update total count
-      if (isAds) {
-        setAdsStatus(prev => ({ ...prev, total: videosToProcess.length }));
-      } else {
-        setContentStatus(prev => ({ ...prev, total: videosToProcess.length }));
-      }
+      setCacheStats(await fetchResultCacheStats());
+    } catch (error) {
+      console.error('Error loading result cache stats:', error);
+    }
+  };
 
-      addLog(`Starting to process ${videosToProcess.length} videos from ${isAds ? 'Ads' : 'Content'} Library...`);
-
-            // Process videos in smaller batches to avoid overwhelming the API
-      const batchSize = 3; // Reduced batch size
-      let processed = 0;
-
-      for (let i = 0; i < videosToProcess.length; i += batchSize) {
-        const batch = videosToProcess.slice(i, i + batchSize);
-
-        // Process batch in parallel, but with a smaller batch size
-        await Promise.all(batch.map(async (video) => {
-          try {
-            // Update current video being processed
-            const videoId = video._id;
-            const videoTitle = video.system_metadata?.filename || video.system_metadata?.video_title || 'Unknown';
-
-            if (isAds) {
-              setAdsStatus(prev => ({ ...prev, current: `${videoTitle} (${videoId})` }));
-            } else {
-              setContentStatus(prev => ({ ...prev, current: `${videoTitle} (${videoId})` }));
-            }
-
-            // Process the video with metadata generation and update
-            await regenerateVideoMetadata(video, indexId);
-
-            // Update processed count regardless of success
-            processed++;
-            if (isAds) {
-              setAdsStatus(prev => ({ ...prev, processed }));
-            } else {
-              setContentStatus(prev => ({ ...prev, processed }));
-            }
-          } catch (error) {
-            console.error(`Error processing video ${video._id}:`, error);
-            addLog(`❌ Error processing video ${video._id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-
-            // Still increment processed count even if there was an error
-            processed++;
-            if (isAds) {
-              setAdsStatus(prev => ({ ...prev, processed }));
-            } else {
-              setContentStatus(prev => ({ ...prev, processed }));
-            }
-          }
-        }));
-
-        // Add a small delay between batches to avoid overwhelming the API
-        addLog(`Completed batch ${Math.floor(i/batchSize) + 1}/${Math.ceil(videosToProcess.length/batchSize)}. Waiting before next batch...`);
-        await new Promise(resolve => setTimeout(resolve, 2000));
-
-        // Delay is already added above
-      }
+  useEffect(() => {
+    loadCacheStats();
+  }, []);
 
-      addLog(`✅ Completed processing ${processed} out of ${videosToProcess.length} videos from ${isAds ? 'Ads' : 'Content'} Library`);
+  // Invalidate cached chapters/analysis results, optionally for one kind or one video
+  const handleClearCache = async (kind?: ResultCacheKind) => {
+    if (isClearingCache) return;
+    setIsClearingCache(true);
 
+    try {
+      const videoId = cacheVideoId.trim() || undefined;
+      const removed = await clearResultCache({ kind, videoId });
+      addLog(`🗑️ Cleared ${removed} cached ${kind || 'chapters/analysis'} result(s)${videoId ? ` for ${videoId}` : ''}`);
+      await loadCacheStats();
     } catch (error) {
-      console.error(`Error regenerating metadata for ${isAds ? 'Ads' : 'Content'} Library:`, error);
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      addLog(`❌ Error regenerating metadata: ${errorMessage}`);
-
-      // If the error is related to the API, add more specific details
-      if (errorMessage.includes('400')) {
-        addLog(`❌ This may be due to an API issue or invalid index ID. Please check your index configurations.`);
-      }
+      addLog(`❌ Error clearing result cache: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
-      // Reset processing state
-      if (isAds) {
-        setIsAdsProcessing(false);
-      } else {
-        setIsContentProcessing(false);
-      }
+      setIsClearingCache(false);
     }
   };
 
@@ -285,10 +187,62 @@ export default function AdminPage() {
     regenerateAllMetadata(contentIndexId, false);
   };
 
-  // No need for custom sidebar, using the updated Sidebar component
+  // Progress bar and pause/resume/cancel controls for a library's latest job
+  const renderJobStatus = (job?: JobSummary) => {
+    if (!job) return null;
+
+    const done = job.counts.succeeded + job.counts.failed + job.counts.cancelled;
+
+    return (
+      <div className="mt-4">
+        <div className="flex justify-between mb-2 text-sm">
+          <span>
+            Job status: <span className="font-medium">{job.status}</span>
+          </span>
+          <span>{done} / {job.counts.total}</span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-2.5">
+          <div
+            className="bg-black h-2.5 rounded-full"
+            style={{ width: `${job.counts.total ? (done / job.counts.total) * 100 : 0}%` }}
+          ></div>
+        </div>
+        <div className="mt-2 text-sm text-gray-500">
+          {job.counts.succeeded} succeeded · {job.counts.failed} failed · {job.counts.running} running · {job.counts.pending} pending
+        </div>
+        <div className="mt-3 flex flex-wrap gap-2 text-sm">
+          {job.status === 'running' && (
+            <button onClick={() => handleJobAction(job.id, 'pause')} className="cursor-pointer py-1 px-3 rounded-lg border border-gray-300 hover:bg-gray-100">
+              Pause
+            </button>
+          )}
+          {job.status === 'paused' && (
+            <button onClick={() => handleJobAction(job.id, 'resume')} className="cursor-pointer py-1 px-3 rounded-lg border border-gray-300 hover:bg-gray-100">
+              Resume
+            </button>
+          )}
+          {isJobActive(job) && (
+            <button onClick={() => handleJobAction(job.id, 'cancel')} className="cursor-pointer py-1 px-3 rounded-lg border border-gray-300 hover:bg-gray-100">
+              Cancel
+            </button>
+          )}
+          {job.counts.failed > 0 && job.status !== 'cancelled' && (
+            <button onClick={() => handleJobAction(job.id, 'retry-failed')} className="cursor-pointer py-1 px-3 rounded-lg border border-gray-300 hover:bg-gray-100">
+              Retry failed
+            </button>
+          )}
+          <button onClick={() => setSelectedJobId(job.id)} className="cursor-pointer py-1 px-3 rounded-lg hover:underline">
+            Details
+          </button>
+        </div>
+      </div>
+    );
+  };
 
   return (
     <div className="flex min-h-screen bg-zinc-100">
+      <Sidebar activeMenu="admin" />
+
       {/* Main content */}
       <div className="flex-1 ml-54 p-8">
         <h1 className="text-2xl font-bold mb-6">Admin Panel</h1>
@@ -370,6 +324,35 @@ export default function AdminPage() {
               <span className="ml-2 text-sm text-gray-700">Process only videos without metadata</span>
             </label>
           </div>
+
+          <div className="mb-4">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={useCachedResults}
+                onChange={(e) => setUseCachedResults(e.target.checked)}
+                disabled={isAdsProcessing || isContentProcessing}
+                className="h-4 w-4 text-black rounded"
+              />
+              <span className="ml-2 text-sm text-gray-700">Use cached analysis results (uncheck to regenerate every video)</span>
+            </label>
+          </div>
+
+          <div className="mb-4 max-w-xs">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Videos processed in parallel
+            </label>
+            <input
+              type="number"
+              min="1"
+              max="10"
+              value={concurrency}
+              onChange={(e) => setConcurrency(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+              disabled={isAdsProcessing || isContentProcessing}
+              className="w-full p-2 border border-gray-300 rounded-md"
+            />
+            <p className="mt-1 text-xs text-gray-500">Jobs run on the server, so closing this tab does not stop them</p>
+          </div>
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
@@ -390,30 +373,14 @@ export default function AdminPage() {
               {isAdsProcessing ? (
                 <div className="flex items-center justify-center">
                   <LoadingSpinner />
-                  <span className="ml-2">Processing...</span>
+                  <span className="ml-2">{adsJob?.status === 'paused' ? 'Paused' : 'Processing...'}</span>
                 </div>
               ) : (
                 'Regenerate Ads Metadata'
               )}
             </button>
 
-            {isAdsProcessing && (
-              <div className="mt-4">
-                <div className="flex justify-between mb-2">
-                  <span>Progress:</span>
-                  <span>{adsStatus.processed} / {adsStatus.total}</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-2.5">
-                  <div
-                    className="bg-black h-2.5 rounded-full"
-                    style={{ width: `${adsStatus.total ? (adsStatus.processed / adsStatus.total) * 100 : 0}%` }}
-                  ></div>
-                </div>
-                <div className="mt-2 text-sm text-gray-500 truncate">
-                  Current: {adsStatus.current}
-                </div>
-              </div>
-            )}
+            {renderJobStatus(adsJob)}
           </div>
 
           {/* Content Library Section */}
@@ -433,33 +400,168 @@ export default function AdminPage() {
               {isContentProcessing ? (
                 <div className="flex items-center justify-center">
                   <LoadingSpinner />
-                  <span className="ml-2">Processing...</span>
+                  <span className="ml-2">{contentJob?.status === 'paused' ? 'Paused' : 'Processing...'}</span>
                 </div>
               ) : (
                 'Regenerate Content Metadata'
               )}
             </button>
 
-            {isContentProcessing && (
-              <div className="mt-4">
-                <div className="flex justify-between mb-2">
-                  <span>Progress:</span>
-                  <span>{contentStatus.processed} / {contentStatus.total}</span>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-2.5">
-                  <div
-                    className="bg-black h-2.5 rounded-full"
-                    style={{ width: `${contentStatus.total ? (contentStatus.processed / contentStatus.total) * 100 : 0}%` }}
-                  ></div>
-                </div>
-                <div className="mt-2 text-sm text-gray-500 truncate">
-                  Current: {contentStatus.current}
+            {renderJobStatus(contentJob)}
+          </div>
+        </div>
+
+        {/* Embeddings Section */}
+        <div className="mt-8 bg-white p-6 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold mb-4">Embeddings</h2>
+          <p className="mb-4 text-gray-600">
+            Find videos without vectors in the vector store and fetch and store their embeddings. Progress is saved after every video.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+            {/* Every index in the registry, including roles beyond ads and content */}
+            {(indexRegistry?.indexes || []).map(({ id: indexId, name }) => {
+              const job = findLatestJob(indexId, 'embedding-backfill');
+              return (
+                <div key={indexId}>
+                  <button
+                    onClick={() => handleEmbeddingBackfill(indexId, name)}
+                    disabled={isJobActive(job)}
+                    className={`cursor-pointer w-full py-3 px-4 rounded-lg font-medium text-white ${
+                      isJobActive(job) ? 'bg-gray-400' : 'bg-black hover:bg-black/60'
+                    }`}
+                  >
+                    {`Backfill ${name} Embeddings`}
+                  </button>
+                  {job?.coverage && (
+                    <p className="mt-2 text-sm text-gray-500">
+                      Last scan: {job.coverage.embedded}/{job.coverage.total} embedded · {job.coverage.missing} missing · {job.coverage.indexing} indexing
+                    </p>
+                  )}
+                  {renderJobStatus(job)}
                 </div>
-              </div>
-            )}
+              );
+            })}
           </div>
         </div>
 
+        {/* Result Cache Section */}
+        <div className="mt-8 bg-white p-6 rounded-lg shadow-md">
+          <h2 className="text-xl font-semibold mb-4">Result Cache</h2>
+          <p className="mb-4 text-gray-600">
+            Generated chapters and metadata are cached per video, prompt version and model. Clear entries after changing prompts outside the app or to force fresh results.
+          </p>
+
+          <div className="flex flex-wrap gap-6 mb-4 text-sm">
+            <span>Total: {cacheStats?.total ?? '-'}</span>
+            <span>Chapters: {cacheStats?.byKind.chapters ?? '-'}</span>
+            <span>Analysis: {cacheStats?.byKind.analysis ?? '-'}</span>
+            {cacheStats?.newest && <span>Last cached: {new Date(cacheStats.newest).toLocaleString()}</span>}
+          </div>
+
+          <div className="flex flex-col md:flex-row gap-4">
+            <input
+              type="text"
+              value={cacheVideoId}
+              onChange={(e) => setCacheVideoId(e.target.value)}
+              disabled={isClearingCache}
+              className="flex-1 p-2 border border-gray-300 rounded-md"
+              placeholder="Video ID (leave empty for all videos)"
+            />
+            <button
+              onClick={() => handleClearCache('chapters')}
+              disabled={isClearingCache}
+              className="cursor-pointer py-2 px-4 rounded-lg font-medium border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+            >
+              Clear Chapters
+            </button>
+            <button
+              onClick={() => handleClearCache('analysis')}
+              disabled={isClearingCache}
+              className="cursor-pointer py-2 px-4 rounded-lg font-medium border border-gray-300 hover:bg-gray-100 disabled:opacity-50"
+            >
+              Clear Analysis
+            </button>
+            <button
+              onClick={() => handleClearCache()}
+              disabled={isClearingCache}
+              className="cursor-pointer py-2 px-4 rounded-lg font-medium text-white bg-black hover:bg-black/60 disabled:bg-gray-400"
+            >
+              Clear All
+            </button>
+          </div>
+        </div>
+
+        {/* Job Details Section */}
+        {jobDetail && (
+          <div className="mt-8 bg-white p-6 rounded-lg shadow-md">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <h2 className="text-xl font-semibold">Job Details</h2>
+              <select
+                value={jobDetail.id}
+                onChange={(e) => setSelectedJobId(e.target.value)}
+                className="p-2 border border-gray-300 rounded-md text-sm"
+              >
+                {jobs.map(job => (
+                  <option key={job.id} value={job.id}>
+                    {getIndexName(job.indexId)} · {job.type === 'embedding-backfill' ? 'Embeddings' : 'Metadata'} · {new Date(job.createdAt).toLocaleString()} · {job.status}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-center justify-between mb-2 text-sm text-gray-600">
+              <span>
+                {jobDetail.counts.succeeded} succeeded · {jobDetail.counts.failed} failed · {jobDetail.counts.running} running · {jobDetail.counts.pending} pending · {jobDetail.counts.cancelled} cancelled
+              </span>
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={showAllItems}
+                  onChange={(e) => setShowAllItems(e.target.checked)}
+                  className="h-4 w-4 text-black rounded"
+                />
+                <span className="ml-2">Show all videos</span>
+              </label>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto border border-gray-200 rounded-lg mb-4">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="text-left p-2">Video</th>
+                    <th className="text-left p-2">Status</th>
+                    <th className="text-left p-2">Attempts</th>
+                    <th className="text-left p-2">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {jobDetail.items
+                    .filter(item => showAllItems || item.status === 'failed' || item.status === 'running')
+                    .map(item => (
+                      <tr key={item.videoId} className="border-t border-gray-100">
+                        <td className="p-2 truncate max-w-[240px]" title={item.videoId}>{item.title || item.videoId}</td>
+                        <td className={`p-2 ${ITEM_STATUS_STYLES[item.status]}`}>{item.status}</td>
+                        <td className="p-2">{item.attempts}</td>
+                        <td className="p-2 text-red-600 break-words">{item.error}</td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="bg-gray-100 p-4 rounded-lg max-h-64 overflow-y-auto font-mono text-sm">
+              {jobDetail.logs.map((log, index) => (
+                <div key={index} className="mb-1">{log}</div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <WorkspaceManager />
+
+        <UserManager />
+
         {/* Logs Section */}
         <div className="mt-8 bg-white p-6 rounded-lg shadow-md">
           <h2 className="text-xl font-semibold mb-4">Process Logs</h2>
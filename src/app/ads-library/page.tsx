@@ -6,22 +6,25 @@ import { useInView } from 'react-intersection-observer';
 import Sidebar from '@/components/Sidebar';
 import SearchBar from '@/components/SearchBar';
 import ActionButtons from '@/components/ActionButtons';
+import VideoUploader, { useIndexingUploads } from '@/components/VideoUploader';
 import ContentItem from '@/components/ContentItem';
 import SearchResults from '@/components/SearchResults';
 
 import LoadingSpinner from '../../components/LoadingSpinner';
-import { AdItemType, VideoData, Tag } from '@/types';
+import { AdItemType, VideoData, Tag, Taxonomy } from '@/types';
 import {
   fetchVideos,
   fetchIndex,
   generateMetadata,
-  parseHashtags,
   updateVideoMetadata,
   convertMetadataToTags,
   fetchVideoDetails,
 
 } from '@/hooks/apiHooks';
 import FilterMenu, { ActiveFilters, useFilterState } from '@/components/FilterMenu';
+import { mapUserMetadataToItem } from '@/utils/taxonomy';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
+import { generatedMetadataToFields } from '@/utils/metadataSchema';
 
 // Create a client
 const queryClient = new QueryClient({
@@ -33,25 +36,20 @@ const queryClient = new QueryClient({
   },
 });
 
-// Content Index ID from .env
-const adsIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID || 'default-ads-index';
-
-// Column definitions
-const COLUMNS = [
+// Column definitions: the video, then one column per category of the workspace's tagging taxonomy
+const getColumns = (taxonomy: Taxonomy) => [
   { id: 'video', label: 'Video', width: '280px' },
-  { id: 'topic_category', label: 'Topic Category', width: '110px' },
-  { id: 'emotions', label: 'Emotions', width: '110px' },
-  { id: 'brands', label: 'Brands', width: '110px' },
-  { id: 'demo_gender', label: 'Target Demo\n- Gender', width: '110px' },
-  { id: 'demo_age', label: 'Target Demo\n- Age', width: '110px' },
-  { id: 'location', label: 'Location', width: '110px' },
-  { id: 'source', label: 'Source', width: '250px' },
+  ...taxonomy.categories.map(category => ({ id: category.id, label: category.label, width: category.width || '110px' })),
 ];
 
 // Limit for concurrent metadata processing
 const CONCURRENCY_LIMIT = 10;
 
 export default function AdsLibrary() {
+  const { workspace } = useWorkspace();
+  const adsIndexId = workspace.adsIndexId;
+  const taxonomy = workspace.taxonomy;
+  const columns = useMemo(() => getColumns(taxonomy), [taxonomy]);
   const [searchSubmitted, setSearchSubmitted] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [processingMetadata, setProcessingMetadata] = useState(false);
@@ -117,6 +115,11 @@ export default function AdsLibrary() {
     enabled: !!adsIndexId,
   });
 
+  // Uploads in progress; refetch the list once a new video is indexed and processed
+  const { indexingItems, startUpload } = useIndexingUploads(adsIndexId, () => {
+    refetch();
+  });
+
   // Intersection Observer for infinite scroll
   const { ref: observerRef, inView } = useInView({
     threshold: 0.1,
@@ -133,7 +136,7 @@ export default function AdsLibrary() {
   }, [inView, hasNextPage, isFetchingNextPage, isFiltering, fetchNextPage]);
 
   // Convert API response to AdItemType
-  const convertToAdItem = (video: VideoData): AdItemType => {
+  const convertToAdItem = useCallback((video: VideoData): AdItemType => {
     let tags: Tag[] = [];
 
     const isStillIndexing = false;
@@ -145,7 +148,7 @@ export default function AdsLibrary() {
       tags = video.metadata.tags;
     }
     else if (video.user_metadata) {
-      tags = convertMetadataToTags(video.user_metadata);
+      tags = convertMetadataToTags(video.user_metadata, taxonomy);
     }
 
     // Utility function to extract specific demographic types
@@ -170,6 +173,8 @@ export default function AdsLibrary() {
     };
 
     const metadata = (!isStillIndexing && video.user_metadata) ? {
+      // custom taxonomy categories first, then the built-in fields with their legacy fallbacks
+      ...mapUserMetadataToItem(video.user_metadata, taxonomy),
       source: video.user_metadata.source as string,
       topic_category: video.user_metadata.sector as string,
       emotions: video.user_metadata.emotions as string,
@@ -186,6 +191,7 @@ export default function AdsLibrary() {
 
     return {
       id: video._id,
+      updatedAt: video.updated_at,
       thumbnailUrl: video.hls?.thumbnail_urls?.[0] || '@videoFallback.jpg',
       title: video.system_metadata?.video_title || video.system_metadata?.filename || 'Untitled Video',
       videoUrl: video.hls?.video_url || '',
@@ -194,7 +200,7 @@ export default function AdsLibrary() {
       isIndexing: isStillIndexing,
       status: undefined
     };
-  };
+  }, [taxonomy]);
 
   // Function to refresh metadata for a specific video
   const refreshVideoMetadata = useCallback(async (videoId: string) => {
@@ -229,6 +235,7 @@ export default function AdsLibrary() {
               };
 
               const updatedMetadata = updatedVideo.user_metadata ? {
+                ...mapUserMetadataToItem(updatedVideo.user_metadata, taxonomy),
                 source: updatedVideo.user_metadata.source || '',
                 topic_category: updatedVideo.user_metadata.sector || '',
                 emotions: updatedVideo.user_metadata.emotions || '',
@@ -243,12 +250,13 @@ export default function AdsLibrary() {
                         extractDemographics(updatedVideo.user_metadata.demographics as string, 'age') : ''),
               } : undefined;
 
-              const updatedTags = updatedVideo.user_metadata ? convertMetadataToTags(updatedVideo.user_metadata) : [];
+              const updatedTags = updatedVideo.user_metadata ? convertMetadataToTags(updatedVideo.user_metadata, taxonomy) : [];
 
               const updatedItem = {
                 ...item,
                 tags: updatedTags,
-                metadata: updatedMetadata
+                metadata: updatedMetadata,
+                updatedAt: updatedVideo.updated_at
               };
 
               return updatedItem;
@@ -263,7 +271,7 @@ export default function AdsLibrary() {
         refetch();
       }
     }
-  }, [refetch]);
+  }, [adsIndexId, refetch, taxonomy]);
 
   // Process metadata for a single video
   const processVideoMetadataSingle = useCallback(async (video: VideoData): Promise<boolean> => {
@@ -284,12 +292,12 @@ export default function AdsLibrary() {
 
         setVideosInProcessing(prev => [...prev, videoId]);
 
-        const hashtagText = await generateMetadata(videoId);
+        const generatedMetadata = await generateMetadata(videoId, adsIndexId);
 
-        if (hashtagText) {
-          const metadata = parseHashtags(hashtagText);
+        if (generatedMetadata) {
+          const metadata = generatedMetadataToFields(generatedMetadata, taxonomy);
 
-          await updateVideoMetadata(videoId, adsIndexId, metadata);
+          const { updatedAt } = await updateVideoMetadata(videoId, adsIndexId, metadata);
 
           setAdItems(prevItems => {
             return prevItems.map(item => {
@@ -297,7 +305,8 @@ export default function AdsLibrary() {
                 return {
                   ...item,
                   metadata: metadata,
-                  tags: convertMetadataToTags(metadata),
+                  updatedAt,
+                  tags: convertMetadataToTags(metadata, taxonomy),
                   status: item.isIndexing ? item.status : undefined
                 };
               }
@@ -320,7 +329,7 @@ export default function AdsLibrary() {
       setVideosInProcessing(prev => prev.filter(id => id !== videoId));
       return false;
     }
-  }, [processedVideoIds, videosInProcessing]);
+  }, [adsIndexId, processedVideoIds, taxonomy, videosInProcessing]);
 
   // Function to filter videos that need metadata processing
   const filterVideosNeedingMetadata = (videos: VideoData[], processedIds: Set<string>, inProcessingIds: string[]) => {
@@ -397,7 +406,7 @@ export default function AdsLibrary() {
       // Re-enable metadata processing after completion
       setTimeout(() => setSkipMetadataProcessing(false), 2000);
     }
-        }, [processVideoMetadataSingle, skipMetadataProcessing, processedVideoIds, videosInProcessing]);
+        }, [adsIndexId, processVideoMetadataSingle, skipMetadataProcessing, processedVideoIds, videosInProcessing]);
 
   // Update ContentItems array whenever video data changes
   useEffect(() => {
@@ -439,7 +448,7 @@ export default function AdsLibrary() {
         }, 100);
       }
     }
-  }, [videosData, processingMetadata, processVideoMetadata, skipMetadataProcessing, processedVideoIds, videosInProcessing]);
+  }, [videosData, processingMetadata, processVideoMetadata, skipMetadataProcessing, processedVideoIds, videosInProcessing, convertToAdItem]);
 
   // Search handler
   const handleSearch = (query: string) => {
@@ -460,8 +469,10 @@ export default function AdsLibrary() {
 
 
   const combinedItems = useMemo(() => {
-    return adItems;
-  }, [adItems]);
+    // Show uploads first, dropping any that already came back in the video list
+    const loadedIds = new Set(adItems.map(item => item.id));
+    return [...indexingItems.filter(item => !loadedIds.has(item.id)), ...adItems];
+  }, [adItems, indexingItems]);
 
   const displayItems = useMemo(() => {
     if (isFiltering) {
@@ -516,6 +527,7 @@ export default function AdsLibrary() {
                         <ActionButtons
                           onFilter={handleFilter}
                         />
+                        <VideoUploader onUpload={startUpload} />
                         {getTotalActiveFilterCount() > 0 && (
                           <ActiveFilters
                             activeFilters={activeFilters}
@@ -563,7 +575,7 @@ export default function AdsLibrary() {
               {!searchSubmitted && (
                 <div className="bg-zinc-100 w-full">
                   <div className="flex border-b pb-3 w-full overflow-x-auto px-4">
-                    {COLUMNS.map(column => (
+                    {columns.map(column => (
                       <div
                         key={column.id}
                         className="font-medium text-center text-md flex-shrink-0"
@@ -636,7 +648,7 @@ export default function AdsLibrary() {
                                 </div>
                               </div>
                               {/* Empty columns for consistency with ContentItem layout */}
-                              {COLUMNS.slice(1).map((column, colIndex) => (
+                              {columns.slice(1).map((column, colIndex) => (
                                 <div
                                   key={`${item.id}-${column.id}-${colIndex}`}
                                   className="flex-shrink-0 text-center flex items-center justify-center"
@@ -663,6 +675,7 @@ export default function AdsLibrary() {
                               videoUrl={item.videoUrl}
                               tags={item.tags}
                               metadata={item.metadata}
+                              updatedAt={item.updatedAt}
                               isLoadingMetadata={videosInProcessing.includes(item.id)}
                               onMetadataUpdated={() => {
                                 // Refresh the content after user updates metadata
@@ -1,116 +1,62 @@
 import { NextResponse } from 'next/server';
+import { getErrorMessage, getErrorStatus, getTwelveLabsClient } from '@/utils/twelvelabs';
+import { generateVideoMetadata, MetadataValidationError } from '@/utils/metadataGeneration';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
 
-const API_KEY = process.env.TWELVELABS_API_KEY;
-const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
-
-export const maxDuration = 60;
+// Each attempt can take up to a minute
+export const maxDuration = 180;
 
 export async function GET(req: Request) {
+    const denied = await checkRole(req, 'viewer');
+    if (denied) return denied;
     const { searchParams } = new URL(req.url);
     const videoId = searchParams.get("videoId");
-    const prompt =
-    `You are a marketing assistant specialized in generating hashtags for video content.
-
-Based on the input video metadata, generate a list of hashtags labeled by category.
-
-**Output Format:**
-Each line must be in the format:
-[Category]: [Hashtag]
-(e.g., sector: #beauty)
-
-
-**Allowed Values:**
-
-Gender: Male, Female
-Age: 18-25, 25-34, 35-44, 45-54, 55+
-Topic: Beauty, Fashion, Tech, Travel, CPG, Food & Bev, Retail, Other
-Emotions: sorrow, happiness, laughter, anger, empathy, fear, love, trust, sadness, belonging, guilt, compassion, pride
-
-**Instructions:**
-
-1. Use only the values provided in Allowed Values.
-2. Do not invent new values except for Brands and Location. Only use values from the Allowed Values.
-3. Output must contain at least one hashtag for each of the following categories:
-  - Gender
-  - Age
-  - Topic
-  - Emotions
-  - Location
-  - Brands
-
-4. Do not output any explanations or category names—only return the final hashtag list.
-
-**Output Example:**
-
-Gender: female
-Age: 25-34
-Topic: beauty
-Emotions: happiness
-Location: Los Angeles
-Brands: Fenty Beauty
-
----
-`
+    const indexId = searchParams.get("indexId");
+    // Tags follow the workspace taxonomy
+    const workspace = await getRouteWorkspace(req, [indexId]);
+    if (workspace instanceof NextResponse) return workspace;
+    const refresh = searchParams.get("refresh") === "true";
+    // Regenerating overwrites the stored metadata, so it needs write access
+    if (refresh) {
+      const refreshDenied = await checkRole(req, 'editor');
+      if (refreshDenied) return refreshDenied;
+    }
 
-    if (!videoId) {
+    if (!videoId || !indexId) {
       return NextResponse.json(
-        { error: "videoId is required" },
+        { error: "videoId and indexId are required" },
         { status: 400 }
       );
     }
 
-    if (!API_KEY || !TWELVELABS_API_BASE_URL) {
-      console.error('Missing API key or base URL in environment variables');
+    if (!getTwelveLabsClient().isConfigured()) {
+      console.error('Missing API key in environment variables');
       return NextResponse.json(
-        { error: "Missing API key or base URL in environment variables" },
+        { error: "Missing API key in environment variables" },
         { status: 500 }
       );
     }
 
-    const url = `${TWELVELABS_API_BASE_URL}/analyze`;
-    const options = {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-            "x-api-key": API_KEY,
-        },
-        body: JSON.stringify({
-            prompt: prompt,
-            video_id: videoId,
-            stream: false
-        })
-    };
-
     try {
-      const response = await fetch(url, options);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`TwelveLabs API error (${response.status}): ${errorText}`);
+      // Fails (404) unless the video is in the workspace index, before anything is generated or read from the cache
+      await getTwelveLabsClient().videos.get(indexId, videoId);
 
-        // Return the actual error from the API
+      const response = await generateVideoMetadata(videoId, indexId, { refresh, taxonomy: workspace.taxonomy });
+      return NextResponse.json(response, { status: 200 });
+    } catch (error) {
+      if (error instanceof MetadataValidationError) {
         return NextResponse.json(
-          { error: `TwelveLabs API error (${response.status}): ${errorText}` },
-          { status: response.status }
+          { error: error.message, details: error.errors, output: error.output },
+          { status: 422 }
         );
       }
 
-      const responseText = await response.text();
-
-      if (!responseText) {
-        throw new Error("Empty response from API");
-      }
-
-      const data = JSON.parse(responseText);
-
-      // Return the complete data object instead of just data.data
-      return NextResponse.json(data, { status: 200 });
-    } catch (error) {
       console.error("Error in GET function:", error);
+      // Return the actual error from the API
       return NextResponse.json(
-        { error: error instanceof Error ? error.message : "Internal Server Error" },
-        { status: 500 }
+        { error: getErrorMessage(error) },
+        { status: getErrorStatus(error) }
       );
     }
 }
-
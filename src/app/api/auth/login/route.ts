@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { AuthError, getUserService, startSession } from '@/utils/auth';
+
+// POST { email, password } signs a local account in and sets the session cookie
+export async function POST(req: Request) {
+  try {
+    const { email, password } = await req.json().catch(() => ({})) as { email?: string; password?: string };
+    if (!email || !password) {
+      return NextResponse.json({ error: 'email and password are required' }, { status: 400 });
+    }
+
+    const user = await getUserService().authenticate(email, password);
+    return startSession(NextResponse.json({ user }), user);
+  } catch (error) {
+    if (error instanceof AuthError && error.status < 500) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('❌ Error signing in:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,6 @@
+import { NextResponse } from 'next/server';
+import { endSession } from '@/utils/auth';
+
+export async function POST() {
+  return endSession(NextResponse.json({ success: true }));
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { AuthStatus } from '@/types';
+import { getSessionUser, getUserService } from '@/utils/auth';
+import { getOidcConfig } from '@/utils/oidc';
+
+// The signed-in user (null when signed out) and the sign-in options the login page offers
+export async function GET(req: Request) {
+  try {
+    const status: AuthStatus = {
+      user: await getSessionUser(req),
+      oidcEnabled: !!getOidcConfig(),
+      needsSetup: await getUserService().needsSetup(),
+    };
+    return NextResponse.json(status);
+  } catch (error) {
+    console.error('❌ Error reading session:', error);
+    return NextResponse.json(
+      { error: 'Failed to read session', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
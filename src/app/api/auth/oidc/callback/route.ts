@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { AuthError, getCookieOptions, getRequestCookie, getUserService, startSession } from '@/utils/auth';
+import { completeOidcLogin, OIDC_STATE_COOKIE } from '@/utils/oidc';
+
+// The identity provider sends the browser back here with ?code=&state=
+export async function GET(req: Request) {
+  const { searchParams, origin } = new URL(req.url);
+
+  try {
+    const providerError = searchParams.get('error');
+    if (providerError) {
+      throw new AuthError(searchParams.get('error_description') || providerError, 401);
+    }
+
+    const { email, name, role, next } = await completeOidcLogin({
+      origin,
+      code: searchParams.get('code'),
+      state: searchParams.get('state'),
+      stateCookie: getRequestCookie(req, OIDC_STATE_COOKIE),
+    });
+    const user = await getUserService().signInExternal({ email, name, role });
+
+    const response = startSession(NextResponse.redirect(`${origin}${next}`), user);
+    response.cookies.set(OIDC_STATE_COOKIE, '', getCookieOptions(0));
+    return response;
+  } catch (error) {
+    if (!(error instanceof AuthError)) {
+      console.error('❌ Error completing OIDC sign-in:', error);
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.redirect(`${origin}/login?error=${encodeURIComponent(message)}`);
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { AuthError, getCookieOptions } from '@/utils/auth';
+import { createOidcLogin, OIDC_STATE_COOKIE, OIDC_STATE_TTL_SEC } from '@/utils/oidc';
+
+// GET [?next=/path] redirects to the identity provider
+export async function GET(req: Request) {
+  const { searchParams, origin } = new URL(req.url);
+
+  try {
+    const { url, stateCookie } = await createOidcLogin(origin, searchParams.get('next') || '/');
+    const response = NextResponse.redirect(url);
+    response.cookies.set(OIDC_STATE_COOKIE, stateCookie, getCookieOptions(OIDC_STATE_TTL_SEC));
+    return response;
+  } catch (error) {
+    if (!(error instanceof AuthError)) {
+      console.error('❌ Error starting OIDC sign-in:', error);
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    return NextResponse.redirect(`${origin}/login?error=${encodeURIComponent(message)}`);
+  }
+}
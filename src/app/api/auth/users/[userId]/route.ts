@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { UserInput } from '@/types';
+import { AuthError, checkRole, getUserService } from '@/utils/auth';
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+// PUT { name?, role?, password? } updates an account; email and provider stay fixed
+export async function PUT(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+  const { userId } = await context.params;
+
+  try {
+    const body = await req.json() as UserInput;
+    const user = await getUserService().update(userId, { name: body.name, role: body.role, password: body.password });
+    return NextResponse.json({ user });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`❌ Error updating user ${userId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to update user', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+  const { userId } = await context.params;
+
+  try {
+    await getUserService().remove(userId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`❌ Error removing user ${userId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to remove user', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { UserInput } from '@/types';
+import { AuthError, checkRole, getUserService } from '@/utils/auth';
+
+export async function GET(req: Request) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+
+  try {
+    const users = await getUserService().list();
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error('❌ Error listing users:', error);
+    return NextResponse.json(
+      { error: 'Failed to list users', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { email, password, name?, role? } creates a local account
+export async function POST(req: Request) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+
+  try {
+    const body = await req.json() as UserInput;
+    const user = await getUserService().create(body);
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('❌ Error creating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to create user', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { BreakPlan } from '@/types';
+import { getBreakPlan, removeBreakPlan, saveBreakPlan } from '@/utils/breakPlanStore';
+import { DEFAULT_BREAK_PLAN_RULES, sortBreaks, validateBreakPlan, validateBreakPlanFields } from '@/utils/breakPlan';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+type RouteContext = { params: Promise<{ videoId: string }> };
+
+// Break plans belong to the request's workspace
+export async function GET(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const { videoId } = await context.params;
+
+  try {
+    const plan = await getBreakPlan(workspace.id, videoId);
+    return NextResponse.json({ plan: plan || null });
+  } catch (error) {
+    console.error(`❌ Error loading break plan for ${videoId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to load break plan', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'editor');
+  if (denied) return denied;
+
+  const { videoId } = await context.params;
+
+  try {
+    const body: unknown = await req.json().catch(() => null);
+
+    const fieldErrors = validateBreakPlanFields(body);
+    if (fieldErrors.length > 0) {
+      return NextResponse.json({ error: 'Invalid break plan', details: fieldErrors }, { status: 400 });
+    }
+    const input = body as BreakPlan;
+    const workspace = await getRouteWorkspace(req, [input.indexId]);
+    if (workspace instanceof NextResponse) return workspace;
+
+    // Only the known fields are stored
+    const breaks = input.breaks.map(({ id, position, time, chapterIndex, ads }) => ({
+      id,
+      position,
+      time,
+      chapterIndex,
+      ads: ads.map(({ adVideoId, title }) => ({ adVideoId, title })),
+    }));
+    const plan: BreakPlan = {
+      videoId,
+      indexId: input.indexId,
+      duration: input.duration,
+      rules: {
+        minSpacingSec: input.rules?.minSpacingSec ?? DEFAULT_BREAK_PLAN_RULES.minSpacingSec,
+        maxPodSize: input.rules?.maxPodSize ?? DEFAULT_BREAK_PLAN_RULES.maxPodSize,
+      },
+      breaks: sortBreaks(breaks, input.duration),
+      updatedAt: new Date().toISOString(),
+    };
+
+    const errors = validateBreakPlan(plan);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid break plan', details: errors }, { status: 400 });
+    }
+
+    await saveBreakPlan(workspace.id, plan);
+    return NextResponse.json({ plan });
+  } catch (error) {
+    console.error(`❌ Error saving break plan for ${videoId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to save break plan', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'editor');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const { videoId } = await context.params;
+
+  try {
+    const deleted = await removeBreakPlan(workspace.id, videoId);
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error(`❌ Error deleting break plan for ${videoId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to delete break plan', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { RankingOptions } from '@/types';
+import { CampaignError, getCampaignService } from '@/utils/campaigns';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+type RouteContext = { params: Promise<{ campaignId: string }> };
+
+// Every ad in the campaign runs a full match against the content index
+export const maxDuration = 300;
+
+// POST { method?, weights?, adsIndexId?, contentIndexId? } matches each ad and stores the shortlist on the campaign.
+// The index ids default to the workspace's.
+export async function POST(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'editor');
+  if (denied) return denied;
+
+  const { campaignId } = await context.params;
+
+  try {
+    const body = await req.json().catch(() => ({})) as RankingOptions & { adsIndexId?: string; contentIndexId?: string };
+    const workspace = await getRouteWorkspace(req, [body.adsIndexId, body.contentIndexId]);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const adsIndexId = body.adsIndexId || workspace.adsIndexId;
+    const contentIndexId = body.contentIndexId || workspace.contentIndexId;
+
+    if (!adsIndexId || !contentIndexId) {
+      return NextResponse.json({ error: 'adsIndexId and contentIndexId are required' }, { status: 400 });
+    }
+
+    console.log(`🚀 Running contextual analysis for campaign ${campaignId}`);
+    const campaign = await getCampaignService().runAnalysis(campaignId, workspace, {
+      adsIndexId,
+      contentIndexId,
+      method: body.method,
+      weights: body.weights,
+    });
+    return NextResponse.json({ campaign });
+  } catch (error) {
+    if (!(error instanceof CampaignError)) {
+      console.error(`❌ Error analyzing campaign ${campaignId}:`, error);
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run campaign analysis' },
+      { status: error instanceof CampaignError ? error.status : 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import { CampaignInput } from '@/types';
+import { CampaignError, getCampaignService } from '@/utils/campaigns';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+type RouteContext = { params: Promise<{ campaignId: string }> };
+
+const errorResponse = (error: unknown, fallback: string) => {
+  if (!(error instanceof CampaignError)) {
+    console.error(`❌ ${fallback}:`, error);
+  }
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : fallback },
+    { status: error instanceof CampaignError ? error.status : 500 }
+  );
+};
+
+// Full campaign, including the shortlist from its latest analysis
+export async function GET(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const { campaignId } = await context.params;
+
+  try {
+    const campaign = await getCampaignService().get(campaignId, workspace.id);
+    return NextResponse.json({ campaign });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load campaign');
+  }
+}
+
+// Fields left out of the body keep their current values
+export async function PUT(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'editor');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const { campaignId } = await context.params;
+
+  try {
+    const body = await req.json() as CampaignInput;
+    const campaign = await getCampaignService().update(campaignId, body, workspace);
+    return NextResponse.json({ campaign });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update campaign');
+  }
+}
+
+export async function DELETE(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'editor');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const { campaignId } = await context.params;
+
+  try {
+    await getCampaignService().remove(campaignId, workspace.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'Failed to delete campaign');
+  }
+}
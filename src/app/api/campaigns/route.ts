@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { CampaignInput } from '@/types';
+import { CampaignError, getCampaignService } from '@/utils/campaigns';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+export async function GET(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  try {
+    const campaigns = await getCampaignService().list(workspace.id);
+    return NextResponse.json({ campaigns });
+  } catch (error) {
+    console.error('❌ Error listing campaigns:', error);
+    return NextResponse.json(
+      { error: 'Failed to list campaigns', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  const denied = await checkRole(req, 'editor');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  try {
+    const body = await req.json() as CampaignInput;
+    const campaign = await getCampaignService().create(body, workspace);
+    return NextResponse.json({ campaign }, { status: 201 });
+  } catch (error) {
+    if (!(error instanceof CampaignError)) {
+      console.error('❌ Error creating campaign:', error);
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create campaign' },
+      { status: error instanceof CampaignError ? error.status : 500 }
+    );
+  }
+}
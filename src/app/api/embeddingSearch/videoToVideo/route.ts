@@ -1,85 +1,27 @@
 import { NextResponse } from 'next/server';
-import { getPineconeIndex } from '@/utils/pinecone';
-
-type QueryMatch = {
-  id: string;
-  score?: number;
-  metadata?: {
-    tl_video_id?: string;
-    tl_index_id?: string;
-    scope?: string;
-    [key: string]: unknown;
-  };
-  values?: number[];
-  resultType?: string;
-};
+import { searchIndexByVideo } from '@/utils/embeddingSearch';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
 
 export async function POST(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+
   try {
     const { videoId, indexId } = await req.json();
-    const index = getPineconeIndex();
-
-    // First, get the original video's clip embedding
-    const originalClipQuery = await index.query({
-      filter: {
-        tl_video_id: videoId,
-        scope: 'clip'
-      },
-      topK: 100,
-      includeMetadata: true,
-      includeValues: true,
-      vector: new Array(1024).fill(0)
-    });
-
-    // If we found matching clips, search for similar ads for each match
-    const similarResults = [];
-    if (originalClipQuery.matches.length > 0) {
-      for (const originalClip of originalClipQuery.matches) {
-        const vectorValues = originalClip.values || new Array(1024).fill(0);
-        const queryResult = await index.query({
-          vector: vectorValues,
-          filter: {
-            tl_index_id: indexId,
-            scope: 'clip'
-          },
-          topK: 5,
-          includeMetadata: true,
-        });
-        similarResults.push(queryResult);
-      }
-    }
+    const workspace = await getRouteWorkspace(req, [indexId]);
+    if (workspace instanceof NextResponse) return workspace;
 
-    // Merge and organize results - combine all matches from all results
-    let allResults: QueryMatch[] = [];
+    const { results, timing } = await searchIndexByVideo(videoId, indexId, workspace.vectorNamespace);
 
-    // Process each result in the similarResults array
-    for (const result of similarResults) {
-      if (result && 'matches' in result && Array.isArray(result.matches)) {
-        const formattedMatches = result.matches.map(match => ({
-          ...match,
-          resultType: 'clip'
-        }));
-        allResults = [...allResults, ...formattedMatches];
-      }
-    }
+    console.log(`⏱️ Video search for ${videoId}: ${timing.sourceClips} clips, ${timing.queries} queries, ${timing.totalMs}ms`);
 
-    // Remove duplicates (keep only the highest score for each tlVideoId)
-    const uniqueResults = Object.values(
-      allResults.reduce((acc: Record<string, typeof current>, current) => {
-        const tlVideoId = current.metadata?.tl_video_id as string;
-        if (!tlVideoId) return acc;
-
-        if (!acc[tlVideoId] || (acc[tlVideoId].score ?? 0) < (current.score ?? 0)) {
-          acc[tlVideoId] = current;
-        }
-        return acc;
-      }, {})
-    );
-    
-    // Sort by score
-    const sortedResults = uniqueResults.sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
-
-    return NextResponse.json(sortedResults);
+    // Timing goes in a Server-Timing header so the body stays a plain result list
+    return NextResponse.json(results, {
+      headers: {
+        'Server-Timing': `fetch;dur=${timing.fetchMs}, query;dur=${timing.queryMs}, total;dur=${timing.totalMs}`,
+      },
+    });
 
   } catch (error) {
     console.error('Error in embedding search:', error);
@@ -88,4 +30,4 @@ export async function POST(req: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
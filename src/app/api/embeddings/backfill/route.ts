@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { EmbeddingBackfillStatus } from '@/types';
+import { getJobRunner, summarizeJob } from '@/utils/jobRunner';
+import { scanEmbeddingCoverage } from '@/utils/videoEmbeddings';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+// Scanning a large index (video list + bulk vector lookups) can take a while
+export const maxDuration = 60;
+
+// GET /api/embeddings/backfill?indexId=... - latest backfill job for the index (cheap, meant for polling)
+export async function GET(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+
+  const { searchParams } = new URL(req.url);
+  const indexId = searchParams.get('indexId');
+
+  if (!indexId) {
+    return NextResponse.json({ error: 'indexId is required' }, { status: 400 });
+  }
+  const workspace = await getRouteWorkspace(req, [indexId]);
+  if (workspace instanceof NextResponse) return workspace;
+
+  try {
+    const job = await getJobRunner().latest('embedding-backfill', indexId, workspace.id);
+    const response: EmbeddingBackfillStatus = { job: job ? summarizeJob(job) : null, coverage: job?.coverage };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error(`❌ Error loading embedding backfill for ${indexId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to load embedding backfill', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { indexId, concurrency? } - scan the index and start a backfill job for videos without vectors in the
+// workspace's namespace.
+// Returns the running job instead when one is already active, and no job when nothing is missing.
+export async function POST(req: Request) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+
+  try {
+    const { indexId, concurrency } = await req.json() as { indexId?: string; concurrency?: number };
+
+    if (!indexId) {
+      return NextResponse.json({ error: 'indexId is required' }, { status: 400 });
+    }
+    const workspace = await getRouteWorkspace(req, [indexId]);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const runner = getJobRunner();
+    const active = await runner.findActive('embedding-backfill', indexId, workspace.id);
+    if (active) {
+      const response: EmbeddingBackfillStatus = { job: summarizeJob(active), coverage: active.coverage };
+      return NextResponse.json(response);
+    }
+
+    const { coverage, missingVideos } = await scanEmbeddingCoverage(indexId, workspace.vectorNamespace);
+
+    if (missingVideos.length === 0) {
+      const response: EmbeddingBackfillStatus = { job: null, coverage };
+      return NextResponse.json(response);
+    }
+
+    const job = await runner.create(
+      { type: 'embedding-backfill', indexId, concurrency },
+      workspace,
+      { videos: missingVideos, coverage }
+    );
+    console.log(`🚀 Started embedding backfill ${job.id} for ${missingVideos.length} of ${coverage.total} videos in ${indexId}`);
+
+    const response: EmbeddingBackfillStatus = { job: summarizeJob(job), coverage };
+    return NextResponse.json(response, { status: 201 });
+  } catch (error) {
+    console.error('❌ Error starting embedding backfill:', error);
+    return NextResponse.json(
+      { error: 'Failed to start embedding backfill', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { MediaPlanFormat } from '@/types';
+import { CampaignError, getCampaignService } from '@/utils/campaigns';
+import { buildCampaignMediaPlan, buildContentVmap, mediaPlanToCsv, MediaPlanError } from '@/utils/mediaPlan';
+import { createTrackingOptions } from '@/utils/vastAds';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+// Listing the content index and loading every ad of a pod can take a while
+export const maxDuration = 60;
+
+const EXPORT_FORMATS: MediaPlanFormat[] = ['json', 'csv', 'vmap'];
+
+const toFileName = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'export';
+
+const attachment = (fileName: string) => ({ 'Content-Disposition': `attachment; filename="${fileName}"` });
+
+// GET ?format=json|csv&campaignId=...            media plan of a campaign's shortlist
+// GET ?format=vmap&contentVideoId=...[&campaignId] ad breaks of a content video for the ad server
+// Index ids default to the workspace's.
+export async function GET(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+
+  const { searchParams } = new URL(req.url);
+  const workspace = await getRouteWorkspace(req, [searchParams.get('adsIndexId'), searchParams.get('contentIndexId')]);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const format = (searchParams.get('format') || 'json') as MediaPlanFormat;
+  const campaignId = searchParams.get('campaignId');
+  const contentVideoId = searchParams.get('contentVideoId');
+  const adsIndexId = searchParams.get('adsIndexId') || workspace.adsIndexId;
+  const contentIndexId = searchParams.get('contentIndexId') || workspace.contentIndexId;
+
+  if (!EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json({ error: `format must be one of: ${EXPORT_FORMATS.join(', ')}` }, { status: 400 });
+  }
+  if (!adsIndexId || !contentIndexId) {
+    return NextResponse.json({ error: 'adsIndexId and contentIndexId are required' }, { status: 400 });
+  }
+  if (format === 'vmap' && !contentVideoId) {
+    return NextResponse.json({ error: 'contentVideoId is required for a VMAP export' }, { status: 400 });
+  }
+  if (format !== 'vmap' && !campaignId) {
+    return NextResponse.json({ error: 'campaignId is required for a media plan export' }, { status: 400 });
+  }
+
+  try {
+    const campaign = campaignId ? await getCampaignService().get(campaignId, workspace.id) : undefined;
+
+    if (format === 'vmap' && contentVideoId) {
+      const vmap = await buildContentVmap({
+        contentVideoId,
+        workspaceId: workspace.id,
+        contentIndexId,
+        adsIndexId,
+        campaign,
+        vastOptions: createTrackingOptions(new URL(req.url).origin, contentVideoId),
+      });
+      return new NextResponse(vmap, {
+        headers: { 'Content-Type': 'application/xml; charset=utf-8', ...attachment(`vmap-${contentVideoId}.xml`) },
+      });
+    }
+
+    if (!campaign) {
+      return NextResponse.json({ error: 'campaignId is required for a media plan export' }, { status: 400 });
+    }
+
+    const plan = await buildCampaignMediaPlan(campaign, contentIndexId, workspace.taxonomy);
+    const fileName = `media-plan-${toFileName(campaign.name)}`;
+
+    if (format === 'csv') {
+      return new NextResponse(mediaPlanToCsv(plan, workspace.taxonomy), {
+        headers: { 'Content-Type': 'text/csv; charset=utf-8', ...attachment(`${fileName}.csv`) },
+      });
+    }
+
+    return NextResponse.json(plan, { headers: attachment(`${fileName}.json`) });
+  } catch (error) {
+    const isExpected = error instanceof MediaPlanError || error instanceof CampaignError;
+    if (!isExpected) {
+      console.error('❌ Error exporting media plan:', error);
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export media plan' },
+      { status: isExpected ? error.status : 500 }
+    );
+  }
+}
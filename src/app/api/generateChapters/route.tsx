@@ -1,50 +1,98 @@
 import { NextResponse } from "next/server";
+import { getErrorMessage, getErrorStatus, getIndexGenerationModel, getTwelveLabsClient } from "@/utils/twelvelabs";
+import { buildChapterPrompt, resolveChapterCount } from "@/utils/chapterPrompt";
+import { getPromptVersion, getResultCache } from "@/utils/resultCache";
+import { ChaptersResponse } from "@/types";
+import { checkRole } from "@/utils/auth";
+import { getRouteWorkspace } from "@/utils/workspaces";
 
 export const maxDuration = 60;
 
-const API_KEY = process.env.TWELVELABS_API_KEY;
-const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
+const parsePositiveNumber = (value: string | null): number | undefined => {
+  if (value === null || value === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined;
+};
 
 export async function GET(req: Request) {
+    const denied = await checkRole(req, 'viewer');
+    if (denied) return denied;
+
     const { searchParams } = new URL(req.url);
     const videoId = searchParams.get("videoId");
+    const indexId = searchParams.get("indexId");
 
-    if (!videoId) {
+    if (!videoId || !indexId) {
       return NextResponse.json(
-        { error: "videoId is required" },
+        { error: "videoId and indexId are required" },
         { status: 400 }
       );
     }
 
-      const url = `${TWELVELABS_API_BASE_URL}/summarize`;
-      const options = {
-          method: "POST",
-          headers: {
-              "Content-Type": "application/json",
-              "x-api-key": `${API_KEY}`,
-            },
-            body: JSON.stringify({type: "chapter", video_id: videoId, prompt: "Chapterize this video into 3 chapters. For every chapter, describe why it is a strategically appropriate point for placing an advertisement. Do not mention what type of advertisement would be suitable, as the ad content has already been determined. "})
-        };
+    const breakCount = parsePositiveNumber(searchParams.get("breakCount"));
+    const spacingSec = parsePositiveNumber(searchParams.get("spacingSec"));
+    const brandSafety = searchParams.get("brandSafety") || undefined;
+    const adTags = searchParams.getAll("adTag");
+    const workspace = await getRouteWorkspace(req, [indexId]);
+    if (workspace instanceof NextResponse) return workspace;
+    const refresh = searchParams.get("refresh") === "true";
+    // Regenerating replaces the cached chapters for everyone, so it needs write access
+    if (refresh) {
+      const refreshDenied = await checkRole(req, 'editor');
+      if (refreshDenied) return refreshDenied;
+    }
+    let duration = parsePositiveNumber(searchParams.get("duration"));
 
       try {
-        const response = await fetch(url, options);
+        const client = getTwelveLabsClient();
+
+        // Fails (404) unless the video is in the workspace index, before anything is generated or read from the cache.
+        // Spacing needs the content length; take it from here when the caller didn't send it.
+        const video = await client.videos.get(indexId, videoId);
+        if (spacingSec && !breakCount && !duration) {
+          duration = video.system_metadata?.duration;
+        }
 
-        if (!response.ok) {
-          throw new Error(`Network response was not ok: ${response.status} ${response.statusText}`);
+        const chapterCount = resolveChapterCount({ breakCount, spacingSec, duration });
+        const prompt = buildChapterPrompt({
+          chapterCount,
+          spacingSec: breakCount ? undefined : spacingSec,
+          brandSafety,
+          adTags,
+        });
+
+        const promptVersion = getPromptVersion(prompt);
+        const model = await getIndexGenerationModel(indexId);
+
+        if (!refresh) {
+          try {
+            const cached = await getResultCache().get<ChaptersResponse>('chapters', videoId, promptVersion, model);
+            if (cached) {
+              return NextResponse.json({ ...cached.value, chapter_count: chapterCount, cached: true }, { status: 200 });
+            }
+          } catch (error) {
+            console.warn(`⚠️ Could not read result cache for ${videoId}:`, error);
+          }
         }
 
-        const responseData = await response.json();
+        const responseData = await client.summarize({ type: "chapter", videoId, prompt });
 
         if (!responseData) {
           throw new Error("Empty response from API");
         }
 
-        return NextResponse.json(responseData, { status: 200 });
+        try {
+          await getResultCache().set('chapters', videoId, promptVersion, model, responseData);
+        } catch (error) {
+          console.warn(`⚠️ Could not write result cache for ${videoId}:`, error);
+        }
+
+        return NextResponse.json({ ...responseData, chapter_count: chapterCount }, { status: 200 });
       } catch (error) {
         console.error("Error in GET function:", error);
         return NextResponse.json(
-          { error: error instanceof Error ? error.message : "Internal Server Error" },
-          { status: 500 }
+          { error: getErrorMessage(error) },
+          { status: getErrorStatus(error) }
         );
       }
 }
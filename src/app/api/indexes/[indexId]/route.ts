@@ -1,13 +1,16 @@
 import { IndexResponse } from "@/types";
 import { NextResponse } from "next/server";
-
-const API_KEY = process.env.TWELVELABS_API_KEY;
-const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
+import { getErrorMessage, getErrorStatus, getTwelveLabsClient } from "@/utils/twelvelabs";
+import { checkRole } from "@/utils/auth";
+import { getRouteWorkspace } from "@/utils/workspaces";
 
 export async function GET(
   req: Request,
   context: { params: Promise<{ indexId: string }> }
 ) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+
   const params = await context.params;
   const indexId = params.indexId;
 
@@ -18,45 +21,28 @@ export async function GET(
       { status: 400 }
     );
   }
+  const workspace = await getRouteWorkspace(req, [indexId]);
+  if (workspace instanceof NextResponse) return workspace;
 
 
-  if (!API_KEY || !TWELVELABS_API_BASE_URL) {
+  const client = getTwelveLabsClient();
+
+  if (!client.isConfigured()) {
     return NextResponse.json(
       { error: "API credentials not configured" },
       { status: 500 }
     );
   }
 
-  // Base URL
-  const url = `${TWELVELABS_API_BASE_URL}/indexes/${indexId}`;
-
-  const options = {
-    method: "GET",
-    headers: {
-      "x-api-key": `${API_KEY}`,
-      "Accept": "application/json"
-    },
-  };
-
   try {
-    const response = await fetch(url, options);
-
-    if (!response.ok) {
-      console.error(`API error: ${response.status} ${response.statusText}`);
-      return NextResponse.json(
-        { error: `Failed to fetch video data: ${response.statusText}` },
-        { status: response.status }
-      );
-    }
-
-    const indexData: IndexResponse = await response.json();
+    const indexData: IndexResponse = await client.indexes.get(indexId);
     return NextResponse.json(indexData);
 
   } catch (e) {
-    console.error('Error fetching video details:', e);
+    console.error('Error fetching index details:', e);
     return NextResponse.json(
-      { error: `Failed to fetch or process video data: ${e instanceof Error ? e.message : 'Unknown error'}` },
-      { status: 500 }
+      { error: `Failed to fetch index data: ${getErrorMessage(e)}` },
+      { status: getErrorStatus(e) }
     );
   }
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { IndexRegistry } from '@/types';
+import { checkRole } from '@/utils/auth';
+import { buildIndexRegistry } from '@/utils/indexRegistry';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+// GET ?role=<role id> lists the known indexes of the request's workspace with their role, name and embedding model
+export async function GET(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const role = new URL(req.url).searchParams.get('role');
+  const registry = buildIndexRegistry(workspace);
+  const response: IndexRegistry = role
+    ? { ...registry, indexes: registry.indexes.filter(entry => entry.role === role) }
+    : registry;
+
+  return NextResponse.json(response);
+}
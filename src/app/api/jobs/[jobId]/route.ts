@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import { getJobCounts, getJobRunner, JobError } from '@/utils/jobRunner';
+import { Job, JobAction } from '@/types';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+type RouteContext = { params: Promise<{ jobId: string }> };
+
+const withCounts = (job: Job) => ({ ...job, counts: getJobCounts(job) });
+
+const errorResponse = (error: unknown, fallback: string) => {
+  if (!(error instanceof JobError)) {
+    console.error(`❌ ${fallback}:`, error);
+  }
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : fallback },
+    { status: error instanceof JobError ? error.status : 500 }
+  );
+};
+
+// Full job with per-item status and logs
+export async function GET(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const { jobId } = await context.params;
+
+  try {
+    const job = await getJobRunner().get(jobId, workspace.id);
+    return NextResponse.json({ job: withCounts(job) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to load job');
+  }
+}
+
+// PATCH { action: 'pause' | 'resume' | 'cancel' | 'retry-failed' }
+export async function PATCH(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const { jobId } = await context.params;
+
+  try {
+    const { action } = await req.json() as { action?: JobAction };
+    const runner = getJobRunner();
+
+    let job: Job;
+    switch (action) {
+      case 'pause':
+        job = await runner.pause(jobId, workspace.id);
+        break;
+      case 'resume':
+        job = await runner.resume(jobId, workspace.id);
+        break;
+      case 'cancel':
+        job = await runner.cancel(jobId, workspace.id);
+        break;
+      case 'retry-failed':
+        job = await runner.retryFailed(jobId, workspace.id);
+        break;
+      default:
+        return NextResponse.json(
+          { error: 'action must be one of: pause, resume, cancel, retry-failed' },
+          { status: 400 }
+        );
+    }
+
+    return NextResponse.json({ job: withCounts(job) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to update job');
+  }
+}
+
+// POST { videoIds: [...] } adds videos to the job's queue
+export async function POST(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const { jobId } = await context.params;
+
+  try {
+    const { videoIds } = await req.json() as { videoIds?: string[] };
+
+    if (!Array.isArray(videoIds) || videoIds.length === 0) {
+      return NextResponse.json({ error: 'videoIds must be a non-empty array' }, { status: 400 });
+    }
+
+    const job = await getJobRunner().enqueue(jobId, workspace.id, videoIds.map(videoId => ({ videoId })));
+    return NextResponse.json({ job: withCounts(job) });
+  } catch (error) {
+    return errorResponse(error, 'Failed to enqueue videos');
+  }
+}
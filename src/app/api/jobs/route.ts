@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { CreateJobRequest } from '@/types';
+import { getJobRunner, JobError, summarizeJob } from '@/utils/jobRunner';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+// Listing a large index can take a while before the job is created
+export const maxDuration = 60;
+
+export async function GET(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  try {
+    const jobs = await getJobRunner().list(workspace.id);
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('❌ Error listing jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to list jobs', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create a job for one of the workspace's indexes; it starts running in the background right away
+export async function POST(req: Request) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+
+  try {
+    const body = await req.json() as CreateJobRequest;
+    const workspace = await getRouteWorkspace(req, [body.indexId]);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const job = await getJobRunner().create(body, workspace);
+    console.log(`🚀 Started job ${job.id} for index ${job.indexId} with ${job.items.length} video(s)`);
+    return NextResponse.json({ job: summarizeJob(job) }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Error creating job:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create job' },
+      { status: error instanceof JobError ? error.status : 500 }
+    );
+  }
+}
@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { MatchDirection, MatchRequest } from '@/types';
+import { getErrorMessage, getErrorStatus } from '@/utils/twelvelabs';
+import { matchVideos, MAX_MATCH_LIMIT } from '@/utils/matching';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+const MATCH_DIRECTIONS: MatchDirection[] = ['ad-to-content', 'content-to-ads'];
+
+// Ranked, deduplicated matches for an ad video (content) or a content video (ads), with per-signal scores
+export async function POST(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+
+  let body: Partial<MatchRequest>;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+
+  const workspace = await getRouteWorkspace(req, [body.adsIndexId, body.contentIndexId]);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const { videoId, method, weights, rules } = body;
+  const direction = body.direction || 'ad-to-content';
+  const adsIndexId = body.adsIndexId || workspace.adsIndexId;
+  const contentIndexId = body.contentIndexId || workspace.contentIndexId;
+
+  if (!videoId) {
+    return NextResponse.json({ error: 'videoId is required' }, { status: 400 });
+  }
+  if (!MATCH_DIRECTIONS.includes(direction)) {
+    return NextResponse.json(
+      { error: `direction must be one of: ${MATCH_DIRECTIONS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  if (!adsIndexId || !contentIndexId) {
+    return NextResponse.json({ error: 'adsIndexId and contentIndexId are required' }, { status: 400 });
+  }
+
+  const limit = Number(body.limit);
+  const isReverse = direction === 'content-to-ads';
+
+  try {
+    const response = await matchVideos({
+      workspace,
+      videoId,
+      direction,
+      sourceIndexId: isReverse ? contentIndexId : adsIndexId,
+      targetIndexId: isReverse ? adsIndexId : contentIndexId,
+      method,
+      weights,
+      rules,
+      limit: Number.isFinite(limit) && limit > 0 ? Math.min(Math.floor(limit), MAX_MATCH_LIMIT) : undefined,
+    });
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error(`❌ Error matching video (${direction}):`, error);
+    return NextResponse.json(
+      { error: 'Failed to match video', details: getErrorMessage(error) },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { SavedMatchRules } from '@/types';
+import { getSavedMatchRules, removeMatchRules, saveMatchRules } from '@/utils/matchRulesStore';
+import { describeUnsupportedMatchRules, EMPTY_MATCH_RULES, findUnsupportedMatchRules, resolveMatchRules } from '@/utils/matchRules';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+type RouteContext = { params: Promise<{ videoId: string }> };
+
+export async function GET(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const { videoId } = await context.params;
+
+  try {
+    const saved = await getSavedMatchRules(workspace.id, videoId);
+    return NextResponse.json({ rules: saved?.rules || EMPTY_MATCH_RULES, updatedAt: saved?.updatedAt || null });
+  } catch (error) {
+    console.error(`❌ Error loading match rules for ${videoId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to load match rules', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Rules for categories the workspace taxonomy doesn't have are refused
+export async function PUT(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'editor');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const { videoId } = await context.params;
+
+  try {
+    const body = await req.json();
+    const rules = resolveMatchRules(body.rules);
+
+    const unsupported = findUnsupportedMatchRules(rules, workspace.taxonomy);
+    if (unsupported.length > 0) {
+      return NextResponse.json({ error: describeUnsupportedMatchRules(unsupported), details: unsupported }, { status: 400 });
+    }
+
+    const saved: SavedMatchRules = {
+      adVideoId: videoId,
+      workspaceId: workspace.id,
+      rules,
+      updatedAt: new Date().toISOString(),
+    };
+
+    await saveMatchRules(workspace.id, saved);
+    return NextResponse.json(saved);
+  } catch (error) {
+    console.error(`❌ Error saving match rules for ${videoId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to save match rules', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'editor');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const { videoId } = await context.params;
+
+  try {
+    const deleted = await removeMatchRules(workspace.id, videoId);
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error(`❌ Error deleting match rules for ${videoId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to delete match rules', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
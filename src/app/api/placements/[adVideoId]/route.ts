@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { PlacementUpdate } from '@/types';
+import { getPlacements, updatePlacement, validatePlacementUpdate } from '@/utils/placementStore';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+type RouteContext = { params: Promise<{ adVideoId: string }> };
+
+export async function GET(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const { adVideoId } = await context.params;
+
+  try {
+    const placements = await getPlacements(workspace.id, adVideoId);
+    return NextResponse.json({ placements: placements || { adVideoId, decisions: {}, updatedAt: null } });
+  } catch (error) {
+    console.error(`❌ Error loading placements for ${adVideoId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to load placements', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT { contentVideoId, status?: 'approved' | 'rejected' | null, note?, result? } updates one decision
+export async function PUT(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'editor');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const { adVideoId } = await context.params;
+
+  let body: PlacementUpdate;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Request body must be a JSON object' }, { status: 400 });
+  }
+
+  try {
+    const errors = validatePlacementUpdate(body);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid placement update', details: errors }, { status: 400 });
+    }
+
+    const placements = await updatePlacement(workspace.id, adVideoId, body);
+    return NextResponse.json({ placements });
+  } catch (error) {
+    console.error(`❌ Error saving placement for ${adVideoId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to save placement', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
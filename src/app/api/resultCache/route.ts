@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { ResultCacheKind } from '@/types';
+import { getResultCache } from '@/utils/resultCache';
+import { checkRole } from '@/utils/auth';
+
+const CACHE_KINDS: ResultCacheKind[] = ['chapters', 'analysis'];
+
+export async function GET(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+
+  try {
+    const stats = await getResultCache().stats();
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error('❌ Error reading result cache:', error);
+    return NextResponse.json(
+      { error: 'Failed to read result cache', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/resultCache?kind=chapters&videoId=... (both optional; no filter clears everything)
+export async function DELETE(req: Request) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+
+  const { searchParams } = new URL(req.url);
+  const kind = searchParams.get('kind') || undefined;
+  const videoId = searchParams.get('videoId') || undefined;
+
+  if (kind && !CACHE_KINDS.includes(kind as ResultCacheKind)) {
+    return NextResponse.json(
+      { error: `kind must be one of: ${CACHE_KINDS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const removed = await getResultCache().invalidate({ kind: kind as ResultCacheKind | undefined, videoId });
+    console.log(`🗑️ Cleared ${removed} cached result(s)${kind ? ` of kind ${kind}` : ''}${videoId ? ` for ${videoId}` : ''}`);
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    console.error('❌ Error clearing result cache:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear result cache', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import axios from "axios";
 import { SearchResult } from "@/types";
+import { getErrorMessage, getErrorStatus, getTwelveLabsClient } from "@/utils/twelvelabs";
+import { checkRole } from "@/utils/auth";
+import { getRouteWorkspace, isWorkspaceIndex } from "@/utils/workspaces";
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
@@ -8,15 +10,20 @@ export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ token: string }> }
 ) {
+  const denied = await checkRole(request, 'viewer');
+  if (denied) return denied;
+
   try {
     const { token } = await params;
 
     const searchParams = request.nextUrl.searchParams;
     const requestIndexId = searchParams.get('indexId');
+    const workspace = await getRouteWorkspace(request, [requestIndexId]);
+    if (workspace instanceof NextResponse) return workspace;
 
-    const apiKey = process.env.TWELVELABS_API_KEY;
+    const client = getTwelveLabsClient();
 
-    if (!apiKey) {
+    if (!client.isConfigured()) {
       return NextResponse.json(
         { error: "API key is not set" },
         { status: 500 }
@@ -30,16 +37,8 @@ export async function GET(
       );
     }
 
-    const url = `https://api.twelvelabs.io/v1.3/search/${token}`;
-
     try {
-      const response = await axios.get(url, {
-        headers: {
-          "x-api-key": `${apiKey}`,
-        },
-      });
-
-      const responseData = response.data;
+      const responseData = await client.search.retrieve(token);
 
       if (!responseData) {
         return NextResponse.json(
@@ -48,8 +47,17 @@ export async function GET(
         );
       }
 
+      // Page tokens of another workspace's searches are not served
+      const searchIndexId = responseData.search_pool?.index_id;
+      if (searchIndexId && !isWorkspaceIndex(workspace, searchIndexId)) {
+        return NextResponse.json(
+          { error: "This search belongs to another workspace" },
+          { status: 403 }
+        );
+      }
+
       // Determine which index ID to use - prioritize the one from request params
-      const indexId = requestIndexId || responseData.search_pool?.index_id || process.env.NEXT_PUBLIC_CONTENT_INDEX_ID;
+      const indexId = requestIndexId || searchIndexId || workspace.contentIndexId;
 
       // Add index_id to each result
       const resultsWithIndexId = (responseData.data as SearchResult[]).map((result: SearchResult) => ({
@@ -67,22 +75,16 @@ export async function GET(
       };
 
       return NextResponse.json(responsePayload);
-    } catch (axiosError: unknown) {
-      console.error("🔍 > Search Retrieve API > Axios error:",
-        axios.isAxiosError(axiosError) ? axiosError.response?.status : 'unknown status',
-        axios.isAxiosError(axiosError) ? axiosError.response?.data : 'unknown data'
+    } catch (retrieveError: unknown) {
+      console.error("🔍 > Search Retrieve API > TwelveLabs error:",
+        getErrorStatus(retrieveError),
+        getErrorMessage(retrieveError)
       );
-      throw axiosError;
+      throw retrieveError;
     }
   } catch (error: unknown) {
-    console.error("Error in GET handler:",
-      axios.isAxiosError(error) ? error.response?.data : error
-    );
-    const status = axios.isAxiosError(error) ? error.response?.status || 500 : 500;
-    const message = axios.isAxiosError(error)
-      ? error.response?.data?.message || error.message
-      : error instanceof Error ? error.message : 'Unknown error';
+    console.error("Error in GET handler:", error);
 
-    return NextResponse.json({ error: message }, { status });
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: getErrorStatus(error) });
   }
-}
\ No newline at end of file
+}
@@ -1,23 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
-import axios from "axios";
-import FormData from "form-data";
 import { SearchResult } from "@/types";
+import { getErrorMessage, getErrorStatus, getTwelveLabsClient } from "@/utils/twelvelabs";
+import { checkRole } from "@/utils/auth";
+import { getRouteWorkspace } from "@/utils/workspaces";
 
 export const runtime = "nodejs";
 
 export async function POST(request: NextRequest) {
+  const denied = await checkRole(request, 'viewer');
+  if (denied) return denied;
+
   try {
 
-    const apiKey = process.env.TWELVELABS_API_KEY;
+    const client = getTwelveLabsClient();
 
     const body = await request.json();
 
     const { textSearchQuery, indexId: requestIndexId, page = 1, page_size = 10, offset = 0 } = body;
 
-    // Use indexId from request if provided, otherwise use from env
-    const indexId = requestIndexId || process.env.NEXT_PUBLIC_CONTENT_INDEX_ID;
+    // Use indexId from request if provided, otherwise the workspace's content index
+    const workspace = await getRouteWorkspace(request, [requestIndexId]);
+    if (workspace instanceof NextResponse) return workspace;
+    const indexId = requestIndexId || workspace.contentIndexId;
 
-    if (!apiKey || !indexId) {
+    if (!client.isConfigured() || !indexId) {
       return NextResponse.json(
         { error: "API key or Index ID is not set" },
         { status: 500 }
@@ -31,32 +37,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const searchDataForm = new FormData();
-    searchDataForm.append("search_options", "visual");
-    searchDataForm.append("search_options", "audio");
-    searchDataForm.append("index_id", indexId);
-    searchDataForm.append("query_text", textSearchQuery);
-    searchDataForm.append("adjust_confidence_level", 0.6);
-
-    // Add pagination parameters if provided
-    searchDataForm.append("page", page.toString());
-    searchDataForm.append("page_size", page_size.toString());
-    if (offset > 0) {
-      searchDataForm.append("offset", offset.toString());
-    }
-
-    const url = "https://api.twelvelabs.io/v1.3/search";
-
     try {
-      const response = await axios.post(url, searchDataForm, {
-        headers: {
-          "Content-Type": "multipart/form-data",
-          "x-api-key": `${apiKey}`,
-        },
+      const responseData = await client.search.query({
+        indexId,
+        queryText: textSearchQuery,
+        searchOptions: ["visual", "audio"],
+        adjustConfidenceLevel: 0.6,
+        // Add pagination parameters if provided
+        page,
+        pageSize: page_size,
+        offset,
       });
 
-      const responseData = response.data;
-
       if (!responseData) {
         return NextResponse.json(
           { error: "Error getting response from the API" },
@@ -80,22 +72,16 @@ export async function POST(request: NextRequest) {
       };
 
       return NextResponse.json(responsePayload);
-    } catch (axiosError: unknown) {
-      console.error("🔍 > Search API > Axios error:",
-        axios.isAxiosError(axiosError) ? axiosError.response?.status : 'unknown status',
-        axios.isAxiosError(axiosError) ? axiosError.response?.data : 'unknown data'
+    } catch (searchError: unknown) {
+      console.error("🔍 > Search API > TwelveLabs error:",
+        getErrorStatus(searchError),
+        getErrorMessage(searchError)
       );
-      throw axiosError;
+      throw searchError;
     }
   } catch (error: unknown) {
-    console.error("Error in POST handler:",
-      axios.isAxiosError(error) ? error.response?.data : error
-    );
-    const status = axios.isAxiosError(error) ? error.response?.status || 500 : 500;
-    const message = axios.isAxiosError(error)
-      ? error.response?.data?.message || error.message
-      : error instanceof Error ? error.message : 'Unknown error';
+    console.error("Error in POST handler:", error);
 
-    return NextResponse.json({ error: message }, { status });
+    return NextResponse.json({ error: getErrorMessage(error) }, { status: getErrorStatus(error) });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import {
+  authorizeProxyOperation,
+  getRequestToken,
+  getSessionTokenService,
+  resolveProxyOperation,
+  SessionTokenError,
+} from '@/utils/sessionTokens';
+import { getErrorMessage, getErrorStatus, getTwelveLabsClient, TwelveLabsError } from '@/utils/twelvelabs';
+
+// Uploads (POST /tasks) can take a while
+export const maxDuration = 300;
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+// Index a proxied response belongs to, for calls whose request doesn't name one (task and search page lookups)
+const getResponseIndexId = (data: unknown): string | undefined => {
+  if (typeof data !== 'object' || data === null) return undefined;
+  const record = data as { index_id?: unknown; search_pool?: { index_id?: unknown } };
+  const indexId = record.index_id ?? record.search_pool?.index_id;
+  return typeof indexId === 'string' ? indexId : undefined;
+};
+
+// Forward a TwelveLabs API call made with a session token, if the token's scopes and indexes allow it.
+// /api/twelvelabs/indexes/{id}/videos -> {TWELVELABS_API_BASE_URL}/indexes/{id}/videos
+const proxy = async (req: Request, context: RouteContext, method: 'GET' | 'POST' | 'PUT') => {
+  const { path } = await context.params;
+  const { searchParams } = new URL(req.url);
+
+  try {
+    const token = getRequestToken(req);
+    if (!token) {
+      return NextResponse.json({ error: 'A session token is required (Authorization: Bearer <token>)' }, { status: 401 });
+    }
+    const record = await getSessionTokenService().verify(token);
+
+    const contentType = req.headers.get('content-type') || '';
+    const form = method !== 'GET' && contentType.includes('multipart/form-data') ? await req.formData() : undefined;
+    const json = method !== 'GET' && contentType.includes('application/json') ? await req.json() : undefined;
+
+    const operation = resolveProxyOperation(method, path, { query: searchParams, form });
+    if (!operation) {
+      return NextResponse.json({ error: `${method} /${path.join('/')} is not available through the proxy` }, { status: 404 });
+    }
+    authorizeProxyOperation(record, operation);
+
+    const query = Object.fromEntries(
+      Array.from(new Set(searchParams.keys())).map(key => [key, searchParams.getAll(key)])
+    );
+    const data = await getTwelveLabsClient().request<unknown>(`/${path.map(encodeURIComponent).join('/')}`, {
+      method,
+      query,
+      form,
+      json,
+    });
+
+    if (operation.indexId === undefined) {
+      const indexId = getResponseIndexId(data);
+      if (indexId && !record.indexIds.includes(indexId)) {
+        throw new SessionTokenError(`Token is not valid for index ${indexId}`, 403);
+      }
+    }
+
+    return NextResponse.json(data);
+  } catch (error) {
+    if (error instanceof SessionTokenError && error.status < 500) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (!(error instanceof TwelveLabsError)) {
+      console.error(`❌ Error proxying ${method} /${path.join('/')}:`, error);
+    }
+    return NextResponse.json(
+      { error: 'TwelveLabs request failed', details: getErrorMessage(error) },
+      { status: error instanceof SessionTokenError ? error.status : getErrorStatus(error) }
+    );
+  }
+};
+
+export async function GET(req: Request, context: RouteContext) {
+  return proxy(req, context, 'GET');
+}
+
+export async function POST(req: Request, context: RouteContext) {
+  return proxy(req, context, 'POST');
+}
+
+export async function PUT(req: Request, context: RouteContext) {
+  return proxy(req, context, 'PUT');
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { VastEventLogEntry } from '@/types';
+import { getVastEventLog, recordVastEvent, VAST_TRACKING_EVENTS } from '@/utils/vastAds';
+import { checkRole } from '@/utils/auth';
+
+const DEFAULT_EVENT_LIMIT = 100;
+
+// Latest events first; ?adId= and ?contentVideoId= narrow the list
+export async function GET(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+
+  const { searchParams } = new URL(req.url);
+  const adId = searchParams.get('adId');
+  const contentVideoId = searchParams.get('contentVideoId');
+  const limit = Number(searchParams.get('limit')) || DEFAULT_EVENT_LIMIT;
+
+  try {
+    const events = (await getVastEventLog().list())
+      .filter(entry => (!adId || entry.adId === adId) && (!contentVideoId || entry.contentVideoId === contentVideoId))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+    return NextResponse.json({ events });
+  } catch (error) {
+    console.error('❌ Error listing VAST events:', error);
+    return NextResponse.json(
+      { error: 'Failed to list VAST events', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { event, adId, adTitle?, contentVideoId?, urls } from the break preview
+export async function POST(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+
+  try {
+    const body = await req.json() as Partial<VastEventLogEntry>;
+
+    if (!body.event || !VAST_TRACKING_EVENTS.includes(body.event) || !body.adId) {
+      return NextResponse.json({ error: `event (one of: ${VAST_TRACKING_EVENTS.join(', ')}) and adId are required` }, { status: 400 });
+    }
+
+    const event = await recordVastEvent({
+      event: body.event,
+      adId: body.adId,
+      adTitle: body.adTitle,
+      contentVideoId: body.contentVideoId,
+      urls: Array.isArray(body.urls) ? body.urls.filter(url => typeof url === 'string') : [],
+      source: 'preview',
+    });
+    return NextResponse.json({ event }, { status: 201 });
+  } catch (error) {
+    console.error('❌ Error recording VAST event:', error);
+    return NextResponse.json(
+      { error: 'Failed to record VAST event', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(req: Request) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+
+  try {
+    const removed = await getVastEventLog().clear();
+    return NextResponse.json({ success: true, removed });
+  } catch (error) {
+    console.error('❌ Error clearing VAST events:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear VAST events', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { buildVast } from '@/utils/vast';
+import { createTrackingOptions, loadVastAd } from '@/utils/vastAds';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+const MAX_POD_ADS = 10;
+
+// GET ?adVideoIds=a,b[&skipOffset=5][&contentVideoId=...] VAST 3.0 pod for ads of the workspace's ads index,
+// with tracker URLs that record into the local event log
+export async function GET(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+
+  const { searchParams, origin } = new URL(req.url);
+  const workspace = await getRouteWorkspace(req, [searchParams.get('adsIndexId')]);
+  if (workspace instanceof NextResponse) return workspace;
+
+  const adVideoIds = (searchParams.get('adVideoIds') || '').split(',').map(id => id.trim()).filter(Boolean);
+  const adsIndexId = searchParams.get('adsIndexId') || workspace.adsIndexId;
+  const contentVideoId = searchParams.get('contentVideoId') || undefined;
+  const skipOffsetParam = searchParams.get('skipOffset');
+  const skipOffset = skipOffsetParam !== null && skipOffsetParam !== '' ? Number(skipOffsetParam) : undefined;
+
+  if (adVideoIds.length === 0 || adVideoIds.length > MAX_POD_ADS) {
+    return NextResponse.json({ error: `adVideoIds must list between 1 and ${MAX_POD_ADS} ads` }, { status: 400 });
+  }
+  if (skipOffset !== undefined && (!Number.isFinite(skipOffset) || skipOffset < 0)) {
+    return NextResponse.json({ error: 'skipOffset must be a non-negative number of seconds' }, { status: 400 });
+  }
+  if (!adsIndexId) {
+    return NextResponse.json({ error: 'adsIndexId is required' }, { status: 400 });
+  }
+
+  try {
+    const ads = (await Promise.all(adVideoIds.map(id => loadVastAd(id, adsIndexId, { skipOffset }))))
+      .flatMap(ad => ad ? [ad] : []);
+
+    if (ads.length === 0) {
+      return NextResponse.json({ error: 'None of the ads has a playable stream' }, { status: 404 });
+    }
+
+    return new NextResponse(buildVast(ads, createTrackingOptions(origin, contentVideoId)), {
+      headers: { 'Content-Type': 'application/xml; charset=utf-8' },
+    });
+  } catch (error) {
+    console.error('❌ Error building VAST:', error);
+    return NextResponse.json(
+      { error: 'Failed to build VAST', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { readVastTracker, recordVastEvent } from '@/utils/vastAds';
+
+// 1x1 transparent GIF, so trackers loaded as images get a valid response
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+// Tracker URL written into generated VAST: GET ?t=<signed event, adId and contentVideoId>. Players call it
+// without a session, so only trackers this server signed are recorded.
+export async function GET(req: Request) {
+  const tracker = readVastTracker(new URL(req.url).searchParams.get('t'));
+
+  if (tracker) {
+    try {
+      await recordVastEvent({
+        event: tracker.event,
+        adId: tracker.adId,
+        contentVideoId: tracker.contentVideoId,
+        urls: [],
+        source: 'pixel',
+      });
+    } catch (error) {
+      // A tracker never fails the player
+      console.warn('⚠️ Could not record VAST event:', error);
+    }
+  }
+
+  return new NextResponse(PIXEL, {
+    headers: { 'Content-Type': 'image/gif', 'Cache-Control': 'no-store' },
+  });
+}
@@ -1,7 +1,13 @@
 import { NextResponse } from 'next/server';
-import { getPineconeIndex } from '@/utils/pinecone';
+import { getVectorStore, zeroVector } from '@/utils/vectorStore';
+import { checkRole } from '@/utils/auth';
+import { getIndexVectorCategory } from '@/utils/indexRegistry';
+import { getRouteWorkspace } from '@/utils/workspaces';
 
 export async function GET(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+
   try {
     const { searchParams } = new URL(req.url);
     const videoId = searchParams.get('videoId');
@@ -15,25 +21,27 @@ export async function GET(req: Request) {
     }
 
 
-    // Determine category based on indexId
-    const isAdsIndex = indexId.toLowerCase().includes('ad');
-    const category = isAdsIndex ? 'ad' : 'content';
+    const workspace = await getRouteWorkspace(req, [indexId]);
+    if (workspace instanceof NextResponse) return workspace;
+
+    // Category of the index's role in the index registry
+    const category = getIndexVectorCategory(workspace, indexId);
 
-    // Get Pinecone index
-    const pineconeIndex = getPineconeIndex();
+    // Get the workspace's vector store
+    const store = getVectorStore(workspace.vectorNamespace);
 
-    if (!pineconeIndex) {
-      console.error('🔍 CHECK-STATUS - Failed to get Pinecone index');
+    if (!store) {
+      console.error('🔍 CHECK-STATUS - Failed to get vector store');
       return NextResponse.json(
-        { processed: false, error: 'Failed to get Pinecone index', category },
+        { processed: false, error: 'Failed to get vector store', category },
         { status: 500 }
       );
     }
 
     try {
       // Use a zero vector with correct dimensions (1024) - only using filter to find vectors
-      const queryResponse = await pineconeIndex.query({
-        vector: Array(1024).fill(0), // Zero vector with 1024 dimensions to match the index dimension
+      const queryResponse = await store.query({
+        vector: zeroVector(), // Zero vector with 1024 dimensions to match the index dimension
         filter: { tl_video_id: videoId },
         topK: 1,
         includeMetadata: true
@@ -44,7 +52,7 @@ export async function GET(req: Request) {
 
       return NextResponse.json({
         processed,
-        source: 'pinecone',
+        source: store.name,
         category,
         videoId,
         indexId,
@@ -1,7 +1,12 @@
 import { NextResponse } from 'next/server';
-import { getPineconeIndex } from '@/utils/pinecone';
+import { getVectorStore, zeroVector } from '@/utils/vectorStore';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
 
 export async function GET(request: Request) {
+  const denied = await checkRole(request, 'viewer');
+  if (denied) return denied;
+
   const { searchParams } = new URL(request.url);
   const videoId = searchParams.get('video_id');
 
@@ -9,12 +14,15 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: 'Missing required parameters' }, { status: 400 });
   }
 
+  const workspace = await getRouteWorkspace(request);
+  if (workspace instanceof NextResponse) return workspace;
+
   try {
-    const index = getPineconeIndex();
+    const store = getVectorStore(workspace.vectorNamespace);
 
     // Fetch vectors using metadata filter instead of direct ID
-    const queryResponse = await index.query({
-      vector: new Array(1024).fill(0),
+    const queryResponse = await store.query({
+      vector: zeroVector(),
       filter: {
         tl_video_id: videoId
       },
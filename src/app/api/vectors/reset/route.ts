@@ -1,7 +1,12 @@
 import { NextResponse } from 'next/server';
-import { getPineconeIndex } from '@/utils/pinecone';
+import { getVectorStore } from '@/utils/vectorStore';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
 
 export async function POST(req: Request) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+
   try {
     const body = await req.json();
     const { videoId, indexId, resetAll = false } = body;
@@ -14,11 +19,14 @@ export async function POST(req: Request) {
       );
     }
 
-    // Get Pinecone index
-    const pineconeIndex = getPineconeIndex();
-    if (!pineconeIndex) {
+    const workspace = await getRouteWorkspace(req, [indexId]);
+    if (workspace instanceof NextResponse) return workspace;
+
+    // Get the workspace's vector store
+    const store = getVectorStore(workspace.vectorNamespace);
+    if (!store) {
       return NextResponse.json(
-        { success: false, error: 'Failed to initialize Pinecone index' },
+        { success: false, error: 'Failed to initialize vector store' },
         { status: 500 }
       );
     }
@@ -31,12 +39,11 @@ export async function POST(req: Request) {
         const filter = { tl_video_id: videoId };
 
         // Actually delete vectors matching this filter
-        const deleteResult = await pineconeIndex.deleteMany({ filter });
+        await store.deleteMany(filter);
 
         return NextResponse.json({
           success: true,
-          message: `Reset vectors for video ${videoId}`,
-          result: deleteResult
+          message: `Reset vectors for video ${videoId}`
         });
       } catch (error) {
         console.error(`Error resetting vectors for video ${videoId}:`, error);
@@ -50,7 +57,7 @@ export async function POST(req: Request) {
     return NextResponse.json({
       success: true,
       message: 'Reset functionality acknowledged. Check server logs for details.',
-      warning: 'This is a test environment - vectors not physically deleted from Pinecone'
+      warning: 'This is a test environment - vectors not physically deleted from the vector store'
     });
 
   } catch (error) {
@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const API_KEY = process.env.TWELVELABS_API_KEY;
-const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
+import { getErrorMessage, getErrorStatus, getTwelveLabsClient } from '@/utils/twelvelabs';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
 
 export async function POST(request: NextRequest) {
+  const denied = await checkRole(request, 'viewer');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { index_id, video_id } = body;
@@ -15,9 +18,13 @@ export async function POST(request: NextRequest) {
         { status: 400 }
       );
     }
+    const workspace = await getRouteWorkspace(request, [index_id]);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const client = getTwelveLabsClient();
 
-    if (!API_KEY || !TWELVELABS_API_BASE_URL) {
-      console.error('### DEBUG ERROR: Missing API key or base URL in environment variables');
+    if (!client.isConfigured()) {
+      console.error('### DEBUG ERROR: Missing API key in environment variables');
       return NextResponse.json(
         { error: 'Missing API credentials' },
         { status: 500 }
@@ -25,30 +32,20 @@ export async function POST(request: NextRequest) {
     }
 
     // First, try to get the video without embedding options to check if it already has embeddings
-    const videoUrl = `${TWELVELABS_API_BASE_URL}/indexes/${index_id}/videos/${video_id}`;
-
-    const options = {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': API_KEY,
-      },
-    };
-
-    const videoResponse = await fetch(videoUrl, options);
-
-    if (!videoResponse.ok) {
-      console.error(`### DEBUG ERROR: Video API error: ${videoResponse.status}`);
+    let videoData;
+    try {
+      videoData = await client.videos.get(index_id, video_id);
+    } catch (error) {
+      console.error(`### DEBUG ERROR: Video API error: ${getErrorMessage(error)}`);
       return NextResponse.json(
         { error: 'Failed to fetch video data' },
-        { status: videoResponse.status }
+        { status: getErrorStatus(error) }
       );
     }
 
-    const videoData = await videoResponse.json();
-
     // Check if embeddings already exist
-    if (videoData.embedding?.video_embedding?.segments) {
+    const existingEmbedding = videoData.embedding as { video_embedding?: { segments?: unknown[] } } | undefined;
+    if (existingEmbedding?.video_embedding?.segments) {
 
       return NextResponse.json({
         videoId: video_id,
@@ -59,20 +56,17 @@ export async function POST(request: NextRequest) {
     }
 
     // Embeddings don't exist, request them with the embedding_option parameter
-    const embeddingUrl = `${TWELVELABS_API_BASE_URL}/indexes/${index_id}/videos/${video_id}?embedding_option=visual-text`;
-
-    const embeddingResponse = await fetch(embeddingUrl, options);
-
-    if (!embeddingResponse.ok) {
-      console.error(`### DEBUG ERROR: Embedding API error: ${embeddingResponse.status}`);
+    let embeddingData;
+    try {
+      embeddingData = await client.videos.get(index_id, video_id, { embeddingOptions: ['visual-text'] });
+    } catch (error) {
+      console.error(`### DEBUG ERROR: Embedding API error: ${getErrorMessage(error)}`);
       return NextResponse.json(
         { error: 'Failed to fetch embeddings' },
-        { status: embeddingResponse.status }
+        { status: getErrorStatus(error) }
       );
     }
 
-    const embeddingData = await embeddingResponse.json();
-
     // Return the embedding data
     return NextResponse.json({
       videoId: video_id,
@@ -1,57 +1,68 @@
 import { NextResponse } from 'next/server';
-import { getPineconeClient, getPineconeIndex } from '@/utils/pinecone';
+import { getPineconeClient } from '@/utils/pinecone';
+import { getVectorStore, getVectorStoreBackend } from '@/utils/vectorStore';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
 
-export async function GET() {
-  try {
+export async function GET(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
 
-    // Check environment variables
-    const pineconeApiKey = process.env.PINECONE_API_KEY;
-    const pineconeIndex = process.env.PINECONE_INDEX;
+  try {
+    const backend = getVectorStoreBackend();
 
-    if (!pineconeApiKey) {
-      console.error('❌ PINECONE_API_KEY is not defined in environment variables');
-      return NextResponse.json(
-        { error: 'PINECONE_API_KEY is not defined', success: false },
-        { status: 500 }
-      );
-    }
+    if (backend === 'pinecone') {
+      // Check environment variables
+      const pineconeApiKey = process.env.PINECONE_API_KEY;
+      const pineconeIndex = process.env.PINECONE_INDEX;
 
-    if (!pineconeIndex) {
-      console.error('❌ PINECONE_INDEX is not defined in environment variables');
-      return NextResponse.json(
-        { error: 'PINECONE_INDEX is not defined', success: false },
-        { status: 500 }
-      );
-    }
+      if (!pineconeApiKey) {
+        console.error('❌ PINECONE_API_KEY is not defined in environment variables');
+        return NextResponse.json(
+          { error: 'PINECONE_API_KEY is not defined', success: false },
+          { status: 500 }
+        );
+      }
 
-    // Initialize the Pinecone client and verify connection
-    getPineconeClient();
+      if (!pineconeIndex) {
+        console.error('❌ PINECONE_INDEX is not defined in environment variables');
+        return NextResponse.json(
+          { error: 'PINECONE_INDEX is not defined', success: false },
+          { status: 500 }
+        );
+      }
 
-    // Try to get the index
-    const index = getPineconeIndex();
+      // Initialize the Pinecone client and verify connection
+      getPineconeClient();
+    }
 
-    // Try to get index stats
-    const stats = await index.describeIndexStats();
+    // Try to get the workspace's store and its stats
+    const store = getVectorStore(workspace.vectorNamespace);
+    const stats = await store.describeStats();
 
     return NextResponse.json({
       success: true,
-      message: 'Pinecone connection test successful',
-      indexName: pineconeIndex,
+      message: `Vector store (${store.name}) connection test successful`,
+      backend: store.name,
+      indexName: backend === 'pinecone' ? process.env.PINECONE_INDEX : undefined,
+      namespace: workspace.vectorNamespace,
       stats: {
         dimension: stats.dimension,
-        namespaces: stats.namespaces ? Object.keys(stats.namespaces).length : 0,
+        namespaces: stats.namespaces,
         totalVectors: stats.totalRecordCount
       }
     });
   } catch (error) {
-    console.error('❌ Pinecone connection test failed:', error);
+    console.error('❌ Vector store connection test failed:', error);
     return NextResponse.json(
       {
-        error: 'Failed to connect to Pinecone',
+        error: 'Failed to connect to vector store',
         details: error instanceof Error ? error.message : 'Unknown error',
         success: false
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,12 +1,13 @@
 import { NextResponse } from "next/server";
-
-const API_KEY = process.env.TWELVELABS_API_KEY;
-const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
+import { TwelveLabsError, getErrorMessage, getErrorStatus, getTwelveLabsClient } from "@/utils/twelvelabs";
+import { checkRole } from "@/utils/auth";
+import { getRouteWorkspace } from "@/utils/workspaces";
 
 // Define a basic interface for the expected response data structure
 interface VideoApiResponse {
   _id: string;
   index_id?: string;
+  updated_at?: string; // sent back with metadata edits (PATCH /api/videos/metadata)
   hls?: Record<string, unknown>; // Or a more specific HLS type if available
   system_metadata?: Record<string, unknown>; // Renamed from metadata to system_metadata
   user_metadata?: Record<string, unknown>; // Added for user metadata
@@ -18,6 +19,7 @@ interface VideoApiResponse {
 interface TwelveLabsVideoData {
   _id?: string;
   index_id?: string;
+  updated_at?: string;
   hls?: Record<string, unknown>;
   system_metadata?: Record<string, unknown>;
   user_metadata?: Record<string, unknown>;
@@ -45,6 +47,9 @@ export async function GET(
   req: Request,
   context: { params: Promise<{ videoId: string }> }
 ) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+
   const params = await context.params;
   const videoId = params.videoId;
 
@@ -59,6 +64,8 @@ export async function GET(
       { status: 400 }
     );
   }
+  const workspace = await getRouteWorkspace(req, [indexId]);
+  if (workspace instanceof NextResponse) return workspace;
 
   if (!videoId) {
     return NextResponse.json(
@@ -67,52 +74,37 @@ export async function GET(
     );
   }
 
-  if (!API_KEY || !TWELVELABS_API_BASE_URL) {
+  const client = getTwelveLabsClient();
+
+  if (!client.isConfigured()) {
     return NextResponse.json(
       { error: "API credentials not configured" },
       { status: 500 }
     );
   }
 
-  // Base URL
-  let url = `${TWELVELABS_API_BASE_URL}/indexes/${indexId}/videos/${videoId}`;
-
-  // Always include embedding query parameters if requested
-  if (requestEmbeddings) {
-    // Include only supported embedding options
-    url += `?embedding_option=visual-text&embedding_option=audio`;
-  }
-
-  const options = {
-    method: "GET",
-    headers: {
-      "x-api-key": `${API_KEY}`,
-      "Accept": "application/json"
-    },
-  };
-
   try {
-    const response = await fetch(url, options);
+    let videoData: unknown;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`❌ API error: ${response.status} ${response.statusText}`);
-      console.error(`❌ Error details: ${errorText}`);
+    try {
+      // Include only supported embedding options when embeddings are requested
+      videoData = await client.videos.get(indexId, videoId, {
+        embeddingOptions: requestEmbeddings ? ['visual-text', 'audio'] : undefined,
+      });
+    } catch (error) {
+      console.error(`❌ API error: ${getErrorMessage(error)}`);
 
       // If video is not found, provide a more helpful error message
-      if (response.status === 404) {
+      if (getErrorStatus(error) === 404) {
         console.error(`❌ Video ${videoId} not found in index ${indexId}. It might still be processing.`);
       }
 
       return NextResponse.json(
-        { error: `Failed to fetch video data: ${response.statusText}`, details: errorText },
-        { status: response.status }
+        { error: `Failed to fetch video data: ${getErrorMessage(error)}`, details: error instanceof TwelveLabsError ? error.details : undefined },
+        { status: getErrorStatus(error) }
       );
     }
 
-    // Use unknown type and a type guard for safer handling
-    const videoData: unknown = await response.json();
-
     if (requestEmbeddings) {
 
       const typedVideoData = videoData as TwelveLabsVideoData;
@@ -127,14 +119,15 @@ export async function GET(
       throw new Error("Invalid video data structure received.");
     }
 
+    const typedVideoData: TwelveLabsVideoData = videoData;
+
     // Deep clone videoData to avoid mutating the original
     const responseData: VideoApiResponse = {
       _id: videoId,
       index_id: indexId,
+      updated_at: typedVideoData.updated_at,
     };
 
-    const typedVideoData: TwelveLabsVideoData = videoData;
-
     // Copy over original fields directly to preserve the structure
     if (typedVideoData.hls) {
       responseData.hls = typedVideoData.hls;
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { getSessionTokenService, SessionTokenError } from '@/utils/sessionTokens';
+import { checkRole } from '@/utils/auth';
+
+type RouteContext = { params: Promise<{ tokenId: string }> };
+
+// Revoke a token; the proxy rejects it from the next call on
+export async function DELETE(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+
+  const { tokenId } = await context.params;
+
+  try {
+    const token = await getSessionTokenService().revoke(tokenId);
+    return NextResponse.json({ token });
+  } catch (error) {
+    if (error instanceof SessionTokenError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`❌ Error revoking session token ${tokenId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to revoke token', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,23 +1,54 @@
 import { NextResponse } from 'next/server';
+import { SessionTokenRequest, SessionTokenScope } from '@/types';
+import { getSessionTokenService, SessionTokenError } from '@/utils/sessionTokens';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+const WRITE_SCOPES: SessionTokenScope[] = ['videos:write', 'tasks:create'];
+
+// Active (unexpired, unrevoked) tokens; the signed token strings themselves are never listed
+export async function GET(req: Request) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+
+  try {
+    const tokens = await getSessionTokenService().listActive();
+    return NextResponse.json({ tokens });
+  } catch (error) {
+    console.error('❌ Error listing session tokens:', error);
+    return NextResponse.json(
+      { error: 'Failed to list tokens', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { scopes?, indexIds?, ttlSec?, label? } issues a short-lived token for the /api/twelvelabs proxy,
+// limited to the workspace's indexes. The TwelveLabs API key itself is never sent to the browser.
+export async function POST(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+  const workspace = await getRouteWorkspace(req);
+  if (workspace instanceof NextResponse) return workspace;
 
-export async function GET() {
   try {
-    // Get API key from environment variable
-    const apiKey = process.env.TWELVELABS_API_KEY;
-    if (!apiKey) {
-      console.error('API key not found in environment variables');
-      return NextResponse.json({ error: 'API key not configured' }, { status: 500 });
+    const body = await req.json().catch(() => ({})) as SessionTokenRequest;
+    // Tokens that can change the indexes are for editors only
+    if (body.scopes?.some(scope => WRITE_SCOPES.includes(scope))) {
+      const deniedWrite = await checkRole(req, 'editor');
+      if (deniedWrite) return deniedWrite;
     }
 
-    // Return the API key for client-side usage
-    // Note: In a production environment, you might want to implement a more secure approach
-    // like generating a short-lived token with limited permissions
-    return NextResponse.json({ token: apiKey });
+    const token = await getSessionTokenService().issue(body, workspace);
+    return NextResponse.json(token, { status: 201 });
   } catch (error) {
-    console.error('Error generating token:', error);
+    if (error instanceof SessionTokenError && error.status < 500) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('❌ Error issuing session token:', error);
     return NextResponse.json(
       { error: 'Failed to generate token', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
+      { status: error instanceof SessionTokenError ? error.status : 500 }
     );
   }
-}
\ No newline at end of file
+}
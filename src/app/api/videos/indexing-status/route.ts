@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getErrorMessage, getErrorStatus, getTwelveLabsClient } from '@/utils/twelvelabs';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
 
 export async function GET(request: NextRequest) {
+  const denied = await checkRole(request, 'viewer');
+  if (denied) return denied;
+
   try {
-    // Get API key from environment variable
-    const apiKey = process.env.TWELVELABS_API_KEY;
-    if (!apiKey) {
+    const client = getTwelveLabsClient();
+    if (!client.isConfigured()) {
       return NextResponse.json({ error: 'API key not configured' }, { status: 500 });
     }
 
@@ -16,33 +21,17 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'taskId parameter is required' }, { status: 400 });
     }
 
-    // Make request to Twelve Labs API to check task status
-    const response = await fetch(`https://api.twelvelabs.io/v1.3/tasks/${taskId}`, {
-      method: 'GET',
-      headers: {
-        'x-api-key': apiKey,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    // Handle API response
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Twelve Labs API error:', errorText);
-      return NextResponse.json(
-        { error: `Twelve Labs API error: ${response.status}`, details: errorText },
-        { status: response.status }
-      );
-    }
+    // Check task status; tasks of another workspace's indexes are refused
+    const data = await client.tasks.get(taskId);
+    const workspace = await getRouteWorkspace(request, [data.index_id]);
+    if (workspace instanceof NextResponse) return workspace;
 
-    // Return the API response
-    const data = await response.json();
     return NextResponse.json(data);
   } catch (error) {
     console.error('Error checking indexing status:', error);
     return NextResponse.json(
-      { error: 'Failed to check indexing status', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
+      { error: 'Failed to check indexing status', details: getErrorMessage(error) },
+      { status: getErrorStatus(error) }
     );
   }
-}
\ No newline at end of file
+}
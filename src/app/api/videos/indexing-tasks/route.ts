@@ -1,18 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// Define a proper interface for task objects
-interface Task {
-  _id: string;
-  status: string;
-  index_id?: string;
-  video_id?: string;
-}
+import { getErrorMessage, getErrorStatus, getTwelveLabsClient } from '@/utils/twelvelabs';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
 
 export async function GET(request: NextRequest) {
+  const denied = await checkRole(request, 'viewer');
+  if (denied) return denied;
+
   try {
-    // Get API key from environment variable
-    const apiKey = process.env.TWELVELABS_API_KEY;
-    if (!apiKey) {
+    const client = getTwelveLabsClient();
+    if (!client.isConfigured()) {
       return NextResponse.json({ error: 'API key not configured' }, { status: 500 });
     }
 
@@ -23,34 +20,17 @@ export async function GET(request: NextRequest) {
     if (!indexId) {
       return NextResponse.json({ error: 'indexId parameter is required' }, { status: 400 });
     }
+    const workspace = await getRouteWorkspace(request, [indexId]);
+    if (workspace instanceof NextResponse) return workspace;
 
-    // Make request to Twelve Labs API to get tasks for the index
+    // Get tasks for the index
     // Increase page_size to get more results and include both ready and processing tasks
-    const response = await fetch(`https://api.twelvelabs.io/v1.3/tasks?index_id=${indexId}&page_size=20&page=1`, {
-      method: 'GET',
-      headers: {
-        'x-api-key': apiKey,
-        'Content-Type': 'application/json',
-      },
-    });
-
-    // Handle API response
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Twelve Labs API error:', errorText);
-      return NextResponse.json(
-        { error: `Twelve Labs API error: ${response.status}`, details: errorText },
-        { status: response.status }
-      );
-    }
-
-    // Return the API response with detailed data
-    const data = await response.json();
+    const data = await client.tasks.list(indexId, { page: 1, pageLimit: 20 });
 
     // Log tasks information for debugging
     if (data.data && data.data.length > 0) {
       console.log(`Retrieved ${data.data.length} tasks for index ${indexId}`);
-      console.log(`Task statuses: ${data.data.map((task: Task) => task.status).join(', ')}`);
+      console.log(`Task statuses: ${data.data.map(task => task.status).join(', ')}`);
     }
 
     // Make sure we include all status types (ready, indexing, validating, etc.)
@@ -62,8 +42,8 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error('Error fetching indexing tasks:', error);
     return NextResponse.json(
-      { error: 'Failed to fetch indexing tasks', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
+      { error: 'Failed to fetch indexing tasks', details: getErrorMessage(error) },
+      { status: getErrorStatus(error) }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,27 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const API_KEY = process.env.TWELVELABS_API_KEY;
-const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
+import { VideoMetadataUpdate } from '@/types';
+import { getErrorMessage, getErrorStatus, getTwelveLabsClient, TwelveLabsError } from '@/utils/twelvelabs';
+import { MetadataUpdateError, normalizeMetadataPatch, patchVideoMetadata } from '@/utils/videoMetadata';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
 
 // Type definition for metadata request
 interface MetadataUpdateRequest {
   videoId: string;
   indexId: string;
-  metadata: {
-    source?: string;
-    sector?: string;
-    emotions?: string;
-    brands?: string;
-    locations?: string;
-    demographics?: string;
-  }
+  // Only the fields to change: taxonomy ids or stored field names, or custom keys. '' clears a field.
+  metadata: Record<string, string>;
+  // updated_at of the video as the editor last loaded it; the update is refused (409) if it has changed since
+  expectedUpdatedAt?: string;
 }
 
-export async function PUT(request: NextRequest) {
+// Merges the given fields into the video's user_metadata; fields not in the request are left as they are
+export async function PATCH(request: NextRequest) {
+  const denied = await checkRole(request, 'editor');
+  if (denied) return denied;
+
   try {
     // Parse request body
     const body: MetadataUpdateRequest = await request.json();
-    const { videoId, indexId, metadata } = body;
+    const { videoId, indexId, metadata, expectedUpdatedAt } = body;
 
 
     // Validate required parameters
@@ -31,61 +33,44 @@ export async function PUT(request: NextRequest) {
         { status: 400 }
       );
     }
+    const workspace = await getRouteWorkspace(request, [indexId]);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const patch = normalizeMetadataPatch(metadata, workspace.taxonomy);
 
     // Development/test environment response
-    if (!API_KEY || !TWELVELABS_API_BASE_URL) {
+    if (!getTwelveLabsClient().isConfigured()) {
       console.error('Missing API key or base URL in environment variables');
       return NextResponse.json({
         success: true,
-        message: 'Metadata updated successfully (development mode)'
+        message: 'Metadata updated successfully (development mode)',
+        userMetadata: patch,
       });
     }
 
-    // Prepare API request
-    const url = `${TWELVELABS_API_BASE_URL}/indexes/${indexId}/videos/${videoId}`;
-
-    const requestBody = {
-      user_metadata: {
-        source: metadata.source || '',
-        sector: metadata.sector || '',
-        emotions: metadata.emotions || '',
-        brands: metadata.brands || '',
-        locations: metadata.locations || '',
-        demographics: metadata.demographics || ''
-      }
-    };
-
-    const options = {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': API_KEY,
-      },
-      body: JSON.stringify(requestBody)
-    };
-
-    // Call Twelve Labs API
-    const response = await fetch(url, options);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`API error: ${response.status} - ${errorText}`);
-      return NextResponse.json(
-        { error: `Failed to update metadata: ${response.statusText}` },
-        { status: response.status }
-      );
-    }
+    const result: VideoMetadataUpdate = await patchVideoMetadata({ indexId, videoId, patch, expectedUpdatedAt });
 
     // Return success response
     return NextResponse.json({
       success: true,
-      message: 'Video metadata updated successfully'
+      message: 'Video metadata updated successfully',
+      ...result,
     });
   } catch (error) {
+    if (error instanceof MetadataUpdateError) {
+      return NextResponse.json({ error: error.message, ...error.current }, { status: error.status });
+    }
+    if (error instanceof TwelveLabsError) {
+      console.error(`API error: ${getErrorMessage(error)}`);
+      return NextResponse.json(
+        { error: `Failed to update metadata: ${getErrorMessage(error)}` },
+        { status: getErrorStatus(error) }
+      );
+    }
     console.error('Error updating video metadata:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Internal Server Error' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,42 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const API_KEY = process.env.TWELVELABS_API_KEY;
-const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
-
-// Twelve Labs API 응답 타입 정의
-type TwelveLabsVideoItem = {
-  _id: string;
-  created_at: string;
-  system_metadata?: {
-    filename?: string;
-    duration?: number;
-    video_title?: string;
-    fps?: number;
-    height?: number;
-    width?: number;
-    size?: number;
-    model_names?: string[];
-  };
-  hls?: {
-    video_url?: string;
-    thumbnail_urls?: string[];
-    status?: string;
-    updated_at?: string;
-  };
-};
-
-type TwelveLabsApiResponse = {
-  data: TwelveLabsVideoItem[];
-  page_info: {
-    page: number;
-    limit_per_page: number;
-    total_page: number;
-    total_results: number;
-    total_duration: number;
-  };
-};
+import { getErrorMessage, getErrorStatus, getTwelveLabsClient } from '@/utils/twelvelabs';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
 
 export async function GET(request: NextRequest) {
+  const denied = await checkRole(request, 'viewer');
+  if (denied) return denied;
+
   try {
     const searchParams = request.nextUrl.searchParams;
     const page = searchParams.get('page') || '1';
@@ -46,6 +16,8 @@ export async function GET(request: NextRequest) {
     if (!indexId) {
       return NextResponse.json({ error: 'Index ID is required' }, { status: 400 });
     }
+    const workspace = await getRouteWorkspace(request, [indexId]);
+    if (workspace instanceof NextResponse) return workspace;
 
     // Enforce maximum limit of 50 for Twelve Labs API
     if (limit > 50) {
@@ -53,37 +25,19 @@ export async function GET(request: NextRequest) {
       limit = 50;
     }
 
-    if (!API_KEY || !TWELVELABS_API_BASE_URL) {
-      console.error('Missing API key or base URL in environment variables');
+    const client = getTwelveLabsClient();
+
+    if (!client.isConfigured()) {
+      console.error('Missing API key in environment variables');
       return NextResponse.json(
         { error: 'API credentials not configured' },
         { status: 500 }
       );
     }
 
-    const url = `${TWELVELABS_API_BASE_URL}/indexes/${indexId}/videos?page=${page}&page_limit=${limit}`;
-
-    const options = {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': API_KEY,
-      },
-    };
-
-    const response = await fetch(url, options);
-
-    if (!response.ok) {
-      console.error(`API error: ${response.status} - ${await response.text()}`);
-      return NextResponse.json(
-        { error: `Failed to fetch videos: ${response.statusText}` },
-        { status: response.status }
-      );
-    }
-
-    const data = await response.json() as TwelveLabsApiResponse;
+    const data = await client.videos.list(indexId, { page: parseInt(page), pageLimit: limit });
 
-    // API 응답 그대로 반환 (이미 TwelveLabsApiResponse 타입에 맞게 수정함)
+    // API 응답 그대로 반환
     const formattedData = {
       data: data.data,
       page_info: {
@@ -97,8 +51,8 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error('Error in videos API:', error);
     return NextResponse.json(
-      { error: 'Failed to fetch videos', details: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
+      { error: 'Failed to fetch videos', details: getErrorMessage(error) },
+      { status: getErrorStatus(error) }
     );
   }
-}
\ No newline at end of file
+}
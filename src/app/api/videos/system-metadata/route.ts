@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-const API_KEY = process.env.TWELVELABS_API_KEY;
-const TWELVELABS_API_BASE_URL = process.env.TWELVELABS_API_BASE_URL;
+import { getErrorMessage, getErrorStatus, getTwelveLabsClient } from '@/utils/twelvelabs';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
 
 // Type definition for system metadata request
 interface SystemMetadataUpdateRequest {
@@ -14,6 +14,9 @@ interface SystemMetadataUpdateRequest {
 }
 
 export async function PUT(request: NextRequest) {
+  const denied = await checkRole(request, 'editor');
+  if (denied) return denied;
+
   try {
     // Parse request body
     const body: SystemMetadataUpdateRequest = await request.json();
@@ -26,9 +29,13 @@ export async function PUT(request: NextRequest) {
         { status: 400 }
       );
     }
+    const workspace = await getRouteWorkspace(request, [indexId]);
+    if (workspace instanceof NextResponse) return workspace;
+
+    const client = getTwelveLabsClient();
 
     // Development/test environment response
-    if (!API_KEY || !TWELVELABS_API_BASE_URL) {
+    if (!client.isConfigured()) {
       console.error('Missing API key or base URL in environment variables');
       return NextResponse.json({
         success: true,
@@ -37,9 +44,6 @@ export async function PUT(request: NextRequest) {
     }
 
     // Prepare API request
-    const url = `${TWELVELABS_API_BASE_URL}/indexes/${indexId}/videos/${videoId}`;
-
-
     const requestBody = {
       system_metadata: {
         video_title: systemMetadata.video_title,
@@ -47,24 +51,14 @@ export async function PUT(request: NextRequest) {
       }
     };
 
-    const options = {
-      method: 'PUT',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': API_KEY,
-      },
-      body: JSON.stringify(requestBody)
-    };
-
     // Call Twelve Labs API
-    const response = await fetch(url, options);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`API error: ${response.status} - ${errorText}`);
+    try {
+      await client.videos.update(indexId, videoId, requestBody);
+    } catch (error) {
+      console.error(`API error: ${getErrorMessage(error)}`);
       return NextResponse.json(
-        { error: `Failed to update system metadata: ${response.statusText}` },
-        { status: response.status }
+        { error: `Failed to update system metadata: ${getErrorMessage(error)}` },
+        { status: getErrorStatus(error) }
       );
     }
 
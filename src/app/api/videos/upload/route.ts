@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getErrorMessage, getErrorStatus, getTwelveLabsClient } from '@/utils/twelvelabs';
+import { checkRole } from '@/utils/auth';
+import { getRouteWorkspace } from '@/utils/workspaces';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+// Accepts JSON ({ indexId, videoUrl }), or a file sent as the raw request body with indexId and filename
+// in the query. The file is streamed on to TwelveLabs rather than read into memory first.
+export async function POST(request: NextRequest) {
+  const denied = await checkRole(request, 'editor');
+  if (denied) return denied;
+
+  try {
+    const client = getTwelveLabsClient();
+    if (!client.isConfigured()) {
+      return NextResponse.json({ error: 'API key not configured' }, { status: 500 });
+    }
+
+    const contentType = request.headers.get('content-type') || '';
+    const { searchParams } = new URL(request.url);
+
+    let indexId: string | null = null;
+    let file: ReadableStream<Uint8Array> | null = null;
+    let filename: string | null = null;
+    let videoUrl: string | null = null;
+
+    if (contentType.includes('multipart/form-data')) {
+      return NextResponse.json(
+        { error: 'Send the file as the raw request body, with indexId and filename in the query' },
+        { status: 415 }
+      );
+    } else if (contentType.includes('application/json')) {
+      const body = await request.json();
+      indexId = body.indexId;
+      videoUrl = body.videoUrl;
+    } else {
+      indexId = searchParams.get('indexId');
+      filename = searchParams.get('filename');
+      file = request.body;
+    }
+
+    if (!indexId) {
+      return NextResponse.json({ error: 'indexId is required' }, { status: 400 });
+    }
+    const workspace = await getRouteWorkspace(request, [indexId]);
+    if (workspace instanceof NextResponse) return workspace;
+
+    if (!file && !videoUrl) {
+      return NextResponse.json({ error: 'Either a file or a videoUrl is required' }, { status: 400 });
+    }
+
+    if (videoUrl && !/^https?:\/\//i.test(videoUrl)) {
+      return NextResponse.json({ error: 'videoUrl must be an http(s) URL' }, { status: 400 });
+    }
+
+    const task = await client.tasks.create({
+      indexId,
+      file: file || undefined,
+      filename: filename || undefined,
+      videoUrl: videoUrl || undefined,
+    });
+
+    return NextResponse.json({
+      taskId: task._id,
+      videoId: task.video_id || null,
+      indexId,
+      filename: filename || videoUrl,
+      status: 'pending'
+    });
+  } catch (error) {
+    console.error('Error uploading video:', error);
+    return NextResponse.json(
+      { error: 'Failed to upload video', details: getErrorMessage(error) },
+      { status: getErrorStatus(error) }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { WorkspaceInput } from '@/types';
+import { checkRole } from '@/utils/auth';
+import { getWorkspaceService, WorkspaceError } from '@/utils/workspaces';
+
+type RouteContext = { params: Promise<{ workspaceId: string }> };
+
+// PUT { name?, adsIndexId?, contentIndexId?, vectorNamespace?, memberEmails?, taxonomy? }; `taxonomy: null` goes back to taxonomy.json
+export async function PUT(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+  const { workspaceId } = await context.params;
+
+  try {
+    const body = await req.json() as WorkspaceInput;
+    const workspace = await getWorkspaceService().update(workspaceId, body);
+    return NextResponse.json({ workspace });
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`❌ Error updating workspace ${workspaceId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to update workspace', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Removes the workspace's configuration; its vectors are left in the vector store
+export async function DELETE(req: Request, context: RouteContext) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+  const { workspaceId } = await context.params;
+
+  try {
+    await getWorkspaceService().remove(workspaceId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error(`❌ Error removing workspace ${workspaceId}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to remove workspace', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { checkRole, getCookieOptions, getSessionUser } from '@/utils/auth';
+import { canAccessWorkspace, getWorkspaceService, WORKSPACE_COOKIE } from '@/utils/workspaces';
+
+const SELECTION_MAX_AGE_SEC = 365 * 24 * 60 * 60;
+
+// POST { workspaceId } selects the workspace later requests from this browser use
+export async function POST(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+
+  try {
+    const { workspaceId } = await req.json().catch(() => ({})) as { workspaceId?: string };
+    if (!workspaceId) {
+      return NextResponse.json({ error: 'workspaceId is required' }, { status: 400 });
+    }
+
+    const workspace = await getWorkspaceService().get(workspaceId);
+    if (!workspace) {
+      return NextResponse.json({ error: `Workspace ${workspaceId} not found` }, { status: 404 });
+    }
+    if (!canAccessWorkspace(workspace, await getSessionUser(req))) {
+      return NextResponse.json({ error: `You are not a member of workspace "${workspace.name}"` }, { status: 403 });
+    }
+
+    const response = NextResponse.json({ workspace });
+    response.cookies.set(WORKSPACE_COOKIE, workspace.id, getCookieOptions(SELECTION_MAX_AGE_SEC));
+    return response;
+  } catch (error) {
+    console.error('❌ Error selecting workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to select workspace', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { WorkspaceInput, WorkspaceList } from '@/types';
+import { checkRole, getSessionUser } from '@/utils/auth';
+import { canAccessWorkspace, getRequestWorkspace, getWorkspaceService, WorkspaceError } from '@/utils/workspaces';
+
+// The workspaces the user may open (all of them for admins), plus the one this request resolves to
+export async function GET(req: Request) {
+  const denied = await checkRole(req, 'viewer');
+  if (denied) return denied;
+
+  try {
+    const [workspaces, active, user] = await Promise.all([
+      getWorkspaceService().list(),
+      getRequestWorkspace(req),
+      getSessionUser(req),
+    ]);
+    const response: WorkspaceList = {
+      workspaces: workspaces.filter(workspace => canAccessWorkspace(workspace, user)),
+      activeWorkspaceId: active.id,
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('❌ Error listing workspaces:', error);
+    return NextResponse.json(
+      { error: 'Failed to list workspaces', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST { name, adsIndexId, contentIndexId, vectorNamespace?, memberEmails?, taxonomy? } creates a workspace
+export async function POST(req: Request) {
+  const denied = await checkRole(req, 'admin');
+  if (denied) return denied;
+
+  try {
+    const body = await req.json() as WorkspaceInput;
+    const workspace = await getWorkspaceService().create(body);
+    return NextResponse.json({ workspace }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('❌ Error creating workspace:', error);
+    return NextResponse.json(
+      { error: 'Failed to create workspace', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,441 @@
+"use client";
+
+import { useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  fetchVideos,
+  fetchCampaigns,
+  fetchCampaign,
+  createCampaign,
+  updateCampaign,
+  deleteCampaign,
+  runCampaignAnalysis,
+  getMediaPlanExportUrl,
+  getVmapExportUrl
+} from '@/hooks/apiHooks';
+import Sidebar from '@/components/Sidebar';
+import Video from '@/components/Video';
+import LoadingSpinner from '@/components/LoadingSpinner';
+import MatchRulesEditor from '@/components/MatchRulesEditor';
+import RankingContributions from '@/components/RankingContributions';
+import { Campaign, CampaignTargeting, MatchRule, MatchRules } from '@/types';
+import { EMPTY_MATCH_RULES } from '@/utils/matchRules';
+import { findTaxonomyCategory } from '@/utils/taxonomy';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
+
+// Ads offered in the campaign form; the TwelveLabs list endpoint caps a page at 50
+const AD_PICKER_LIMIT = 50;
+
+// Targeting is edited as chips; exclusions reuse the brand safety editor with its blocking rules only
+const EXCLUSION_RULES: MatchRule[] = ['blockedBrands', 'blockedTopics', 'blockedEmotions'];
+
+const TARGETING_FIELDS: { key: keyof CampaignTargeting; category: string; label: string }[] = [
+  { key: 'topics', category: 'topic_category', label: 'Topics' },
+  { key: 'genders', category: 'demo_gender', label: 'Gender' },
+  { key: 'ageGroups', category: 'demo_age', label: 'Age groups' },
+];
+
+type CampaignDraft = {
+  name: string;
+  advertiser: string;
+  adVideoIds: string[];
+  targeting: CampaignTargeting;
+  flightStart: string;
+  flightEnd: string;
+  rules: MatchRules;
+};
+
+const EMPTY_DRAFT: CampaignDraft = {
+  name: '',
+  advertiser: '',
+  adVideoIds: [],
+  targeting: { topics: [], genders: [], ageGroups: [] },
+  flightStart: '',
+  flightEnd: '',
+  rules: EMPTY_MATCH_RULES,
+};
+
+const toDraft = (campaign: Campaign): CampaignDraft => ({
+  name: campaign.name,
+  advertiser: campaign.advertiser,
+  adVideoIds: campaign.adVideoIds,
+  targeting: campaign.targeting,
+  flightStart: campaign.flightStart || '',
+  flightEnd: campaign.flightEnd || '',
+  rules: campaign.rules,
+});
+
+const formatFlight = (start?: string, end?: string) => {
+  if (!start && !end) return 'No flight dates';
+  return `${start || '…'} → ${end || '…'}`;
+};
+
+export default function Campaigns() {
+  // null: nothing selected, 'new': creating a campaign
+  const [selectedCampaignId, setSelectedCampaignId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<CampaignDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const { adsIndexId, contentIndexId, taxonomy } = useWorkspace().workspace;
+  const queryClient = useQueryClient();
+
+  const { data: campaigns = [], isLoading: isLoadingCampaigns } = useQuery({
+    queryKey: ['campaigns'],
+    queryFn: fetchCampaigns,
+  });
+
+  const isExisting = !!selectedCampaignId && selectedCampaignId !== 'new';
+
+  const { data: campaign } = useQuery({
+    queryKey: ['campaign', selectedCampaignId],
+    queryFn: () => fetchCampaign(selectedCampaignId as string),
+    enabled: isExisting,
+  });
+
+  const { data: ads } = useQuery({
+    queryKey: ['videos', 1, adsIndexId, AD_PICKER_LIMIT],
+    queryFn: () => fetchVideos(1, adsIndexId, AD_PICKER_LIMIT),
+    enabled: !!adsIndexId,
+  });
+
+  const adTitles = new Map((ads?.data || []).map(video => [
+    video._id,
+    video.system_metadata?.video_title || video.system_metadata?.filename || video._id,
+  ]));
+
+  const refreshCampaign = (saved: Campaign) => {
+    queryClient.setQueryData(['campaign', saved.id], saved);
+    queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+  };
+
+  const handleSelect = async (campaignId: string) => {
+    setSelectedCampaignId(campaignId);
+    setMessage(null);
+    try {
+      const loaded = await queryClient.fetchQuery({
+        queryKey: ['campaign', campaignId],
+        queryFn: () => fetchCampaign(campaignId),
+      });
+      setDraft(toDraft(loaded));
+    } catch (error) {
+      setMessage(`Failed to load campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleNew = () => {
+    setSelectedCampaignId('new');
+    setDraft(EMPTY_DRAFT);
+    setMessage(null);
+  };
+
+  const toggleAd = (adVideoId: string) => {
+    setDraft(prev => ({
+      ...prev,
+      adVideoIds: prev.adVideoIds.includes(adVideoId)
+        ? prev.adVideoIds.filter(id => id !== adVideoId)
+        : [...prev.adVideoIds, adVideoId],
+    }));
+  };
+
+  const toggleTargeting = (key: keyof CampaignTargeting, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      targeting: {
+        ...prev.targeting,
+        [key]: prev.targeting[key].includes(value)
+          ? prev.targeting[key].filter(item => item !== value)
+          : [...prev.targeting[key], value],
+      },
+    }));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const saved = isExisting && selectedCampaignId
+        ? await updateCampaign(selectedCampaignId, draft)
+        : await createCampaign(draft);
+      refreshCampaign(saved);
+      setSelectedCampaignId(saved.id);
+      setDraft(toDraft(saved));
+      setMessage('Campaign saved');
+    } catch (error) {
+      setMessage(`Failed to save campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!isExisting || !selectedCampaignId) return;
+    if (!window.confirm(`Delete campaign "${draft.name}"?`)) return;
+
+    try {
+      await deleteCampaign(selectedCampaignId);
+      queryClient.removeQueries({ queryKey: ['campaign', selectedCampaignId] });
+      queryClient.invalidateQueries({ queryKey: ['campaigns'] });
+      setSelectedCampaignId(null);
+      setDraft(EMPTY_DRAFT);
+    } catch (error) {
+      setMessage(`Failed to delete campaign: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Runs against the saved campaign, so unsaved edits are not part of the analysis
+  const handleRunAnalysis = async () => {
+    if (!isExisting || !selectedCampaignId) return;
+
+    setIsRunning(true);
+    setMessage(null);
+    try {
+      const analyzed = await runCampaignAnalysis(selectedCampaignId);
+      refreshCampaign(analyzed);
+    } catch (error) {
+      setMessage(`Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="flex mt-5 min-h-screen bg-zinc-100">
+      {/* Sidebar */}
+      <Sidebar activeMenu="campaigns" />
+
+      <div className="flex-1 overflow-auto ml-54">
+        <div className="p-8 max-w-6xl mx-auto flex gap-8">
+          {/* Campaign list */}
+          <div className="w-64 flex-shrink-0">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-medium">Campaigns</h2>
+              <button
+                onClick={handleNew}
+                className="rounded-2xl bg-black text-white px-3 py-1 text-sm cursor-pointer"
+              >
+                New
+              </button>
+            </div>
+            {isLoadingCampaigns ? (
+              <LoadingSpinner size="sm" />
+            ) : campaigns.length === 0 ? (
+              <p className="text-sm text-gray-500">No campaigns yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {campaigns.map(item => (
+                  <button
+                    key={item.id}
+                    onClick={() => handleSelect(item.id)}
+                    className={`block w-full text-left rounded-2xl px-4 py-3 cursor-pointer ${selectedCampaignId === item.id ? 'bg-gray-500 text-white' : 'bg-white hover:bg-gray-200'}`}
+                  >
+                    <div className="font-medium">{item.name}</div>
+                    <div className="text-xs opacity-75">
+                      {item.advertiser || 'No advertiser'} · {item.adVideoIds.length} ad{item.adVideoIds.length === 1 ? '' : 's'}
+                    </div>
+                    <div className="text-xs opacity-75">
+                      {item.lastRunAt ? `${item.shortlistCount} shortlisted · ${new Date(item.lastRunAt).toLocaleDateString()}` : 'Not analyzed yet'}
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Campaign form and shortlist */}
+          <div className="flex-1 min-w-0">
+            {!selectedCampaignId ? (
+              <p className="text-sm text-gray-500 mt-12 text-center">Select a campaign or create a new one.</p>
+            ) : (
+              <>
+                <div className="bg-white rounded-[45.60px] p-8 space-y-4 text-sm">
+                  <div className="grid grid-cols-2 gap-4">
+                    <label className="flex flex-col gap-1">
+                      <span className="font-medium">Name</span>
+                      <input
+                        type="text"
+                        value={draft.name}
+                        onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                        className="rounded-2xl border px-3 py-1"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      <span className="font-medium">Advertiser</span>
+                      <input
+                        type="text"
+                        value={draft.advertiser}
+                        onChange={(e) => setDraft(prev => ({ ...prev, advertiser: e.target.value }))}
+                        className="rounded-2xl border px-3 py-1"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      <span className="font-medium">Flight start</span>
+                      <input
+                        type="date"
+                        value={draft.flightStart}
+                        onChange={(e) => setDraft(prev => ({ ...prev, flightStart: e.target.value }))}
+                        className="rounded-2xl border px-3 py-1"
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                      <span className="font-medium">Flight end</span>
+                      <input
+                        type="date"
+                        value={draft.flightEnd}
+                        onChange={(e) => setDraft(prev => ({ ...prev, flightEnd: e.target.value }))}
+                        className="rounded-2xl border px-3 py-1"
+                      />
+                    </label>
+                  </div>
+
+                  <div>
+                    <div className="font-medium mb-2">Ads ({draft.adVideoIds.length} selected)</div>
+                    {!adsIndexId ? (
+                      <p className="text-gray-500">The workspace has no ads index.</p>
+                    ) : (
+                      <div className="flex flex-wrap gap-2 max-h-40 overflow-auto">
+                        {(ads?.data || []).map(video => (
+                          <button
+                            key={video._id}
+                            onClick={() => toggleAd(video._id)}
+                            className={`border rounded-full px-2.5 py-0.5 text-xs cursor-pointer ${draft.adVideoIds.includes(video._id) ? 'bg-black text-white' : 'bg-white hover:bg-gray-200'}`}
+                          >
+                            {adTitles.get(video._id)}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="font-medium">Target audience &amp; topics</div>
+                    {TARGETING_FIELDS.map(field => (
+                      <div key={field.key} className="flex flex-wrap items-center gap-2">
+                        <span className="w-28 flex-shrink-0">{field.label}</span>
+                        {(findTaxonomyCategory(field.category, taxonomy)?.values || []).map(value => (
+                          <button
+                            key={value}
+                            onClick={() => toggleTargeting(field.key, value)}
+                            className={`border rounded-full px-2.5 py-0.5 text-xs cursor-pointer ${draft.targeting[field.key].includes(value) ? 'bg-black text-white' : 'bg-white hover:bg-gray-200'}`}
+                          >
+                            {value}
+                          </button>
+                        ))}
+                      </div>
+                    ))}
+                    <p className="text-xs text-gray-500">
+                      Only content tagged with one of the selected values (per row) is matched.
+                    </p>
+                  </div>
+
+                  <MatchRulesEditor
+                    title="Exclusion rules"
+                    only={EXCLUSION_RULES}
+                    rules={draft.rules}
+                    onChange={(rules) => setDraft(prev => ({ ...prev, rules }))}
+                  />
+
+                  <div className="flex items-center gap-3">
+                    <button
+                      onClick={handleSave}
+                      disabled={isSaving}
+                      className="rounded-2xl bg-black text-white px-4 py-1.5 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isSaving ? 'Saving...' : 'Save campaign'}
+                    </button>
+                    {isExisting && (
+                      <>
+                        <button
+                          onClick={handleRunAnalysis}
+                          disabled={isRunning || draft.adVideoIds.length === 0 || !contentIndexId}
+                          className="rounded-2xl border px-4 py-1.5 cursor-pointer hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          {isRunning ? 'Running analysis...' : 'Run contextual analysis'}
+                        </button>
+                        <button
+                          onClick={handleDelete}
+                          className="ml-auto text-red-500 hover:text-red-700 cursor-pointer"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </div>
+                  {message && <p className="text-xs text-gray-600">{message}</p>}
+                </div>
+
+                {/* Shortlist from the latest analysis */}
+                {isExisting && campaign?.analysis && (
+                  <div className="mt-8">
+                    <div className="flex items-center justify-between mb-1">
+                      <h3 className="text-xl font-medium">Shortlist</h3>
+                      <div className="flex gap-2 text-sm">
+                        {(['csv', 'json'] as const).map(format => (
+                          <a
+                            key={format}
+                            href={getMediaPlanExportUrl(campaign.id, format)}
+                            download
+                            className="rounded-2xl border px-3 py-1 hover:bg-gray-200"
+                          >
+                            Export {format.toUpperCase()}
+                          </a>
+                        ))}
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500 mb-4">
+                      Analyzed {new Date(campaign.analysis.runAt).toLocaleString()} · {campaign.analysis.method} ranking · {formatFlight(campaign.flightStart, campaign.flightEnd)}
+                    </p>
+                    {campaign.analysis.ads.map(ad => (
+                      <div key={ad.adVideoId} className="mb-8">
+                        <h4 className="font-medium mb-2">
+                          {ad.adTitle}
+                          <span className="ml-2 text-xs text-gray-500">
+                            {ad.results.length} match{ad.results.length === 1 ? '' : 'es'}
+                            {ad.excludedCount > 0 ? `, ${ad.excludedCount} excluded by rules` : ''}
+                          </span>
+                        </h4>
+                        {ad.error ? (
+                          <p className="text-sm text-red-500">{ad.error}</p>
+                        ) : ad.results.length === 0 ? (
+                          <p className="text-sm text-gray-500">No content passed the campaign&apos;s targeting and rules.</p>
+                        ) : (
+                          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                            {ad.results.map(result => {
+                              const contentVideoId = result.metadata?.tl_video_id;
+                              if (!contentVideoId) return null;
+
+                              return (
+                                <div key={contentVideoId} className="flex flex-col">
+                                  <Video
+                                    videoId={contentVideoId}
+                                    indexId={contentIndexId}
+                                    showTitle={true}
+                                    disablePlayback={true}
+                                  />
+                                  <RankingContributions result={result} />
+                                  <a
+                                    href={getVmapExportUrl(contentVideoId, campaign.id)}
+                                    download
+                                    className="mt-1 self-start text-xs text-gray-600 hover:text-black underline"
+                                    title="Ad breaks from the video's break plan or chapters, filled with this campaign's best matching ads"
+                                  >
+                                    VMAP
+                                  </a>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { useInfiniteQuery, QueryClient, QueryClientProvider, useQuery } from '@t
 import { useInView } from 'react-intersection-observer';
 import SearchBar from '@/components/SearchBar';
 import ActionButtons from '@/components/ActionButtons';
+import VideoUploader, { useIndexingUploads } from '@/components/VideoUploader';
 import ContentItem from '@/components/ContentItem';
 import SearchResults from '@/components/SearchResults';
 
@@ -12,14 +13,16 @@ import {
   fetchVideos,
   fetchIndex,
   generateMetadata,
-  parseHashtags,
   updateVideoMetadata,
   convertMetadataToTags,
   fetchVideoDetails,
 } from '@/hooks/apiHooks';
 import LoadingSpinner from '../../components/LoadingSpinner';
-import { AdItemType, VideoData, Tag } from '@/types';
+import { AdItemType, VideoData, Tag, Taxonomy } from '@/types';
 import FilterMenu, { ActiveFilters, useFilterState } from '@/components/FilterMenu';
+import { mapUserMetadataToItem } from '@/utils/taxonomy';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
+import { generatedMetadataToFields } from '@/utils/metadataSchema';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -30,23 +33,20 @@ const queryClient = new QueryClient({
   },
 });
 
-const contentIndexId = process.env.NEXT_PUBLIC_CONTENT_INDEX_ID || 'default-content-index';
-
-const COLUMNS = [
+// Column definitions: the video, then one column per category of the workspace's tagging taxonomy
+const getColumns = (taxonomy: Taxonomy) => [
   { id: 'video', label: 'Video', width: '280px' },
-  { id: 'topic_category', label: 'Topic Category', width: '110px' },
-  { id: 'emotions', label: 'Emotions', width: '110px' },
-  { id: 'brands', label: 'Brands', width: '110px' },
-  { id: 'demo_gender', label: 'Target Demo: Gender', width: '110px' },
-  { id: 'demo_age', label: 'Target Demo: Age', width: '110px' },
-  { id: 'location', label: 'Location', width: '110px' },
-  { id: 'source', label: 'Source', width: '250px' },
+  ...taxonomy.categories.map(category => ({ id: category.id, label: category.label, width: category.width || '110px' })),
 ];
 
 // Limit for concurrent metadata processing
 const CONCURRENCY_LIMIT = 10;
 
 export default function ContentLibraryPage() {
+  const { workspace } = useWorkspace();
+  const contentIndexId = workspace.contentIndexId;
+  const taxonomy = workspace.taxonomy;
+  const columns = useMemo(() => getColumns(taxonomy), [taxonomy]);
   const [searchSubmitted, setSearchSubmitted] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
   const [processingMetadata, setProcessingMetadata] = useState(false);
@@ -118,6 +118,11 @@ export default function ContentLibraryPage() {
     enabled: !!contentIndexId,
   });
 
+  // Uploads in progress; refetch the list once a new video is indexed and processed
+  const { indexingItems, startUpload } = useIndexingUploads(contentIndexId, () => {
+    refetch();
+  });
+
   // Load next page when observer is in view
   useEffect(() => {
     if (inView && hasNextPage && !isFetchingNextPage && !isFiltering) {
@@ -127,7 +132,7 @@ export default function ContentLibraryPage() {
   }, [inView, hasNextPage, isFetchingNextPage, isFiltering, fetchNextPage]);
 
   // Convert API response to AdItemType
-  const convertToAdItem = (video: VideoData): AdItemType => {
+  const convertToAdItem = useCallback((video: VideoData): AdItemType => {
     let tags: Tag[] = [];
 
     const isStillIndexing = false;
@@ -139,13 +144,15 @@ export default function ContentLibraryPage() {
       tags = video.metadata.tags;
     }
     else if (video.user_metadata) {
-      tags = convertMetadataToTags(video.user_metadata);
+      tags = convertMetadataToTags(video.user_metadata, taxonomy);
     }
     else {
       tags = [];
     }
 
     const metadata = (!isStillIndexing && video.user_metadata) ? {
+      // custom taxonomy categories first, then the built-in fields with their legacy fallbacks
+      ...mapUserMetadataToItem(video.user_metadata, taxonomy),
       source: video.user_metadata.source as string || '',
       topic_category: video.user_metadata.sector as string || '',
       emotions: video.user_metadata.emotions as string || '',
@@ -167,6 +174,7 @@ export default function ContentLibraryPage() {
 
     return {
       id: video._id,
+      updatedAt: video.updated_at,
       thumbnailUrl: thumbnailUrl,
       title: video.system_metadata?.video_title || video.system_metadata?.filename || 'Untitled Video',
       videoUrl: video.hls?.video_url || '',
@@ -175,7 +183,7 @@ export default function ContentLibraryPage() {
       isIndexing: isStillIndexing,
       status: undefined
     };
-  };
+  }, [taxonomy]);
 
   // Function to refresh metadata for a specific video
   const refreshVideoMetadata = useCallback(async (videoId: string) => {
@@ -190,6 +198,7 @@ export default function ContentLibraryPage() {
           return prevItems.map(item => {
             if (item.id === videoId) {
               const updatedMetadata = updatedVideo.user_metadata ? {
+                ...mapUserMetadataToItem(updatedVideo.user_metadata, taxonomy),
                 source: updatedVideo.user_metadata.source || '',
                 topic_category: updatedVideo.user_metadata.sector || '',
                 emotions: updatedVideo.user_metadata.emotions || '',
@@ -207,12 +216,13 @@ export default function ContentLibraryPage() {
                     d.toLowerCase().includes('men')).join(', ') : '',
               } : undefined;
 
-              const updatedTags = updatedVideo.user_metadata ? convertMetadataToTags(updatedVideo.user_metadata) : [];
+              const updatedTags = updatedVideo.user_metadata ? convertMetadataToTags(updatedVideo.user_metadata, taxonomy) : [];
 
               const updatedItem = {
                 ...item,
                 tags: updatedTags,
                 metadata: updatedMetadata,
+                updatedAt: updatedVideo.updated_at,
                 status: item.status === 'indexing' ? 'indexing' : undefined
               };
 
@@ -228,7 +238,7 @@ export default function ContentLibraryPage() {
         refetch();
       }
     }
-  }, [contentIndexId, refetch]);
+  }, [contentIndexId, refetch, taxonomy]);
 
   // Process metadata for a single video
   const processVideoMetadataSingle = useCallback(async (video: VideoData): Promise<boolean> => {
@@ -249,21 +259,22 @@ export default function ContentLibraryPage() {
 
         setVideosInProcessing(prev => [...prev, videoId]);
 
-        const hashtagText = await generateMetadata(videoId);
+        const generatedMetadata = await generateMetadata(videoId, contentIndexId);
 
-        if (hashtagText) {
-          const metadata = parseHashtags(hashtagText);
+        if (generatedMetadata) {
+          const metadata = generatedMetadataToFields(generatedMetadata, taxonomy);
 
-          await updateVideoMetadata(videoId, contentIndexId, metadata);
+          const { updatedAt } = await updateVideoMetadata(videoId, contentIndexId, metadata);
 
           setAdItems(prevItems => {
             return prevItems.map(item => {
               if (item.id === videoId) {
-                const updatedTags = convertMetadataToTags(metadata);
+                const updatedTags = convertMetadataToTags(metadata, taxonomy);
 
                 return {
                   ...item,
                   metadata: metadata,
+                  updatedAt,
                   tags: updatedTags,
                   status: item.isIndexing ? item.status : undefined
                 };
@@ -287,7 +298,7 @@ export default function ContentLibraryPage() {
       setVideosInProcessing(prev => prev.filter(id => id !== videoId));
       return false;
     }
-  }, [contentIndexId, processedVideoIds, videosInProcessing]);
+  }, [contentIndexId, processedVideoIds, taxonomy, videosInProcessing]);
 
   // Function to filter videos that need metadata processing
   const filterVideosNeedingMetadata = (videos: VideoData[], processedIds: Set<string>, inProcessingIds: string[]) => {
@@ -407,7 +418,7 @@ export default function ContentLibraryPage() {
         }, 100);
       }
     }
-  }, [videosData, processingMetadata, processVideoMetadata, skipMetadataProcessing, processedVideoIds, videosInProcessing]);
+  }, [videosData, processingMetadata, processVideoMetadata, skipMetadataProcessing, processedVideoIds, videosInProcessing, convertToAdItem]);
 
   // Search handler
   const handleSearch = (query: string) => {
@@ -428,8 +439,10 @@ export default function ContentLibraryPage() {
 
 
   const combinedItems = useMemo(() => {
-    return adItems;
-  }, [adItems]);
+    // Show uploads first, dropping any that already came back in the video list
+    const loadedIds = new Set(adItems.map(item => item.id));
+    return [...indexingItems.filter(item => !loadedIds.has(item.id)), ...adItems];
+  }, [adItems, indexingItems]);
 
   const displayItems = useMemo(() => {
     if (isFiltering) {
@@ -480,6 +493,7 @@ export default function ContentLibraryPage() {
                         <ActionButtons
                           onFilter={handleFilter}
                         />
+                        <VideoUploader onUpload={startUpload} />
 
                         {/* Active filter indicators */}
                         {getTotalActiveFilterCount() > 0 && (
@@ -528,7 +542,7 @@ export default function ContentLibraryPage() {
               {!searchSubmitted && (
                 <div className="bg-zinc-100 w-full">
                   <div className="flex border-b pb-3 w-full overflow-x-auto px-4">
-                    {COLUMNS.map(column => (
+                    {columns.map(column => (
                       <div
                         key={column.id}
                         className="font-medium text-center text-md flex-shrink-0"
@@ -598,7 +612,7 @@ export default function ContentLibraryPage() {
                                   <p className="text-sm font-medium truncate">{item.title}</p>
                                 </div>
                               </div>
-                              {COLUMNS.slice(1).map(column => (
+                              {columns.slice(1).map(column => (
                                 <div
                                   key={`${item.id}-${column.id}`}
                                   className="flex-shrink-0 text-center flex items-center justify-center"
@@ -624,6 +638,7 @@ export default function ContentLibraryPage() {
                               videoUrl={item.videoUrl}
                               tags={item.tags}
                               metadata={item.metadata}
+                              updatedAt={item.updatedAt}
                               isLoadingMetadata={videosInProcessing.includes(item.id)}
                               onMetadataUpdated={() => {
                                 refreshVideoMetadata(item.id);
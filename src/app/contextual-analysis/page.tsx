@@ -4,24 +4,47 @@ import { useState, useEffect } from 'react';
 import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
 import {
   fetchVideos,
-  textToVideoEmbeddingSearch,
-  videoToVideoEmbeddingSearch,
+  matchAdToContent,
   checkAndEnsureEmbeddings,
-  checkVectorExists,
-  getAndStoreEmbeddings,
-  fetchIndexingTasks
+  startEmbeddingBackfill,
+  fetchMatchRules,
+  saveMatchRules,
+  updatePlacement
 } from '@/hooks/apiHooks';
 import VideosDropDown from '@/components/VideosDropdown';
 import Video from '@/components/Video';
 import SimilarVideoResults from '@/components/SimilarVideoResults';
-import { VideoData, PaginatedResponse, VideoPage } from '@/types';
+import MatchRulesEditor from '@/components/MatchRulesEditor';
+import { VideoData, PaginatedResponse, VideoPage, JobSummary, RankingMethod, RankingSignal, RankingWeights, MatchRules, PlacementUpdate } from '@/types';
 import Sidebar from '@/components/Sidebar';
 import { useGlobalState } from '@/providers/ReactQueryProvider';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import VideoModalSimple from '@/components/VideoModalSimple';
 import { EmbeddingSearchResult } from '@/types';
+import { DEFAULT_RANKING_METHOD, DEFAULT_RANKING_WEIGHTS, MAX_RANKING_WEIGHT, RANKING_SIGNALS } from '@/utils/ranking';
+import { EMPTY_MATCH_RULES } from '@/utils/matchRules';
+import { applyPlacementDecisions } from '@/utils/placements';
 
 
+const BACKFILL_POLL_INTERVAL_MS = 2000;
+// While no backfill is running, rescan this often to pick up newly indexed videos
+const BACKFILL_RESCAN_INTERVAL_MS = 60000;
+
+const RANKING_METHOD_LABELS: Record<RankingMethod, string> = {
+  max: 'Max score (boost overlaps)',
+  weighted: 'Weighted sum',
+  rrf: 'Reciprocal rank fusion',
+};
+
+const RANKING_SIGNAL_LABELS: Record<RankingSignal, string> = {
+  tag: 'Tags',
+  title: 'Title',
+  visual: 'Visual',
+};
+
+const isBackfillActive = (job?: JobSummary | null) => job?.status === 'running' || job?.status === 'paused';
+
 // VideoPage adapter for the API response
 const adaptToPaginatedResponse = (response: PaginatedResponse): VideoPage => ({
   data: response.data,
@@ -39,23 +62,23 @@ export default function ContextualAnalysis() {
   const [selectedVideo, setSelectedVideo] = useState<VideoData | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [similarResults, setSimilarResults] = useState<EmbeddingSearchResult[]>([]);
+  const [excludedResults, setExcludedResults] = useState<EmbeddingSearchResult[]>([]);
+  const [rejectedResults, setRejectedResults] = useState<EmbeddingSearchResult[]>([]);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isLoadingEmbeddings, setIsLoadingEmbeddings] = useState(false);
-  const [contentVideos, setContentVideos] = useState<VideoData[]>([]);
   const [embeddingsReady, setEmbeddingsReady] = useState(false);
-  const [isProcessingContentEmbeddings, setIsProcessingContentEmbeddings] = useState(false);
-  const [contentEmbeddingsProgress, setContentEmbeddingsProgress] = useState({ processed: 0, total: 0 });
-  const [lastContentEmbeddingsCheck, setLastContentEmbeddingsCheck] = useState<Date | null>(null);
-  const [stillIndexingCount, setStillIndexingCount] = useState(0);
-  const [readyVideosCount, setReadyVideosCount] = useState(0);
   const [showProcessingMessage, setShowProcessingMessage] = useState(true);
   const [showIndexingMessage, setShowIndexingMessage] = useState(true);
   const [showReadyMessage, setShowReadyMessage] = useState(true);
+  const [rankingMethod, setRankingMethod] = useState<RankingMethod>(DEFAULT_RANKING_METHOD);
+  const [rankingWeights, setRankingWeights] = useState<RankingWeights>(DEFAULT_RANKING_WEIGHTS);
+  const [matchRules, setMatchRules] = useState<MatchRules>(EMPTY_MATCH_RULES);
+  const [isSavingRules, setIsSavingRules] = useState(false);
+  const [rulesMessage, setRulesMessage] = useState<string | null>(null);
 
   const { setSelectedAdId } = useGlobalState();
-  const adsIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID || '';
-  const contentIndexId = process.env.NEXT_PUBLIC_CONTENT_INDEX_ID || '';
+  const { adsIndexId, contentIndexId } = useWorkspace().workspace;
 
   const queryClient = useQueryClient();
 
@@ -72,20 +95,6 @@ export default function ContextualAnalysis() {
     initialData: { checked: false, ready: false },
   });
 
-  // Query to cache content embedding check results
-  useQuery({
-    queryKey: ['contentEmbeddingsCheckStatus', contentIndexId],
-    queryFn: async () => {
-      return { lastChecked: lastContentEmbeddingsCheck };
-    },
-    // Only run this query when lastContentEmbeddingsCheck changes
-    enabled: !!lastContentEmbeddingsCheck,
-    // Don't refetch automatically
-    refetchOnWindowFocus: false,
-    refetchOnMount: false,
-    staleTime: Infinity,
-  });
-
   // Query to fetch videos from the ads index
   const {
     data: videosData,
@@ -105,173 +114,38 @@ export default function ContextualAnalysis() {
     enabled: !!adsIndexId,
   });
 
-  // Fetch content videos when component mounts and process their embeddings once
-  useEffect(() => {
-    async function fetchContentVideos() {
-      if (!contentIndexId) return;
-
-      try {
-        let currentPage = 1;
-        let hasMorePages = true;
-        const allContentVideos: VideoData[] = [];
-
-        while (hasMorePages) {
-          const contentResponse = await fetchVideos(currentPage, contentIndexId);
-
-          if (contentResponse && contentResponse.data && contentResponse.data.length > 0) {
-            allContentVideos.push(...contentResponse.data);
-
-            const totalPages = contentResponse.page_info.total_page;
-            currentPage++;
-
-            if (currentPage > totalPages) {
-              hasMorePages = false;
-            }
-          } else {
-            hasMorePages = false;
-          }
-        }
-
-        if (allContentVideos.length > 0) {
-          setContentVideos(allContentVideos);
-
-          await processContentVideoEmbeddings(allContentVideos);
-        }
-      } catch (error) {
-        console.error("Error fetching content videos:", error);
-      }
-    }
-
-    fetchContentVideos();
-
-    const pollInterval = 60000; // Poll every 60 seconds
-    const intervalId = setInterval(() => {
-      fetchContentVideos();
-    }, pollInterval);
-
-    // Clean up interval when component unmounts
-    return () => {
-      clearInterval(intervalId);
-    };
-  }, [contentIndexId, queryClient]);
-
-  // Process content video embeddings
-  async function processContentVideoEmbeddings(videos: VideoData[]) {
-    if (!videos || videos.length === 0 || !contentIndexId) return;
-
-    setIsProcessingContentEmbeddings(true);
-    setContentEmbeddingsProgress({ processed: 0, total: videos.length });
-
-    try {
-      const indexingTasks = await fetchIndexingTasks(contentIndexId);
-
-      const indexingStatusMap = new Map<string, string>();
-      indexingTasks.forEach(task => {
-        if (task.video_id) {
-          indexingStatusMap.set(task.video_id, task.status || 'unknown');
-        }
-      });
-
-      const readyVideos: VideoData[] = [];
-      const stillIndexingVideos: VideoData[] = [];
-
-      videos.forEach(video => {
-        const videoId = video._id;
-        const indexingStatus = indexingStatusMap.get(videoId);
-
-        if (!indexingStatus || indexingStatus === 'ready') {
-          readyVideos.push(video);
-        } else {
-          stillIndexingVideos.push(video);
-        }
-      });
-
-      setReadyVideosCount(readyVideos.length);
-      setStillIndexingCount(stillIndexingVideos.length);
-
-      setContentEmbeddingsProgress({ processed: 0, total: readyVideos.length });
-
-      if (readyVideos.length === 0) {
-        setIsProcessingContentEmbeddings(false);
-        return;
-      }
-
-      const missingEmbeddings: string[] = [];
-      const existingEmbeddings: string[] = [];
-      const processedVideoIds = new Set<string>();
-
-      for (const video of readyVideos) {
-        const videoId = video._id;
-
-        const cacheKey = ['videoEmbedding', contentIndexId, videoId];
-        const cachedStatus = queryClient.getQueryData(cacheKey) as { exists: boolean } | undefined;
-
-        if (cachedStatus) {
-          if (cachedStatus.exists) {
-            existingEmbeddings.push(videoId);
-            processedVideoIds.add(videoId);
-          } else {
-            missingEmbeddings.push(videoId);
-          }
-        } else {
-          const hasEmbedding = await checkVectorExists(videoId, contentIndexId);
-
-          queryClient.setQueryData(cacheKey, { exists: hasEmbedding });
-
-          if (hasEmbedding) {
-            existingEmbeddings.push(videoId);
-            processedVideoIds.add(videoId);
-          } else {
-            missingEmbeddings.push(videoId);
-          }
-        }
-
-        setContentEmbeddingsProgress(prev => ({
-          ...prev,
-          processed: prev.processed + 1
-        }));
-      }
-
-      if (missingEmbeddings.length > 0) {
-        setContentEmbeddingsProgress({ processed: 0, total: missingEmbeddings.length });
-
-        for (const videoId of missingEmbeddings) {
-          const embedResult = await getAndStoreEmbeddings(contentIndexId, videoId);
-
-          if (embedResult.success) {
-            queryClient.setQueryData(['videoEmbedding', contentIndexId, videoId], { exists: true });
-            processedVideoIds.add(videoId);
-          } else {
-            console.error(`❌ Failed to generate embedding for content video ${videoId}: ${embedResult.message}`);
-            queryClient.setQueryData(['videoEmbedding', contentIndexId, videoId], { exists: false, failed: true });
-          }
-
-          setContentEmbeddingsProgress(prev => ({
-            ...prev,
-            processed: prev.processed + 1
-          }));
-        }
-      }
-
-      queryClient.setQueryData(['contentEmbeddingsStatus', contentIndexId], {
-        processed: true,
-        total: videos.length,
-        readyVideos: readyVideos.length,
-        stillIndexingVideos: stillIndexingVideos.length,
-        videoIds: videos.map(v => v._id),
-        processedVideoIds: Array.from(processedVideoIds),
-        needsProcessing: stillIndexingVideos.length > 0, // Still need processing if any videos are indexing
-        lastProcessed: new Date().toISOString()
-      });
+  // Content embeddings are stored by a server-side backfill job: scan on load (and periodically while idle)
+  // and poll the job's progress while it runs. The job keeps going if this page is closed.
+  const { data: contentBackfill } = useQuery({
+    queryKey: ['embeddingBackfill', contentIndexId],
+    queryFn: () => startEmbeddingBackfill(contentIndexId),
+    enabled: !!contentIndexId,
+    refetchInterval: (query) => isBackfillActive(query.state.data?.job) ? BACKFILL_POLL_INTERVAL_MS : BACKFILL_RESCAN_INTERVAL_MS,
+    refetchOnWindowFocus: false,
+  });
 
-      setLastContentEmbeddingsCheck(new Date());
+  // Brand safety / targeting rules saved for the selected ad
+  const { data: savedMatchRules } = useQuery({
+    queryKey: ['matchRules', selectedVideoId],
+    queryFn: () => fetchMatchRules(selectedVideoId!),
+    enabled: !!selectedVideoId,
+    refetchOnWindowFocus: false,
+  });
 
-    } catch (error) {
-      console.error("Error processing content embeddings:", error);
-    } finally {
-      setIsProcessingContentEmbeddings(false);
-    }
-  }
+  useEffect(() => {
+    setMatchRules(savedMatchRules || EMPTY_MATCH_RULES);
+    setRulesMessage(null);
+  }, [savedMatchRules]);
+
+  const backfillJob = contentBackfill?.job;
+  const isProcessingContentEmbeddings = isBackfillActive(backfillJob);
+  const contentEmbeddingsProgress = {
+    processed: backfillJob ? backfillJob.counts.succeeded + backfillJob.counts.failed : 0,
+    total: backfillJob?.counts.total || 0,
+  };
+  const stillIndexingCount = contentBackfill?.coverage?.indexing || 0;
+  const readyVideosCount = (contentBackfill?.coverage?.embedded || 0) + (backfillJob?.counts.succeeded || 0);
+  const lastContentEmbeddingsCheck = contentBackfill?.coverage?.checkedAt ? new Date(contentBackfill.coverage.checkedAt) : null;
 
   useEffect(() => {
     return () => {
@@ -324,6 +198,8 @@ export default function ContextualAnalysis() {
     const video = allVideos.find((v: VideoData) => v._id === videoId);
     setSelectedVideo(video || null);
     setSimilarResults([]);
+    setExcludedResults([]);
+    setRejectedResults([]);
     setSelectedAdId(videoId);
   };
 
@@ -336,7 +212,7 @@ export default function ContextualAnalysis() {
         selectedVideoId,
         adsIndexId,
         contentIndexId,
-        contentVideos,
+        undefined,
         false
       );
 
@@ -368,94 +244,61 @@ export default function ContextualAnalysis() {
       }
 
       setSimilarResults([]);
-
-      let textResults: EmbeddingSearchResult[] = [];
-      let videoResults: EmbeddingSearchResult[] = [];
-
-      try {
-        textResults = await textToVideoEmbeddingSearch(selectedVideoId, adsIndexId, contentIndexId);
-        if (textResults.length > 0) {
-        }
-      } catch (error) {
-        console.error("Error in text-based search:", error);
-      }
-
-      try {
-        videoResults = await videoToVideoEmbeddingSearch(selectedVideoId, adsIndexId, contentIndexId);
-
-        if (videoResults.length > 0) {
-        } else {
-        }
-      } catch (error) {
-        console.error("Error in video-based search:", error);
-      }
-
-      const combinedResultsMap = new Map();
-
-      textResults.forEach(result => {
-        const videoId = result.metadata?.tl_video_id;
-        if (videoId) {
-          combinedResultsMap.set(videoId, {
-            videoId,
-            metadata: result.metadata,
-            textScore: result.score,
-            videoScore: 0,
-            finalScore: result.score,
-            source: "TEXT"
-          });
-        }
+      setExcludedResults([]);
+      setRejectedResults([]);
+
+      // Tag, title and visual results are fused on the server with the selected method and weights
+      const { results, excluded, rejected } = await matchAdToContent(selectedVideoId, adsIndexId, contentIndexId, {
+        method: rankingMethod,
+        weights: rankingWeights,
+        rules: matchRules,
       });
 
-      videoResults.forEach(result => {
-        const videoId = result.metadata?.tl_video_id;
-        if (videoId) {
-          if (combinedResultsMap.has(videoId)) {
-            // This is a match found in both searches - update it
-            const existingResult = combinedResultsMap.get(videoId);
-
-            // Apply a significant boost for results found in both searches (50% boost)
-            const boostMultiplier = 2;
-
-            // Combine the scores: use the max of both scores and apply the boost
-            const maxScore = Math.max(existingResult.textScore, result.score);
-            const boostedScore = maxScore * boostMultiplier;
-
-            combinedResultsMap.set(videoId, {
-              ...existingResult,
-              videoScore: result.score,
-              finalScore: boostedScore,  // Boosted score for appearing in both searches
-              source: "BOTH"
-            });
-          } else {
-            combinedResultsMap.set(videoId, {
-              videoId,
-              metadata: result.metadata,
-              textScore: 0,
-              videoScore: result.score,
-              finalScore: result.score,
-              source: "VIDEO"
-            });
-          }
-        }
-      });
+      setSimilarResults(results);
+      setExcludedResults(excluded);
+      setRejectedResults(rejected);
 
-      const mergedResults = Array.from(combinedResultsMap.values())
-        .sort((a, b) => b.finalScore - a.finalScore);
+    } catch (error) {
+      console.error("Error during contextual analysis:", error);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  // Persist the decision for this ad, then re-sort the current results instead of running the analysis again
+  const handlePlacementChange = async (
+    result: EmbeddingSearchResult,
+    update: Omit<PlacementUpdate, 'contentVideoId' | 'result'>
+  ) => {
+    const contentVideoId = result.metadata?.tl_video_id;
+    if (!selectedVideoId || !contentVideoId) return;
 
-      const formattedResults = mergedResults.map(item => ({
-        score: item.finalScore,
-        metadata: item.metadata,
-        originalSource: item.source,
-        textScore: item.textScore,
-        videoScore: item.videoScore
-      }));
+    try {
+      const { decisions } = await updatePlacement(selectedVideoId, { ...update, contentVideoId, result });
+      const current = [...similarResults, ...rejectedResults]
+        .filter(item => !item.placement?.stale)
+        .sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0));
+      const applied = applyPlacementDecisions(current, decisions);
+      setSimilarResults(applied.results);
+      setRejectedResults(applied.rejected);
+    } catch (error) {
+      console.error("Error saving placement:", error);
+    }
+  };
 
-      setSimilarResults(formattedResults);
+  const handleSaveMatchRules = async () => {
+    if (!selectedVideoId) return;
 
+    setIsSavingRules(true);
+    try {
+      const saved = await saveMatchRules(selectedVideoId, matchRules);
+      queryClient.setQueryData(['matchRules', selectedVideoId], saved.rules);
+      setRulesMessage('Rules saved.');
     } catch (error) {
-      console.error("Error during contextual analysis:", error);
+      console.error("Error saving match rules:", error);
+      setRulesMessage(error instanceof Error ? error.message : 'Failed to save rules');
     } finally {
-      setIsAnalyzing(false);
+      setIsSavingRules(false);
     }
   };
 
@@ -478,7 +321,7 @@ export default function ContextualAnalysis() {
                 <div className="flex items-center space-x-2">
                   <LoadingSpinner size="sm" />
                   <span className="text-sm">
-                  Do not close this page. Processing content video embeddings ({contentEmbeddingsProgress.processed} videos processed out of {contentEmbeddingsProgress.total} videos).
+                  Storing content video embeddings on the server ({contentEmbeddingsProgress.processed} videos processed out of {contentEmbeddingsProgress.total} videos).
                   </span>
                 </div>
                 <button
@@ -622,6 +465,63 @@ export default function ContextualAnalysis() {
               </div>
             </div>
 
+            {/* Ranking controls: how tag, title and visual matches are combined */}
+            <div className="mt-6 flex flex-wrap justify-center items-center gap-4 text-sm">
+              <label className="flex items-center">
+                Ranking
+                <select
+                  value={rankingMethod}
+                  onChange={(e) => setRankingMethod(e.target.value as RankingMethod)}
+                  className="ml-2 rounded-2xl border px-2 py-1 bg-white cursor-pointer"
+                  disabled={isAnalyzing}
+                >
+                  {(Object.keys(RANKING_METHOD_LABELS) as RankingMethod[]).map(method => (
+                    <option key={method} value={method}>{RANKING_METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+              </label>
+              {RANKING_SIGNALS.map(signal => (
+                <label key={signal} className="flex items-center">
+                  {RANKING_SIGNAL_LABELS[signal]}
+                  <input
+                    type="range"
+                    min={0}
+                    max={MAX_RANKING_WEIGHT}
+                    step={0.1}
+                    value={rankingWeights[signal]}
+                    onChange={(e) => setRankingWeights(prev => ({ ...prev, [signal]: Number(e.target.value) }))}
+                    className="mx-2 w-24 cursor-pointer"
+                    disabled={isAnalyzing}
+                  />
+                  <span className="w-6 text-right">{rankingWeights[signal].toFixed(1)}</span>
+                </label>
+              ))}
+              <button
+                onClick={() => {
+                  setRankingMethod(DEFAULT_RANKING_METHOD);
+                  setRankingWeights(DEFAULT_RANKING_WEIGHTS);
+                }}
+                className="hover:underline cursor-pointer"
+                disabled={isAnalyzing}
+              >
+                Reset
+              </button>
+            </div>
+
+            {/* Rules that exclude content for this ad, applied to every analysis run */}
+            {selectedVideoId && (
+              <MatchRulesEditor
+                rules={matchRules}
+                isSaving={isSavingRules}
+                saveMessage={rulesMessage}
+                onChange={(rules) => {
+                  setMatchRules(rules);
+                  setRulesMessage(null);
+                }}
+                onSave={handleSaveMatchRules}
+              />
+            )}
+
             {/* Button for contextual alignment analysis */}
             <div className="mt-6 flex justify-center">
               <button
@@ -670,10 +570,13 @@ export default function ContextualAnalysis() {
             </div>
 
             {/* Display analysis results as videos */}
-            {similarResults.length > 0 && !isAnalyzing && !isLoadingEmbeddings && (
+            {(similarResults.length > 0 || excludedResults.length > 0 || rejectedResults.length > 0) && !isAnalyzing && !isLoadingEmbeddings && (
               <SimilarVideoResults
                 results={similarResults}
+                excluded={excludedResults}
+                rejected={rejectedResults}
                 indexId={contentIndexId}
+                onPlacementChange={handlePlacementChange}
               />
             )}
 
@@ -2,6 +2,8 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { ReactQueryProvider } from "@/providers/ReactQueryProvider";
+import AuthGate from "@/components/AuthGate";
+import { WorkspaceProvider } from "@/providers/WorkspaceProvider";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -29,7 +31,11 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased bg-grey-100`}
       >
         <ReactQueryProvider>
-          {children}
+          <AuthGate>
+            <WorkspaceProvider>
+              {children}
+            </WorkspaceProvider>
+          </AuthGate>
         </ReactQueryProvider>
       </body>
     </html>
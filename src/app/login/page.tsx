@@ -0,0 +1,112 @@
+"use client";
+
+import { Suspense, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { login } from '@/hooks/apiHooks';
+import { AUTH_QUERY_KEY, useAuthStatus } from '@/hooks/useAuth';
+import { sanitizeNextPath } from '@/utils/roles';
+
+function LoginForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const queryClient = useQueryClient();
+  const { data: status } = useAuthStatus();
+  const next = sanitizeNextPath(searchParams.get('next'));
+
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(searchParams.get('error'));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      await login(email, password);
+      await queryClient.invalidateQueries({ queryKey: AUTH_QUERY_KEY });
+      router.replace(next);
+    } catch (loginError) {
+      setError(loginError instanceof Error ? loginError.message : 'Failed to sign in');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex justify-center items-center min-h-screen">
+      <div className="w-full max-w-sm bg-white rounded-[45.60px] shadow-xl p-8">
+        <h1 className="text-2xl font-bold mb-6">Brand Integration Assistant</h1>
+
+        {status?.user ? (
+          <div className="space-y-3">
+            <p>Signed in as {status.user.email}.</p>
+            <button
+              onClick={() => router.replace(next)}
+              className="w-full rounded-2xl bg-black text-white px-3 py-2 cursor-pointer"
+            >
+              Continue
+            </button>
+          </div>
+        ) : (
+          <>
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="Email"
+                autoComplete="username"
+                required
+                className="w-full rounded-2xl border px-3 py-2"
+              />
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Password"
+                autoComplete="current-password"
+                required
+                className="w-full rounded-2xl border px-3 py-2"
+              />
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full rounded-2xl bg-black text-white px-3 py-2 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? 'Signing in...' : 'Sign in'}
+              </button>
+            </form>
+
+            {status?.oidcEnabled && (
+              <a
+                href={`/api/auth/oidc/login?next=${encodeURIComponent(next)}`}
+                className="block text-center w-full mt-3 rounded-2xl border px-3 py-2 hover:bg-gray-100"
+              >
+                Sign in with SSO
+              </a>
+            )}
+
+            {status?.needsSetup && (
+              <p className="mt-4 text-sm text-gray-500">
+                No accounts yet. Set AUTH_ADMIN_EMAIL and AUTH_ADMIN_PASSWORD to create the first admin.
+              </p>
+            )}
+          </>
+        )}
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <Suspense>
+      <LoginForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,135 @@
+import React, { FC, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { matchContentToAds } from '@/hooks/apiHooks';
+import { useGlobalState } from '@/providers/ReactQueryProvider';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
+import Video from './Video';
+import VideoModal from './VideoModal';
+import LoadingSpinner from './LoadingSpinner';
+import RankingContributions from './RankingContributions';
+
+type AdMatchesModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+  videoId: string;
+  videoUrl: string;
+  indexId: string;
+  title?: string;
+};
+
+// Ads shown per content video; the list is for picking a pod, not browsing the whole library
+const AD_MATCH_LIMIT = 12;
+
+// Ranked ads from the ads index that fit a content video, with a shortcut into the ad break preview
+const AdMatchesModal: FC<AdMatchesModalProps> = ({ isOpen, onClose, videoId, videoUrl, indexId, title }) => {
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const { setSelectedAdId } = useGlobalState();
+  const { adsIndexId } = useWorkspace().workspace;
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ['adMatches', videoId, indexId],
+    queryFn: () => matchContentToAds(videoId, indexId, adsIndexId, { limit: AD_MATCH_LIMIT }),
+    enabled: isOpen && !!videoId && !!adsIndexId,
+    refetchOnWindowFocus: false,
+  });
+
+  // The break preview uses the globally selected ad for new breaks and chapter suggestions
+  const handlePreviewBreak = (adVideoId: string) => {
+    setSelectedAdId(adVideoId);
+    setIsPreviewOpen(true);
+  };
+
+  if (!isOpen) return null;
+
+  if (isPreviewOpen) {
+    return (
+      <VideoModal
+        videoUrl={videoUrl}
+        videoId={videoId}
+        isOpen={isPreviewOpen}
+        onClose={() => setIsPreviewOpen(false)}
+        title={title}
+      />
+    );
+  }
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center"
+      onClick={onClose}
+    >
+      <div
+        className="relative rounded-[45.60px] shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col overflow-hidden bg-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="m-2 ml-4 p-4 flex justify-between items-center">
+          <h3 className="text-2xl font-medium">
+            Suitable ads{title ? ` for ${title}` : ''}
+          </h3>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 focus:outline-none cursor-pointer"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="px-6 pb-8 overflow-auto flex-grow">
+          {!adsIndexId ? (
+            <p className="text-sm text-gray-500">The workspace has no ads index.</p>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center h-40 space-x-2">
+              <LoadingSpinner size="sm" />
+              <span className="text-sm text-gray-500">Finding ads...</span>
+            </div>
+          ) : isError ? (
+            <p className="text-sm text-red-500">
+              Failed to find ads: {error instanceof Error ? error.message : 'Unknown error'}
+            </p>
+          ) : !data || data.results.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No matching ads found. Make sure the ads library has embeddings (Admin → Embeddings).
+            </p>
+          ) : (
+            <>
+              {data.excluded.length > 0 && (
+                <p className="mb-4 text-sm text-gray-500">
+                  {data.excluded.length} ad{data.excluded.length === 1 ? '' : 's'} excluded by {data.excluded.length === 1 ? 'its' : 'their'} brand safety rules:{' '}
+                  {data.excluded.map(result => result.exclusion?.reason).join('; ')}
+                </p>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {data.results.map(result => {
+                  const adVideoId = result.metadata?.tl_video_id;
+                  if (!adVideoId) return null;
+
+                  return (
+                    <div key={adVideoId} className="flex flex-col">
+                      <Video
+                        videoId={adVideoId}
+                        indexId={adsIndexId}
+                        showTitle={true}
+                        disablePlayback={true}
+                      />
+                      <RankingContributions result={result} />
+                      <button
+                        onClick={() => handlePreviewBreak(adVideoId)}
+                        className="mt-2 self-start rounded-2xl border px-3 py-1 text-sm hover:bg-gray-200 cursor-pointer"
+                      >
+                        Preview ad break
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdMatchesModal;
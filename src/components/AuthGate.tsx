@@ -0,0 +1,58 @@
+'use client';
+
+import { FC, ReactNode, useEffect } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { UserRole } from '@/types';
+import { useAuthStatus } from '@/hooks/useAuth';
+import { hasRole, ROLE_LABELS } from '@/utils/roles';
+import LoadingSpinner from './LoadingSpinner';
+
+type AuthGateProps = {
+  role?: UserRole;
+  children: ReactNode;
+};
+
+// Pages open to the signed-out
+const PUBLIC_PATHS = ['/login'];
+
+// Sends signed-out visitors to the login page and hides pages the user's role doesn't cover
+const AuthGate: FC<AuthGateProps> = ({ role = 'viewer', children }) => {
+  const pathname = usePathname();
+  const router = useRouter();
+  const isPublic = PUBLIC_PATHS.includes(pathname);
+  const { data: status, isLoading, error } = useAuthStatus();
+  const user = status?.user;
+
+  useEffect(() => {
+    if (!isPublic && status && !status.user) {
+      router.replace(`/login?next=${encodeURIComponent(pathname)}`);
+    }
+  }, [isPublic, status, pathname, router]);
+
+  if (isPublic) return <>{children}</>;
+
+  if (isLoading || (status && !user)) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (error) {
+    return <div className="p-8 text-red-600">Could not check your session: {error.message}</div>;
+  }
+
+  if (!hasRole(user, role)) {
+    return (
+      <div className="flex flex-col justify-center items-center h-screen gap-2">
+        <p className="text-lg font-medium">This page needs the {ROLE_LABELS[role]} role.</p>
+        <p className="text-gray-500">Ask an admin to change your role.</p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default AuthGate;
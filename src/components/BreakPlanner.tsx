@@ -0,0 +1,226 @@
+import React, { FC, useState } from 'react';
+import { BreakPlan, BreakPosition } from '@/types';
+import {
+  addAdToBreak,
+  addBreak,
+  formatBreakTime,
+  getBreakTime,
+  moveAdInBreak,
+  removeAdFromBreak,
+  removeBreak,
+  sortBreaks,
+} from '@/utils/breakPlan';
+import { getVmapExportUrl } from '@/hooks/apiHooks';
+
+type AdOption = {
+  id: string;
+  title: string;
+};
+
+type BreakPlannerProps = {
+  plan: BreakPlan;
+  duration: number;
+  adOptions: AdOption[];
+  defaultAdId?: string | null;
+  errors: string[];
+  activeBreakId?: string | null;
+  isSaving?: boolean;
+  saveMessage?: string | null;
+  onChange: (plan: BreakPlan) => void;
+  onSave: () => void;
+  onPlayPlan: () => void;
+  onPreviewBreak: (breakId: string) => void;
+};
+
+const POSITION_LABELS: Record<BreakPosition, string> = {
+  'pre-roll': 'Pre-roll',
+  'mid-roll': 'Mid-roll',
+  'post-roll': 'Post-roll',
+};
+
+const BreakPlanner: FC<BreakPlannerProps> = ({
+  plan,
+  duration,
+  adOptions,
+  defaultAdId,
+  errors,
+  activeBreakId,
+  isSaving = false,
+  saveMessage,
+  onChange,
+  onSave,
+  onPlayPlan,
+  onPreviewBreak,
+}) => {
+  // Ad picked in each break's "add ad" dropdown
+  const [pendingAds, setPendingAds] = useState<Record<string, string>>({});
+
+  const adTitle = (adVideoId: string) => adOptions.find(option => option.id === adVideoId)?.title || adVideoId;
+
+  const defaultPod = () => {
+    const adVideoId = defaultAdId || adOptions[0]?.id;
+    return adVideoId ? [{ adVideoId, title: adTitle(adVideoId) }] : [];
+  };
+
+  const hasPosition = (position: BreakPosition) => plan.breaks.some(adBreak => adBreak.position === position);
+
+  const togglePosition = (position: BreakPosition) => {
+    const existing = plan.breaks.find(adBreak => adBreak.position === position);
+    onChange(existing ? removeBreak(plan, existing.id) : addBreak(plan, position, position === 'post-roll' ? duration : 0, defaultPod()));
+  };
+
+  const handleAddAd = (breakId: string) => {
+    const adVideoId = pendingAds[breakId] || defaultAdId || adOptions[0]?.id;
+    if (!adVideoId) return;
+    onChange(addAdToBreak(plan, breakId, { adVideoId, title: adTitle(adVideoId) }));
+  };
+
+  return (
+    <div className="mt-4 mb-4 bg-gray-100 rounded-[45.60px] p-5">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <h4 className="text-lg font-semibold">Ad Break Plan</h4>
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          {(['pre-roll', 'post-roll'] as BreakPosition[]).map(position => (
+            <label key={position} className="flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                className="h-4 w-4 mr-1 cursor-pointer"
+                checked={hasPosition(position)}
+                onChange={() => togglePosition(position)}
+              />
+              {POSITION_LABELS[position]}
+            </label>
+          ))}
+          <label className="flex items-center">
+            Min spacing
+            <input
+              type="number"
+              min={0}
+              value={plan.rules.minSpacingSec}
+              onChange={(e) => onChange({ ...plan, rules: { ...plan.rules, minSpacingSec: Math.max(0, Number(e.target.value) || 0) } })}
+              className="w-16 mx-1 rounded-2xl border px-2 py-0.5 bg-white"
+            />
+            s
+          </label>
+          <button
+            onClick={onPlayPlan}
+            disabled={plan.breaks.length === 0}
+            className="rounded-2xl border px-3 py-1 hover:bg-gray-200 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Play plan
+          </button>
+          <button
+            onClick={onSave}
+            disabled={isSaving || errors.length > 0}
+            className="rounded-2xl bg-black text-white px-3 py-1 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save plan'}
+          </button>
+          {/* Exports the saved plan, so only offered once there is one */}
+          {plan.updatedAt && (
+            <a
+              href={getVmapExportUrl(plan.videoId)}
+              download
+              className="rounded-2xl border px-3 py-1 hover:bg-gray-200"
+            >
+              Export VMAP
+            </a>
+          )}
+        </div>
+      </div>
+
+      {plan.breaks.length === 0 ? (
+        <p className="text-sm text-gray-500">Click a chapter marker on the timeline to add a mid-roll break.</p>
+      ) : (
+        <div className="space-y-3">
+          {sortBreaks(plan.breaks, duration).map(adBreak => (
+            <div
+              key={adBreak.id}
+              className={`bg-white rounded-2xl px-4 py-3 ${activeBreakId === adBreak.id ? 'ring-2 ring-black' : ''}`}
+            >
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center text-sm">
+                  <span className="inline-block border rounded-full px-2.5 py-0.5 text-xs font-medium mr-2">
+                    {formatBreakTime(getBreakTime(adBreak, duration))}
+                  </span>
+                  <span className="font-medium">{POSITION_LABELS[adBreak.position]}</span>
+                  <span className="ml-2 text-gray-500">{adBreak.ads.length} ad{adBreak.ads.length === 1 ? '' : 's'}</span>
+                </div>
+                <div className="flex items-center gap-3 text-sm">
+                  {adBreak.position === 'mid-roll' && (
+                    <button onClick={() => onPreviewBreak(adBreak.id)} className="hover:underline cursor-pointer">
+                      Preview
+                    </button>
+                  )}
+                  <button onClick={() => onChange(removeBreak(plan, adBreak.id))} className="hover:text-red cursor-pointer">
+                    Remove
+                  </button>
+                </div>
+              </div>
+
+              {/* Pod: ads play in this order */}
+              <ol className="space-y-1 text-sm">
+                {adBreak.ads.map((ad, adIndex) => (
+                  <li key={`${adBreak.id}-${adIndex}`} className="flex items-center justify-between">
+                    <span className="truncate">{adIndex + 1}. {ad.title || adTitle(ad.adVideoId)}</span>
+                    <span className="flex items-center gap-2 flex-shrink-0 ml-2">
+                      <button
+                        onClick={() => onChange(moveAdInBreak(plan, adBreak.id, adIndex, -1))}
+                        disabled={adIndex === 0}
+                        className="cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+                        aria-label="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        onClick={() => onChange(moveAdInBreak(plan, adBreak.id, adIndex, 1))}
+                        disabled={adIndex === adBreak.ads.length - 1}
+                        className="cursor-pointer disabled:opacity-30 disabled:cursor-not-allowed"
+                        aria-label="Move down"
+                      >
+                        ↓
+                      </button>
+                      <button
+                        onClick={() => onChange(removeAdFromBreak(plan, adBreak.id, adIndex))}
+                        className="hover:text-red cursor-pointer"
+                        aria-label="Remove ad"
+                      >
+                        ✕
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+
+              {adBreak.ads.length < plan.rules.maxPodSize && adOptions.length > 0 && (
+                <div className="flex items-center gap-2 mt-2 text-sm">
+                  <select
+                    value={pendingAds[adBreak.id] || defaultAdId || adOptions[0]?.id}
+                    onChange={(e) => setPendingAds(prev => ({ ...prev, [adBreak.id]: e.target.value }))}
+                    className="flex-1 min-w-0 rounded-2xl border px-2 py-1 bg-white"
+                  >
+                    {adOptions.map(option => (
+                      <option key={option.id} value={option.id}>{option.title}</option>
+                    ))}
+                  </select>
+                  <button onClick={() => handleAddAd(adBreak.id)} className="rounded-2xl border px-3 py-1 hover:bg-gray-200 cursor-pointer">
+                    Add ad
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="mt-3 text-sm text-red-500 list-disc pl-5">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+      {saveMessage && <p className="mt-2 text-sm text-gray-600">{saveMessage}</p>}
+    </div>
+  );
+};
+
+export default BreakPlanner;
@@ -4,7 +4,10 @@ import Video from './Video';
 import LoadingSpinner from './LoadingSpinner';
 import EditableTag from './EditableTag';
 import { updateVideoMetadata } from '@/hooks/apiHooks';
+import { findTaxonomyCategory, validateTaxonomyValues } from '@/utils/taxonomy';
+import { useTaxonomy } from '@/providers/WorkspaceProvider';
 import VideoModalSimple from './VideoModalSimple';
+import AdMatchesModal from './AdMatchesModal';
 
 type ContentItemProps = {
   videoUrl: string;
@@ -21,7 +24,9 @@ type ContentItemProps = {
     locations?: string;
     demo_age?: string;
     demo_gender?: string;
+    [key: string]: string | undefined;
   };
+  updatedAt?: string; // the video's updated_at when `metadata` was loaded
   isLoadingMetadata?: boolean;
   onMetadataUpdated?: () => void;
 };
@@ -32,13 +37,18 @@ const ContentItem: FC<ContentItemProps> = ({
   videoId,
   indexId,
   metadata,
+  updatedAt,
   isLoadingMetadata = false,
   onMetadataUpdated
 }) => {
+  const taxonomy = useTaxonomy();
   const [isPlaying, setIsPlaying] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isAdMatchesOpen, setIsAdMatchesOpen] = useState(false);
   const [updatingField, setUpdatingField] = useState<string | null>(null);
   const [localMetadata, setLocalMetadata] = useState(metadata || {});
+  const [localUpdatedAt, setLocalUpdatedAt] = useState(updatedAt);
+  const [saveError, setSaveError] = useState<string | null>(null);
 
   useEffect(() => {
     return () => {
@@ -49,39 +59,21 @@ const ContentItem: FC<ContentItemProps> = ({
 
   useEffect(() => {
     setLocalMetadata(metadata || {});
-  }, [metadata, videoId]);
+    setLocalUpdatedAt(updatedAt);
+  }, [metadata, updatedAt, videoId]);
 
   // Helper function to save metadata when a tag is edited
   const handleSaveMetadata = async (category: string, value: string) => {
-    setUpdatingField(category.toLowerCase());
+    // look up the taxonomy category by its label (e.g. 'Topic Category' -> topic_category)
+    const taxonomyCategory = findTaxonomyCategory(category, taxonomy);
+    setUpdatingField(taxonomyCategory?.id || category.toLowerCase());
+    setSaveError(null);
 
     try {
-      let field = '';
-      switch (category.toLowerCase()) {
-        case 'source':
-          field = 'source';
-          break;
-        case 'topic category':
-          field = 'sector'; // 중요: Topic Category는 sector 필드로 매핑해야 함
-          break;
-        case 'emotions':
-          field = 'emotions';
-          break;
-        case 'brands':
-          field = 'brands';
-          break;
-        case 'location':
-          field = 'locations';
-          break;
-        case 'target demo: age':
-          field = 'demo_age';
-          break;
-        case 'target demo: gender':
-          field = 'demo_gender';
-          break;
-        default:
-          throw new Error(`Unknown category: ${category}`);
+      if (!taxonomyCategory) {
+        throw new Error(`Unknown category: ${category}`);
       }
+      const field = taxonomyCategory.id;
 
       let normalizedValue = value.trim();
 
@@ -111,6 +103,11 @@ const ContentItem: FC<ContentItemProps> = ({
         }
       }
 
+      // closed categories keep the canonical spelling from the taxonomy (e.g. 'CPG')
+      if (taxonomyCategory.type === 'closed') {
+        normalizedValue = validateTaxonomyValues(taxonomyCategory, normalizedValue).value;
+      }
+
       const updatedMetadata = {
         ...localMetadata,
         [field]: normalizedValue
@@ -118,20 +115,19 @@ const ContentItem: FC<ContentItemProps> = ({
 
       setLocalMetadata(updatedMetadata);
 
-      const success = await updateVideoMetadata(videoId, indexId, updatedMetadata);
-
-      if (success) {
-      } else {
-        console.error(`Failed to update metadata for field: ${field}`);
-        setLocalMetadata(metadata || {});
-      }
+      // Only the edited field is sent, so tags changed elsewhere meanwhile are kept
+      const result = await updateVideoMetadata(videoId, indexId, { [field]: normalizedValue }, { expectedUpdatedAt: localUpdatedAt });
+      setLocalUpdatedAt(result.updatedAt);
 
-      if (onMetadataUpdated && success) {
+      if (onMetadataUpdated) {
         onMetadataUpdated();
       }
     } catch (error) {
       console.error('Failed to save metadata:', error);
       setLocalMetadata(metadata || {});
+      setSaveError(error instanceof Error ? error.message : 'Failed to save metadata');
+      // Reload the video, e.g. to show another editor's changes after a conflict
+      onMetadataUpdated?.();
     } finally {
       setUpdatingField(null);
     }
@@ -139,7 +135,7 @@ const ContentItem: FC<ContentItemProps> = ({
 
   // Helper function to render editable metadata
   const renderEditableMetadata = (category: string, field: string) => {
-    const value = localMetadata[field as keyof typeof localMetadata] || '';
+    const value = localMetadata[field] || '';
 
     return (
       <EditableTag
@@ -177,56 +173,27 @@ const ContentItem: FC<ContentItemProps> = ({
             playing={isPlaying}
             onPlay={handlePlay}
           />
+          <button
+            onClick={() => setIsAdMatchesOpen(true)}
+            className="mt-2 ml-2 text-sm hover:underline cursor-pointer"
+          >
+            Find suitable ads
+          </button>
+          {saveError && <p className="mt-1 ml-2 text-xs text-red-600">{saveError}</p>}
         </div>
 
-        {/* Topic Category */}
-        <div style={{ width: '110px' }} className="flex-shrink-0 flex flex-wrap gap-0.5 justify-center items-center">
-          {isLoadingMetadata && (!localMetadata.topic_category) ? renderLoading() : (
-            isFieldUpdating('topic_category') ? renderLoading() : renderEditableMetadata('Topic Category', 'topic_category')
-          )}
-        </div>
-
-        {/* Emotions */}
-        <div style={{ width: '110px' }} className="flex-shrink-0 flex flex-wrap gap-0.5 justify-center items-center">
-          {isLoadingMetadata && (!localMetadata.emotions) ? renderLoading() : (
-            isFieldUpdating('emotions') ? renderLoading() : renderEditableMetadata('Emotions', 'emotions')
-          )}
-        </div>
-
-        {/* Brands */}
-        <div style={{ width: '110px' }} className="flex-shrink-0 flex flex-wrap gap-0.5 justify-center items-center">
-          {isLoadingMetadata && (!localMetadata.brands) ? renderLoading() : (
-            isFieldUpdating('brands') ? renderLoading() : renderEditableMetadata('Brands', 'brands')
-          )}
-        </div>
-
-        {/* Target Demo: Gender */}
-        <div style={{ width: '110px' }} className="flex-shrink-0 flex flex-wrap gap-0.5 justify-center items-center">
-          {isLoadingMetadata && (!localMetadata.demo_gender) ? renderLoading() : (
-            isFieldUpdating('demo_gender') ? renderLoading() : renderEditableMetadata('Target Demo: Gender', 'demo_gender')
-          )}
-        </div>
-
-        {/* Target Demo: Age */}
-        <div style={{ width: '110px' }} className="flex-shrink-0 flex flex-wrap gap-0.5 justify-center items-center">
-          {isLoadingMetadata && (!localMetadata.demo_age) ? renderLoading() : (
-            isFieldUpdating('demo_age') ? renderLoading() : renderEditableMetadata('Target Demo: Age', 'demo_age')
-          )}
-        </div>
-
-        {/* Location */}
-        <div style={{ width: '110px' }} className="flex-shrink-0 flex flex-wrap gap-0.5 justify-center items-center">
-          {isLoadingMetadata && (!localMetadata.locations) ? renderLoading() : (
-            isFieldUpdating('location') ? renderLoading() : renderEditableMetadata('Location', 'locations')
-          )}
-        </div>
-
-        {/* Source */}
-        <div style={{ width: '250px' }} className="flex-shrink-0 flex flex-wrap gap-0.5 justify-center items-center overflow-hidden">
-          {isLoadingMetadata && (!localMetadata.source) ? renderLoading() : (
-            isFieldUpdating('source') ? renderLoading() : renderEditableMetadata('Source', 'source')
-          )}
-        </div>
+        {/* One column per taxonomy category */}
+        {taxonomy.categories.map(category => (
+          <div
+            key={category.id}
+            style={{ width: category.width }}
+            className={`flex-shrink-0 flex flex-wrap gap-0.5 justify-center items-center ${category.id === 'source' ? 'overflow-hidden' : ''}`}
+          >
+            {isLoadingMetadata && (!localMetadata[category.id]) ? renderLoading() : (
+              isFieldUpdating(category.id) ? renderLoading() : renderEditableMetadata(category.label, category.id)
+            )}
+          </div>
+        ))}
       </div>
 
       {/* Video Modal */}
@@ -237,6 +204,16 @@ const ContentItem: FC<ContentItemProps> = ({
         onClose={() => setIsModalOpen(false)}
         title={title}
       />
+
+      {/* Ads that fit this video (reverse matching) */}
+      <AdMatchesModal
+        isOpen={isAdMatchesOpen}
+        onClose={() => setIsAdMatchesOpen(false)}
+        videoId={videoId}
+        videoUrl={videoUrl}
+        indexId={indexId}
+        title={title}
+      />
     </>
   );
 };
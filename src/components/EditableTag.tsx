@@ -1,4 +1,7 @@
 import { useState, KeyboardEvent, useRef, useEffect } from 'react';
+import { findTaxonomyCategory, validateTaxonomyValues } from '@/utils/taxonomy';
+import { useHasRole } from '@/hooks/useAuth';
+import { useTaxonomy } from '@/providers/WorkspaceProvider';
 
 interface EditableTagProps {
   value: string;
@@ -11,16 +14,42 @@ const EditableTag: React.FC<EditableTagProps> = ({
   value,
   category,
   onSave,
-  disabled = false
+  disabled: isProcessing = false
 }) => {
+  // Only editors change tags; everyone else sees them read-only
+  const canEdit = useHasRole('editor');
+  const disabled = isProcessing || !canEdit;
+  const taxonomy = useTaxonomy();
   const [isEditing, setIsEditing] = useState(false);
   const [isAddingNew, setIsAddingNew] = useState(false);
   const [editValue, setEditValue] = useState(value);
   const [newTagValue, setNewTagValue] = useState('');
   const [isSaving, setIsSaving] = useState(false);
+  const [validationError, setValidationError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
   const newTagInputRef = useRef<HTMLInputElement>(null);
 
+  // 택소노미에 정의된 카테고리면 허용 값 목록으로 검증
+  const taxonomyCategory = findTaxonomyCategory(category, taxonomy);
+  const suggestionListId = taxonomyCategory?.values?.length ? `taxonomy-values-${taxonomyCategory.id}` : undefined;
+
+  // Returns false when a closed category gets a value outside its allowed list
+  const validateValue = (inputValue: string): boolean => {
+    if (!taxonomyCategory || taxonomyCategory.type !== 'closed') {
+      setValidationError(null);
+      return true;
+    }
+
+    const { invalid } = validateTaxonomyValues(taxonomyCategory, inputValue);
+    if (invalid.length > 0) {
+      setValidationError(`Not allowed: ${invalid.join(', ')}. Use: ${(taxonomyCategory.values || []).join(', ')}`);
+      return false;
+    }
+
+    setValidationError(null);
+    return true;
+  };
+
   useEffect(() => {
     if (isEditing && inputRef.current) {
       inputRef.current.focus();
@@ -34,6 +63,7 @@ const EditableTag: React.FC<EditableTagProps> = ({
     if (!disabled) {
       setIsEditing(true);
       setEditValue(value);
+      setValidationError(null);
     }
   };
 
@@ -41,6 +71,7 @@ const EditableTag: React.FC<EditableTagProps> = ({
     if (!disabled) {
       setIsAddingNew(true);
       setNewTagValue('');
+      setValidationError(null);
     }
   };
 
@@ -48,6 +79,8 @@ const EditableTag: React.FC<EditableTagProps> = ({
     if (e.key === 'Enter') {
       e.preventDefault();
 
+      if (!validateValue(editValue)) return;
+
       // 값이 달라졌을 때만 저장 (빈 문자열 포함)
       if (editValue !== value) {
         setIsSaving(true);
@@ -66,6 +99,7 @@ const EditableTag: React.FC<EditableTagProps> = ({
     } else if (e.key === 'Escape') {
       setIsEditing(false);
       setEditValue(value);
+      setValidationError(null);
     }
   };
 
@@ -73,6 +107,8 @@ const EditableTag: React.FC<EditableTagProps> = ({
     if (e.key === 'Enter') {
       e.preventDefault();
 
+      if (newTagValue.trim() && !validateValue(newTagValue)) return;
+
       if (newTagValue.trim()) {
         setIsSaving(true);
         try {
@@ -91,10 +127,18 @@ const EditableTag: React.FC<EditableTagProps> = ({
     } else if (e.key === 'Escape') {
       setIsAddingNew(false);
       setNewTagValue('');
+      setValidationError(null);
     }
   };
 
   const handleBlur = async () => {
+    // 허용되지 않는 값은 저장하지 않고 원래 값으로 복구
+    if (!validateValue(editValue)) {
+      setEditValue(value);
+      setIsEditing(false);
+      return;
+    }
+
     if (editValue !== value) {
       setIsSaving(true);
       try {
@@ -111,6 +155,12 @@ const EditableTag: React.FC<EditableTagProps> = ({
   };
 
   const handleNewTagBlur = async () => {
+    if (newTagValue.trim() && !validateValue(newTagValue)) {
+      setIsAddingNew(false);
+      setNewTagValue('');
+      return;
+    }
+
     if (newTagValue.trim()) {
       setIsSaving(true);
       try {
@@ -171,37 +221,60 @@ const EditableTag: React.FC<EditableTagProps> = ({
     </span>
   );
 
+  // 허용 값 자동완성 목록과 검증 오류 메시지
+  const renderSuggestions = () => suggestionListId && (
+    <datalist id={suggestionListId}>
+      {(taxonomyCategory?.values || []).map(option => (
+        <option key={option} value={option} />
+      ))}
+    </datalist>
+  );
+
+  const renderValidationError = () => validationError && (
+    <span className="text-xs text-red-500 max-w-[200px] break-words">{validationError}</span>
+  );
+
   if (isEditing) {
     return (
-      <input
-        ref={inputRef}
-        type="text"
-        value={editValue}
-        onChange={(e) => setEditValue(e.target.value)}
-        onKeyDown={handleKeyDown}
-        onBlur={handleBlur}
-        className="px-2 py-1 text-xs border border-green rounded-full focus:outline-none focus:ring-1"
-        disabled={isSaving}
-        size={Math.max(10, editValue.length + 2)}
-        placeholder="Enter comma-separated tags"
-      />
+      <div className="flex flex-col items-start gap-1">
+        <input
+          ref={inputRef}
+          type="text"
+          value={editValue}
+          onChange={(e) => setEditValue(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={handleBlur}
+          className="px-2 py-1 text-xs border border-green rounded-full focus:outline-none focus:ring-1"
+          disabled={isSaving}
+          size={Math.max(10, editValue.length + 2)}
+          placeholder="Enter comma-separated tags"
+          list={suggestionListId}
+        />
+        {renderSuggestions()}
+        {renderValidationError()}
+      </div>
     );
   }
 
   if (isAddingNew) {
     return (
-      <input
-        ref={newTagInputRef}
-        type="text"
-        value={newTagValue}
-        onChange={(e) => setNewTagValue(e.target.value)}
-        onKeyDown={handleNewTagKeyDown}
-        onBlur={handleNewTagBlur}
-        className="px-2 py-1 text-xs border border-blue-400 rounded-full focus:outline-none focus:ring-1 focus:ring-blue-500"
-        disabled={isSaving}
-        size={Math.max(10, newTagValue.length + 2)}
-        placeholder={`Add new ${category}`}
-      />
+      <div className="flex flex-col items-start gap-1">
+        <input
+          ref={newTagInputRef}
+          type="text"
+          value={newTagValue}
+          onChange={(e) => setNewTagValue(e.target.value)}
+          onKeyDown={handleNewTagKeyDown}
+          onBlur={handleNewTagBlur}
+          className="px-2 py-1 text-xs border border-blue-400 rounded-full focus:outline-none focus:ring-1 focus:ring-blue-500"
+          disabled={isSaving}
+          size={Math.max(10, newTagValue.length + 2)}
+          placeholder={`Add new ${category}`}
+          list={suggestionListId}
+        />
+        {renderSuggestions()}
+        {renderValidationError()}
+      </div>
     );
   }
 
@@ -210,9 +283,12 @@ const EditableTag: React.FC<EditableTagProps> = ({
       <div className="flex flex-wrap items-start justify-start w-full max-w-full py-1 gap-1">
         {renderTags()}
       </div>
-      <div className="w-full flex justify-start mt-1">
-        {renderAddButton()}
-      </div>
+      {canEdit && (
+        <div className="w-full flex justify-start mt-1">
+          {renderAddButton()}
+        </div>
+      )}
+      {renderValidationError()}
       {!value && (
         <span className="sr-only">No {category} tags yet</span>
       )}
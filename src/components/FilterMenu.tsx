@@ -1,5 +1,7 @@
 import React from 'react';
-import { AdItemType, ActiveFiltersProps, FilterMenuProps } from '@/types';
+import { AdItemType, ActiveFiltersProps, FilterMenuProps, Taxonomy } from '@/types';
+import { findTaxonomyCategory, getFilterableCategories } from '@/utils/taxonomy';
+import { useTaxonomy } from '@/providers/WorkspaceProvider';
 
 export const ActiveFilters: React.FC<ActiveFiltersProps> = ({
   activeFilters,
@@ -8,6 +10,7 @@ export const ActiveFilters: React.FC<ActiveFiltersProps> = ({
   getTotalActiveFilterCount,
   capitalizeText
 }) => {
+  const taxonomy = useTaxonomy();
   if (getTotalActiveFilterCount() === 0) return null;
 
   return (
@@ -17,7 +20,7 @@ export const ActiveFilters: React.FC<ActiveFiltersProps> = ({
           values.length > 0 && (
             <div key={category} className="flex items-center bg-light-purple px-2 py-1 rounded-md">
               <span className="text-sm font-medium text-gray-800 mr-1">
-                {capitalizeText(category.replace(/_/g, ' '))}:
+                {findTaxonomyCategory(category, taxonomy)?.label || capitalizeText(category.replace(/_/g, ' '))}:
               </span>
               <span className="text-sm">
                 {values.join(', ')}
@@ -145,25 +148,21 @@ const FilterMenu: React.FC<FilterMenuProps> = ({
   );
 };
 
+// Empty selection for every filterable taxonomy category
+const createEmptyFilters = (taxonomy: Taxonomy): {[key: string]: string[]} => {
+  const filters: {[key: string]: string[]} = {};
+  getFilterableCategories(taxonomy).forEach(category => {
+    filters[category.id] = [];
+  });
+  return filters;
+};
+
 // Hook to manage filter state
 export const useFilterState = (adItems: AdItemType[]) => {
-  const [filterOptions, setFilterOptions] = React.useState<{[key: string]: string[]}>({
-    topic_category: [],
-    emotions: [],
-    brands: [],
-    demo_age: [],
-    demo_gender: [],
-    location: []
-  });
+  const taxonomy = useTaxonomy();
+  const [filterOptions, setFilterOptions] = React.useState<{[key: string]: string[]}>(() => createEmptyFilters(taxonomy));
 
-  const [activeFilters, setActiveFilters] = React.useState<{[key: string]: string[]}>({
-    topic_category: [],
-    emotions: [],
-    brands: [],
-    demo_age: [],
-    demo_gender: [],
-    location: []
-  });
+  const [activeFilters, setActiveFilters] = React.useState<{[key: string]: string[]}>(() => createEmptyFilters(taxonomy));
 
   const [filteredItems, setFilteredItems] = React.useState<AdItemType[]>([]);
   const [isFiltering, setIsFiltering] = React.useState(false);
@@ -171,14 +170,7 @@ export const useFilterState = (adItems: AdItemType[]) => {
   const [selectedFilterCategory, setSelectedFilterCategory] = React.useState<string | null>(null);
 
   // Filter categories
-  const filterCategories = [
-    { id: 'topic_category', label: 'Topic Category' },
-    { id: 'emotions', label: 'Emotions' },
-    { id: 'brands', label: 'Brands' },
-    { id: 'demo_age', label: 'Target Demo: Age' },
-    { id: 'demo_gender', label: 'Target Demo: Gender' },
-    { id: 'location', label: 'Location' },
-  ];
+  const filterCategories = getFilterableCategories(taxonomy).map(category => ({ id: category.id, label: category.label }));
 
   // Helper function to properly capitalize text
   const capitalizeText = (text: string): string => {
@@ -233,14 +225,7 @@ export const useFilterState = (adItems: AdItemType[]) => {
 
   // Reset all filters
   const resetAllFilters = () => {
-    setActiveFilters({
-      topic_category: [],
-      emotions: [],
-      brands: [],
-      demo_age: [],
-      demo_gender: [],
-      location: []
-    });
+    setActiveFilters(createEmptyFilters(taxonomy));
     setShowFilterMenu(false);
     setSelectedFilterCategory(null);
   };
@@ -263,94 +248,26 @@ export const useFilterState = (adItems: AdItemType[]) => {
   // Extract unique filter options from ads items
   React.useEffect(() => {
     if (adItems.length > 0) {
-      const options: {[key: string]: Map<string, string>} = {
-        topic_category: new Map<string, string>(),
-        emotions: new Map<string, string>(),
-        brands: new Map<string, string>(),
-        demo_age: new Map<string, string>(),
-        demo_gender: new Map<string, string>(),
-        location: new Map<string, string>()
-      };
+      const options: {[key: string]: Map<string, string>} = {};
+      getFilterableCategories(taxonomy).forEach(category => {
+        options[category.id] = new Map<string, string>();
+      });
 
       adItems.forEach(item => {
         if (item.metadata) {
-          // Extract topic_category
-          if (item.metadata.topic_category) {
-            const topics = item.metadata.topic_category.split(',').map(s => s.trim());
-            topics.forEach((topic: string) => {
-              if (topic) {
-                const lowercaseTopic = topic.toLowerCase();
-                if (!options.topic_category.has(lowercaseTopic)) {
-                  options.topic_category.set(lowercaseTopic, topic);
-                }
-              }
-            });
-          }
-
-          // Extract emotions
-          if (item.metadata.emotions) {
-            const emotions = item.metadata.emotions.split(',').map(e => e.trim());
-            emotions.forEach((emotion: string) => {
-              if (emotion) {
-                const lowercaseEmotion = emotion.toLowerCase();
-                if (!options.emotions.has(lowercaseEmotion)) {
-                  options.emotions.set(lowercaseEmotion, emotion);
-                }
-              }
-            });
-          }
-
-          // Extract brands
-          if (item.metadata.brands) {
-            const brands = item.metadata.brands.split(',').map((b: string) => b.trim());
-            brands.forEach((brand: string) => {
-              if (brand) {
-                const lowercaseBrand = brand.toLowerCase();
-                if (!options.brands.has(lowercaseBrand)) {
-                  options.brands.set(lowercaseBrand, brand);
-                }
-              }
-            });
-          }
-
-          // Extract demo_age
-          if (item.metadata.demo_age) {
-            const ages = item.metadata.demo_age.split(',').map((a: string) => a.trim());
-            ages.forEach((age: string) => {
-              if (age) {
-                const lowercaseAge = age.toLowerCase();
-                if (!options.demo_age.has(lowercaseAge)) {
-                  options.demo_age.set(lowercaseAge, age);
-                }
-              }
-            });
-          }
-
-          // Extract demo_gender
-          if (item.metadata.demo_gender) {
-            const genders = item.metadata.demo_gender.split(',').map((g: string) => g.trim());
-            genders.forEach((gender: string) => {
-              if (gender) {
-                const lowercaseGender = gender.toLowerCase();
-                if (!options.demo_gender.has(lowercaseGender)) {
-                  options.demo_gender.set(lowercaseGender, gender);
-                }
-              }
-            });
-          }
-
-          // Extract locations
-          if (item.metadata.locations) {
-            const locations = item.metadata.locations.split(',').map((l: string) => l.trim());
-            locations.forEach((location: string) => {
-              if (location) {
-                const lowercaseLocation = location.toLowerCase();
-                if (!options.location.has(lowercaseLocation)) {
-                  options.location.set(lowercaseLocation, location);
+          Object.keys(options).forEach(categoryId => {
+            const metadataValue = item.metadata?.[categoryId];
+            if (!metadataValue) return;
+
+            metadataValue.split(',').map(v => v.trim()).forEach((value: string) => {
+              if (value) {
+                const lowercaseValue = value.toLowerCase();
+                if (!options[categoryId].has(lowercaseValue)) {
+                  options[categoryId].set(lowercaseValue, value);
                 }
               }
             });
-          }
+          });
         }
       });
 
@@ -361,16 +278,13 @@ export const useFilterState = (adItems: AdItemType[]) => {
         return a.length - b.length;
       };
 
-      setFilterOptions({
-        topic_category: Array.from(options.topic_category.values()).sort(sortOptions),
-        emotions: Array.from(options.emotions.values()).sort(sortOptions),
-        brands: Array.from(options.brands.values()).sort(sortOptions),
-        demo_age: Array.from(options.demo_age.values()).sort(sortOptions),
-        demo_gender: Array.from(options.demo_gender.values()).sort(sortOptions),
-        location: Array.from(options.location.values()).sort(sortOptions)
+      const sortedOptions: {[key: string]: string[]} = {};
+      Object.entries(options).forEach(([categoryId, values]) => {
+        sortedOptions[categoryId] = Array.from(values.values()).sort(sortOptions);
       });
+      setFilterOptions(sortedOptions);
     }
-  }, [adItems]);
+  }, [adItems, taxonomy]);
 
   // Apply filters to ads items
   React.useEffect(() => {
@@ -386,27 +300,7 @@ export const useFilterState = (adItems: AdItemType[]) => {
       return Object.entries(activeFilters).every(([category, filters]) => {
         if (filters.length === 0) return true;
 
-        let metadataValue = '';
-        switch (category) {
-          case 'topic_category':
-            metadataValue = item.metadata?.topic_category || '';
-            break;
-          case 'emotions':
-            metadataValue = item.metadata?.emotions || '';
-            break;
-          case 'brands':
-            metadataValue = item.metadata?.brands || '';
-            break;
-          case 'demo_age':
-            metadataValue = item.metadata?.demo_age || '';
-            break;
-          case 'demo_gender':
-            metadataValue = item.metadata?.demo_gender || '';
-            break;
-          case 'location':
-            metadataValue = item.metadata?.locations || '';
-            break;
-        }
+        const metadataValue = item.metadata?.[category] || '';
 
         if (metadataValue === '' && filters.length > 0) {
           return false;
@@ -0,0 +1,114 @@
+import React, { FC, useState } from 'react';
+import { MatchRule, MatchRules, Taxonomy } from '@/types';
+import { splitTagValues } from '@/utils/taxonomy';
+import { getAvailableMatchRules, getMatchRuleCategory, MATCH_RULE_DEFINITIONS } from '@/utils/matchRules';
+import { useTaxonomy } from '@/providers/WorkspaceProvider';
+
+type MatchRulesEditorProps = {
+  rules: MatchRules;
+  isSaving?: boolean;
+  saveMessage?: string | null;
+  onChange: (rules: MatchRules) => void;
+  onSave?: () => void; // without it there is no save button (the parent saves the rules with its own form)
+  only?: MatchRule[]; // limit the editor to these rules
+  title?: string;
+};
+
+// Closed categories offer their taxonomy values as toggles; free ones (brands, locations) take a comma-separated list
+const getRuleOptions = (rule: MatchRule, taxonomy: Taxonomy): string[] | null => {
+  const category = getMatchRuleCategory(rule, taxonomy);
+  return category?.type === 'closed' ? category.values || [] : null;
+};
+
+const MatchRulesEditor: FC<MatchRulesEditorProps> = ({
+  rules,
+  isSaving = false,
+  saveMessage,
+  onChange,
+  onSave,
+  only,
+  title = 'Brand safety & targeting',
+}) => {
+  const taxonomy = useTaxonomy();
+  const [isExpanded, setIsExpanded] = useState(false);
+  // Text being typed into a free-form rule; applied on blur so commas can be typed
+  const [drafts, setDrafts] = useState<Partial<Record<MatchRule, string>>>({});
+
+  // Rules the workspace taxonomy has no category for are not offered
+  const availableRules = getAvailableMatchRules(taxonomy);
+  const visibleRules = only ? availableRules.filter(rule => only.includes(rule)) : availableRules;
+  const activeCount = visibleRules.filter(rule => rules[rule].length > 0).length;
+
+  const toggleValue = (rule: MatchRule, value: string) => {
+    const values = rules[rule].includes(value)
+      ? rules[rule].filter(item => item !== value)
+      : [...rules[rule], value];
+    onChange({ ...rules, [rule]: values });
+  };
+
+  const commitDraft = (rule: MatchRule) => {
+    const draft = drafts[rule];
+    if (draft === undefined) return;
+    onChange({ ...rules, [rule]: splitTagValues(draft) });
+    setDrafts(prev => ({ ...prev, [rule]: undefined }));
+  };
+
+  return (
+    <div className="mt-4 bg-gray-100 rounded-[45.60px] px-6 py-3 w-full max-w-3xl mx-auto text-sm">
+      <div className="flex items-center justify-between">
+        <button onClick={() => setIsExpanded(prev => !prev)} className="font-medium cursor-pointer">
+          {title} {activeCount > 0 ? `(${activeCount} rule${activeCount === 1 ? '' : 's'})` : ''} {isExpanded ? '▲' : '▼'}
+        </button>
+        {isExpanded && onSave && (
+          <button
+            onClick={onSave}
+            disabled={isSaving}
+            className="rounded-2xl bg-black text-white px-3 py-1 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save rules for this ad'}
+          </button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <div className="mt-3 space-y-3">
+          {visibleRules.map(rule => {
+            const options = getRuleOptions(rule, taxonomy);
+
+            return (
+              <div key={rule} className="flex flex-wrap items-center gap-2">
+                <span className="w-40 flex-shrink-0">{MATCH_RULE_DEFINITIONS[rule].label}</span>
+                {options ? (
+                  options.map(value => (
+                    <button
+                      key={value}
+                      onClick={() => toggleValue(rule, value)}
+                      className={`border rounded-full px-2.5 py-0.5 text-xs cursor-pointer ${rules[rule].includes(value) ? 'bg-black text-white' : 'bg-white hover:bg-gray-200'}`}
+                    >
+                      {value}
+                    </button>
+                  ))
+                ) : (
+                  <input
+                    type="text"
+                    value={drafts[rule] ?? rules[rule].join(', ')}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [rule]: e.target.value }))}
+                    onBlur={() => commitDraft(rule)}
+                    placeholder="Comma-separated, e.g. nike, adidas"
+                    className="flex-1 min-w-0 rounded-2xl border px-3 py-1 bg-white"
+                  />
+                )}
+              </div>
+            );
+          })}
+          <p className="text-xs text-gray-500">
+            Blocked values exclude content tagged with any of them. Required values exclude content tagged with none of them (or untagged).
+          </p>
+          {saveMessage && <p className="text-xs text-gray-600">{saveMessage}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MatchRulesEditor;
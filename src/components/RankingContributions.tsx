@@ -0,0 +1,33 @@
+import { FC } from 'react';
+import { EmbeddingSearchResult, RankingSignal } from '@/types';
+
+const SIGNAL_LABELS: Record<RankingSignal, string> = {
+  tag: 'Tags',
+  title: 'Title',
+  visual: 'Visual',
+};
+
+// Why a match ranked where it did: each signal's similarity, its rank there and its share of the score
+const RankingContributions: FC<{ result: EmbeddingSearchResult }> = ({ result }) => {
+  if (!result.contributions || result.contributions.length === 0) return null;
+
+  return (
+    <div className="mt-1 text-xs text-gray-500">
+      <span className="font-medium text-gray-700">#{result.rank} · {result.score.toFixed(3)}</span>
+      {result.contributions.map(item => (
+        <span
+          key={item.signal}
+          className={`ml-2 ${item.contribution > 0 ? '' : 'line-through'}`}
+          title={`${SIGNAL_LABELS[item.signal]}: similarity ${item.score.toFixed(3)}, rank #${item.rank}, weight ${item.weight}`}
+        >
+          {SIGNAL_LABELS[item.signal]} +{item.contribution.toFixed(3)}
+        </span>
+      ))}
+      {result.overlapBoost !== undefined && result.overlapBoost > 1 && (
+        <span className="ml-2">×{result.overlapBoost} overlap</span>
+      )}
+    </div>
+  );
+};
+
+export default RankingContributions;
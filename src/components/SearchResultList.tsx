@@ -5,13 +5,13 @@ import { fetchVideoDetails } from "@/hooks/apiHooks";
 import SearchResultItem from "./SearchResultItem";
 import SearchResultModal from "./SearchResultModal";
 import { SearchResultListProps, EnhancedSearchResult } from "@/types";
-
-const defaultIndexId = process.env.NEXT_PUBLIC_CONTENT_INDEX_ID || '';
+import { useWorkspace } from "@/providers/WorkspaceProvider";
 
 /**
  * Component to display a list of search results
  */
 const SearchResultList = ({ searchResultData, onUpdateTotalResults, textSearchQuery }: SearchResultListProps) => {
+  const defaultIndexId = useWorkspace().workspace.contentIndexId;
   const [enhancedResults, setEnhancedResults] = useState<EnhancedSearchResult[]>([]);
   const [nextPageLoading, setNextPageLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -129,7 +129,7 @@ const SearchResultList = ({ searchResultData, onUpdateTotalResults, textSearchQu
         setError("Cannot load results: Search query is missing");
       }
     }
-  }, [searchResultData, textSearchQuery]);
+  }, [searchResultData, textSearchQuery, defaultIndexId]);
 
   // Fetch and enhance the next page of search results
   const fetchNextPage = useCallback(async () => {
@@ -260,7 +260,7 @@ const SearchResultList = ({ searchResultData, onUpdateTotalResults, textSearchQu
     } finally {
       setIsLoadingNextPage(false);
     }
-  }, [isLoadingNextPage, hasMorePages, currentPage, searchResultData, textSearchQuery, enhancedResults.length]);
+  }, [isLoadingNextPage, hasMorePages, currentPage, searchResultData, textSearchQuery, enhancedResults.length, defaultIndexId]);
 
   // Trigger pagination when scroll reaches the observer element
   useEffect(() => {
@@ -7,8 +7,7 @@ import LoadingSpinner from "./LoadingSpinner";
 import { ErrorBoundary } from "react-error-boundary";
 import { searchVideos } from "@/hooks/apiHooks";
 import { SearchResultsProps } from "@/types";
-
-const defaultIndexId = process.env.NEXT_PUBLIC_CONTENT_INDEX_ID || '';
+import { useWorkspace } from "@/providers/WorkspaceProvider";
 
 const ErrorFallback = ({ error }: { error: Error }) => (
   <div className="min-h-[20vh] flex justify-center items-center h-full">
@@ -30,8 +29,9 @@ const SearchResults = ({
   indexId,
 }: SearchResultsProps) => {
   const queryClient = useQueryClient();
-  // Use the provided indexId or fall back to the default content index
-  const searchIndexId = indexId || defaultIndexId;
+  const { workspace } = useWorkspace();
+  // Use the provided indexId or fall back to the workspace's content index
+  const searchIndexId = indexId || workspace.contentIndexId;
 
   // State to track the total results count
   const [totalResultsCount, setTotalResultsCount] = useState<number>(0);
@@ -1,5 +1,12 @@
-import { FC } from 'react';
+import { FC, useState } from 'react';
 import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { UserRole } from '@/types';
+import { logout } from '@/hooks/apiHooks';
+import { useCurrentUser } from '@/hooks/useAuth';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
+import { hasRole, ROLE_LABELS } from '@/utils/roles';
 
 type MenuItemProps = {
   title: string;
@@ -23,10 +30,11 @@ const MenuItem: FC<MenuItemProps> = ({ title, href, isActive = false }) => {
 };
 
 type SidebarProps = {
-  activeMenu: 'ads-library' | 'contextual-analysis';
+  activeMenu: 'ads-library' | 'contextual-analysis' | 'campaigns' | 'admin';
 };
 
-const menuConfig = [
+// Entries with a role are only listed for users who have it
+const menuConfig: { id: string; title: string; href: string; role?: UserRole }[] = [
   {
     id: 'ads-library',
     title: 'Ads Library',
@@ -36,16 +44,65 @@ const menuConfig = [
     id: 'contextual-analysis',
     title: 'Contextual Alignment Analysis',
     href: '/contextual-analysis'
+  },
+  {
+    id: 'campaigns',
+    title: 'Campaigns',
+    href: '/campaigns'
+  },
+  {
+    id: 'admin',
+    title: 'Admin',
+    href: '/admin',
+    role: 'admin'
   }
 ];
 
 const Sidebar: FC<SidebarProps> = ({ activeMenu }) => {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const user = useCurrentUser();
+  const { workspace, workspaces, switchWorkspace } = useWorkspace();
+  const [isSwitching, setIsSwitching] = useState(false);
+
+  const handleSignOut = async () => {
+    await logout();
+    queryClient.clear();
+    router.replace('/login');
+  };
+
+  const handleWorkspaceChange = async (workspaceId: string) => {
+    setIsSwitching(true);
+    try {
+      await switchWorkspace(workspaceId);
+    } catch (error) {
+      console.error('❌ Error switching workspace:', error);
+      setIsSwitching(false);
+    }
+  };
+
   return (
     <div className="w-54 bg-zinc-100 h-screen fixed left-0 top-0 p-4 flex flex-col z-[100]">
       <div className="text-xl font-bold mb-6 pl-2">Brand Integration Assistant and Ad Break Finder</div>
 
+      {workspaces.length > 1 && (
+        <label className="block mb-4 pl-2 text-sm">
+          <span className="text-gray-500">Workspace</span>
+          <select
+            value={workspace.id}
+            disabled={isSwitching}
+            onChange={(e) => handleWorkspaceChange(e.target.value)}
+            className="mt-1 w-full rounded-md border px-2 py-1 bg-white"
+          >
+            {workspaces.map(option => (
+              <option key={option.id} value={option.id}>{option.name}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
       <nav className="flex-1">
-        {menuConfig.map(item => (
+        {menuConfig.filter(item => !item.role || hasRole(user, item.role)).map(item => (
           <MenuItem
             key={item.id}
             title={item.title}
@@ -54,6 +111,16 @@ const Sidebar: FC<SidebarProps> = ({ activeMenu }) => {
           />
         ))}
       </nav>
+
+      {user && (
+        <div className="border-t pt-4 pl-2 text-sm">
+          <div className="font-medium truncate" title={user.email}>{user.name || user.email}</div>
+          <div className="text-gray-500 mb-2">{ROLE_LABELS[user.role]}</div>
+          <button onClick={handleSignOut} className="hover:underline cursor-pointer">
+            Sign out
+          </button>
+        </div>
+      )}
     </div>
   );
 };
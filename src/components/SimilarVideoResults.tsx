@@ -2,18 +2,28 @@ import React, { useState, useEffect } from 'react';
 import Video from './Video';
 import VideoModal from './VideoModal';
 import { fetchVideoDetails } from '@/hooks/apiHooks';
-import { VideoData, SimilarVideoResultsProps, SelectedVideoData } from '@/types';
+import { VideoData, SimilarVideoResultsProps, SelectedVideoData, EmbeddingSearchResult } from '@/types';
 import LoadingSpinner from './LoadingSpinner';
+import { formatBreakTime } from '@/utils/breakPlan';
+import RankingContributions from './RankingContributions';
 import { useInView } from 'react-intersection-observer';
 
 const ITEMS_PER_PAGE = 9;
 
-const SimilarVideoResults: React.FC<SimilarVideoResultsProps> = ({ results, indexId }) => {
+const SimilarVideoResults: React.FC<SimilarVideoResultsProps> = ({
+  results,
+  excluded = [],
+  rejected = [],
+  indexId,
+  onPlacementChange,
+}) => {
   const [videoDetails, setVideoDetails] = useState<Record<string, VideoData>>({});
   const [loadingDetails, setLoadingDetails] = useState<boolean>(false);
   const [selectedVideo, setSelectedVideo] = useState<SelectedVideoData | null>(null);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  // Note being edited, keyed by content video id
+  const [noteDraft, setNoteDraft] = useState<{ videoId: string; text: string } | null>(null);
 
   const { ref: loadMoreRef, inView } = useInView({
     threshold: 0.1,
@@ -100,7 +110,7 @@ const SimilarVideoResults: React.FC<SimilarVideoResultsProps> = ({ results, inde
   }, [results]);
 
   // Skip if no results
-  if (!results || results.length === 0) {
+  if ((!results || results.length === 0) && excluded.length === 0 && rejected.length === 0) {
     return null;
   }
 
@@ -190,10 +200,71 @@ const SimilarVideoResults: React.FC<SimilarVideoResultsProps> = ({ results, inde
       textScore: resultData?.textScore,
       videoScore: resultData?.videoScore,
       originalSource: resultData?.originalSource as 'TEXT' | 'VIDEO' | 'BOTH',
+      segments: resultData?.segments,
       metadata: videoData
     });
   };
 
+  const saveNote = (result: EmbeddingSearchResult) => {
+    if (!noteDraft || !onPlacementChange) return;
+    onPlacementChange(result, { note: noteDraft.text });
+    setNoteDraft(null);
+  };
+
+  // Approve / reject / note controls for a match (only when the parent persists decisions)
+  const renderPlacementControls = (result: EmbeddingSearchResult, videoId: string) => {
+    if (!onPlacementChange) return null;
+    const status = result.placement?.status;
+
+    return (
+      <div className="mt-1 text-xs">
+        <div className="flex flex-wrap items-center gap-1">
+          <button
+            onClick={() => onPlacementChange(result, { status: status === 'approved' ? null : 'approved' })}
+            className={`border rounded-full px-2 py-0.5 cursor-pointer ${status === 'approved' ? 'bg-green-600 text-white border-green-600' : 'hover:bg-gray-100'}`}
+          >
+            {status === 'approved' ? 'Approved' : 'Approve'}
+          </button>
+          <button
+            onClick={() => onPlacementChange(result, { status: 'rejected' })}
+            className="border rounded-full px-2 py-0.5 hover:bg-gray-100 cursor-pointer"
+          >
+            Reject
+          </button>
+          <button
+            onClick={() => setNoteDraft({ videoId, text: result.placement?.note || '' })}
+            className="border rounded-full px-2 py-0.5 hover:bg-gray-100 cursor-pointer"
+          >
+            {result.placement?.note ? 'Edit note' : 'Add note'}
+          </button>
+          {result.placement?.stale && (
+            <span className="text-gray-500" title="Approved earlier; the latest analysis did not find this video">
+              Not in latest results
+            </span>
+          )}
+        </div>
+        {noteDraft?.videoId === videoId ? (
+          <div className="mt-1 flex gap-1">
+            <input
+              type="text"
+              value={noteDraft.text}
+              onChange={(e) => setNoteDraft({ videoId, text: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && saveNote(result)}
+              placeholder="Note for this placement"
+              className="flex-1 min-w-0 rounded-2xl border px-2 py-0.5"
+              autoFocus
+            />
+            <button onClick={() => saveNote(result)} className="rounded-2xl bg-black text-white px-2 py-0.5 cursor-pointer">
+              Save
+            </button>
+          </div>
+        ) : result.placement?.note && (
+          <p className="mt-1 text-gray-600 italic">{result.placement.note}</p>
+        )}
+      </div>
+    );
+  };
+
   // 모달 닫기 핸들러
   const handleCloseModal = () => {
     setSelectedVideo(null);
@@ -241,6 +312,24 @@ const SimilarVideoResults: React.FC<SimilarVideoResultsProps> = ({ results, inde
                 /* Render actual tags from the fetched video data */
                 renderTags(videoData)
               )}
+              <RankingContributions result={result} />
+              {renderPlacementControls(result, videoId)}
+
+              {/* Best matching moments of this video */}
+              {result.segments && result.segments.length > 0 && (
+                <div className="mt-1 flex flex-wrap gap-1 text-xs">
+                  {result.segments.map(segment => (
+                    <button
+                      key={`${segment.start}-${segment.end}`}
+                      onClick={() => handleVideoClick(videoId)}
+                      className="border rounded-full px-2 py-0.5 hover:bg-gray-100 cursor-pointer"
+                      title={`Similarity ${segment.score.toFixed(3)}${segment.signal ? ` (${segment.signal})` : ''}`}
+                    >
+                      {formatBreakTime(segment.start)}–{formatBreakTime(segment.end)}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           );
         })}
@@ -262,6 +351,60 @@ const SimilarVideoResults: React.FC<SimilarVideoResultsProps> = ({ results, inde
         </div>
       )}
 
+      {/* matches the account manager rejected; they stay out of re-runs until restored */}
+      {rejected.length > 0 && (
+        <div className="mt-8">
+          <h4 className="text-lg font-semibold mb-2">Rejected ({rejected.length})</h4>
+          <ul className="bg-gray-100 rounded-[45.60px] px-6 py-4 space-y-1 text-sm">
+            {rejected.map(result => {
+              const videoId = result.metadata?.tl_video_id;
+              const title = result.metadata?.video_title || result.metadata?.video_file || videoId;
+
+              return (
+                <li key={videoId} className="flex flex-wrap justify-between gap-x-4">
+                  <span className="truncate">
+                    <span className="text-gray-500 mr-2">#{result.rank}</span>
+                    {String(title)}
+                    {result.placement?.note && <span className="ml-2 text-gray-500 italic">{result.placement.note}</span>}
+                  </span>
+                  {onPlacementChange && (
+                    <button
+                      onClick={() => onPlacementChange(result, { status: null })}
+                      className="text-gray-600 hover:text-black cursor-pointer"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {/* matches removed by the ad's brand safety / targeting rules */}
+      {excluded.length > 0 && (
+        <div className="mt-8">
+          <h4 className="text-lg font-semibold mb-2">Excluded by rules ({excluded.length})</h4>
+          <ul className="bg-gray-100 rounded-[45.60px] px-6 py-4 space-y-1 text-sm">
+            {excluded.map(result => {
+              const videoId = result.metadata?.tl_video_id;
+              const title = result.metadata?.video_title || result.metadata?.video_file || videoId;
+
+              return (
+                <li key={videoId} className="flex flex-wrap justify-between gap-x-4">
+                  <span className="truncate">
+                    <span className="text-gray-500 mr-2">#{result.rank}</span>
+                    {String(title)}
+                  </span>
+                  <span className="text-red-500">{result.exclusion?.reason}</span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
       {/* video modal */}
       {selectedVideo && (
         <VideoModal
@@ -275,6 +418,7 @@ const SimilarVideoResults: React.FC<SimilarVideoResultsProps> = ({ results, inde
           videoScore={selectedVideo.videoScore}
           originalSource={selectedVideo.originalSource}
           contentMetadata={selectedVideo.metadata}
+          matchedSegments={selectedVideo.segments}
         />
       )}
     </div>
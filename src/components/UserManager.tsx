@@ -0,0 +1,150 @@
+import React, { FC, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { UserRole } from '@/types';
+import { createUser, deleteUser, fetchUsers, updateUser } from '@/hooks/apiHooks';
+import { useCurrentUser } from '@/hooks/useAuth';
+import { ROLE_LABELS, USER_ROLES } from '@/utils/roles';
+
+// Accounts and their roles, for the admin panel
+const UserManager: FC = () => {
+  const queryClient = useQueryClient();
+  const currentUser = useCurrentUser();
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('viewer');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data: users = [], isLoading } = useQuery({
+    queryKey: ['users'],
+    queryFn: fetchUsers,
+  });
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: ['users'] });
+      setMessage(success);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Request failed');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await createUser({ email, name, password, role });
+      setEmail('');
+      setName('');
+      setPassword('');
+      setRole('viewer');
+    }, `Created ${email}`);
+  };
+
+  return (
+    <div className="mt-8 bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold mb-4">Users</h2>
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading users...</p>
+      ) : (
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1">Email</th>
+              <th className="py-1">Name</th>
+              <th className="py-1">Sign-in</th>
+              <th className="py-1">Role</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {users.map(user => (
+              <tr key={user.id} className="border-t">
+                <td className="py-1">{user.email}</td>
+                <td className="py-1">{user.name || '-'}</td>
+                <td className="py-1">{user.provider === 'oidc' ? 'SSO' : 'Password'}</td>
+                <td className="py-1">
+                  <select
+                    value={user.role}
+                    disabled={isSaving}
+                    onChange={(e) => run(
+                      () => updateUser(user.id, { role: e.target.value as UserRole }),
+                      `${user.email} is now ${ROLE_LABELS[e.target.value as UserRole]}`
+                    )}
+                    className="rounded-md border px-2 py-0.5"
+                  >
+                    {USER_ROLES.map(option => (
+                      <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="py-1 text-right">
+                  {user.id !== currentUser?.id && (
+                    <button
+                      onClick={() => run(() => deleteUser(user.id), `Removed ${user.email}`)}
+                      disabled={isSaving}
+                      className="text-red-600 hover:underline cursor-pointer disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-2 text-sm">
+        <input
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          required
+          className="p-2 border border-gray-300 rounded-md"
+        />
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name (optional)"
+          className="p-2 border border-gray-300 rounded-md"
+        />
+        <input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="Password (min. 8 characters)"
+          autoComplete="new-password"
+          required
+          className="p-2 border border-gray-300 rounded-md"
+        />
+        <select
+          value={role}
+          onChange={(e) => setRole(e.target.value as UserRole)}
+          className="p-2 border border-gray-300 rounded-md"
+        >
+          {USER_ROLES.map(option => (
+            <option key={option} value={option}>{ROLE_LABELS[option]}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="px-4 py-2 bg-black text-white rounded-md cursor-pointer disabled:opacity-50"
+        >
+          Add user
+        </button>
+      </form>
+      {message && <p className="mt-2 text-sm text-gray-700">{message}</p>}
+    </div>
+  );
+};
+
+export default UserManager;
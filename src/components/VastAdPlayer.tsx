@@ -0,0 +1,199 @@
+import React, { FC, useRef, useState } from 'react';
+import ReactPlayer from 'react-player';
+import { VastPlaybackAd, VastTrackingEvent } from '@/types';
+import { recordVastEvent } from '@/hooks/apiHooks';
+
+type VastAdPlayerProps = {
+  ad: VastPlaybackAd;
+  playing: boolean;
+  contentVideoId?: string;
+  onEnded: () => void;
+  onPlayingChange: (playing: boolean) => void;
+  onEvent?: (event: VastTrackingEvent, ad: VastPlaybackAd) => void;
+};
+
+// Events a player reports at most once per ad
+const ONCE_EVENTS: VastTrackingEvent[] = [
+  'impression', 'creativeView', 'start', 'firstQuartile', 'midpoint', 'thirdQuartile', 'complete', 'skip',
+];
+
+const QUARTILES: [number, VastTrackingEvent][] = [
+  [0.25, 'firstQuartile'],
+  [0.5, 'midpoint'],
+  [0.75, 'thirdQuartile'],
+];
+
+// Our own tracker URLs are skipped: the preview already records the event in the log
+const isLocalTracker = (url: string) => {
+  try {
+    const parsed = new URL(url, window.location.href);
+    return parsed.origin === window.location.origin && parsed.pathname === '/api/vast/track';
+  } catch {
+    return false;
+  }
+};
+
+const pingTracker = (url: string) => {
+  fetch(url, { mode: 'no-cors', keepalive: true }).catch(error => {
+    console.warn(`⚠️ Tracker ping failed: ${url}`, error);
+  });
+};
+
+// Plays one inline linear ad from a VAST document: fires its tracking events, honors its duration
+// and skip offset, and shows its click-through and companion banners
+const VastAdPlayer: FC<VastAdPlayerProps> = ({ ad, playing, contentVideoId, onEnded, onPlayingChange, onEvent }) => {
+  const firedEvents = useRef<Set<VastTrackingEvent>>(new Set());
+  const isPaused = useRef(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [mediaDuration, setMediaDuration] = useState<number | undefined>(undefined);
+
+  // The VAST duration caps playback; the stream's own length is the fallback
+  const duration = ad.duration || mediaDuration;
+
+  const fire = (event: VastTrackingEvent, extraUrls: string[] = []) => {
+    if (ONCE_EVENTS.includes(event)) {
+      if (firedEvents.current.has(event)) return;
+      firedEvents.current.add(event);
+    }
+
+    const urls = [...(ad.tracking[event] || []), ...extraUrls];
+    urls.filter(url => !isLocalTracker(url)).forEach(pingTracker);
+    recordVastEvent({ event, adId: ad.id, adTitle: ad.title, contentVideoId, urls });
+    onEvent?.(event, ad);
+  };
+
+  const finish = (event: 'complete' | 'skip') => {
+    if (firedEvents.current.has('complete') || firedEvents.current.has('skip')) return;
+    fire(event);
+    onEnded();
+  };
+
+  const handleStart = () => {
+    fire('impression');
+    fire('creativeView', ad.companions.flatMap(companion => companion.creativeViewUrls));
+    fire('start');
+  };
+
+  const handleProgress = ({ playedSeconds }: { playedSeconds: number }) => {
+    setElapsed(playedSeconds);
+    if (!duration) return;
+
+    QUARTILES.forEach(([fraction, event]) => {
+      if (playedSeconds >= duration * fraction) fire(event);
+    });
+    if (ad.duration && playedSeconds >= ad.duration) {
+      finish('complete');
+    }
+  };
+
+  const handlePause = () => {
+    onPlayingChange(false);
+    const isOver = firedEvents.current.has('complete') || firedEvents.current.has('skip');
+    if (firedEvents.current.has('start') && !isOver && !isPaused.current) {
+      isPaused.current = true;
+      fire('pause');
+    }
+  };
+
+  const handlePlay = () => {
+    if (isPaused.current) {
+      isPaused.current = false;
+      fire('resume');
+    }
+    onPlayingChange(true);
+  };
+
+  const skipIn = ad.skipOffset !== undefined ? Math.ceil(ad.skipOffset - elapsed) : null;
+
+  return (
+    <div>
+      <div className="relative aspect-video rounded-[45.60px] overflow-hidden">
+        <ReactPlayer
+          url={ad.mediaUrl}
+          playing={playing}
+          width="100%"
+          height="100%"
+          style={{ position: 'absolute', top: 0, left: 0 }}
+          progressInterval={250}
+          onStart={handleStart}
+          onDuration={setMediaDuration}
+          onProgress={handleProgress}
+          onEnded={() => finish('complete')}
+          onPlay={handlePlay}
+          onPause={handlePause}
+        />
+
+        <div className="absolute bottom-4 left-6 right-6 flex items-center justify-between gap-3 text-sm">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onPlayingChange(!playing)}
+              className="rounded-2xl bg-black/70 text-white px-3 py-1 cursor-pointer"
+            >
+              {playing ? 'Pause' : 'Play'}
+            </button>
+            {duration !== undefined && (
+              <span className="rounded-2xl bg-black/70 text-white px-3 py-1">
+                Ad · {Math.max(0, Math.ceil(duration - elapsed))}s
+              </span>
+            )}
+            {ad.clickThrough && (
+              <a
+                href={ad.clickThrough}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={() => {
+                  fire('clickThrough');
+                  onPlayingChange(false);
+                }}
+                className="rounded-2xl bg-black/70 text-white px-3 py-1 hover:underline"
+              >
+                Learn more
+              </a>
+            )}
+          </div>
+          {skipIn !== null && (
+            skipIn > 0 ? (
+              <span className="rounded-2xl bg-black/70 text-white px-3 py-1">Skip in {skipIn}s</span>
+            ) : (
+              <button
+                onClick={() => finish('skip')}
+                className="rounded-2xl bg-white text-black px-3 py-1 font-medium cursor-pointer"
+              >
+                Skip ad ›
+              </button>
+            )
+          )}
+        </div>
+      </div>
+
+      {/* Companion banners, shown while the ad runs */}
+      {ad.companions.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-3 mt-3">
+          {ad.companions.map((companion, index) => {
+            const banner = (
+              <div
+                role="img"
+                aria-label={`${ad.title} companion`}
+                className="rounded-2xl bg-cover bg-center max-w-full"
+                style={{
+                  backgroundImage: `url("${companion.imageUrl}")`,
+                  width: companion.width || 300,
+                  height: companion.height || 250,
+                }}
+              />
+            );
+            return companion.clickThrough ? (
+              <a key={`${ad.id}-companion-${index}`} href={companion.clickThrough} target="_blank" rel="noopener noreferrer">
+                {banner}
+              </a>
+            ) : (
+              <div key={`${ad.id}-companion-${index}`}>{banner}</div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VastAdPlayer;
@@ -1,10 +1,40 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import ReactPlayer from 'react-player';
-import { useQuery } from '@tanstack/react-query';
-import { generateChapters, fetchVideoDetails } from '@/hooks/apiHooks';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { generateChapters, fetchVideoDetails, fetchVideos, fetchBreakPlan, saveBreakPlan, fetchVastDocument } from '@/hooks/apiHooks';
 import LoadingSpinner from './LoadingSpinner';
+import BreakPlanner from './BreakPlanner';
+import VastAdPlayer from './VastAdPlayer';
 import { useGlobalState } from '@/providers/ReactQueryProvider';
-import { VideoModalProps, ChapterWithMetadata, Chapter } from '@/types';
+import { useWorkspace } from '@/providers/WorkspaceProvider';
+import { VideoModalProps, ChapterWithMetadata, Chapter, AdBreak, BreakPlan, ChapterOptions, MatchedSegment, VastPlaybackAd, VastTrackingEvent } from '@/types';
+import { DEFAULT_BREAK_SPACING_SEC, describeAdTags } from '@/utils/chapterPrompt';
+import { addBreak, createEmptyBreakPlan, getBreakTime, sortBreaks, validateBreakPlan } from '@/utils/breakPlan';
+import { parseVast } from '@/utils/vastParser';
+
+// A mid-roll starts when the playhead passes its time by less than this (so seeking far past doesn't trigger it)
+const BREAK_TRIGGER_WINDOW_SEC = 1.5;
+
+const BREAK_SPACING_OPTIONS_MIN = [2, 4, 8, 12, 15, 20, 30];
+
+// Seconds before a generated VAST ad may be skipped
+const DEFAULT_SKIP_OFFSET_SEC = 5;
+
+// Tracking events listed in the ad source panel
+const MAX_SESSION_EVENTS = 20;
+
+// The pod of a break as read from its VAST document, and the ad playing
+type ActiveBreak = {
+  breakId: string;
+  adIndex: number;
+  ads: VastPlaybackAd[];
+};
+
+type SessionEvent = {
+  event: VastTrackingEvent;
+  adTitle: string;
+  at: string;
+};
 
 const VideoModal: React.FC<VideoModalProps> = ({
   videoUrl,
@@ -16,36 +46,87 @@ const VideoModal: React.FC<VideoModalProps> = ({
   textScore,
   videoScore,
   originalSource,
-  contentMetadata
+  contentMetadata,
+  matchedSegments = []
 }) => {
   const playerRef = useRef<ReactPlayer>(null);
+  const queryClient = useQueryClient();
+  const { adsIndexId, contentIndexId, taxonomy } = useWorkspace().workspace;
   const [selectedChapter, setSelectedChapter] = useState<number | null>(null);
   const [duration, setDuration] = useState<number>(0);
   const [playbackSequence, setPlaybackSequence] = useState<'video' | 'ad'>('video');
   const [returnToTime, setReturnToTime] = useState<number | null>(null);
-  const [hasPlayedAd, setHasPlayedAd] = useState<boolean>(false);
   const [isTransitioning, setIsTransitioning] = useState<boolean>(false);
   const [isPlaying, setIsPlaying] = useState<boolean>(false);
   const [showChapterInfo, setShowChapterInfo] = useState<boolean>(false);
+  const [breakSpacingMin, setBreakSpacingMin] = useState<number>(DEFAULT_BREAK_SPACING_SEC / 60);
+
+  // Break plan being edited, the ad currently playing and the breaks already played this run
+  const [plan, setPlan] = useState<BreakPlan>(() => createEmptyBreakPlan(videoId, contentIndexId));
+  const [activeBreak, setActiveBreak] = useState<ActiveBreak | null>(null);
+  const [playedBreakIds, setPlayedBreakIds] = useState<Set<string>>(new Set());
+  const [isSavingPlan, setIsSavingPlan] = useState<boolean>(false);
+  const [planMessage, setPlanMessage] = useState<string | null>(null);
+
+  // Where break ads come from: VAST generated for each break's pod, or one pasted document for every break
+  const [adSource, setAdSource] = useState<'generated' | 'pasted'>('generated');
+  const [skipOffset, setSkipOffset] = useState<string>(String(DEFAULT_SKIP_OFFSET_SEC));
+  const [pastedVast, setPastedVast] = useState<string>('');
+  const [vastMessage, setVastMessage] = useState<string | null>(null);
+  const [sessionEvents, setSessionEvents] = useState<SessionEvent[]>([]);
 
   // Get global state values
   const { selectedAdId } = useGlobalState();
-  const adsIndexId = process.env.NEXT_PUBLIC_ADS_INDEX_ID || '';
 
   // Fetch ad video details
-  const { data: adVideoDetail } = useQuery({
+  const { data: adVideoDetail, isLoading: isAdDetailLoading } = useQuery({
     queryKey: ["adVideoDetail", selectedAdId],
     queryFn: () => fetchVideoDetails(selectedAdId!, adsIndexId),
     enabled: !!selectedAdId && !!adsIndexId && isOpen
   });
 
+  // Ads that can be put into a pod
+  const { data: adsData } = useQuery({
+    queryKey: ["breakPlanAds", adsIndexId],
+    queryFn: () => fetchVideos(1, adsIndexId, 50),
+    enabled: !!adsIndexId && isOpen
+  });
+
+  // Suggested break points: one chapter per `breakSpacingMin` minutes, explained against the selected ad's tags
+  const adTags = useMemo(() => describeAdTags(adVideoDetail?.user_metadata, taxonomy), [adVideoDetail, taxonomy]);
+  const chapterOptions: ChapterOptions = {
+    spacingSec: breakSpacingMin * 60,
+    indexId: contentIndexId || undefined,
+    adTags,
+  };
+
   // Fetch chapters data
   const { data: chaptersData, isLoading: isChaptersLoading } = useQuery({
-    queryKey: ["chapters", videoId],
-    queryFn: () => generateChapters(videoId),
+    queryKey: ["chapters", videoId, chapterOptions],
+    queryFn: () => generateChapters(videoId, chapterOptions),
+    enabled: isOpen && !!videoId && !isAdDetailLoading,
+  });
+
+  // Saved break plan for this content video
+  const { data: savedPlan } = useQuery({
+    queryKey: ["breakPlan", videoId],
+    queryFn: () => fetchBreakPlan(videoId),
     enabled: isOpen && !!videoId,
   });
 
+  useEffect(() => {
+    setPlan(savedPlan || createEmptyBreakPlan(videoId, contentIndexId));
+    setPlayedBreakIds(new Set());
+    setPlanMessage(null);
+  }, [savedPlan, videoId, contentIndexId]);
+
+  const adOptions = useMemo(() => (adsData?.data || []).map(ad => ({
+    id: ad._id,
+    title: ad.system_metadata?.filename || ad.system_metadata?.video_title || ad._id,
+  })), [adsData]);
+
+  const planErrors = useMemo(() => validateBreakPlan(plan, duration || undefined), [plan, duration]);
+
   // Effect to handle returning to video at the right timestamp after ad
   useEffect(() => {
     if (playbackSequence === 'video' && returnToTime !== null && !isTransitioning) {
@@ -79,45 +160,165 @@ const VideoModal: React.FC<VideoModalProps> = ({
     ].join(':');
   };
 
-  // Track video progress
-  const handleProgress = (state: { playedSeconds: number }) => {
-    if (selectedChapter === null || !chaptersData || !adVideoDetail) {
+  // Back to the content once the last ad of a pod finished
+  const finishBreak = (adBreak: AdBreak) => {
+    setActiveBreak(null);
+    setPlaybackSequence('video');
+
+    if (adBreak.position === 'post-roll') {
+      setIsPlaying(false);
       return;
     }
 
-    const chapter = chaptersData.chapters[selectedChapter];
-    const timeDiff = state.playedSeconds - chapter.end;
-    const isLastChapter = selectedChapter === chaptersData.chapters.length - 1;
-
-    if (
-      playbackSequence === 'video' &&
-      !hasPlayedAd &&
-      ((isLastChapter && Math.abs(timeDiff) < 0.5) || (!isLastChapter && timeDiff >= 0))
-    ) {
-      setPlaybackSequence('ad');
-      setHasPlayedAd(true);
+    setReturnToTime(getBreakTime(adBreak, duration));
+    setIsPlaying(true);
+  };
+
+  // The break's ads as VAST playback ads
+  const loadBreakAds = async (adBreak: AdBreak): Promise<VastPlaybackAd[]> => {
+    if (adSource === 'pasted') {
+      return parseVast(pastedVast);
     }
+
+    const skipOffsetSec = skipOffset.trim() === '' ? undefined : Math.max(0, Number(skipOffset) || 0);
+    const vast = await fetchVastDocument(adBreak.ads.map(ad => ad.adVideoId), {
+      skipOffset: skipOffsetSec,
+      contentVideoId: videoId,
+    });
+    return parseVast(vast);
   };
 
-  // Chapter click handler
-  const handleChapterClick = (index: number) => {
-    if (playbackSequence === 'ad') {
+  // Load the break's VAST and play its ads in order; a break that can't be loaded is passed over
+  const startBreak = async (adBreak: AdBreak) => {
+    setPlayedBreakIds(prev => new Set(prev).add(adBreak.id));
+    setVastMessage(null);
+
+    let ads: VastPlaybackAd[] = [];
+    try {
+      ads = await loadBreakAds(adBreak);
+    } catch (error) {
+      console.error(`Error loading VAST for break ${adBreak.id}:`, error);
+      setVastMessage(error instanceof Error ? error.message : 'Failed to load the VAST document');
+    }
+
+    if (ads.length === 0) {
+      if (adBreak.position === 'pre-roll') {
+        setIsPlaying(true);
+      } else {
+        finishBreak(adBreak);
+      }
       return;
     }
 
-    if (!adVideoDetail?.hls?.video_url) {
-      console.warn("No ad selected. Please select an ad in the contextual analysis page.");
+    setActiveBreak({ breakId: adBreak.id, adIndex: 0, ads });
+    setPlaybackSequence('ad');
+    setIsPlaying(true);
+  };
+
+  const handleVastEvent = (event: VastTrackingEvent, ad: VastPlaybackAd) => {
+    setSessionEvents(prev => [{ event, adTitle: ad.title, at: new Date().toLocaleTimeString() }, ...prev].slice(0, MAX_SESSION_EVENTS));
+  };
+
+  // Check the pasted document before playing it
+  const handleCheckVast = () => {
+    try {
+      const ads = parseVast(pastedVast);
+      setVastMessage(`${ads.length} playable ad${ads.length === 1 ? '' : 's'}: ${ads.map(ad => ad.title).join(', ')}`);
+    } catch (error) {
+      setVastMessage(error instanceof Error ? error.message : 'Invalid VAST document');
+    }
+  };
+
+  // A pasted VAST plays at every break, a generated one only where the pod has ads
+  const hasAdsToPlay = (adBreak: AdBreak) => adSource === 'pasted' ? pastedVast.trim() !== '' : adBreak.ads.length > 0;
+
+  // Track video progress and start any mid-roll the playhead just crossed
+  const handleProgress = (state: { playedSeconds: number }) => {
+    if (playbackSequence !== 'video' || activeBreak) {
       return;
     }
 
-    if (!chaptersData) return;
+    const dueBreak = sortBreaks(plan.breaks, duration).find(adBreak =>
+      adBreak.position === 'mid-roll' &&
+      hasAdsToPlay(adBreak) &&
+      !playedBreakIds.has(adBreak.id) &&
+      state.playedSeconds >= adBreak.time &&
+      state.playedSeconds - adBreak.time < BREAK_TRIGGER_WINDOW_SEC
+    );
+
+    if (dueBreak) {
+      startBreak(dueBreak);
+    }
+  };
+
+  // Content finished: play the post-roll if there is one
+  const handleVideoEnded = () => {
+    const postRoll = plan.breaks.find(adBreak => adBreak.position === 'post-roll');
+    if (postRoll && hasAdsToPlay(postRoll) && !playedBreakIds.has(postRoll.id)) {
+      startBreak(postRoll);
+    }
+  };
+
+  // Jump to 3 seconds before a mid-roll so it plays again
+  const handlePreviewBreak = (breakId: string) => {
+    const adBreak = plan.breaks.find(candidate => candidate.id === breakId);
+    if (!adBreak || playbackSequence === 'ad') return;
+
+    setPlayedBreakIds(prev => {
+      const next = new Set(prev);
+      next.delete(breakId);
+      return next;
+    });
+
+    if (playerRef.current) {
+      playerRef.current.seekTo(Math.max(0, adBreak.time - 3), 'seconds');
+      setIsPlaying(true);
+    }
+  };
+
+  // Play the whole plan from the start: pre-roll, mid-rolls as they come up, then post-roll
+  const handlePlayPlan = () => {
+    if (playbackSequence === 'ad') return;
+
+    setPlayedBreakIds(new Set());
+    playerRef.current?.seekTo(0, 'seconds');
+
+    const preRoll = plan.breaks.find(adBreak => adBreak.position === 'pre-roll');
+    if (preRoll && hasAdsToPlay(preRoll)) {
+      startBreak(preRoll);
+    } else {
+      setIsPlaying(true);
+    }
+  };
+
+  // Chapter click handler: adds a break at the chapter end (post-roll for the last chapter)
+  const handleChapterClick = (index: number) => {
+    if (playbackSequence === 'ad' || !chaptersData) {
+      return;
+    }
 
     const chapter = chaptersData.chapters[index];
     setSelectedChapter(index);
-    setHasPlayedAd(false);
-    setPlaybackSequence('video');
     setShowChapterInfo(true);
 
+    const existing = plan.breaks.find(adBreak =>
+      adBreak.position === 'mid-roll' && Math.abs(adBreak.time - chapter.end) < 0.5
+    );
+    if (existing) {
+      handlePreviewBreak(existing.id);
+      return;
+    }
+
+    const pod = selectedAdId ? [{ adVideoId: selectedAdId, title: adTitle }] : [];
+    const isContentEnd = duration > 0 && chapter.end >= duration - 1;
+
+    if (isContentEnd) {
+      setPlan(addBreak(plan, 'post-roll', duration, pod));
+      return;
+    }
+
+    setPlan(addBreak(plan, 'mid-roll', chapter.end, pod, index));
+
     if (playerRef.current) {
       // Start 3 seconds before the chapter end time
       const startTime = Math.max(0, chapter.end - 3);
@@ -125,14 +326,64 @@ const VideoModal: React.FC<VideoModalProps> = ({
     }
   };
 
-  // Ad ended handler
+  // Matched moment click handler: adds a mid-roll right after the moment and plays up to it
+  const handleMomentClick = (segment: MatchedSegment) => {
+    if (playbackSequence === 'ad') {
+      return;
+    }
+
+    const existing = plan.breaks.find(adBreak =>
+      adBreak.position === 'mid-roll' && Math.abs(adBreak.time - segment.end) < 0.5
+    );
+    if (existing) {
+      handlePreviewBreak(existing.id);
+      return;
+    }
+
+    const pod = selectedAdId ? [{ adVideoId: selectedAdId, title: adTitle }] : [];
+    setPlan(addBreak(plan, 'mid-roll', segment.end, pod));
+
+    if (playerRef.current) {
+      playerRef.current.seekTo(segment.start, 'seconds');
+      setIsPlaying(true);
+    }
+  };
+
+  // Ad ended handler: next ad in the pod, or back to the content
   const handleAdEnded = () => {
-    if (selectedChapter === null || !chaptersData) return;
+    if (!activeBreak) return;
 
-    const chapter = chaptersData.chapters[selectedChapter];
-    setPlaybackSequence('video');
-    setReturnToTime(chapter.end);
-    setIsPlaying(true);
+    if (activeBreak.adIndex + 1 < activeBreak.ads.length) {
+      setActiveBreak({ ...activeBreak, adIndex: activeBreak.adIndex + 1 });
+      setIsPlaying(true);
+      return;
+    }
+
+    const adBreak = plan.breaks.find(candidate => candidate.id === activeBreak.breakId);
+    if (!adBreak) {
+      setActiveBreak(null);
+      setPlaybackSequence('video');
+      return;
+    }
+
+    finishBreak(adBreak);
+  };
+
+  const handleSavePlan = async () => {
+    setIsSavingPlan(true);
+    setPlanMessage(null);
+
+    try {
+      const saved = await saveBreakPlan({ ...plan, duration: duration || plan.duration });
+      setPlan(saved);
+      queryClient.setQueryData(["breakPlan", videoId], saved);
+      setPlanMessage('Plan saved');
+    } catch (error) {
+      console.error('Error saving break plan:', error);
+      setPlanMessage(error instanceof Error ? error.message : 'Failed to save plan');
+    } finally {
+      setIsSavingPlan(false);
+    }
   };
 
   // Video loaded handler
@@ -145,6 +396,9 @@ const VideoModal: React.FC<VideoModalProps> = ({
                  adVideoDetail?.system_metadata?.video_title ||
                  'Advertisement';
 
+  const activeAd = activeBreak ? activeBreak.ads[activeBreak.adIndex] : undefined;
+  const activePodSize = activeBreak ? activeBreak.ads.length : 0;
+
   // Format percentage for scores
   const formatScore = (score?: number): string => {
     if (score === undefined) return "N/A";
@@ -429,8 +683,12 @@ const VideoModal: React.FC<VideoModalProps> = ({
         {/* Fixed Header */}
         <div className="flex-shrink-0 p-6 relative border-gray-200">
           <h3 className="text-2xl font-medium pr-12">
-            {playbackSequence === 'ad' ? adTitle : (title || 'Video Player')}
-            {playbackSequence === 'ad' && <span className="ml-2 text-red text-sm font-bold">(Ad)</span>}
+            {playbackSequence === 'ad' && activeAd ? activeAd.title : (title || 'Video Player')}
+            {playbackSequence === 'ad' && activePodSize > 0 && activeBreak && (
+              <span className="ml-2 text-red text-sm font-bold">
+                (Ad{activePodSize > 1 ? ` ${activeBreak.adIndex + 1}/${activePodSize}` : ''})
+              </span>
+            )}
           </h3>
           <button
             onClick={onClose}
@@ -467,20 +725,18 @@ const VideoModal: React.FC<VideoModalProps> = ({
           )}
 
           <div className="relative w-full px-6 pt-2 pb-1">
-            <div className="relative aspect-video rounded-[45.60px] overflow-hidden">
-              {playbackSequence === 'ad' && adVideoDetail?.hls?.video_url ? (
-                <ReactPlayer
-                  url={adVideoDetail.hls.video_url}
-                  controls
-                  playing={isPlaying}
-                  width="100%"
-                  height="100%"
-                  style={{ position: 'absolute', top: 0, left: 0 }}
-                  onEnded={handleAdEnded}
-                  onPlay={() => setIsPlaying(true)}
-                  onPause={() => setIsPlaying(false)}
-                />
-              ) : (
+            {playbackSequence === 'ad' && activeBreak && activeAd ? (
+              <VastAdPlayer
+                key={`${activeBreak.breakId}-${activeBreak.adIndex}`}
+                ad={activeAd}
+                playing={isPlaying}
+                contentVideoId={videoId}
+                onEnded={handleAdEnded}
+                onPlayingChange={setIsPlaying}
+                onEvent={handleVastEvent}
+              />
+            ) : (
+              <div className="relative aspect-video rounded-[45.60px] overflow-hidden">
                 <ReactPlayer
                   ref={playerRef}
                   url={videoUrl}
@@ -491,6 +747,7 @@ const VideoModal: React.FC<VideoModalProps> = ({
                   style={{ position: 'absolute', top: 0, left: 0 }}
                   onDuration={handleDuration}
                   onProgress={handleProgress}
+                  onEnded={handleVideoEnded}
                   onPlay={() => setIsPlaying(true)}
                   onPause={() => setIsPlaying(false)}
                   config={{
@@ -502,8 +759,8 @@ const VideoModal: React.FC<VideoModalProps> = ({
                     },
                   }}
                 />
-              )}
-            </div>
+              </div>
+            )}
 
             {/* chapter info section */}
             {showChapterInfo && selectedChapter !== null && chaptersData?.chapters && (
@@ -539,6 +796,28 @@ const VideoModal: React.FC<VideoModalProps> = ({
               </div>
             )}
 
+            {/* suggested break spacing */}
+            <div className="flex justify-end items-center px-4 text-sm">
+              <label className="flex items-center">
+                Suggest a break every
+                <select
+                  value={breakSpacingMin}
+                  onChange={(e) => {
+                    setBreakSpacingMin(Number(e.target.value));
+                    setSelectedChapter(null);
+                    setShowChapterInfo(false);
+                  }}
+                  disabled={isChaptersLoading}
+                  className="mx-1 rounded-2xl border px-2 py-0.5 bg-white cursor-pointer"
+                >
+                  {BREAK_SPACING_OPTIONS_MIN.map(minutes => (
+                    <option key={minutes} value={minutes}>{minutes}</option>
+                  ))}
+                </select>
+                min
+              </label>
+            </div>
+
             {/* chapter timeline bar */}
             <div className="relative w-full h-28 p-4 rounded-md">
               {isChaptersLoading ? (
@@ -548,8 +827,24 @@ const VideoModal: React.FC<VideoModalProps> = ({
               ) : (
                 <>
                   <div className="absolute w-[96%] h-2 bg-black top-1/3 left-[2%] -translate-y-1/2 z-10"></div>
+                  {/* best matching moments from the contextual analysis */}
+                  {duration > 0 && matchedSegments.map(segment => {
+                    const left = Math.max(2, Math.min(98, (segment.start / duration) * 96 + 2));
+                    const right = Math.max(2, Math.min(98, (segment.end / duration) * 96 + 2));
+
+                    return (
+                      <div
+                        key={`moment-${segment.start}-${segment.end}`}
+                        className={`absolute h-4 -translate-y-1/2 z-15 rounded-sm bg-green-500/70 ${playbackSequence === 'ad' ? 'cursor-not-allowed' : 'cursor-pointer hover:bg-green-500'}`}
+                        style={{ left: `${left}%`, width: `${Math.max(right - left, 0.5)}%`, top: '33%' }}
+                        onClick={() => handleMomentClick(segment)}
+                        title={`Matched moment ${formatTime(segment.start)}–${formatTime(segment.end)}: add a break after it`}
+                      />
+                    );
+                  })}
                   {chaptersData?.chapters?.map((chapter: Chapter, index: number) => {
                     const position = Math.max(2, Math.min(98, (chapter.end / (duration || 1)) * 96 + 2));
+                    const hasBreak = plan.breaks.some(adBreak => adBreak.chapterIndex === index || Math.abs(getBreakTime(adBreak, duration) - chapter.end) < 0.5);
 
                     return (
                       <div
@@ -558,13 +853,13 @@ const VideoModal: React.FC<VideoModalProps> = ({
                           ${selectedChapter === index
                               ? 'ring-2 ring-black'
                               : 'bg-white ring-2 ring-black'}
-                          ${playbackSequence === 'ad' || !adVideoDetail?.hls?.video_url
+                          ${playbackSequence === 'ad'
                               ? 'cursor-not-allowed'
                               : 'cursor-pointer hover:scale-110 transition-transform'}`}
                         style={{
                           left: `${position}%`,
                           top: '33%',
-                          backgroundColor: selectedChapter === index ? '#F4A680' : 'white'
+                          backgroundColor: selectedChapter === index || hasBreak ? '#F4A680' : 'white'
                         }}
                         onClick={() => handleChapterClick(index)}
                         title={(chapter as ChapterWithMetadata).chapter_title || `Chapter ${index + 1}`}
@@ -578,6 +873,126 @@ const VideoModal: React.FC<VideoModalProps> = ({
                 </>
               )}
             </div>
+
+            {/* matched moments: place a break right after the most aligned scenes */}
+            {matchedSegments.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 px-4 mb-2 text-sm">
+                <span className="font-medium">Best matching moments</span>
+                {matchedSegments.map(segment => (
+                  <button
+                    key={`moment-button-${segment.start}-${segment.end}`}
+                    onClick={() => handleMomentClick(segment)}
+                    disabled={playbackSequence === 'ad'}
+                    className="border rounded-full px-2.5 py-0.5 text-xs hover:bg-gray-100 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                    title={`Similarity ${segment.score.toFixed(3)}: add a break after this moment`}
+                  >
+                    {formatTime(segment.start)}–{formatTime(segment.end)}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* ad break plan */}
+            <BreakPlanner
+              plan={plan}
+              duration={duration}
+              adOptions={adOptions}
+              defaultAdId={selectedAdId}
+              errors={planErrors}
+              activeBreakId={activeBreak?.breakId}
+              isSaving={isSavingPlan}
+              saveMessage={planMessage}
+              onChange={(nextPlan) => {
+                setPlan(nextPlan);
+                setPlanMessage(null);
+              }}
+              onSave={handleSavePlan}
+              onPlayPlan={handlePlayPlan}
+              onPreviewBreak={handlePreviewBreak}
+            />
+
+            {/* VAST the break preview plays, and the tracking events it fired */}
+            <div className="mb-4 bg-gray-100 rounded-[45.60px] p-5 text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                <h4 className="text-lg font-semibold">Ad Source</h4>
+                <div className="flex flex-wrap items-center gap-3">
+                  {(['generated', 'pasted'] as const).map(source => (
+                    <label key={source} className="flex items-center cursor-pointer">
+                      <input
+                        type="radio"
+                        name="vast-source"
+                        className="h-4 w-4 mr-1 cursor-pointer"
+                        checked={adSource === source}
+                        onChange={() => {
+                          setAdSource(source);
+                          setVastMessage(null);
+                        }}
+                      />
+                      {source === 'generated' ? 'Generated VAST' : 'Pasted VAST'}
+                    </label>
+                  ))}
+                  {adSource === 'generated' && (
+                    <label className="flex items-center">
+                      Skippable after
+                      <input
+                        type="number"
+                        min={0}
+                        value={skipOffset}
+                        placeholder="never"
+                        onChange={(e) => setSkipOffset(e.target.value)}
+                        className="w-16 mx-1 rounded-2xl border px-2 py-0.5 bg-white"
+                      />
+                      s
+                    </label>
+                  )}
+                </div>
+              </div>
+
+              {adSource === 'generated' ? (
+                <p className="text-gray-500">Each break plays its pod from /api/vast; tracking pings land in the local event log.</p>
+              ) : (
+                <div>
+                  <textarea
+                    value={pastedVast}
+                    onChange={(e) => {
+                      setPastedVast(e.target.value);
+                      setVastMessage(null);
+                    }}
+                    placeholder="Paste a VAST 2.0-4.x document; its inline linear ads play at every break of the plan"
+                    rows={5}
+                    className="w-full rounded-2xl border px-3 py-2 bg-white font-mono text-xs"
+                  />
+                  <button
+                    onClick={handleCheckVast}
+                    disabled={!pastedVast.trim()}
+                    className="mt-2 rounded-2xl border px-3 py-1 hover:bg-gray-200 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Check VAST
+                  </button>
+                </div>
+              )}
+              {vastMessage && <p className="mt-2 text-gray-700">{vastMessage}</p>}
+
+              {sessionEvents.length > 0 && (
+                <div className="mt-3">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium">Tracking events</span>
+                    <button onClick={() => setSessionEvents([])} className="hover:underline cursor-pointer">
+                      Clear
+                    </button>
+                  </div>
+                  <ul className="space-y-0.5 max-h-40 overflow-y-auto">
+                    {sessionEvents.map((entry, index) => (
+                      <li key={`${entry.at}-${entry.event}-${index}`} className="flex gap-2">
+                        <span className="text-gray-500">{entry.at}</span>
+                        <span className="font-medium">{entry.event}</span>
+                        <span className="truncate">{entry.adTitle}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,242 @@
+import React, { FC, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { AdItemType, UploadTask, UploadTaskStatus } from '@/types';
+import { fetchIndexingStatus, fetchIndexingTasks, processIndexedVideo, uploadVideo } from '@/hooks/apiHooks';
+import { useHasRole } from '@/hooks/useAuth';
+import { useTaxonomy } from '@/providers/WorkspaceProvider';
+
+// How often to check TwelveLabs for task progress
+const POLL_INTERVAL_MS = 5000;
+
+// Statuses where TwelveLabs is still working on the task
+const ACTIVE_STATUSES: UploadTaskStatus[] = ['pending', 'validating', 'queued', 'indexing'];
+
+type VideoUploaderProps = {
+  onUpload: (source: { file?: File; videoUrl?: string }) => void;
+  disabled?: boolean;
+};
+
+const VideoUploader: FC<VideoUploaderProps> = ({ onUpload, disabled = false }) => {
+  const [showPanel, setShowPanel] = useState(false);
+  const [videoUrl, setVideoUrl] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canUpload = useHasRole('editor');
+
+  const handleFiles = (files: FileList | null) => {
+    if (!files) return;
+    Array.from(files)
+      .filter(file => file.type.startsWith('video/'))
+      .forEach(file => onUpload({ file }));
+    setShowPanel(false);
+  };
+
+  const handleUrlSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const url = videoUrl.trim();
+    if (!url) return;
+    onUpload({ videoUrl: url });
+    setVideoUrl('');
+    setShowPanel(false);
+  };
+
+  if (!canUpload) return null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowPanel(prev => !prev)}
+        disabled={disabled}
+        className="flex items-center justify-center p-2 rounded-md border hover:bg-gray-100 transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-label="Upload video"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-5 h-5">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5m-13.5-9L12 3m0 0 4.5 4.5M12 3v13.5" />
+        </svg>
+      </button>
+
+      {showPanel && (
+        <div className="absolute z-[100] mt-1 w-80 bg-white rounded-[45.60px] overflow-hidden p-5">
+          <div
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              handleFiles(e.dataTransfer.files);
+            }}
+            onClick={() => fileInputRef.current?.click()}
+            className={`rounded-2xl border-2 border-dashed px-4 py-6 text-center text-sm cursor-pointer ${
+              isDragging ? 'border-black bg-gray-100' : 'border-gray-300 hover:bg-gray-100'
+            }`}
+          >
+            Drop video files here or click to browse
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="video/*"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                handleFiles(e.target.files);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
+          <form onSubmit={handleUrlSubmit} className="mt-3 flex items-center space-x-2">
+            <input
+              type="url"
+              value={videoUrl}
+              onChange={(e) => setVideoUrl(e.target.value)}
+              placeholder="https://example.com/video.mp4"
+              className="flex-1 min-w-0 rounded-2xl border px-3 py-2 text-sm focus:outline-none"
+            />
+            <button
+              type="submit"
+              disabled={!videoUrl.trim()}
+              className="rounded-2xl bg-black text-white px-3 py-2 text-sm cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Track uploads for an index until they are indexed, tagged and embedded
+export const useIndexingUploads = (indexId: string, onVideoReady?: (videoId: string) => void) => {
+  const taxonomy = useTaxonomy();
+  const [uploads, setUploads] = useState<UploadTask[]>([]);
+  const uploadsRef = useRef<UploadTask[]>([]);
+  uploadsRef.current = uploads;
+  // Keep the latest callback without restarting the poll loop on every render
+  const onVideoReadyRef = useRef(onVideoReady);
+  onVideoReadyRef.current = onVideoReady;
+  // Set while a poll round (including post-processing) runs, so rounds never overlap
+  const isPollingRef = useRef(false);
+
+  const updateUpload = useCallback((localId: string, changes: Partial<UploadTask>) => {
+    setUploads(prev => prev.map(upload => upload.localId === localId ? { ...upload, ...changes } : upload));
+  }, []);
+
+  const removeUpload = useCallback((localId: string) => {
+    setUploads(prev => prev.filter(upload => upload.localId !== localId));
+  }, []);
+
+  const startUpload = useCallback(async (source: { file?: File; videoUrl?: string }) => {
+    const localId = `upload-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const filename = source.file?.name || source.videoUrl || 'Untitled Video';
+
+    setUploads(prev => [...prev, { localId, indexId, filename, status: 'uploading' }]);
+
+    try {
+      const result = await uploadVideo(indexId, source);
+      updateUpload(localId, {
+        taskId: result.taskId,
+        videoId: result.videoId || undefined,
+        status: 'pending'
+      });
+    } catch (error) {
+      console.error('Error uploading video:', error);
+      updateUpload(localId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Upload failed'
+      });
+    }
+  }, [indexId, updateUpload]);
+
+  // Once indexed, run the same metadata + embedding steps the library runs for existing videos
+  const finishUpload = useCallback(async (upload: UploadTask, videoId: string) => {
+    updateUpload(upload.localId, { videoId, status: 'processing' });
+
+    try {
+      await processIndexedVideo(videoId, upload.indexId, taxonomy);
+      onVideoReadyRef.current?.(videoId);
+      removeUpload(upload.localId);
+    } catch (error) {
+      console.error(`Error processing uploaded video ${videoId}:`, error);
+      // The video is indexed even if post-processing failed, so still show it in the list
+      onVideoReadyRef.current?.(videoId);
+      updateUpload(upload.localId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Processing failed'
+      });
+    }
+  }, [removeUpload, taxonomy, updateUpload]);
+
+  const hasActiveUploads = uploads.some(upload => upload.taskId && ACTIVE_STATUSES.includes(upload.status));
+
+  useEffect(() => {
+    if (!hasActiveUploads) return;
+
+    const poll = async () => {
+      if (isPollingRef.current) return;
+      isPollingRef.current = true;
+
+      try {
+        const activeUploads = uploadsRef.current.filter(
+          upload => upload.taskId && ACTIVE_STATUSES.includes(upload.status)
+        );
+
+        // One task list request per index; tasks that have dropped off its first page are checked one by one
+        const indexIds = [...new Set(activeUploads.map(upload => upload.indexId))];
+        const taskLists = await Promise.all(indexIds.map(fetchIndexingTasks));
+        const listedTasks = taskLists.flat();
+
+        await Promise.all(activeUploads.map(async upload => {
+          try {
+            const task = listedTasks.find(candidate => candidate._id === upload.taskId)
+              || await fetchIndexingStatus(upload.taskId as string);
+            const status = (task.status || upload.status) as UploadTaskStatus;
+
+            if (status === 'ready' && (task.video_id || upload.videoId)) {
+              await finishUpload(upload, (task.video_id || upload.videoId) as string);
+            } else if (status === 'failed') {
+              updateUpload(upload.localId, { status, error: 'Indexing failed' });
+            } else if (status !== upload.status) {
+              updateUpload(upload.localId, { status, videoId: task.video_id || upload.videoId });
+            }
+          } catch (error) {
+            // Keep polling; the next round may succeed
+            console.warn(`⚠️ Error checking upload task ${upload.taskId}:`, error);
+          }
+        }));
+      } catch (error) {
+        // A failed task list is fetched again next round
+        console.warn('⚠️ Error checking upload tasks:', error);
+      } finally {
+        isPollingRef.current = false;
+      }
+    };
+
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [hasActiveUploads, finishUpload, updateUpload]);
+
+  // Rows for the library table, rendered with the existing indexing placeholder
+  const indexingItems: AdItemType[] = useMemo(() => uploads.map(upload => ({
+    id: upload.videoId || upload.localId,
+    thumbnailUrl: '',
+    title: upload.filename,
+    videoUrl: '',
+    tags: [],
+    isIndexing: true,
+    taskId: upload.taskId,
+    status: upload.status === 'failed' && upload.error ? `failed: ${upload.error}` : upload.status,
+  })), [uploads]);
+
+  return {
+    uploads,
+    indexingItems,
+    startUpload,
+    removeUpload,
+    isUploading: uploads.length > 0,
+  };
+};
+
+export default VideoUploader;
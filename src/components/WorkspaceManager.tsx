@@ -0,0 +1,220 @@
+import React, { FC, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Taxonomy, Workspace, WorkspaceInput } from '@/types';
+import { createWorkspace, deleteWorkspace, fetchWorkspaces, updateWorkspace } from '@/hooks/apiHooks';
+import { WORKSPACES_QUERY_KEY } from '@/providers/WorkspaceProvider';
+
+type WorkspaceDraft = {
+  name: string;
+  adsIndexId: string;
+  contentIndexId: string;
+  vectorNamespace: string;
+  memberEmails: string;
+  taxonomyJson: string;
+};
+
+const EMPTY_DRAFT: WorkspaceDraft = { name: '', adsIndexId: '', contentIndexId: '', vectorNamespace: '', memberEmails: '', taxonomyJson: '' };
+
+const toDraft = (workspace: Workspace): WorkspaceDraft => ({
+  name: workspace.name,
+  adsIndexId: workspace.adsIndexId,
+  contentIndexId: workspace.contentIndexId,
+  vectorNamespace: workspace.vectorNamespace,
+  memberEmails: workspace.memberEmails.join(', '),
+  taxonomyJson: workspace.customTaxonomy ? JSON.stringify(workspace.taxonomy, null, 2) : '',
+});
+
+// An empty taxonomy field means the app's taxonomy.json
+const toInput = (draft: WorkspaceDraft): WorkspaceInput => ({
+  name: draft.name,
+  adsIndexId: draft.adsIndexId,
+  contentIndexId: draft.contentIndexId,
+  vectorNamespace: draft.vectorNamespace || undefined,
+  memberEmails: draft.memberEmails.split(/[\s,]+/).filter(Boolean),
+  taxonomy: draft.taxonomyJson.trim() ? JSON.parse(draft.taxonomyJson) as Taxonomy : null,
+});
+
+// Workspaces with their indexes, vector namespace and taxonomy, for the admin panel
+const WorkspaceManager: FC = () => {
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<WorkspaceDraft>(EMPTY_DRAFT);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { data, isLoading } = useQuery({
+    queryKey: WORKSPACES_QUERY_KEY,
+    queryFn: fetchWorkspaces,
+  });
+  const workspaces = data?.workspaces || [];
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      await action();
+      await queryClient.invalidateQueries({ queryKey: WORKSPACES_QUERY_KEY });
+      setMessage(success);
+    } catch (error) {
+      setMessage(error instanceof SyntaxError ? `Taxonomy is not valid JSON: ${error.message}` : error instanceof Error ? error.message : 'Request failed');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      if (editingId) {
+        await updateWorkspace(editingId, toInput(draft));
+      } else {
+        await createWorkspace(toInput(draft));
+      }
+      resetForm();
+    }, editingId ? `Saved ${draft.name}` : `Created ${draft.name}`);
+  };
+
+  const updateDraft = (field: keyof WorkspaceDraft) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => setDraft(prev => ({ ...prev, [field]: e.target.value }));
+
+  return (
+    <div className="mt-8 bg-white p-6 rounded-lg shadow-md">
+      <h2 className="text-xl font-semibold mb-4">Workspaces</h2>
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading workspaces...</p>
+      ) : (
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1">Name</th>
+              <th className="py-1">Ads index</th>
+              <th className="py-1">Content index</th>
+              <th className="py-1">Vector namespace</th>
+              <th className="py-1">Members</th>
+              <th className="py-1">Taxonomy</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody>
+            {workspaces.map(workspace => (
+              <tr key={workspace.id} className="border-t">
+                <td className="py-1">{workspace.name}</td>
+                <td className="py-1 font-mono">{workspace.adsIndexId || '-'}</td>
+                <td className="py-1 font-mono">{workspace.contentIndexId || '-'}</td>
+                <td className="py-1 font-mono">{workspace.vectorNamespace || '(default)'}</td>
+                <td className="py-1" title={workspace.memberEmails.join(', ') || undefined}>
+                  {workspace.isDefault ? 'Everyone' : workspace.memberEmails.length ? `${workspace.memberEmails.length} users` : 'Admins only'}
+                </td>
+                <td className="py-1">{workspace.customTaxonomy ? 'Custom' : 'taxonomy.json'}</td>
+                <td className="py-1 text-right whitespace-nowrap">
+                  {workspace.isDefault ? (
+                    <span className="text-gray-400">Set by env vars</span>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => {
+                          setEditingId(workspace.id);
+                          setDraft(toDraft(workspace));
+                          setMessage(null);
+                        }}
+                        disabled={isSaving}
+                        className="hover:underline cursor-pointer disabled:opacity-50 mr-3"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => run(() => deleteWorkspace(workspace.id), `Removed ${workspace.name}`)}
+                        disabled={isSaving || workspace.id === data?.activeWorkspaceId}
+                        title={workspace.id === data?.activeWorkspaceId ? 'Switch to another workspace first' : undefined}
+                        className="text-red-600 hover:underline cursor-pointer disabled:opacity-50"
+                      >
+                        Remove
+                      </button>
+                    </>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <form onSubmit={handleSubmit} className="flex flex-col gap-2 text-sm">
+        <div className="font-medium">{editingId ? 'Edit workspace' : 'New workspace'}</div>
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={draft.name}
+            onChange={updateDraft('name')}
+            placeholder="Name"
+            required
+            className="p-2 border border-gray-300 rounded-md"
+          />
+          <input
+            value={draft.adsIndexId}
+            onChange={updateDraft('adsIndexId')}
+            placeholder="Ads index ID"
+            required
+            className="p-2 border border-gray-300 rounded-md font-mono"
+          />
+          <input
+            value={draft.contentIndexId}
+            onChange={updateDraft('contentIndexId')}
+            placeholder="Content index ID"
+            required
+            className="p-2 border border-gray-300 rounded-md font-mono"
+          />
+          <input
+            value={draft.vectorNamespace}
+            onChange={updateDraft('vectorNamespace')}
+            placeholder={editingId ? 'Vector namespace' : 'Vector namespace (optional)'}
+            className="p-2 border border-gray-300 rounded-md font-mono"
+          />
+        </div>
+        <input
+          value={draft.memberEmails}
+          onChange={updateDraft('memberEmails')}
+          placeholder="Member emails, comma-separated (admins always have access)"
+          className="p-2 border border-gray-300 rounded-md"
+        />
+        <textarea
+          value={draft.taxonomyJson}
+          onChange={updateDraft('taxonomyJson')}
+          placeholder='Taxonomy JSON, e.g. {"categories": [...]} (leave empty to use taxonomy.json)'
+          rows={4}
+          className="p-2 border border-gray-300 rounded-md font-mono"
+        />
+        {editingId && (
+          <p className="text-gray-500">Changing the vector namespace does not move vectors already stored; re-run the embedding backfill.</p>
+        )}
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-black text-white rounded-md cursor-pointer disabled:opacity-50"
+          >
+            {editingId ? 'Save workspace' : 'Add workspace'}
+          </button>
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              disabled={isSaving}
+              className="px-4 py-2 border rounded-md cursor-pointer disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+      {message && <p className="mt-2 text-sm text-gray-700">{message}</p>}
+    </div>
+  );
+};
+
+export default WorkspaceManager;
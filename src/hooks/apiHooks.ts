@@ -1,10 +1,21 @@
-import { IndexResponse, PaginatedResponse, ProcessingStatusResponse, VideoDetailWithEmbedding, SearchPageInfo, SearchResult, EmbeddingResponse, EmbeddingSearchResult, VideoData, ChaptersData, IndexingTask, EmbeddingCheckResult } from '@/types';
+import { generatedMetadataToFields } from '@/utils/metadataSchema';
+import { IndexRegistry, IndexResponse, PaginatedResponse, ProcessingStatusResponse, VideoDetailWithEmbedding, SearchPageInfo, SearchResult, EmbeddingResponse, VideoData, ChaptersData, IndexingTask, EmbeddingCheckResult, UploadVideoResponse, GeneratedMetadata, GenerateMetadataResponse, BreakPlan, ChapterOptions, ResultCacheKind, ResultCacheStats, CreateJobRequest, JobAction, JobDetail, JobSummary, EmbeddingBackfillStatus, RankingOptions, MatchResponse, MatchRules, SavedMatchRules, Campaign, CampaignInput, CampaignSummary, AdPlacements, PlacementUpdate, VastEventLogEntry, IssuedSessionToken, SessionTokenRequest, AuthStatus, UserAccount, UserInput, VideoMetadataUpdate, Workspace, WorkspaceInput, WorkspaceList, Taxonomy } from '@/types';
 
 export const fetchIndex = async (indexId: string): Promise<IndexResponse> => {
   const response = await fetch(`/api/indexes/${indexId}`);
   return response.json();
 };
 
+// Known indexes of the current workspace with their role, name and embedding model
+export const fetchIndexRegistry = async (): Promise<IndexRegistry> => {
+  const response = await fetch('/api/indexes');
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
 // 비디오 목록 가져오기
 export const fetchVideos = async (
   page: number = 1,
@@ -94,6 +105,17 @@ export const fetchVideoDetails = async (videoId: string, indexId: string, embed:
 // 비디오 처리 상태 확인 - 카테고리 정보 포함
 
 
+// Vector category of a registered index, or undefined when the registry doesn't list it (or can't be loaded)
+const getRegisteredVectorCategory = async (indexId: string): Promise<string | undefined> => {
+  try {
+    const registry = await fetchIndexRegistry();
+    const role = registry.indexes.find(entry => entry.id === indexId)?.role;
+    return registry.roles.find(candidate => candidate.id === role)?.vectorCategory;
+  } catch {
+    return undefined;
+  }
+};
+
 // 비디오 처리 상태 확인 함수
 export const checkProcessingStatus = async (
   videoId: string,
@@ -111,8 +133,8 @@ export const checkProcessingStatus = async (
       return {
         processed: false,
         error: `HTTP error ${response.status}`,
-        // Determine category based on indexId even when API fails
-        category: indexId.toLowerCase().includes('ad') ? 'ad' : 'content'
+        // The category comes from the index registry even when the check fails
+        category: await getRegisteredVectorCategory(indexId)
       };
     }
 
@@ -121,12 +143,11 @@ export const checkProcessingStatus = async (
     return data;
   } catch (error) {
     console.error('Error checking processing status:', error);
-    // In case of error, return processed=false with category determination
+    // In case of error, return processed=false with the registry's category
     return {
       processed: false,
       error: error instanceof Error ? error.message : 'Unknown error',
-      // Still determine category based on indexId
-      category: indexId.toLowerCase().includes('ad') ? 'ad' : 'content'
+      category: await getRegisteredVectorCategory(indexId)
     };
   }
 };
@@ -313,311 +334,62 @@ const processAndStoreEmbedding = async (videoDetails: VideoDetailWithEmbedding,
 };
 
 // custom metadata generation
-export const generateMetadata = async (videoId: string): Promise<string> => {
+// the route returns tags already validated against the taxonomy schema
+// refresh: skip the server-side result cache and generate again
+export const generateMetadata = async (
+  videoId: string,
+  indexId: string,
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<GeneratedMetadata> => {
   try {
-    const response = await fetch(`/api/analyze?videoId=${videoId}`);
+    const response = await fetch(`/api/analyze?videoId=${videoId}&indexId=${indexId}${refresh ? '&refresh=true' : ''}`);
 
     if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+      const errorData = await response.json().catch(() => ({}));
+      const details = Array.isArray(errorData.details) ? errorData.details.join('; ') : errorData.details;
+      throw new Error(`HTTP error! status: ${response.status}${details ? `, ${details}` : ''}`);
     }
 
-    const data = await response.json();
-    // Now data has the structure { id, data, usage } where data.data contains the hashtags
-    return data.data || '';
+    const data: GenerateMetadataResponse = await response.json();
+    return data.metadata;
   } catch (error) {
     console.error('Error generating metadata:', error);
     throw error;
   }
 };
 
-// parse hashtags and create metadata object
-export const parseHashtags = (hashtagText: string): Record<string, string> => {
-
-  // extract metadata from hashtag string
-  const metadata: Record<string, string> = {
-    source: '',
-    sector: '',
-    emotions: '',
-    brands: '',
-    locations: '',
-    demographics_gender: '',
-    demographics_age: ''
-  };
-
-  // handle new format (labeled format)
-  // check the label and extract the metadata directly
-  if (hashtagText.includes('Demographics Gender:') ||
-      hashtagText.includes('Demographics Age:') ||
-      hashtagText.includes('Topic Category:') ||
-      hashtagText.includes('Emotions:') ||
-      hashtagText.includes('Location:') ||
-      hashtagText.includes('Brands:') ||
-      hashtagText.includes('Gender:') ||
-      hashtagText.includes('Age:') ||
-      hashtagText.includes('Topic:')) {
-
-    // split each line
-    const lines = hashtagText.split('\n');
-
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-
-      // extract data according to each label (support both new and old labels)
-      if (trimmedLine.startsWith('Demographics Gender:')) {
-        metadata.demographics_gender = trimmedLine.substring('Demographics Gender:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Gender:')) {
-        metadata.demographics_gender = trimmedLine.substring('Gender:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Demographics Age:')) {
-        metadata.demographics_age = trimmedLine.substring('Demographics Age:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Age:')) {
-        metadata.demographics_age = trimmedLine.substring('Age:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Topic Category:')) {
-        metadata.sector = trimmedLine.substring('Topic Category:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Topic:')) {
-        metadata.sector = trimmedLine.substring('Topic:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Emotions:')) {
-        metadata.emotions = trimmedLine.substring('Emotions:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Location:')) {
-        metadata.locations = trimmedLine.substring('Location:'.length).trim();
-      }
-      else if (trimmedLine.startsWith('Brands:')) {
-        metadata.brands = trimmedLine.substring('Brands:'.length).trim();
-      }
-    }
-
-    // for backward compatibility, set demographics field
-    if (metadata.demographics_gender || metadata.demographics_age) {
-      const demographics = [];
-      if (metadata.demographics_gender) demographics.push(metadata.demographics_gender);
-      if (metadata.demographics_age) demographics.push(metadata.demographics_age);
-      metadata.demographics = demographics.join(', ');
-    }
-
-    return metadata;
-  }
-
-  // handle old hashtag format (backward compatibility)
-  // try to extract category from each hashtag
-  // replace newline characters with spaces for consistent splitting
-  const cleanText = hashtagText.replace(/\n/g, ' ');
-  const hashtags = cleanText.split(/\s+/).filter(tag => tag.startsWith('#'));
-
-  // object to collect tags for each category
-  const categoryTags: Record<string, string[]> = {
-    demographics_gender: [],
-    demographics_age: [],
-    sector: [],
-    emotions: [],
-    locations: [],
-    brands: []
-  };
-
-  // keywords for each category - match the values defined in route.ts
-  // Demographics Gender: Male, Female
-  const demographicsGenderKeywords = ['male', 'female', 'men', 'women'];
-
-  // Demographics Age: 18-25, 25-34, 35-44, 45-54, 55+
-  const demographicsAgeKeywords = ['18-25', '25-34', '35-44', '45-54', '55+'];
-
-  // Sector: Beauty, Fashion, Tech, Travel, CPG, Food & Bev, Retail
-  const sectorKeywords = ['beauty', 'fashion', 'tech', 'travel', 'cpg', 'food', 'bev', 'retail', 'food&bev'];
-
-  // Emotion: happy/positive, exciting, relaxing, inspiring, serious, festive, calm
-  const emotionKeywords = [
-    'happy', 'positive', 'happypositive', 'happy/positive',
-    'exciting', 'relaxing', 'inspiring', 'serious', 'festive', 'calm', 'determined'
-  ];
-
-  // specific location keywords - defined in route.ts as "any real-world location"
-  const locationKeywords = [
-    'seoul', 'dubai', 'doha', 'newyork', 'new york', 'paris', 'tokyo', 'london', 'berlin',
-    'lasvegas', 'las vegas', 'france', 'korea', 'qatar', 'uae', 'usa', 'bocachica',
-    'bocachicabeach', 'marathon'
-  ];
-
-  // specific brand keywords - defined in route.ts as "any mentioned brands in the input"
-  const brandKeywords = [
-    'fentybeauty', 'adidas', 'nike', 'spacex', 'apple', 'microsoft', 'google', 'amazon',
-    'ferrari', 'heineken', 'redbullracing', 'redbull', 'sailgp', 'fifaworldcup', 'fifa',
-    'tourdefrance', 'nttdata', 'oracle', 'maybelline'
-  ];
-
-  // analyze which category the generated hashtags belong to
-
-  for (const tag of hashtags) {
-    const cleanTag = tag.slice(1).toLowerCase(); // remove # and convert to lowercase
-
-    // check demographics gender
-    if (demographicsGenderKeywords.includes(cleanTag)) {
-      categoryTags.demographics_gender.push(cleanTag);
-      continue;
-    }
-
-    // check demographics age
-    if (demographicsAgeKeywords.includes(cleanTag)) {
-      categoryTags.demographics_age.push(cleanTag);
-      continue;
-    }
-
-    // check sector
-    if (sectorKeywords.includes(cleanTag)) {
-      categoryTags.sector.push(cleanTag);
-      continue;
-    }
-
-    // check emotion
-    if (emotionKeywords.includes(cleanTag)) {
-      categoryTags.emotions.push(cleanTag);
-      continue;
-    }
-
-    // check location
-    if (locationKeywords.includes(cleanTag)) {
-      categoryTags.locations.push(cleanTag);
-      continue;
-    }
-
-    // check brand
-    if (brandKeywords.includes(cleanTag)) {
-      categoryTags.brands.push(cleanTag);
-      continue;
-    }
-  }
-
-  // handle unclassified tags
-  const unclassifiedTags = hashtags.filter(tag => {
-    const cleanTag = tag.slice(1).toLowerCase();
-    return !demographicsGenderKeywords.includes(cleanTag) &&
-           !demographicsAgeKeywords.includes(cleanTag) &&
-           !sectorKeywords.includes(cleanTag) &&
-           !emotionKeywords.includes(cleanTag) &&
-           !locationKeywords.includes(cleanTag) &&
-           !brandKeywords.includes(cleanTag);
-  });
-
-  // if there are unclassified tags and locations is empty, consider the first tag as locations
-  if (unclassifiedTags.length > 0 && categoryTags.locations.length === 0) {
-    const locationTag = unclassifiedTags[0].slice(1).toLowerCase();
-    categoryTags.locations.push(locationTag);
-    unclassifiedTags.shift();
-  }
-
-  // if there are unclassified tags and brands is empty, consider the first tag as brands
-  if (unclassifiedTags.length > 0 && categoryTags.brands.length === 0) {
-    const brandTag = unclassifiedTags[0].slice(1).toLowerCase();
-    categoryTags.brands.push(brandTag);
-  }
-
-  // convert each category tag to a comma-separated string
-  for (const category in categoryTags) {
-    if (categoryTags[category as keyof typeof categoryTags].length > 0) {
-      metadata[category] = categoryTags[category as keyof typeof categoryTags].join(', ');
-    }
-  }
-
-  // for backward compatibility, set demographics field
-  if (metadata.demographics_gender || metadata.demographics_age) {
-    const demographics = [];
-    if (metadata.demographics_gender) demographics.push(metadata.demographics_gender);
-    if (metadata.demographics_age) demographics.push(metadata.demographics_age);
-    metadata.demographics = demographics.join(', ');
-  }
-  return metadata;
-};
-
-// update video metadata
+// Update only the given metadata fields (PATCH); other fields of the video are kept. Keys are taxonomy ids
+// (e.g. topic_category) or stored field names; other keys are stored as custom fields. Pass the video's
+// updated_at as `expectedUpdatedAt` to have the update refused when someone else changed the video meanwhile.
 export const updateVideoMetadata = async (
   videoId: string,
   indexId: string,
-  metadata: Record<string, string>
-): Promise<boolean> => {
+  metadata: Record<string, string>,
+  { expectedUpdatedAt }: { expectedUpdatedAt?: string } = {}
+): Promise<VideoMetadataUpdate> => {
   try {
-    // map the field names used in the UI to the field names used in the API
-    const apiMetadata: Record<string, string> = {};
-
-    // fields that are directly mapped
-    if ('source' in metadata) apiMetadata.source = metadata.source;
-    if ('emotions' in metadata) apiMetadata.emotions = metadata.emotions;
-    if ('brands' in metadata) apiMetadata.brands = metadata.brands;
-    if ('locations' in metadata) apiMetadata.locations = metadata.locations;
-
-    // fields that need special mapping
-    // topic_category is actually stored in the sector field
-    if ('topic_category' in metadata) apiMetadata.sector = metadata.topic_category;
-    if ('sector' in metadata) apiMetadata.sector = metadata.sector;
-
-    // demographics related fields
-    const demoValues = [];
-    if ('demographics_gender' in metadata && metadata.demographics_gender) {
-      demoValues.push(metadata.demographics_gender);
-    }
-    if ('demographics_age' in metadata && metadata.demographics_age) {
-      demoValues.push(metadata.demographics_age);
-    }
-
-    // for backward compatibility, set demographics field
-    if (demoValues.length === 0) {
-      if ('demographics' in metadata && metadata.demographics) {
-        apiMetadata.demographics = metadata.demographics;
-      } else if ('demo_age' in metadata || 'demo_gender' in metadata) {
-        const demographics = [];
-        if (metadata.demo_age) demographics.push(metadata.demo_age);
-        if (metadata.demo_gender) demographics.push(metadata.demo_gender);
-        apiMetadata.demographics = demographics.join(', ');
-      }
-    } else {
-      apiMetadata.demographics = demoValues.join(', ');
-    }
-
-    const payload = {
-      videoId,
-      indexId,
-      metadata: apiMetadata
-    };
-
     const response = await fetch('/api/videos/metadata', {
-      method: 'PUT',
+      method: 'PATCH',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(payload),
+      body: JSON.stringify({ videoId, indexId, metadata, expectedUpdatedAt }),
     });
 
-    const responseText = await response.text();
-
+    const data = await response.json().catch(() => ({}));
     if (!response.ok) {
-      // if an error occurs, use the response text as is
-      console.error('Error updating metadata:', responseText);
-      throw new Error(`HTTP error! status: ${response.status}, message: ${responseText}`);
+      throw new Error(data.error || `HTTP error! status: ${response.status}`);
     }
 
-    // if the response is successful, try to parse it as JSON, otherwise return true
-    let success = true;
-    if (responseText && responseText.trim() !== '') {
-      try {
-        const result = JSON.parse(responseText);
-        success = result.success !== false; // if the result is not explicitly false, consider it as true
-      } catch {
-        // if parsing fails, use the default value
-      }
-    }
-
-    return success;
+    return { userMetadata: data.userMetadata || {}, updatedAt: data.updatedAt };
   } catch (error) {
     console.error('Error updating video metadata:', error);
     throw error;
   }
 };
 
-// convert video metadata to tags
-export const convertMetadataToTags = (metadata: Record<string, unknown>): { category: string; value: string }[] => {
+// convert video metadata to tags, labelled with the workspace taxonomy
+export const convertMetadataToTags = (metadata: Record<string, unknown>, taxonomy: Taxonomy): { category: string; value: string }[] => {
   if (!metadata) return [];
 
   const tags: { category: string; value: string }[] = [];
@@ -631,30 +403,24 @@ export const convertMetadataToTags = (metadata: Record<string, unknown>): { cate
       .join(' ');
   };
 
-  // Source
-  if (metadata.source && typeof metadata.source === 'string') {
-    tags.push({ category: 'Source', value: normalizeTagValue(metadata.source) });
-  }
+  // one tag per value, labelled with the taxonomy category label
+  taxonomy.categories.forEach(category => {
+    const value = metadata[category.field] ?? metadata[category.id];
+    if (!value || typeof value !== 'string') return;
 
-  // Demographics Gender -> Target Demo: Gender
-  if (metadata.demographics_gender && typeof metadata.demographics_gender === 'string') {
-    metadata.demographics_gender.split(',')
-      .map(tag => tag.trim())
-      .filter(tag => tag !== '')
-      .forEach(tag => {
-        tags.push({ category: 'Target Demo: Gender', value: normalizeTagValue(tag) });
-      });
-  }
+    // source is a single free-text value (often a URL), so don't split it
+    if (category.field === 'source') {
+      tags.push({ category: category.label, value: normalizeTagValue(value) });
+      return;
+    }
 
-  // Demographics Age -> Target Demo: Age
-  if (metadata.demographics_age && typeof metadata.demographics_age === 'string') {
-    metadata.demographics_age.split(',')
+    value.split(',')
       .map(tag => tag.trim())
       .filter(tag => tag !== '')
       .forEach(tag => {
-        tags.push({ category: 'Target Demo: Age', value: normalizeTagValue(tag) });
+        tags.push({ category: category.label, value: normalizeTagValue(tag) });
       });
-  }
+  });
 
   // old demographics field - backward compatibility
   if (!metadata.demographics_gender && !metadata.demographics_age &&
@@ -683,50 +449,6 @@ export const convertMetadataToTags = (metadata: Record<string, unknown>): { cate
       });
   }
 
-  // Sector -> Topic Category
-  if (metadata.sector && typeof metadata.sector === 'string') {
-    // add each value as a separate tag
-    metadata.sector.split(',')
-      .map(tag => tag.trim())
-      .filter(tag => tag !== '')
-      .forEach(tag => {
-        tags.push({ category: 'Topic Category', value: normalizeTagValue(tag) });
-      });
-  }
-
-  // Emotions
-  if (metadata.emotions && typeof metadata.emotions === 'string') {
-    // add each value as a separate tag
-    metadata.emotions.split(',')
-      .map(tag => tag.trim())
-      .filter(tag => tag !== '')
-      .forEach(tag => {
-        tags.push({ category: 'Emotions', value: normalizeTagValue(tag) });
-      });
-  }
-
-  // Brands
-  if (metadata.brands && typeof metadata.brands === 'string') {
-    // add each value as a separate tag
-    metadata.brands.split(',')
-      .map(tag => tag.trim())
-      .filter(tag => tag !== '')
-      .forEach(tag => {
-        tags.push({ category: 'Brands', value: normalizeTagValue(tag) });
-      });
-  }
-
-  // Locations
-  if (metadata.locations && typeof metadata.locations === 'string') {
-    // add each value as a separate tag
-    metadata.locations.split(',')
-      .map(tag => tag.trim())
-      .filter(tag => tag !== '')
-      .forEach(tag => {
-        tags.push({ category: 'Location', value: normalizeTagValue(tag) });
-      });
-  }
-
   return tags;
 };
 
@@ -743,9 +465,6 @@ export const searchVideos = async (
       };
     }
 
-    // Use provided indexId or get from environment - renamed variable to avoid confusion
-    const searchIndexId = indexId || process.env.NEXT_PUBLIC_CONTENT_INDEX_ID;
-
     // Make an initial search request to get the correct total count
     // Use a larger page_size to increase chance of getting full count in first request
     const response = await fetch('/api/search', {
@@ -755,7 +474,8 @@ export const searchVideos = async (
       },
       body: JSON.stringify({
         textSearchQuery: searchQuery,
-        indexId: searchIndexId,
+        // Without an indexId the API searches the workspace's content index
+        indexId,
         page_size: 100  // Request larger page size to get complete results if possible
       }),
     });
@@ -841,147 +561,73 @@ export const resetPineconeVectors = async (
   }
 };
 
-// embedding search - search for similar videos using text (tags)
-export const textToVideoEmbeddingSearch = async (
+// match content to an ad - the server fuses the ad's tag, title and visual searches into one ranking
+export const matchAdToContent = async (
   videoId: string,
   adsIndexId: string,
-  contentIndexId: string
-): Promise<EmbeddingSearchResult[]> => {
+  contentIndexId: string,
+  options: RankingOptions & { limit?: number; rules?: MatchRules } = {}
+): Promise<MatchResponse> => {
   try {
+    const response = await fetch('/api/match', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ videoId, adsIndexId, contentIndexId, ...options }),
+    });
 
-    // use the tag information (sector, emotions) of the selected ad video as the search term
-    const videoDetails = await fetchVideoDetails(videoId, adsIndexId);
-    const sector = videoDetails.user_metadata?.sector || '';
-    const emotions = videoDetails.user_metadata?.emotions || '';
-    const videoTitle = videoDetails.system_metadata?.video_title ||
-                     videoDetails.system_metadata?.filename ||
-                     `Video ${videoId}`;
-
-    // map to store the results (use videoId as the key)
-    const resultMap = new Map();
-
-    // 1. tag-based search (sector + emotions)
-    const tagSearchTerm = `${sector} ${emotions}`.trim();
-    if (tagSearchTerm) {
-
-      try {
-        const tagResponse = await fetch('/api/embeddingSearch/textToVideo', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            searchTerm: tagSearchTerm,
-            indexId: contentIndexId
-          }),
-        });
-
-        if (tagResponse.ok) {
-          const tagResults: EmbeddingSearchResult[] = await tagResponse.json();
-
-          // store the tag-based results in the Map
-          tagResults.forEach(result => {
-            const resultVideoId = result.metadata?.tl_video_id;
-            if (resultVideoId) {
-              // add searchMethod property to each result
-              result.searchMethod = 'tag';
-              resultMap.set(resultVideoId, result);
-            }
-          });
-        }
-      } catch (error) {
-        console.error("Error in tag-based search:", error);
-      }
-    }
-
-    try {
-      const titleResponse = await fetch('/api/embeddingSearch/textToVideo', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          searchTerm: videoTitle,
-          indexId: contentIndexId
-        }),
-      });
-
-      if (titleResponse.ok) {
-        const titleResults: EmbeddingSearchResult[] = await titleResponse.json();
-
-        // add title-based results to the Map (compare scores if already exists)
-        titleResults.forEach(result => {
-          const resultVideoId = result.metadata?.tl_video_id;
-          if (resultVideoId) {
-            result.searchMethod = 'title';
-
-            // if the result is already found in the tag-based search, compare scores
-            if (resultMap.has(resultVideoId)) {
-              const existingResult = resultMap.get(resultVideoId);
-              // keep the result with the higher score
-              if (result.score > existingResult.score) {
-                resultMap.set(resultVideoId, result);
-              }
-            } else {
-              // add new result
-              resultMap.set(resultVideoId, result);
-            }
-          }
-        });
-      }
-    } catch (error) {
-      console.error("Error in title-based search:", error);
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
     }
 
-    // convert all values in the Map to an array
-    const finalResults = Array.from(resultMap.values());
-
-    // sort by score
-    finalResults.sort((a, b) => b.score - a.score);
-
-
-    return finalResults;
+    return await response.json();
   } catch (error) {
-    console.error('Error in text to video embedding search:', error);
+    console.error('Error matching ad to content:', error);
     throw error;
   }
 };
 
-// video-based embedding search - find similar content to the selected ad
-export const videoToVideoEmbeddingSearch = async (
+// match ads to a content video - the reverse of matchAdToContent, using the same signals
+export const matchContentToAds = async (
   videoId: string,
+  contentIndexId: string,
   adsIndexId: string,
-  contentIndexId: string
-): Promise<EmbeddingSearchResult[]> => {
+  options: RankingOptions & { limit?: number } = {}
+): Promise<MatchResponse> => {
   try {
-    const response = await fetch('/api/embeddingSearch/videoToVideo', {
+    const response = await fetch('/api/match', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify({
-        videoId: videoId,
-        indexId: contentIndexId
-      }),
+      body: JSON.stringify({ videoId, direction: 'content-to-ads', adsIndexId, contentIndexId, ...options }),
     });
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
 
-    const results: EmbeddingSearchResult[] = await response.json();
-
-    return results;
+    return await response.json();
   } catch (error) {
-    console.error('Error in video to video embedding search:', error);
+    console.error('Error matching content to ads:', error);
     throw error;
   }
 };
 
 // get chapters of a video
-export const generateChapters = async (videoId: string): Promise<ChaptersData> => {
+export const generateChapters = async (videoId: string, options: ChapterOptions = {}): Promise<ChaptersData> => {
   try {
-    const response = await fetch(`/api/generateChapters?videoId=${videoId}`);
+    const params = new URLSearchParams({ videoId });
+    if (options.breakCount) params.set('breakCount', String(options.breakCount));
+    if (options.spacingSec) params.set('spacingSec', String(options.spacingSec));
+    if (options.duration) params.set('duration', String(Math.round(options.duration)));
+    if (options.indexId) params.set('indexId', options.indexId);
+    if (options.brandSafety) params.set('brandSafety', options.brandSafety);
+    options.adTags?.forEach(tag => params.append('adTag', tag));
+    if (options.refresh) params.set('refresh', 'true');
+
+    const response = await fetch(`/api/generateChapters?${params.toString()}`);
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
@@ -1027,6 +673,18 @@ export const fetchIndexingTasks = async (indexId: string): Promise<IndexingTask[
   }
 };
 
+// Check the status of a single indexing task
+export const fetchIndexingStatus = async (taskId: string): Promise<IndexingTask> => {
+  const response = await fetch(`/api/videos/indexing-status?taskId=${taskId}`);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to fetch indexing status: ${errorText}`);
+  }
+
+  return response.json();
+};
+
 // Helper function to preload thumbnails for faster display
 const preloadThumbnails = (tasks: IndexingTask[]) => {
   tasks.forEach(task => {
@@ -1138,4 +796,558 @@ export const checkAndEnsureEmbeddings = async (
       totalCount: contentVideos ? contentVideos.length + 1 : 1
     };
   }
-};
\ No newline at end of file
+};
+
+// Upload a local file or register a public video URL for indexing
+export const uploadVideo = async (
+  indexId: string,
+  source: { file?: File; videoUrl?: string }
+): Promise<UploadVideoResponse> => {
+  let response: Response;
+
+  if (source.file) {
+    // Sent as the raw body so the server can stream it on to TwelveLabs
+    const params = new URLSearchParams({ indexId, filename: source.file.name });
+    response = await fetch(`/api/videos/upload?${params}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': source.file.type || 'application/octet-stream',
+      },
+      body: source.file,
+    });
+  } else {
+    response = await fetch('/api/videos/upload', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ indexId, videoUrl: source.videoUrl }),
+    });
+  }
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return data;
+};
+
+// Once a new video is indexed: generate tags, save them and store its embeddings
+export const processIndexedVideo = async (videoId: string, indexId: string, taxonomy: Taxonomy): Promise<void> => {
+  try {
+    const generatedMetadata = await generateMetadata(videoId, indexId);
+    await updateVideoMetadata(videoId, indexId, generatedMetadataToFields(generatedMetadata, taxonomy));
+  } catch (error) {
+    // Tags can be regenerated later from the library, so keep going with embeddings
+    console.error(`❌ Failed to generate metadata for video ${videoId}:`, error);
+  }
+
+  const embeddingResult = await getAndStoreEmbeddings(indexId, videoId);
+  if (!embeddingResult.success) {
+    throw new Error(`Failed to store embeddings: ${embeddingResult.message}`);
+  }
+};
+
+// Load the saved ad break plan for a content video (null when none was saved yet)
+export const fetchBreakPlan = async (videoId: string): Promise<BreakPlan | null> => {
+  const response = await fetch(`/api/breakPlans/${videoId}`);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to load break plan: ${errorText}`);
+  }
+
+  const data = await response.json();
+  return data.plan;
+};
+
+export const saveBreakPlan = async (plan: BreakPlan): Promise<BreakPlan> => {
+  const response = await fetch(`/api/breakPlans/${plan.videoId}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(plan),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const details = Array.isArray(data.details) ? data.details.join('; ') : data.details;
+    throw new Error(details || data.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return data.plan;
+};
+
+export const fetchMatchRules = async (adVideoId: string): Promise<MatchRules> => {
+  const response = await fetch(`/api/matchRules/${adVideoId}`);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to load match rules: ${errorText}`);
+  }
+
+  const data = await response.json();
+  return data.rules;
+};
+
+export const saveMatchRules = async (adVideoId: string, rules: MatchRules): Promise<SavedMatchRules> => {
+  const response = await fetch(`/api/matchRules/${adVideoId}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ rules }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return data;
+};
+
+export const fetchPlacements = async (adVideoId: string): Promise<AdPlacements> => {
+  const response = await fetch(`/api/placements/${adVideoId}`);
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to load placements: ${errorText}`);
+  }
+
+  const data = await response.json();
+  return data.placements;
+};
+
+// Approve, reject or annotate one matched content video for an ad
+export const updatePlacement = async (adVideoId: string, update: PlacementUpdate): Promise<AdPlacements> => {
+  const response = await fetch(`/api/placements/${adVideoId}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(update),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const details = Array.isArray(data.details) ? data.details.join('; ') : data.details;
+    throw new Error(details || data.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return data.placements;
+};
+
+export const fetchResultCacheStats = async (): Promise<ResultCacheStats> => {
+  const response = await fetch('/api/resultCache');
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Invalidate cached generations; without a filter every entry is removed
+export const clearResultCache = async (filter: { kind?: ResultCacheKind; videoId?: string } = {}): Promise<number> => {
+  const params = new URLSearchParams();
+  if (filter.kind) params.set('kind', filter.kind);
+  if (filter.videoId) params.set('videoId', filter.videoId);
+
+  const response = await fetch(`/api/resultCache?${params.toString()}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return data.removed;
+};
+
+const parseJobResponse = async <T>(response: Response): Promise<T> => {
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return data.job ?? data.jobs;
+};
+
+export const fetchJobs = async (): Promise<JobSummary[]> => {
+  return parseJobResponse<JobSummary[]>(await fetch('/api/jobs'));
+};
+
+export const fetchJob = async (jobId: string): Promise<JobDetail> => {
+  return parseJobResponse<JobDetail>(await fetch(`/api/jobs/${jobId}`));
+};
+
+// Start a server-side batch job (runs even if this tab is closed)
+export const createJob = async (request: CreateJobRequest): Promise<JobSummary> => {
+  const response = await fetch('/api/jobs', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  });
+
+  return parseJobResponse<JobSummary>(response);
+};
+
+export const updateJob = async (jobId: string, action: JobAction): Promise<JobDetail> => {
+  const response = await fetch(`/api/jobs/${jobId}`, {
+    method: 'PATCH',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ action }),
+  });
+
+  return parseJobResponse<JobDetail>(response);
+};
+
+export const enqueueJobVideos = async (jobId: string, videoIds: string[]): Promise<JobDetail> => {
+  const response = await fetch(`/api/jobs/${jobId}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ videoIds }),
+  });
+
+  return parseJobResponse<JobDetail>(response);
+};
+
+export const fetchEmbeddingBackfill = async (indexId: string): Promise<EmbeddingBackfillStatus> => {
+  const response = await fetch(`/api/embeddings/backfill?indexId=${indexId}`);
+
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+
+  return response.json();
+};
+
+// Scan an index on the server and start storing embeddings for videos without vectors
+// (returns the running job when a backfill is already in progress)
+export const startEmbeddingBackfill = async (indexId: string, concurrency?: number): Promise<EmbeddingBackfillStatus> => {
+  const response = await fetch('/api/embeddings/backfill', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ indexId, concurrency }),
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return data;
+};
+
+const parseCampaignResponse = async <T>(response: Response): Promise<T> => {
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+  }
+
+  return data.campaign ?? data.campaigns;
+};
+
+export const fetchCampaigns = async (): Promise<CampaignSummary[]> => {
+  return parseCampaignResponse<CampaignSummary[]>(await fetch('/api/campaigns'));
+};
+
+export const fetchCampaign = async (campaignId: string): Promise<Campaign> => {
+  return parseCampaignResponse<Campaign>(await fetch(`/api/campaigns/${campaignId}`));
+};
+
+export const createCampaign = async (input: CampaignInput): Promise<Campaign> => {
+  const response = await fetch('/api/campaigns', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+
+  return parseCampaignResponse<Campaign>(response);
+};
+
+export const updateCampaign = async (campaignId: string, input: CampaignInput): Promise<Campaign> => {
+  const response = await fetch(`/api/campaigns/${campaignId}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+
+  return parseCampaignResponse<Campaign>(response);
+};
+
+export const deleteCampaign = async (campaignId: string): Promise<void> => {
+  const response = await fetch(`/api/campaigns/${campaignId}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+};
+
+// Match every ad in the campaign against the content index and store the shortlist
+export const runCampaignAnalysis = async (campaignId: string, options: RankingOptions = {}): Promise<Campaign> => {
+  const response = await fetch(`/api/campaigns/${campaignId}/analysis`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(options),
+  });
+
+  return parseCampaignResponse<Campaign>(response);
+};
+
+// Download links for /api/export; the response is an attachment the browser saves
+export const getMediaPlanExportUrl = (campaignId: string, format: 'csv' | 'json'): string =>
+  `/api/export?${new URLSearchParams({ format, campaignId }).toString()}`;
+
+export const getVmapExportUrl = (contentVideoId: string, campaignId?: string): string => {
+  const params = new URLSearchParams({ format: 'vmap', contentVideoId });
+  if (campaignId) params.set('campaignId', campaignId);
+  return `/api/export?${params.toString()}`;
+};
+
+// Generated VAST for an ad pod, with tracker URLs that record into the local event log
+export const fetchVastDocument = async (
+  adVideoIds: string[],
+  { skipOffset, contentVideoId }: { skipOffset?: number; contentVideoId?: string } = {}
+): Promise<string> => {
+  const params = new URLSearchParams({ adVideoIds: adVideoIds.join(',') });
+  if (skipOffset !== undefined) params.set('skipOffset', String(skipOffset));
+  if (contentVideoId) params.set('contentVideoId', contentVideoId);
+
+  const response = await fetch(`/api/vast?${params.toString()}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.details || errorData.error || `HTTP error! status: ${response.status}`);
+  }
+  return response.text();
+};
+
+// Log a tracking event fired by the break preview; failures are only logged so playback continues
+export const recordVastEvent = async (entry: Omit<VastEventLogEntry, 'id' | 'createdAt' | 'source'>): Promise<void> => {
+  try {
+    await fetch('/api/vast/events', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(entry),
+      keepalive: true,
+    });
+  } catch (error) {
+    console.warn('⚠️ Could not record VAST event:', error);
+  }
+};
+
+export const fetchVastEvents = async (filter: { adId?: string; contentVideoId?: string; limit?: number } = {}): Promise<VastEventLogEntry[]> => {
+  const params = new URLSearchParams();
+  if (filter.adId) params.set('adId', filter.adId);
+  if (filter.contentVideoId) params.set('contentVideoId', filter.contentVideoId);
+  if (filter.limit) params.set('limit', String(filter.limit));
+
+  const response = await fetch(`/api/vast/events?${params.toString()}`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.events;
+};
+
+export const clearVastEvents = async (): Promise<void> => {
+  const response = await fetch('/api/vast/events', { method: 'DELETE' });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+};
+
+// Short-lived token for calling TwelveLabs through /api/twelvelabs; the API key never reaches the browser
+export const requestSessionToken = async (request: SessionTokenRequest = {}): Promise<IssuedSessionToken> => {
+  const response = await fetch('/api/videos/get-token', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(request),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+export const revokeSessionToken = async (tokenId: string): Promise<void> => {
+  const response = await fetch(`/api/videos/get-token/${tokenId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+};
+
+// Signed-in user and sign-in options; user is null when signed out
+export const fetchAuthStatus = async (): Promise<AuthStatus> => {
+  const response = await fetch('/api/auth/me');
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+export const login = async (email: string, password: string): Promise<UserAccount> => {
+  const response = await fetch('/api/auth/login', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ email, password }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.user;
+};
+
+export const logout = async (): Promise<void> => {
+  await fetch('/api/auth/logout', { method: 'POST' });
+};
+
+// Account management (admins only)
+const parseUserResponse = async <T>(response: Response): Promise<T> => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.user ?? data.users;
+};
+
+export const fetchUsers = async (): Promise<UserAccount[]> => {
+  return parseUserResponse<UserAccount[]>(await fetch('/api/auth/users'));
+};
+
+export const createUser = async (input: UserInput): Promise<UserAccount> => {
+  const response = await fetch('/api/auth/users', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+
+  return parseUserResponse<UserAccount>(response);
+};
+
+export const updateUser = async (userId: string, input: UserInput): Promise<UserAccount> => {
+  const response = await fetch(`/api/auth/users/${userId}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+
+  return parseUserResponse<UserAccount>(response);
+};
+
+export const deleteUser = async (userId: string): Promise<void> => {
+  const response = await fetch(`/api/auth/users/${userId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+};
+
+// Workspaces: every user can list and switch, admins manage them
+export const fetchWorkspaces = async (): Promise<WorkspaceList> => {
+  const response = await fetch('/api/workspaces');
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+};
+
+// Remembered in a cookie, so every later API call from this browser uses the workspace
+export const selectWorkspace = async (workspaceId: string): Promise<Workspace> => {
+  const response = await fetch('/api/workspaces/active', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ workspaceId }),
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.workspace;
+};
+
+const parseWorkspaceResponse = async (response: Response): Promise<Workspace> => {
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data.workspace;
+};
+
+export const createWorkspace = async (input: WorkspaceInput): Promise<Workspace> => {
+  const response = await fetch('/api/workspaces', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+
+  return parseWorkspaceResponse(response);
+};
+
+export const updateWorkspace = async (workspaceId: string, input: WorkspaceInput): Promise<Workspace> => {
+  const response = await fetch(`/api/workspaces/${workspaceId}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(input),
+  });
+
+  return parseWorkspaceResponse(response);
+};
+
+export const deleteWorkspace = async (workspaceId: string): Promise<void> => {
+  const response = await fetch(`/api/workspaces/${workspaceId}`, { method: 'DELETE' });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `HTTP error! status: ${response.status}`);
+  }
+};
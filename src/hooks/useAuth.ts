@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { UserRole } from '@/types';
+import { fetchAuthStatus } from '@/hooks/apiHooks';
+import { hasRole } from '@/utils/roles';
+
+export const AUTH_QUERY_KEY = ['authStatus'];
+
+// Session of the current browser, shared by every component through the query cache
+export const useAuthStatus = () => useQuery({
+  queryKey: AUTH_QUERY_KEY,
+  queryFn: fetchAuthStatus,
+  staleTime: 5 * 60 * 1000,
+});
+
+export const useCurrentUser = () => useAuthStatus().data?.user ?? null;
+
+// UI gate only; the API checks the role again on every call
+export const useHasRole = (role: UserRole) => hasRole(useCurrentUser(), role);
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { fetchIndexRegistry } from '@/hooks/apiHooks';
+
+export const INDEX_REGISTRY_QUERY_KEY = ['indexRegistry'];
+
+// Index registry of the selected workspace, shared through the query cache
+export const useIndexRegistry = () => useQuery({
+  queryKey: INDEX_REGISTRY_QUERY_KEY,
+  queryFn: fetchIndexRegistry,
+  staleTime: 5 * 60 * 1000,
+});
+
+// Display name of an index, falling back to its id for indexes outside the registry
+export const useIndexName = () => {
+  const { data } = useIndexRegistry();
+  return (indexId: string) => data?.indexes.find(entry => entry.id === indexId)?.name || indexId;
+};
@@ -0,0 +1,11 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { getJobRunner } = await import('@/utils/jobRunner');
+  try {
+    await getJobRunner().resumeInterrupted();
+  } catch (error) {
+    console.error('❌ Error resuming jobs at startup:', error);
+  }
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { createContext, ReactNode, useContext } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Taxonomy, Workspace } from '@/types';
+import { fetchWorkspaces, selectWorkspace } from '@/hooks/apiHooks';
+import { useCurrentUser } from '@/hooks/useAuth';
+import LoadingSpinner from '@/components/LoadingSpinner';
+
+export const WORKSPACES_QUERY_KEY = ['workspaces'];
+
+type WorkspaceState = {
+  workspace: Workspace;
+  workspaces: Workspace[];
+  switchWorkspace: (workspaceId: string) => Promise<void>;
+};
+
+const WorkspaceContext = createContext<WorkspaceState | undefined>(undefined);
+
+// The workspace the signed-in user is working in; its index ids replace the old env defaults in pages
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext);
+  if (context === undefined) {
+    throw new Error('useWorkspace must be used within a WorkspaceProvider');
+  }
+  return context;
+}
+
+// The workspace's taxonomy, for components that label, filter or edit tags
+export function useTaxonomy(): Taxonomy {
+  return useWorkspace().workspace.taxonomy;
+}
+
+// Switching reloads the page so no query cached for the previous workspace is shown again
+const switchWorkspace = async (workspaceId: string) => {
+  await selectWorkspace(workspaceId);
+  window.location.reload();
+};
+
+export function WorkspaceProvider({ children }: { children: ReactNode }) {
+  const user = useCurrentUser();
+  const { data, error } = useQuery({
+    queryKey: WORKSPACES_QUERY_KEY,
+    queryFn: fetchWorkspaces,
+    enabled: !!user,
+  });
+
+  // Signed-out pages (login) don't need a workspace
+  if (!user) return <>{children}</>;
+
+  if (error) {
+    return <div className="p-8 text-red-600">Could not load workspaces: {error.message}</div>;
+  }
+
+  const workspace = data?.workspaces.find(candidate => candidate.id === data.activeWorkspaceId);
+  if (!data || !workspace) {
+    return (
+      <div className="flex justify-center items-center h-screen">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  return (
+    <WorkspaceContext.Provider value={{ workspace, workspaces: data.workspaces, switchWorkspace }}>
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
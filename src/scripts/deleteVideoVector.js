@@ -49,6 +49,7 @@ async function deleteVideoVector() {
       const response = await fetch(`${API_SERVER_URL}/api/vectors/reset`, {
         method: "POST",
         headers: {
+          "x-service-token": process.env.AUTH_SERVICE_TOKEN || "",
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
@@ -167,6 +167,7 @@ async function storeEmbeddingInPinecone(
     const response = await fetch(`http://localhost:3000/api/vectors/store`, {
       method: "POST",
       headers: {
+        "x-service-token": process.env.AUTH_SERVICE_TOKEN || "",
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
@@ -202,6 +203,7 @@ async function checkProcessingStatus(videoId, indexId) {
       {
         method: "GET",
         headers: {
+          "x-service-token": process.env.AUTH_SERVICE_TOKEN || "",
           Accept: "application/json",
         },
       }
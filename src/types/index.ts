@@ -245,7 +245,9 @@ export interface AdItemType {
     locations?: string;
     demo_age?: string;
     demo_gender?: string;
+    [key: string]: string | undefined; // custom taxonomy categories
   };
+  updatedAt?: string; // the video's updated_at, sent back with tag edits
   isIndexing?: boolean;
   indexingStatus?: string;
   taskId?: string;
@@ -404,7 +406,10 @@ export interface SearchResultsProps {
 
 export interface SimilarVideoResultsProps {
   results: EmbeddingSearchResult[];
+  excluded?: EmbeddingSearchResult[]; // removed by brand safety / targeting rules
+  rejected?: EmbeddingSearchResult[]; // rejected by an account manager
   indexId: string;
+  onPlacementChange?: (result: EmbeddingSearchResult, update: Omit<PlacementUpdate, 'contentVideoId' | 'result'>) => void;
 }
 
 export interface EmbeddingSearchResult {
@@ -419,6 +424,20 @@ export interface EmbeddingSearchResult {
   originalSource?: 'TEXT' | 'VIDEO' | 'BOTH';
   textScore?: number;
   videoScore?: number;
+  rank?: number;
+  contributions?: RankingContribution[]; // why the result ranked where it did (ranked search only)
+  overlapBoost?: number; // 'max' method: multiplier applied when text and visual both matched
+  segments?: MatchedSegment[]; // best matching moments of the video, best first
+  exclusion?: MatchExclusion; // set on results removed by brand safety / targeting rules
+  placement?: PlacementAnnotation; // the account manager's decision and note for this match
+}
+
+// A clip of a matched video, from the start_time/end_time stored with its vector
+export interface MatchedSegment {
+  start: number; // seconds
+  end: number;
+  score: number;
+  signal?: RankingSignal; // search that found it (set once results are fused)
 }
 
 export interface SelectedVideoData {
@@ -429,12 +448,14 @@ export interface SelectedVideoData {
   textScore?: number;
   videoScore?: number;
   originalSource?: 'TEXT' | 'VIDEO' | 'BOTH';
+  segments?: MatchedSegment[];
   metadata: VideoData;
 }
 
 export interface VideoDetailWithEmbedding {
   _id: string;
   index_id?: string;
+  updated_at?: string;
   hls?: {
     video_url?: string;
     thumbnail_urls?: string[];
@@ -493,6 +514,17 @@ export interface ChaptersData {
   chapters: Chapter[];
 }
 
+// Options for /api/generateChapters; breakCount wins over spacingSec
+export interface ChapterOptions {
+  breakCount?: number;
+  spacingSec?: number; // e.g. 480 for one break every 8 minutes
+  duration?: number; // content length in seconds, looked up when omitted
+  indexId?: string;
+  brandSafety?: string;
+  adTags?: string[]; // e.g. ["Topic: Beauty", "Emotions: happy"]
+  refresh?: boolean; // skip the server-side result cache
+}
+
 export interface ChapterWithMetadata extends Chapter {
   chapter_title?: string;
   chapter_summary?: string;
@@ -510,6 +542,7 @@ export interface VideoModalProps {
   videoScore?: number;
   originalSource?: 'TEXT' | 'VIDEO' | 'BOTH';
   contentMetadata?: VideoData;
+  matchedSegments?: MatchedSegment[];
 }
 
 
@@ -534,6 +567,7 @@ export interface AdItemType {
     locations?: string;
     demo_age?: string;
     demo_gender?: string;
+    [key: string]: string | undefined; // custom taxonomy categories
   };
   isIndexing?: boolean;
   indexingStatus?: string;
@@ -562,6 +596,36 @@ export interface IndexingTask {
   };
 }
 
+// Upload tracked from the moment it is sent until metadata and embeddings are stored
+export type UploadTaskStatus =
+  | 'uploading'
+  | 'pending'
+  | 'validating'
+  | 'queued'
+  | 'indexing'
+  | 'ready'
+  | 'processing'
+  | 'completed'
+  | 'failed';
+
+export interface UploadTask {
+  localId: string;
+  indexId: string;
+  filename: string;
+  taskId?: string;
+  videoId?: string;
+  status: UploadTaskStatus;
+  error?: string;
+}
+
+export interface UploadVideoResponse {
+  taskId: string;
+  videoId: string | null;
+  indexId: string;
+  filename: string;
+  status: string;
+}
+
 export interface EmbeddingCheckResult {
   success: boolean;
   message: string;
@@ -569,4 +633,526 @@ export interface EmbeddingCheckResult {
   contentEmbeddingsExist: boolean;
   processedCount: number;
   totalCount: number;
-}
\ No newline at end of file
+}
+// Tagging taxonomy (see taxonomy.json)
+export type TaxonomyCategoryType = 'closed' | 'free';
+
+export interface TaxonomyCategory {
+  id: string; // key used in the UI metadata and filters
+  label: string; // column / tag label
+  field: string; // key stored in the video's user_metadata
+  promptLabel?: string; // line label the analyze prompt asks for, defaults to label
+  aliases?: string[]; // other keys accepted in the model output
+  type: TaxonomyCategoryType; // closed = only `values` allowed, free = any text (`values` are hints)
+  values?: string[];
+  synonyms?: Record<string, string>; // alternative spelling -> canonical value
+  generated?: boolean; // included in the analyze prompt, default true
+  filterable?: boolean; // shown in the filter menu, default true
+  width?: string; // column width in the libraries
+  legacyKeywords?: string[]; // more hashtags matched to this category in old plain-text output, kept as written
+  legacyFallback?: number; // order in which unmatched old hashtags fill this category when empty (lowest first)
+}
+
+export interface Taxonomy {
+  categories: TaxonomyCategory[];
+}
+
+// Tags generated by /api/analyze, keyed by taxonomy category id
+export type GeneratedMetadata = Record<string, string[]>;
+
+export interface GenerateMetadataResponse {
+  id?: string;
+  metadata: GeneratedMetadata;
+  attempts: number;
+  usage?: Record<string, number>;
+  cached?: boolean;
+}
+
+// Ad break plans (one per content video)
+export type BreakPosition = 'pre-roll' | 'mid-roll' | 'post-roll';
+
+export interface AdPodItem {
+  adVideoId: string;
+  title?: string;
+}
+
+export interface AdBreak {
+  id: string;
+  position: BreakPosition;
+  time: number; // seconds into the content; 0 for pre-roll, content duration for post-roll
+  chapterIndex?: number;
+  ads: AdPodItem[]; // played in order
+}
+
+export interface BreakPlanRules {
+  minSpacingSec: number;
+  maxPodSize: number;
+}
+
+export interface BreakPlan {
+  videoId: string;
+  indexId?: string;
+  duration?: number;
+  rules: BreakPlanRules;
+  breaks: AdBreak[];
+  updatedAt?: string;
+}
+
+// Server-side cache of generated results, keyed by video id and prompt version
+export type ResultCacheKind = 'chapters' | 'analysis';
+
+export interface ResultCacheEntry<T = unknown> {
+  key: string;
+  kind: ResultCacheKind;
+  videoId: string;
+  promptVersion: string;
+  model: string;
+  value: T;
+  createdAt: string;
+}
+
+export interface ResultCacheStats {
+  total: number;
+  byKind: Record<ResultCacheKind, number>;
+  oldest?: string;
+  newest?: string;
+}
+
+// Server-side batch jobs (metadata regeneration, embedding backfill)
+export type JobType = 'regenerate-metadata' | 'embedding-backfill';
+export type JobStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+export type JobItemStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobItem {
+  videoId: string;
+  title?: string;
+  status: JobItemStatus;
+  attempts: number;
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface JobOptions {
+  useCache: boolean;
+  onlyMissing: boolean;
+  limit: number; // 0 = every video
+}
+
+export type JobCounts = Record<JobItemStatus, number> & { total: number };
+
+export interface Job {
+  id: string;
+  type: JobType;
+  workspaceId?: string; // jobs created before workspaces ran in the default one
+  indexId: string;
+  status: JobStatus;
+  concurrency: number;
+  options: JobOptions;
+  items: JobItem[];
+  logs: string[];
+  coverage?: EmbeddingCoverage; // embedding-backfill: what the scan found when the job was created
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+// Job without its items/logs, as returned by the job list
+export type JobSummary = Omit<Job, 'items' | 'logs'> & { counts: JobCounts };
+
+export type JobDetail = Job & { counts: JobCounts };
+
+export type JobAction = 'pause' | 'resume' | 'cancel' | 'retry-failed';
+
+export interface CreateJobRequest {
+  type?: JobType;
+  indexId: string;
+  videoIds?: string[]; // defaults to every video in the index
+  concurrency?: number;
+  options?: Partial<JobOptions>;
+}
+
+// How many videos of an index already have vectors in the vector store
+export interface EmbeddingCoverage {
+  indexId: string;
+  total: number;
+  embedded: number;
+  missing: number;
+  indexing: number; // still being indexed, so not embeddable yet
+  checkedAt: string;
+}
+
+export interface EmbeddingBackfillStatus {
+  job: JobSummary | null;
+  coverage?: EmbeddingCoverage;
+}
+
+export type RankingMethod = 'max' | 'weighted' | 'rrf';
+
+export type RankingSignal = 'tag' | 'title' | 'visual';
+
+export type RankingWeights = Record<RankingSignal, number>;
+
+export interface RankingContribution {
+  signal: RankingSignal;
+  score: number; // similarity returned by this signal's search
+  rank: number; // 1-based position in this signal's results
+  weight: number;
+  contribution: number; // part of the fused score that came from this signal
+}
+
+export interface RankingOptions {
+  method?: RankingMethod;
+  weights?: Partial<RankingWeights>;
+}
+
+export type MatchDirection = 'ad-to-content' | 'content-to-ads';
+
+// Body of POST /api/match; index ids default to the workspace's ads / content indexes
+export interface MatchRequest extends RankingOptions {
+  videoId: string; // ad video, or content video for 'content-to-ads'
+  direction?: MatchDirection; // defaults to 'ad-to-content'
+  adsIndexId?: string;
+  contentIndexId?: string;
+  limit?: number;
+  rules?: Partial<MatchRules>; // 'ad-to-content': overrides the ad's saved rules
+}
+
+export interface MatchResponse {
+  direction: MatchDirection;
+  source: {
+    videoId: string;
+    indexId: string;
+    title: string;
+    tagSearchTerm: string;
+  };
+  targetIndexId: string;
+  method: RankingMethod;
+  weights: RankingWeights;
+  signals: Record<RankingSignal, number>; // how many videos each signal's search returned
+  timing: {
+    totalMs: number;
+    visual?: VideoSearchTiming;
+  };
+  rules?: MatchRules; // 'ad-to-content': the rules applied to the content videos
+  results: EmbeddingSearchResult[];
+  excluded: EmbeddingSearchResult[]; // matches removed by rules, each with its `exclusion`
+  rejected: EmbeddingSearchResult[]; // matches an account manager rejected
+}
+
+// Where the time of a video-to-video search went
+export interface VideoSearchTiming {
+  sourceClips: number; // clips of the source video in the vector store
+  queries: number; // similarity queries run: the centroid plus the distinctive clips
+  fetchMs: number; // loading the source clips
+  queryMs: number; // similarity queries, run concurrently
+  totalMs: number;
+}
+
+// Brand safety and targeting rules for an ad, checked against a matched video's tags (user_metadata).
+// Blocked values exclude a video that has any of them; required values exclude a video that has none.
+export interface MatchRules {
+  blockedBrands: string[];
+  blockedTopics: string[];
+  blockedEmotions: string[];
+  requiredTopics: string[];
+  requiredLocations: string[];
+  requiredGenders: string[];
+  requiredAgeGroups: string[];
+}
+
+export type MatchRule = keyof MatchRules;
+
+export interface MatchExclusion {
+  rule: MatchRule;
+  values: string[]; // the video's values that broke the rule (empty when a required tag is missing)
+  reason: string;
+}
+
+export interface SavedMatchRules {
+  adVideoId: string;
+  workspaceId?: string; // rules saved before workspaces belong to the default one
+  rules: MatchRules;
+  updatedAt: string;
+}
+
+export type PlacementStatus = 'approved' | 'rejected';
+
+// Curation of one ad/content pair; approved matches are pinned to the top, rejected ones are set aside
+export interface PlacementDecision {
+  contentVideoId: string;
+  status?: PlacementStatus; // unset when only a note was left
+  note?: string;
+  result?: EmbeddingSearchResult; // the match when it was approved, shown if a later run no longer finds it
+  updatedAt: string;
+}
+
+export type PlacementAnnotation = Omit<PlacementDecision, 'result'> & {
+  stale?: boolean; // not found by the latest search; listed from the saved match
+};
+
+export interface AdPlacements {
+  adVideoId: string;
+  workspaceId?: string; // decisions saved before workspaces belong to the default one
+  decisions: Record<string, PlacementDecision>; // keyed by content video id
+  updatedAt: string;
+}
+
+// status null clears the decision, an empty note clears the note
+export interface PlacementUpdate {
+  contentVideoId: string;
+  status?: PlacementStatus | null;
+  note?: string;
+  result?: EmbeddingSearchResult;
+}
+
+export type MediaPlanFormat = 'json' | 'csv' | 'vmap';
+
+// Where an entry's insertion times come from: the content's saved break plan or its latest generated chapters
+export type InsertionSource = 'break-plan' | 'chapters' | 'none';
+
+export interface MediaPlanEntry {
+  adVideoId: string;
+  adTitle: string;
+  contentVideoId: string;
+  contentTitle: string;
+  insertionTimes: number[]; // seconds into the content
+  insertionSource: InsertionSource;
+  score: number;
+  rank?: number;
+  placementStatus?: PlacementStatus;
+  tags: Record<string, string>; // content tags keyed by taxonomy category id
+}
+
+export interface MediaPlan {
+  campaign: Pick<Campaign, 'id' | 'name' | 'advertiser' | 'flightStart' | 'flightEnd'>;
+  contentIndexId: string;
+  generatedAt: string;
+  entries: MediaPlanEntry[];
+}
+
+// A linear ad as written into a VAST document
+export interface VastAd {
+  adVideoId: string;
+  title: string;
+  mediaUrl: string; // HLS stream
+  duration?: number; // seconds
+  width?: number;
+  height?: number;
+  skipOffset?: number; // seconds before the viewer may skip
+  companionImageUrl?: string; // banner shown next to the player while the ad runs
+}
+
+// Events the break preview reports; impression and clickThrough come from their own VAST elements
+export type VastTrackingEvent =
+  | 'impression'
+  | 'creativeView'
+  | 'start'
+  | 'firstQuartile'
+  | 'midpoint'
+  | 'thirdQuartile'
+  | 'complete'
+  | 'skip'
+  | 'pause'
+  | 'resume'
+  | 'clickThrough';
+
+export interface VastCompanion {
+  imageUrl: string;
+  width?: number;
+  height?: number;
+  clickThrough?: string;
+  creativeViewUrls: string[];
+}
+
+// An inline linear ad read from a VAST document, ready to play
+export interface VastPlaybackAd {
+  id: string;
+  title: string;
+  mediaUrl: string;
+  duration?: number; // seconds, from <Duration>
+  skipOffset?: number; // seconds, from the Linear skipoffset attribute
+  clickThrough?: string;
+  tracking: Partial<Record<VastTrackingEvent, string[]>>; // URLs to ping per event (impressions under 'impression')
+  companions: VastCompanion[];
+}
+
+export interface VastEventLogEntry {
+  id: string;
+  event: VastTrackingEvent;
+  adId: string;
+  adTitle?: string;
+  contentVideoId?: string;
+  urls: string[]; // tracker URLs the preview pinged
+  source: 'preview' | 'pixel'; // recorded by the break preview, or by a hit on /api/vast/track
+  createdAt: string;
+}
+
+export interface VmapBreak {
+  position: BreakPosition;
+  time: number; // seconds; ignored for pre- and post-rolls
+  ads: VastAd[];
+}
+
+export interface CampaignTargeting {
+  topics: string[];
+  genders: string[];
+  ageGroups: string[];
+}
+
+// One ad's results from a campaign analysis run
+export interface CampaignAdMatches {
+  adVideoId: string;
+  adTitle: string;
+  results: EmbeddingSearchResult[]; // the shortlist: top matches after rules
+  excludedCount: number;
+  error?: string;
+}
+
+export interface CampaignAnalysis {
+  runAt: string;
+  method: RankingMethod;
+  weights: RankingWeights;
+  ads: CampaignAdMatches[];
+}
+
+export interface Campaign {
+  id: string;
+  workspaceId?: string; // campaigns created before workspaces belong to the default one
+  name: string;
+  advertiser: string;
+  adVideoIds: string[];
+  targeting: CampaignTargeting; // content must carry one of each non-empty list's values
+  flightStart?: string; // YYYY-MM-DD
+  flightEnd?: string;
+  rules: MatchRules; // exclusion rules, applied on top of each ad's own rules
+  analysis?: CampaignAnalysis; // latest contextual analysis run
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type CampaignInput = Partial<Pick<Campaign, 'name' | 'advertiser' | 'adVideoIds' | 'flightStart' | 'flightEnd'>> & {
+  targeting?: Partial<CampaignTargeting>;
+  rules?: Partial<MatchRules>;
+};
+
+// Campaign without its analysis results, as returned by the campaign list
+export type CampaignSummary = Omit<Campaign, 'analysis'> & { lastRunAt?: string; shortlistCount: number };
+
+// Short-lived session tokens for the TwelveLabs proxy (/api/twelvelabs/...)
+export type SessionTokenScope =
+  | 'indexes:read'
+  | 'videos:read'
+  | 'videos:write'
+  | 'tasks:read'
+  | 'tasks:create'
+  | 'search';
+
+// What the server keeps per issued token; the signed token itself is only returned once
+export interface SessionTokenRecord {
+  id: string;
+  scopes: SessionTokenScope[];
+  indexIds: string[]; // indexes the token may touch
+  label?: string;
+  issuedAt: string;
+  expiresAt: string;
+  revokedAt?: string;
+}
+
+export interface IssuedSessionToken extends SessionTokenRecord {
+  token: string; // send as `Authorization: Bearer <token>`
+}
+
+export interface SessionTokenRequest {
+  scopes?: SessionTokenScope[];
+  indexIds?: string[];
+  ttlSec?: number;
+  label?: string;
+}
+
+// Signed-in users (local accounts or OIDC sign-in); each role includes the ones below it
+export type UserRole = 'viewer' | 'editor' | 'admin';
+
+export interface UserAccount {
+  id: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+  provider: 'local' | 'oidc';
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt?: string;
+}
+
+export interface UserInput {
+  email?: string;
+  name?: string;
+  password?: string; // local accounts only
+  role?: UserRole;
+}
+
+// Answer of /api/auth/me
+export interface AuthStatus {
+  user: UserAccount | null;
+  oidcEnabled: boolean;
+  needsSetup: boolean; // no accounts yet and no bootstrap admin configured
+}
+
+// Workspace: one advertiser's indexes, vector namespace and taxonomy. Requests use the selected workspace.
+export interface Workspace {
+  id: string;
+  name: string;
+  adsIndexId: string;
+  contentIndexId: string;
+  vectorNamespace: string; // '' = the vector store's default namespace
+  memberEmails: string[]; // users who may open the workspace besides admins; the default one is open to everyone
+  taxonomy: Taxonomy;
+  customTaxonomy: boolean; // false = the shared taxonomy.json
+  isDefault: boolean; // configured by env vars, read-only
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WorkspaceInput = Partial<Pick<Workspace, 'name' | 'adsIndexId' | 'contentIndexId' | 'vectorNamespace' | 'memberEmails'>> & {
+  taxonomy?: Taxonomy | null; // null = back to taxonomy.json
+};
+
+// Answer of GET /api/workspaces
+export interface WorkspaceList {
+  workspaces: Workspace[];
+  activeWorkspaceId: string;
+}
+
+// Index registry (indexes.json): what each known TwelveLabs index is used for
+export interface IndexRole {
+  id: string; // 'ads' and 'content' are the workspace's two libraries; other roles are free to add
+  label: string;
+  vectorCategory: string; // `category` stored on the index's vectors
+}
+
+export interface IndexRegistryEntry {
+  id: string; // TwelveLabs index id
+  role: string; // IndexRole id
+  name: string;
+  embeddingModel: string;
+  workspaceId?: string; // omitted = shared by every workspace
+}
+
+export interface IndexRegistryConfig {
+  roles: IndexRole[];
+  defaultEmbeddingModel: string;
+  indexes: Array<Partial<IndexRegistryEntry> & { id: string; role: string }>;
+}
+
+// Answer of GET /api/indexes: the indexes of the request's workspace
+export interface IndexRegistry {
+  roles: IndexRole[];
+  indexes: IndexRegistryEntry[];
+}
+
+// Answer of PATCH /api/videos/metadata, and of a 409 when the video changed since `expectedUpdatedAt`
+export interface VideoMetadataUpdate {
+  userMetadata: Record<string, unknown>;
+  updatedAt?: string;
+}
@@ -0,0 +1,331 @@
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { NextResponse } from 'next/server';
+import { UserAccount, UserInput, UserRole } from '@/types';
+import { createLocalCollection, LocalCollection } from '@/utils/localData';
+import { hasRole, isUserRole, USER_ROLES } from '@/utils/roles';
+
+export const SESSION_COOKIE = 'bia_session';
+const DEFAULT_SESSION_TTL_SEC = 7 * 24 * 60 * 60;
+const MIN_PASSWORD_LENGTH = 8;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keyLength: number) => Promise<Buffer>;
+
+// Error for sign-in and account operations, carrying the HTTP status a route should answer with
+export class AuthError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'AuthError';
+    this.status = status;
+  }
+}
+
+// Account as stored; the password hash never leaves this module
+type StoredUser = UserAccount & { passwordHash?: string };
+
+const now = () => new Date().toISOString();
+
+const toAccount = (user: StoredUser): UserAccount => {
+  const account = { ...user };
+  delete account.passwordHash;
+  return account;
+};
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const hashPassword = async (password: string) => {
+  const salt = randomBytes(16).toString('hex');
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt}$${hash.toString('hex')}`;
+};
+
+const verifyPassword = async (password: string, stored?: string) => {
+  const [scheme, salt, hash] = (stored || '').split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, salt, expected.length);
+  return timingSafeEqual(expected, actual);
+};
+
+// AUTH_SECRET signs session cookies; without it a key is derived from the TwelveLabs key, which never leaves the server
+const getSigningKey = () => {
+  const secret = process.env.AUTH_SECRET;
+  if (secret) return secret;
+
+  const apiKey = process.env.TWELVELABS_API_KEY;
+  if (!apiKey) {
+    throw new AuthError('AUTH_SECRET or TWELVELABS_API_KEY must be configured', 500);
+  }
+  return createHash('sha256').update(`auth-sessions:${apiKey}`).digest('hex');
+};
+
+// `<base64url JSON>.<signature>`, for session and sign-in state cookies and VAST tracker URLs
+export const signValue = (value: unknown): string => {
+  const body = Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${body}.${createHmac('sha256', getSigningKey()).update(body).digest('base64url')}`;
+};
+
+export const readSignedValue = <T>(signed: string | undefined): T | null => {
+  const [body, signature] = (signed || '').split('.');
+  if (!body || !signature) return null;
+
+  const expected = Buffer.from(createHmac('sha256', getSigningKey()).update(body).digest('base64url'));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  return JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as T;
+};
+
+export const getRequestCookie = (req: Request, name: string): string | undefined => {
+  const cookie = (req.headers.get('cookie') || '')
+    .split(';')
+    .map(part => part.trim())
+    .find(part => part.startsWith(`${name}=`));
+  return cookie ? decodeURIComponent(cookie.slice(name.length + 1)) : undefined;
+};
+
+export const getCookieOptions = (maxAge: number) => ({
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  maxAge,
+});
+
+const getSessionTtlSec = () => Number(process.env.AUTH_SESSION_TTL_SEC) || DEFAULT_SESSION_TTL_SEC;
+
+const createUserService = (store: LocalCollection<StoredUser>) => {
+  // First use with no accounts: create the admin named by AUTH_ADMIN_EMAIL / AUTH_ADMIN_PASSWORD
+  let bootstrap: Promise<void> | null = null;
+  const ensureBootstrapAdmin = () => {
+    if (!bootstrap) {
+      bootstrap = (async () => {
+        const email = process.env.AUTH_ADMIN_EMAIL;
+        const password = process.env.AUTH_ADMIN_PASSWORD;
+        if (!email || !password || (await store.list()).length > 0) return;
+
+        await createUser({ email, password, role: 'admin', name: 'Admin' }, 'local');
+        console.log(`🚀 Created admin account ${normalizeEmail(email)}`);
+      })();
+    }
+    return bootstrap;
+  };
+
+  const list = async () => {
+    await ensureBootstrapAdmin();
+    return store.list();
+  };
+
+  const findByEmail = async (email: string) =>
+    (await list()).find(user => user.email === normalizeEmail(email));
+
+  const load = async (userId: string) => {
+    await ensureBootstrapAdmin();
+    const user = await store.get(userId);
+    if (!user) {
+      throw new AuthError(`User ${userId} not found`, 404);
+    }
+    return user;
+  };
+
+  const validateInput = (input: UserInput, provider: UserAccount['provider'], isNew: boolean) => {
+    const errors: string[] = [];
+    if (isNew && (!input.email || !EMAIL_PATTERN.test(input.email.trim()))) errors.push('a valid email is required');
+    if (input.role !== undefined && !isUserRole(input.role)) errors.push(`role must be one of: ${USER_ROLES.join(', ')}`);
+    if (provider === 'local' && (isNew || input.password !== undefined)) {
+      if (!input.password || input.password.length < MIN_PASSWORD_LENGTH) {
+        errors.push(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+      }
+    }
+    if (provider === 'oidc' && input.password !== undefined) errors.push('OIDC accounts sign in with their identity provider');
+
+    if (errors.length > 0) {
+      throw new AuthError(errors.join('; '));
+    }
+  };
+
+  const createUser = async (input: UserInput, provider: UserAccount['provider']): Promise<StoredUser> => {
+    validateInput(input, provider, true);
+    const email = normalizeEmail(input.email || '');
+    if ((await store.list()).some(user => user.email === email)) {
+      throw new AuthError(`An account for ${email} already exists`, 409);
+    }
+
+    const timestamp = now();
+    const user: StoredUser = {
+      id: `user-${Date.now()}-${randomBytes(4).toString('hex')}`,
+      email,
+      name: input.name?.trim() || undefined,
+      role: input.role || 'viewer',
+      provider,
+      passwordHash: provider === 'local' && input.password ? await hashPassword(input.password) : undefined,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    };
+    await store.put(user.id, user);
+    return user;
+  };
+
+  // The last admin can't be demoted or removed, so the app always has someone who can manage accounts
+  const assertKeepsAdmin = async (user: StoredUser, nextRole?: UserRole) => {
+    if (user.role !== 'admin' || nextRole === 'admin') return;
+    const admins = (await list()).filter(candidate => candidate.role === 'admin');
+    if (admins.length <= 1) {
+      throw new AuthError('The last admin account must stay an admin', 409);
+    }
+  };
+
+  return {
+    needsSetup: async () => (await list()).length === 0,
+
+    async list(): Promise<UserAccount[]> {
+      return (await list())
+        .sort((a, b) => a.email.localeCompare(b.email))
+        .map(toAccount);
+    },
+
+    async get(userId: string): Promise<UserAccount | null> {
+      await ensureBootstrapAdmin();
+      const user = await store.get(userId);
+      return user ? toAccount(user) : null;
+    },
+
+    async create(input: UserInput): Promise<UserAccount> {
+      await ensureBootstrapAdmin();
+      return toAccount(await createUser(input, 'local'));
+    },
+
+    async update(userId: string, input: UserInput): Promise<UserAccount> {
+      const user = await load(userId);
+      validateInput(input, user.provider, false);
+      if (input.role !== undefined) await assertKeepsAdmin(user, input.role);
+
+      const updated: StoredUser = {
+        ...user,
+        name: input.name !== undefined ? input.name.trim() || undefined : user.name,
+        role: input.role ?? user.role,
+        passwordHash: input.password ? await hashPassword(input.password) : user.passwordHash,
+        updatedAt: now(),
+      };
+      await store.put(userId, updated);
+      return toAccount(updated);
+    },
+
+    async remove(userId: string): Promise<void> {
+      const user = await load(userId);
+      await assertKeepsAdmin(user);
+      await store.remove(userId);
+    },
+
+    // Local email/password sign-in; the same message for unknown emails and wrong passwords
+    async authenticate(email: string, password: string): Promise<UserAccount> {
+      const user = await findByEmail(email || '');
+      if (!user || user.provider !== 'local' || !(await verifyPassword(password || '', user.passwordHash))) {
+        throw new AuthError('Invalid email or password', 401);
+      }
+      const signedIn = { ...user, lastLoginAt: now() };
+      await store.put(user.id, signedIn);
+      return toAccount(signedIn);
+    },
+
+    // OIDC sign-in: the existing SSO account for the email (its role is managed here), else a new one with `role`.
+    // Password accounts are never taken over by an identity provider that happens to assert the same email.
+    async signInExternal({ email, name, role }: { email: string; name?: string; role: UserRole }): Promise<UserAccount> {
+      const existing = await findByEmail(email);
+      if (existing && existing.provider !== 'oidc') {
+        throw new AuthError(`${normalizeEmail(email)} signs in with a password; ask an admin to remove that account to use SSO`, 409);
+      }
+      const user = existing || await createUser({ email, name, role }, 'oidc');
+      const signedIn = { ...user, name: user.name || name, lastLoginAt: now() };
+      await store.put(user.id, signedIn);
+      return toAccount(signedIn);
+    },
+  };
+};
+
+export type UserService = ReturnType<typeof createUserService>;
+
+let userService: UserService | null = null;
+
+// Accounts saved in LOCAL_DATA_DIR/users.json (override with USERS_PATH)
+export const getUserService = (): UserService => {
+  if (!userService) {
+    userService = createUserService(createLocalCollection<StoredUser>(process.env.USERS_PATH || 'users.json'));
+  }
+  return userService;
+};
+
+type SessionPayload = { uid: string; exp: number };
+
+// Set the session cookie for `user` on a response
+export const startSession = (response: NextResponse, user: UserAccount): NextResponse => {
+  const ttlSec = getSessionTtlSec();
+  const payload: SessionPayload = { uid: user.id, exp: Math.floor(Date.now() / 1000) + ttlSec };
+  response.cookies.set(SESSION_COOKIE, signValue(payload), getCookieOptions(ttlSec));
+  return response;
+};
+
+export const endSession = (response: NextResponse): NextResponse => {
+  response.cookies.set(SESSION_COOKIE, '', getCookieOptions(0));
+  return response;
+};
+
+// Scripts (src/scripts) authenticate with `x-service-token: <AUTH_SERVICE_TOKEN>` and act as an admin
+const getServiceUser = (req: Request): UserAccount | null => {
+  const expected = process.env.AUTH_SERVICE_TOKEN;
+  const provided = req.headers.get('x-service-token');
+  if (!expected || !provided) return null;
+
+  const expectedHash = createHash('sha256').update(expected).digest();
+  const providedHash = createHash('sha256').update(provided).digest();
+  if (!timingSafeEqual(expectedHash, providedHash)) return null;
+
+  return {
+    id: 'service',
+    email: 'service@localhost',
+    name: 'Service token',
+    role: 'admin',
+    provider: 'local',
+    createdAt: new Date(0).toISOString(),
+    updatedAt: new Date(0).toISOString(),
+  };
+};
+
+// The signed-in user of a request. The role is read from the account on every call, so changes apply at once.
+export const getSessionUser = async (req: Request): Promise<UserAccount | null> => {
+  const serviceUser = getServiceUser(req);
+  if (serviceUser) return serviceUser;
+
+  const session = readSignedValue<SessionPayload>(getRequestCookie(req, SESSION_COOKIE));
+  if (!session || session.exp * 1000 <= Date.now()) return null;
+  return getUserService().get(session.uid);
+};
+
+// Throws 401 without a session and 403 when the user's role is below `role`
+export const requireRole = async (req: Request, role: UserRole): Promise<UserAccount> => {
+  const user = await getSessionUser(req);
+  if (!user) {
+    throw new AuthError('Sign in required', 401);
+  }
+  if (!hasRole(user, role)) {
+    throw new AuthError(`This action needs the ${role} role`, 403);
+  }
+  return user;
+};
+
+// For route handlers: an error response when the request may not proceed, null when it may
+export const checkRole = async (req: Request, role: UserRole): Promise<NextResponse | null> => {
+  try {
+    await requireRole(req, role);
+    return null;
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('❌ Error checking session:', error);
+    return NextResponse.json({ error: 'Failed to check session' }, { status: 500 });
+  }
+};
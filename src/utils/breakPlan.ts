@@ -0,0 +1,194 @@
+import { AdBreak, AdPodItem, BreakPlan, BreakPlanRules, BreakPosition } from '@/types';
+
+export const DEFAULT_BREAK_PLAN_RULES: BreakPlanRules = {
+  minSpacingSec: 60,
+  maxPodSize: 4,
+};
+
+const POSITION_ORDER: Record<BreakPosition, number> = {
+  'pre-roll': 0,
+  'mid-roll': 1,
+  'post-roll': 2,
+};
+
+export const createEmptyBreakPlan = (videoId: string, indexId?: string): BreakPlan => ({
+  videoId,
+  indexId,
+  rules: { ...DEFAULT_BREAK_PLAN_RULES },
+  breaks: [],
+});
+
+const createBreakId = () => `break-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// When a break plays, in seconds; post-roll sits at the end of the content
+export const getBreakTime = (adBreak: AdBreak, duration?: number): number => {
+  if (adBreak.position === 'pre-roll') return 0;
+  if (adBreak.position === 'post-roll') return duration ?? adBreak.time;
+  return adBreak.time;
+};
+
+export const sortBreaks = (breaks: AdBreak[], duration?: number): AdBreak[] => {
+  return [...breaks].sort((a, b) =>
+    POSITION_ORDER[a.position] - POSITION_ORDER[b.position] ||
+    getBreakTime(a, duration) - getBreakTime(b, duration)
+  );
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Check the fields of a plan sent to the API before its rules are checked; returns human-readable problems
+export const validateBreakPlanFields = (input: unknown): string[] => {
+  if (!isObject(input)) return ['The break plan must be an object'];
+
+  const errors: string[] = [];
+  if (input.indexId !== undefined && typeof input.indexId !== 'string') errors.push('indexId must be a string');
+  if (input.duration !== undefined && !(isFiniteNumber(input.duration) && input.duration > 0)) {
+    errors.push('duration must be a positive number of seconds');
+  }
+
+  if (input.rules !== undefined) {
+    if (!isObject(input.rules)) {
+      errors.push('rules must be an object');
+    } else {
+      const { minSpacingSec, maxPodSize } = input.rules;
+      if (minSpacingSec !== undefined && !(isFiniteNumber(minSpacingSec) && minSpacingSec >= 0)) {
+        errors.push('rules.minSpacingSec must be a non-negative number');
+      }
+      if (maxPodSize !== undefined && !(Number.isInteger(maxPodSize) && Number(maxPodSize) >= 1)) {
+        errors.push('rules.maxPodSize must be a positive integer');
+      }
+    }
+  }
+
+  if (!Array.isArray(input.breaks)) {
+    errors.push('breaks must be an array');
+    return errors;
+  }
+  input.breaks.forEach((adBreak: unknown, index) => {
+    const label = `breaks[${index}]`;
+    if (!isObject(adBreak)) {
+      errors.push(`${label} must be an object`);
+      return;
+    }
+    if (typeof adBreak.id !== 'string' || !adBreak.id) errors.push(`${label}.id must be a non-empty string`);
+    if (typeof adBreak.position !== 'string' || !(adBreak.position in POSITION_ORDER)) {
+      errors.push(`${label}.position must be one of ${Object.keys(POSITION_ORDER).join(', ')}`);
+    }
+    if (!(isFiniteNumber(adBreak.time) && adBreak.time >= 0)) errors.push(`${label}.time must be a non-negative number`);
+    if (adBreak.chapterIndex !== undefined && !(Number.isInteger(adBreak.chapterIndex) && Number(adBreak.chapterIndex) >= 0)) {
+      errors.push(`${label}.chapterIndex must be a non-negative integer`);
+    }
+    if (!Array.isArray(adBreak.ads)) {
+      errors.push(`${label}.ads must be an array`);
+      return;
+    }
+    adBreak.ads.forEach((ad: unknown, adIndex) => {
+      if (!isObject(ad) || typeof ad.adVideoId !== 'string' || !ad.adVideoId) {
+        errors.push(`${label}.ads[${adIndex}] needs an adVideoId`);
+      } else if (ad.title !== undefined && typeof ad.title !== 'string') {
+        errors.push(`${label}.ads[${adIndex}].title must be a string`);
+      }
+    });
+  });
+
+  return errors;
+};
+
+// Check a plan against its rules; returns human-readable problems (empty when valid)
+export const validateBreakPlan = (plan: BreakPlan, duration = plan.duration): string[] => {
+  const errors: string[] = [];
+  const { minSpacingSec, maxPodSize } = plan.rules;
+
+  (['pre-roll', 'post-roll'] as BreakPosition[]).forEach(position => {
+    if (plan.breaks.filter(adBreak => adBreak.position === position).length > 1) {
+      errors.push(`Only one ${position} break is allowed`);
+    }
+  });
+
+  plan.breaks.forEach(adBreak => {
+    if (adBreak.ads.length === 0) {
+      errors.push(`The ${adBreak.position} break at ${formatBreakTime(getBreakTime(adBreak, duration))} has no ads`);
+    }
+    if (adBreak.ads.length > maxPodSize) {
+      errors.push(`The ${adBreak.position} break at ${formatBreakTime(getBreakTime(adBreak, duration))} has more than ${maxPodSize} ads`);
+    }
+    if (adBreak.position === 'mid-roll') {
+      if (adBreak.time <= 0 || (duration !== undefined && adBreak.time >= duration)) {
+        errors.push(`Mid-roll at ${formatBreakTime(adBreak.time)} must be inside the video`);
+      }
+    }
+  });
+
+  // Consecutive breaks (including pre-roll at 0 and post-roll at the end) must be spaced out
+  const sorted = sortBreaks(plan.breaks, duration);
+  for (let i = 1; i < sorted.length; i++) {
+    const previousTime = getBreakTime(sorted[i - 1], duration);
+    const currentTime = getBreakTime(sorted[i], duration);
+    if (currentTime - previousTime < minSpacingSec) {
+      errors.push(
+        `Breaks at ${formatBreakTime(previousTime)} and ${formatBreakTime(currentTime)} are closer than ${minSpacingSec}s`
+      );
+    }
+  }
+
+  return errors;
+};
+
+// Add a break (or return the plan with the existing break at the same position/time)
+export const addBreak = (
+  plan: BreakPlan,
+  position: BreakPosition,
+  time: number,
+  ads: AdPodItem[] = [],
+  chapterIndex?: number
+): BreakPlan => {
+  const existing = plan.breaks.find(adBreak =>
+    adBreak.position === position && (position !== 'mid-roll' || Math.abs(adBreak.time - time) < 0.5)
+  );
+  if (existing) return plan;
+
+  const adBreak: AdBreak = {
+    id: createBreakId(),
+    position,
+    time: position === 'pre-roll' ? 0 : time,
+    chapterIndex,
+    ads,
+  };
+
+  return { ...plan, breaks: sortBreaks([...plan.breaks, adBreak], plan.duration) };
+};
+
+export const removeBreak = (plan: BreakPlan, breakId: string): BreakPlan => ({
+  ...plan,
+  breaks: plan.breaks.filter(adBreak => adBreak.id !== breakId),
+});
+
+const updateBreak = (plan: BreakPlan, breakId: string, update: (adBreak: AdBreak) => AdBreak): BreakPlan => ({
+  ...plan,
+  breaks: plan.breaks.map(adBreak => adBreak.id === breakId ? update(adBreak) : adBreak),
+});
+
+export const addAdToBreak = (plan: BreakPlan, breakId: string, ad: AdPodItem): BreakPlan =>
+  updateBreak(plan, breakId, adBreak => ({ ...adBreak, ads: [...adBreak.ads, ad] }));
+
+export const removeAdFromBreak = (plan: BreakPlan, breakId: string, adIndex: number): BreakPlan =>
+  updateBreak(plan, breakId, adBreak => ({ ...adBreak, ads: adBreak.ads.filter((_, index) => index !== adIndex) }));
+
+// Move an ad up (-1) or down (+1) within its pod
+export const moveAdInBreak = (plan: BreakPlan, breakId: string, adIndex: number, direction: -1 | 1): BreakPlan =>
+  updateBreak(plan, breakId, adBreak => {
+    const target = adIndex + direction;
+    if (target < 0 || target >= adBreak.ads.length) return adBreak;
+    const ads = [...adBreak.ads];
+    [ads[adIndex], ads[target]] = [ads[target], ads[adIndex]];
+    return { ...adBreak, ads };
+  });
+
+export const formatBreakTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${minutes}:${secs.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,27 @@
+import { BreakPlan } from '@/types';
+import { createLocalCollection, LocalCollection } from '@/utils/localData';
+import { DEFAULT_WORKSPACE_ID } from '@/utils/workspaces';
+
+let breakPlanStore: LocalCollection<BreakPlan> | null = null;
+
+// Saved break plans (LOCAL_DATA_DIR/break-plans.json)
+const getBreakPlanStore = (): LocalCollection<BreakPlan> => {
+  if (!breakPlanStore) {
+    breakPlanStore = createLocalCollection<BreakPlan>(process.env.BREAK_PLANS_PATH || 'break-plans.json');
+  }
+  return breakPlanStore;
+};
+
+// Plans are keyed by workspace and content video id. The default workspace keeps the plain video id,
+// so plans saved before workspaces stay where they were.
+const getBreakPlanKey = (workspaceId: string | undefined, videoId: string) =>
+  !workspaceId || workspaceId === DEFAULT_WORKSPACE_ID ? videoId : `${workspaceId}/${videoId}`;
+
+export const getBreakPlan = (workspaceId: string | undefined, videoId: string) =>
+  getBreakPlanStore().get(getBreakPlanKey(workspaceId, videoId));
+
+export const saveBreakPlan = (workspaceId: string | undefined, plan: BreakPlan) =>
+  getBreakPlanStore().put(getBreakPlanKey(workspaceId, plan.videoId), plan);
+
+export const removeBreakPlan = (workspaceId: string | undefined, videoId: string) =>
+  getBreakPlanStore().remove(getBreakPlanKey(workspaceId, videoId));
@@ -0,0 +1,237 @@
+import {
+  Campaign,
+  CampaignAdMatches,
+  CampaignInput,
+  CampaignSummary,
+  CampaignTargeting,
+  MatchRules,
+  RankingOptions,
+  Taxonomy,
+  Workspace,
+} from '@/types';
+import { createLocalCollection, LocalCollection } from '@/utils/localData';
+import { getErrorMessage } from '@/utils/twelvelabs';
+import { matchVideos } from '@/utils/matching';
+import {
+  describeUnsupportedMatchRules,
+  EMPTY_MATCH_RULES,
+  findUnsupportedMatchRules,
+  mergeMatchRules,
+  resolveMatchRules,
+} from '@/utils/matchRules';
+import { getAdMatchRules } from '@/utils/matchRulesStore';
+import { resolveRankingMethod, resolveRankingWeights } from '@/utils/ranking';
+import { DEFAULT_WORKSPACE_ID } from '@/utils/workspaces';
+
+// Matches kept per ad in a campaign's shortlist
+export const CAMPAIGN_SHORTLIST_SIZE = 10;
+const MAX_NAME_LENGTH = 200;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Error for invalid campaign operations, carrying the HTTP status a route should answer with
+export class CampaignError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'CampaignError';
+    this.status = status;
+  }
+}
+
+const now = () => new Date().toISOString();
+
+const createCampaignId = () => `campaign-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const EMPTY_TARGETING: CampaignTargeting = { topics: [], genders: [], ageGroups: [] };
+
+const cleanList = (value: unknown): string[] =>
+  Array.isArray(value)
+    ? Array.from(new Set(value.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(Boolean)))
+    : [];
+
+export const summarizeCampaign = (campaign: Campaign): CampaignSummary => ({
+  id: campaign.id,
+  workspaceId: campaign.workspaceId,
+  name: campaign.name,
+  advertiser: campaign.advertiser,
+  adVideoIds: campaign.adVideoIds,
+  targeting: campaign.targeting,
+  flightStart: campaign.flightStart,
+  flightEnd: campaign.flightEnd,
+  rules: campaign.rules,
+  createdAt: campaign.createdAt,
+  updatedAt: campaign.updatedAt,
+  lastRunAt: campaign.analysis?.runAt,
+  shortlistCount: campaign.analysis?.ads.reduce((sum, ad) => sum + ad.results.length, 0) || 0,
+});
+
+// Targeting is enforced as required-value rules on top of the campaign's exclusion rules
+export const getCampaignMatchRules = (campaign: Pick<Campaign, 'rules' | 'targeting'>): MatchRules =>
+  mergeMatchRules(campaign.rules, {
+    requiredTopics: campaign.targeting.topics,
+    requiredGenders: campaign.targeting.genders,
+    requiredAgeGroups: campaign.targeting.ageGroups,
+  });
+
+// Apply `input` over `base`, returning the validated campaign fields. Rules and targeting sent in `input`
+// must fit the workspace taxonomy.
+const buildCampaignFields = (input: CampaignInput, taxonomy: Taxonomy, base?: Campaign) => {
+  const name = (input.name ?? base?.name ?? '').trim();
+  const flightStart = (input.flightStart ?? base?.flightStart ?? '').trim() || undefined;
+  const flightEnd = (input.flightEnd ?? base?.flightEnd ?? '').trim() || undefined;
+
+  const errors: string[] = [];
+  if (!name) errors.push('name is required');
+  if (name.length > MAX_NAME_LENGTH) errors.push(`name must be at most ${MAX_NAME_LENGTH} characters`);
+  if (flightStart && !DATE_PATTERN.test(flightStart)) errors.push('flightStart must be a YYYY-MM-DD date');
+  if (flightEnd && !DATE_PATTERN.test(flightEnd)) errors.push('flightEnd must be a YYYY-MM-DD date');
+  if (flightStart && flightEnd && flightStart > flightEnd) errors.push('flightEnd must not be before flightStart');
+
+  if (errors.length > 0) {
+    throw new CampaignError(errors.join('; '));
+  }
+
+  const targetingInput = input.targeting || {};
+  const baseTargeting = base?.targeting || EMPTY_TARGETING;
+
+  const fields = {
+    name,
+    advertiser: (input.advertiser ?? base?.advertiser ?? '').trim(),
+    adVideoIds: input.adVideoIds !== undefined ? cleanList(input.adVideoIds) : base?.adVideoIds || [],
+    targeting: {
+      topics: targetingInput.topics !== undefined ? cleanList(targetingInput.topics) : baseTargeting.topics,
+      genders: targetingInput.genders !== undefined ? cleanList(targetingInput.genders) : baseTargeting.genders,
+      ageGroups: targetingInput.ageGroups !== undefined ? cleanList(targetingInput.ageGroups) : baseTargeting.ageGroups,
+    },
+    flightStart,
+    flightEnd,
+    rules: input.rules !== undefined ? resolveMatchRules(input.rules) : base?.rules || EMPTY_MATCH_RULES,
+  };
+
+  if (input.rules !== undefined || input.targeting !== undefined) {
+    const unsupported = findUnsupportedMatchRules(getCampaignMatchRules(fields), taxonomy);
+    if (unsupported.length > 0) {
+      throw new CampaignError(describeUnsupportedMatchRules(unsupported));
+    }
+  }
+
+  return fields;
+};
+
+// Campaigns from before workspaces belong to the default one
+const isInWorkspace = (campaign: Campaign, workspaceId: string) =>
+  (campaign.workspaceId || DEFAULT_WORKSPACE_ID) === workspaceId;
+
+// Every operation is scoped to a workspace; other workspaces' campaigns are reported as not found
+const createCampaignService = (store: LocalCollection<Campaign>) => {
+  const load = async (campaignId: string, workspaceId: string): Promise<Campaign> => {
+    const campaign = await store.get(campaignId);
+    if (!campaign || !isInWorkspace(campaign, workspaceId)) {
+      throw new CampaignError(`Campaign ${campaignId} not found`, 404);
+    }
+    return campaign;
+  };
+
+  return {
+    async list(workspaceId: string): Promise<CampaignSummary[]> {
+      const campaigns = await store.list();
+      return campaigns
+        .filter(campaign => isInWorkspace(campaign, workspaceId))
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(summarizeCampaign);
+    },
+
+    get: load,
+
+    async create(input: CampaignInput, workspace: Workspace): Promise<Campaign> {
+      const timestamp = now();
+      const campaign: Campaign = {
+        id: createCampaignId(),
+        workspaceId: workspace.id,
+        ...buildCampaignFields(input, workspace.taxonomy),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      await store.put(campaign.id, campaign);
+      return campaign;
+    },
+
+    async update(campaignId: string, input: CampaignInput, workspace: Workspace): Promise<Campaign> {
+      const campaign = await load(campaignId, workspace.id);
+      const updated: Campaign = { ...campaign, ...buildCampaignFields(input, workspace.taxonomy, campaign), updatedAt: now() };
+      await store.put(campaignId, updated);
+      return updated;
+    },
+
+    async remove(campaignId: string, workspaceId: string): Promise<void> {
+      await load(campaignId, workspaceId);
+      await store.remove(campaignId);
+    },
+
+    // Contextual analysis for every ad in the campaign; the shortlist replaces the previous run's
+    async runAnalysis(
+      campaignId: string,
+      workspace: Workspace,
+      { adsIndexId, contentIndexId, ...options }: RankingOptions & { adsIndexId: string; contentIndexId: string }
+    ): Promise<Campaign> {
+      const campaign = await load(campaignId, workspace.id);
+      if (campaign.adVideoIds.length === 0) {
+        throw new CampaignError('Add at least one ad to the campaign before running the analysis');
+      }
+
+      const method = resolveRankingMethod(options.method);
+      const weights = resolveRankingWeights(options.weights);
+      const campaignRules = getCampaignMatchRules(campaign);
+      const ads: CampaignAdMatches[] = [];
+
+      // One ad at a time: each match already runs its searches concurrently
+      for (const adVideoId of campaign.adVideoIds) {
+        try {
+          const match = await matchVideos({
+            workspace,
+            videoId: adVideoId,
+            direction: 'ad-to-content',
+            sourceIndexId: adsIndexId,
+            targetIndexId: contentIndexId,
+            method,
+            weights,
+            rules: mergeMatchRules(await getAdMatchRules(workspace.id, adVideoId), campaignRules),
+            limit: CAMPAIGN_SHORTLIST_SIZE,
+          });
+          ads.push({
+            adVideoId,
+            adTitle: match.source.title,
+            results: match.results,
+            excludedCount: match.excluded.length,
+          });
+        } catch (error) {
+          console.error(`❌ Campaign ${campaignId}: analysis failed for ad ${adVideoId}:`, error);
+          ads.push({ adVideoId, adTitle: adVideoId, results: [], excludedCount: 0, error: getErrorMessage(error) });
+        }
+      }
+
+      // Re-read so edits made while the analysis ran are kept
+      const latest = await load(campaignId, workspace.id);
+      const updated: Campaign = {
+        ...latest,
+        analysis: { runAt: now(), method, weights, ads },
+        updatedAt: now(),
+      };
+      await store.put(campaignId, updated);
+      return updated;
+    },
+  };
+};
+
+export type CampaignService = ReturnType<typeof createCampaignService>;
+
+let campaignService: CampaignService | null = null;
+
+// Campaigns saved in LOCAL_DATA_DIR/campaigns.json (override with CAMPAIGNS_PATH)
+export const getCampaignService = (): CampaignService => {
+  if (!campaignService) {
+    campaignService = createCampaignService(createLocalCollection<Campaign>(process.env.CAMPAIGNS_PATH || 'campaigns.json'));
+  }
+  return campaignService;
+};
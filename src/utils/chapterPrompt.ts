@@ -0,0 +1,66 @@
+import { Taxonomy } from '@/types';
+import { getGeneratedCategories, mapUserMetadataToItem } from '@/utils/taxonomy';
+
+export const DEFAULT_CHAPTER_COUNT = 3;
+export const MAX_CHAPTER_COUNT = 12;
+export const DEFAULT_BREAK_SPACING_SEC = 8 * 60;
+
+// Free-text inputs end up in the prompt, so keep them short
+const MAX_INSTRUCTION_LENGTH = 500;
+const MAX_AD_TAGS = 20;
+
+const clampChapterCount = (count: number) => Math.min(MAX_CHAPTER_COUNT, Math.max(1, Math.round(count)));
+
+// Number of chapters to ask for: an explicit break count, or one chapter per `spacingSec` of content
+export const resolveChapterCount = ({ breakCount, spacingSec, duration }: {
+  breakCount?: number;
+  spacingSec?: number;
+  duration?: number;
+}): number => {
+  if (breakCount && breakCount > 0) return clampChapterCount(breakCount);
+  if (spacingSec && spacingSec > 0 && duration && duration > 0) return clampChapterCount(duration / spacingSec);
+  return DEFAULT_CHAPTER_COUNT;
+};
+
+// "Topic: Beauty" style descriptions of an ad's generated tags
+export const describeAdTags = (userMetadata: Record<string, unknown> | undefined, taxonomy: Taxonomy): string[] => {
+  const metadata = mapUserMetadataToItem(userMetadata, taxonomy);
+  return getGeneratedCategories(taxonomy)
+    .filter(category => metadata[category.id])
+    .map(category => `${category.label}: ${metadata[category.id]}`);
+};
+
+const cleanText = (text?: string) => (text || '').replace(/\s+/g, ' ').trim().slice(0, MAX_INSTRUCTION_LENGTH);
+
+export const buildChapterPrompt = ({ chapterCount, spacingSec, brandSafety, adTags = [] }: {
+  chapterCount: number;
+  spacingSec?: number;
+  brandSafety?: string;
+  adTags?: string[];
+}): string => {
+  const tags = adTags.map(cleanText).filter(Boolean).slice(0, MAX_AD_TAGS);
+  const safety = cleanText(brandSafety);
+
+  const lines = [
+    `Chapterize this video into ${chapterCount} chapter${chapterCount === 1 ? '' : 's'}${spacingSec ? `, each roughly ${Math.round(spacingSec / 60)} minutes long` : ''}.`,
+    'The end of each chapter is a candidate ad break, so end chapters at natural pauses (scene changes, topic changes) rather than mid-sentence or mid-action.',
+  ];
+
+  if (tags.length > 0) {
+    lines.push(
+      `The advertisement that will be placed has these tags: ${tags.join('; ')}.`,
+      'For every chapter, describe why its end is a strategically appropriate point for placing this advertisement, referring to how the moment relates to the ad.'
+    );
+  } else {
+    lines.push(
+      'For every chapter, describe why it is a strategically appropriate point for placing an advertisement.',
+      'Do not mention what type of advertisement would be suitable, as the ad content has already been determined.'
+    );
+  }
+
+  if (safety) {
+    lines.push(`Brand safety: ${safety} Do not end a chapter next to content that conflicts with this, and mention it if a chapter end had to be moved for this reason.`);
+  }
+
+  return lines.join(' ');
+};
@@ -0,0 +1,169 @@
+import { EmbeddingSearchResult, MatchedSegment, VideoSearchTiming } from '@/types';
+import { mergeSegments } from '@/utils/ranking';
+import { getTwelveLabsClient } from '@/utils/twelvelabs';
+import { getVectorStore, VectorMatch, zeroVector } from '@/utils/vectorStore';
+
+// Clips, not videos: a video can contribute several of its segments
+const TEXT_SEARCH_TOP_K = 30;
+const SOURCE_CLIPS_TOP_K = 100;
+const SIMILAR_CLIPS_TOP_K = 5;
+
+// Video-to-video search: one centroid query (it stands for the whole video, so it returns more clips)
+// plus one query per distinctive clip, run a few at a time
+const CENTROID_TOP_K = 20;
+const DISTINCTIVE_CLIPS = 4;
+const QUERY_CONCURRENCY = 4;
+
+// Collapse clip matches to one result per video, best first. Each result keeps the score of the video's
+// best clip and its top matching segments with timestamps.
+const groupMatchesByVideo = (matches: VectorMatch[]): EmbeddingSearchResult[] => {
+  const byVideo = matches.reduce((acc: Record<string, EmbeddingSearchResult & { segments: MatchedSegment[] }>, current) => {
+    const videoId = current.metadata?.tl_video_id as string;
+    if (!videoId) return acc;
+
+    const score = current.score || 0;
+    if (!acc[videoId]) {
+      acc[videoId] = { metadata: current.metadata as EmbeddingSearchResult['metadata'], score, segments: [] };
+    } else if (acc[videoId].score < score) {
+      acc[videoId].metadata = current.metadata as EmbeddingSearchResult['metadata'];
+      acc[videoId].score = score;
+    }
+
+    const start = Number(current.metadata?.start_time);
+    const end = Number(current.metadata?.end_time);
+    if (Number.isFinite(start) && Number.isFinite(end)) {
+      acc[videoId].segments.push({ start, end, score });
+    }
+    return acc;
+  }, {});
+
+  return Object.values(byVideo)
+    .map(result => ({ ...result, segments: mergeSegments(result.segments) }))
+    .sort((a, b) => b.score - a.score);
+};
+
+const normalize = (vector: number[]) => {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * (b[index] || 0), 0);
+
+// Centroid of the clips plus the clips least similar to it
+const buildQueryVectors = (clipVectors: number[][]): { vector: number[]; topK: number }[] => {
+  if (clipVectors.length === 0) return [];
+
+  const unitVectors = clipVectors.map(normalize);
+  const centroid = normalize(unitVectors[0].map((_, dimension) =>
+    unitVectors.reduce((sum, vector) => sum + vector[dimension], 0) / unitVectors.length
+  ));
+
+  const distinctive = unitVectors.length > 1
+    ? unitVectors
+      .map(vector => ({ vector, similarity: dot(vector, centroid) }))
+      .sort((a, b) => a.similarity - b.similarity)
+      .slice(0, DISTINCTIVE_CLIPS)
+      .map(({ vector }) => ({ vector, topK: SIMILAR_CLIPS_TOP_K }))
+    : [];
+
+  return [{ vector: centroid, topK: CENTROID_TOP_K }, ...distinctive];
+};
+
+// Run `task` over `items` with at most `limit` in flight, keeping the input order
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// Clips in `indexId` closest to a text query (e.g. a video's tags or title), from the given vector namespace.
+// The query is embedded with `embeddingModel`, the model of the index (see the index registry).
+export const searchIndexByText = async (
+  searchTerm: string,
+  indexId: string,
+  namespace: string,
+  embeddingModel: string
+): Promise<EmbeddingSearchResult[]> => {
+  const embedData = await getTwelveLabsClient().embed.text(searchTerm, { modelName: embeddingModel });
+
+  // extract embedding vector from text_embedding object
+  const textEmbedding = embedData.text_embedding.segments[0].float;
+
+  if (!textEmbedding) {
+    throw new Error('Failed to generate embedding');
+  }
+
+  const searchResults = await getVectorStore(namespace).query({
+    vector: textEmbedding,
+    filter: {
+      tl_index_id: indexId,
+      scope: 'clip'
+    },
+    topK: TEXT_SEARCH_TOP_K,
+    includeMetadata: true,
+  });
+
+  return groupMatchesByVideo(searchResults.matches);
+};
+
+// Clips in `indexId` closest to the given video. Instead of one query per source clip, the video is
+// summarized as the centroid of its clips plus the clips least like that centroid (scenes the average
+// washes out), so the number of queries stays flat as the source video gets longer.
+export const searchIndexByVideo = async (
+  videoId: string,
+  indexId: string,
+  namespace: string
+): Promise<{ results: EmbeddingSearchResult[]; timing: VideoSearchTiming }> => {
+  const store = getVectorStore(namespace);
+  const startedAt = Date.now();
+
+  // First, get the original video's clip embeddings
+  const originalClipQuery = await store.query({
+    filter: {
+      tl_video_id: videoId,
+      scope: 'clip'
+    },
+    topK: SOURCE_CLIPS_TOP_K,
+    includeMetadata: true,
+    includeValues: true,
+    vector: zeroVector()
+  });
+  const fetchedAt = Date.now();
+
+  const queryVectors = buildQueryVectors(
+    originalClipQuery.matches.flatMap(clip => clip.values?.length ? [clip.values] : [])
+  );
+
+  const queryResults = await mapWithConcurrency(queryVectors, QUERY_CONCURRENCY, ({ vector, topK }) =>
+    store.query({
+      vector,
+      filter: {
+        tl_index_id: indexId,
+        scope: 'clip'
+      },
+      topK,
+      includeMetadata: true,
+    })
+  );
+  const finishedAt = Date.now();
+
+  return {
+    results: groupMatchesByVideo(queryResults.flatMap(result => result.matches)),
+    timing: {
+      sourceClips: originalClipQuery.matches.length,
+      queries: queryVectors.length,
+      fetchMs: fetchedAt - startedAt,
+      queryMs: finishedAt - fetchedAt,
+      totalMs: finishedAt - startedAt,
+    },
+  };
+};
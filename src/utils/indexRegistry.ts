@@ -0,0 +1,91 @@
+import { IndexRegistry, IndexRegistryConfig, IndexRegistryEntry, Workspace } from '@/types';
+import registryConfig from '../../indexes.json';
+
+export const ADS_ROLE = 'ads';
+export const CONTENT_ROLE = 'content';
+
+// Catch config mistakes early (unknown roles, duplicate ids), as loadTaxonomy does for taxonomy.json
+export const loadIndexRegistry = (config: IndexRegistryConfig): IndexRegistryConfig => {
+  const roleIds = new Set<string>();
+  for (const role of config?.roles || []) {
+    if (!role.id || !role.label || !role.vectorCategory) {
+      throw new Error(`Invalid index role: ${JSON.stringify(role)}`);
+    }
+    if (roleIds.has(role.id)) {
+      throw new Error(`Duplicate index role id: ${role.id}`);
+    }
+    roleIds.add(role.id);
+  }
+  if (!roleIds.has(ADS_ROLE) || !roleIds.has(CONTENT_ROLE)) {
+    throw new Error(`The index registry needs the "${ADS_ROLE}" and "${CONTENT_ROLE}" roles`);
+  }
+  if (!config.defaultEmbeddingModel) {
+    throw new Error('The index registry needs a defaultEmbeddingModel');
+  }
+
+  const indexIds = new Set<string>();
+  for (const entry of config.indexes || []) {
+    if (!entry.id || !roleIds.has(entry.role)) {
+      throw new Error(`Index registry entry needs an id and one of the roles ${[...roleIds].join(', ')}: ${JSON.stringify(entry)}`);
+    }
+    if (indexIds.has(entry.id)) {
+      throw new Error(`Duplicate index registry entry: ${entry.id}`);
+    }
+    indexIds.add(entry.id);
+  }
+
+  return { roles: config.roles, defaultEmbeddingModel: config.defaultEmbeddingModel, indexes: config.indexes || [] };
+};
+
+const registry = loadIndexRegistry(registryConfig as IndexRegistryConfig);
+
+export const getIndexRoles = () => registry.roles;
+
+export const getIndexRole = (roleId: string) => registry.roles.find(role => role.id === roleId);
+
+// The workspace's ads and content indexes, then the indexes.json entries it can use (its own and the shared
+// ones). indexes.json may name the workspace's indexes or set their model, but the workspace decides their role.
+export const getWorkspaceIndexes = (workspace: Workspace): IndexRegistryEntry[] => {
+  const configured = registry.indexes.filter(entry => !entry.workspaceId || entry.workspaceId === workspace.id);
+
+  const toEntry = (id: string, role: string, workspaceId: string | undefined, fallbackName: string): IndexRegistryEntry => {
+    const entry = configured.find(candidate => candidate.id === id);
+    return {
+      id,
+      role,
+      name: entry?.name || fallbackName,
+      embeddingModel: entry?.embeddingModel || registry.defaultEmbeddingModel,
+      workspaceId,
+    };
+  };
+
+  const ownName = (role: string) => `${workspace.name} ${(getIndexRole(role)?.label || role).toLowerCase()}`;
+  const own = [
+    workspace.adsIndexId && toEntry(workspace.adsIndexId, ADS_ROLE, workspace.id, ownName(ADS_ROLE)),
+    workspace.contentIndexId && toEntry(workspace.contentIndexId, CONTENT_ROLE, workspace.id, ownName(CONTENT_ROLE)),
+  ].filter((entry): entry is IndexRegistryEntry => !!entry);
+
+  const others = configured
+    .filter(entry => !own.some(candidate => candidate.id === entry.id))
+    .map(entry => toEntry(entry.id, entry.role, entry.workspaceId, entry.id));
+
+  return [...own, ...others];
+};
+
+export const getIndexEntry = (workspace: Workspace, indexId?: string | null): IndexRegistryEntry | undefined =>
+  indexId ? getWorkspaceIndexes(workspace).find(entry => entry.id === indexId) : undefined;
+
+// `category` stored on an index's vectors; indexes outside the registry count as content, as before
+export const getIndexVectorCategory = (workspace: Workspace, indexId?: string): string => {
+  const role = getIndexRole(getIndexEntry(workspace, indexId)?.role || CONTENT_ROLE);
+  return role?.vectorCategory || 'content';
+};
+
+// Model used to embed text queries against an index; it has to be the model the index was created with
+export const getIndexEmbeddingModel = (workspace: Workspace, indexId?: string): string =>
+  getIndexEntry(workspace, indexId)?.embeddingModel || registry.defaultEmbeddingModel;
+
+export const buildIndexRegistry = (workspace: Workspace): IndexRegistry => ({
+  roles: getIndexRoles(),
+  indexes: getWorkspaceIndexes(workspace),
+});
@@ -0,0 +1,411 @@
+import { CreateJobRequest, EmbeddingCoverage, Job, JobCounts, JobItem, JobSummary, JobType, Taxonomy, VideoData, Workspace } from '@/types';
+import { createLocalCollection, LocalCollection } from '@/utils/localData';
+import { getErrorMessage, listAllIndexVideos } from '@/utils/twelvelabs';
+import { getGeneratedCategories } from '@/utils/taxonomy';
+import { MetadataValidationError, regenerateAndStoreMetadata } from '@/utils/metadataGeneration';
+import { fetchAndStoreVideoEmbeddings, findVideosWithVectors } from '@/utils/videoEmbeddings';
+import { DEFAULT_WORKSPACE_ID, getWorkspaceService } from '@/utils/workspaces';
+
+const DEFAULT_CONCURRENCY = 3;
+const MAX_CONCURRENCY = 10;
+const MAX_LOG_LINES = 500;
+// Finished jobs beyond this many are dropped from jobs.json (oldest first)
+const MAX_FINISHED_JOBS = 50;
+const JOB_TYPES: JobType[] = ['regenerate-metadata', 'embedding-backfill'];
+
+// Error for invalid job operations, carrying the HTTP status a route should answer with
+export class JobError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'JobError';
+    this.status = status;
+  }
+}
+
+const now = () => new Date().toISOString();
+
+const createJobId = () => `job-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const clampConcurrency = (value?: number) =>
+  Math.min(MAX_CONCURRENCY, Math.max(1, Math.round(value || DEFAULT_CONCURRENCY)));
+
+export const getJobCounts = (job: Job): JobCounts => {
+  const counts: JobCounts = { total: job.items.length, pending: 0, running: 0, succeeded: 0, failed: 0, cancelled: 0 };
+  job.items.forEach(item => {
+    counts[item.status]++;
+  });
+  return counts;
+};
+
+export const summarizeJob = (job: Job): JobSummary => ({
+  id: job.id,
+  type: job.type,
+  workspaceId: job.workspaceId,
+  indexId: job.indexId,
+  status: job.status,
+  concurrency: job.concurrency,
+  options: job.options,
+  createdAt: job.createdAt,
+  updatedAt: job.updatedAt,
+  startedAt: job.startedAt,
+  finishedAt: job.finishedAt,
+  coverage: job.coverage,
+  counts: getJobCounts(job),
+});
+
+// Jobs from before workspaces ran in the default one
+const isInWorkspace = (job: Job, workspaceId: string) => (job.workspaceId || DEFAULT_WORKSPACE_ID) === workspaceId;
+
+export const isJobFinished = (job: Pick<Job, 'status'>) => job.status === 'completed' || job.status === 'cancelled';
+
+const getVideoTitle = (video: VideoData) =>
+  video.system_metadata?.filename || video.system_metadata?.video_title || video._id;
+
+// A video counts as untagged when none of the generated taxonomy fields has a value
+const hasGeneratedMetadata = (video: VideoData, taxonomy: Taxonomy) =>
+  getGeneratedCategories(taxonomy).some(category => video.user_metadata?.[category.field]);
+
+const createJobRunner = (store: LocalCollection<Job>) => {
+  // Number of workers currently pulling items for each job (in this process)
+  const activeWorkers = new Map<string, number>();
+  let recovery: Promise<void> | null = null;
+
+  const addLog = (job: Job, message: string) => {
+    job.logs = [`[${now()}] ${message}`, ...job.logs].slice(0, MAX_LOG_LINES);
+  };
+
+  const save = async (job: Job) => {
+    job.updatedAt = now();
+    await store.put(job.id, job);
+  };
+
+  // Do the work for one item; returns the log line for it
+  const runItem = async (job: Job, item: JobItem): Promise<string> => {
+    const workspace = await getWorkspaceService().resolve(job.workspaceId);
+
+    if (job.type === 'embedding-backfill') {
+      // Another job or the client may have stored it since the scan
+      const existing = await findVideosWithVectors([item.videoId], workspace.vectorNamespace);
+      if (existing.has(item.videoId)) {
+        return `${item.title || item.videoId} (already stored)`;
+      }
+
+      const { video, vectorCount } = await fetchAndStoreVideoEmbeddings(workspace, job.indexId, item.videoId);
+      item.title = item.title || video.system_metadata?.filename || video.system_metadata?.video_title;
+      return `${item.title || item.videoId} (${vectorCount} vectors)`;
+    }
+
+    const result = await regenerateAndStoreMetadata(item.videoId, job.indexId, {
+      refresh: !job.options.useCache,
+      taxonomy: workspace.taxonomy,
+    });
+    return `${item.title || item.videoId}${result.cached ? ' (cached result)' : ''}`;
+  };
+
+  const processItem = async (job: Job, item: JobItem) => {
+    // Claim the item before the first await so no other worker picks it up
+    item.status = 'running';
+    item.attempts++;
+    item.startedAt = now();
+    item.error = undefined;
+    await save(job);
+
+    try {
+      const message = await runItem(job, item);
+      item.status = 'succeeded';
+      addLog(job, `✅ ${message}`);
+    } catch (error) {
+      item.status = 'failed';
+      item.error = error instanceof MetadataValidationError
+        ? `${error.message}: ${error.errors.join('; ')}`
+        : getErrorMessage(error);
+      addLog(job, `❌ ${item.title || item.videoId}: ${item.error}`);
+    }
+
+    item.finishedAt = now();
+    await save(job);
+  };
+
+  const runWorker = async (job: Job) => {
+    while (job.status === 'running') {
+      const item = job.items.find(candidate => candidate.status === 'pending');
+      if (!item) break;
+      await processItem(job, item);
+    }
+  };
+
+  // Called when the last worker of a job exits
+  const settle = async (job: Job) => {
+    if (job.status === 'running' && !job.items.some(item => item.status === 'pending')) {
+      const counts = getJobCounts(job);
+      job.status = 'completed';
+      job.finishedAt = now();
+      addLog(job, `Completed: ${counts.succeeded} succeeded, ${counts.failed} failed`);
+    }
+    await save(job);
+  };
+
+  // Start workers up to the job's concurrency limit
+  const pump = (job: Job) => {
+    const running = activeWorkers.get(job.id) || 0;
+
+    for (let i = running; i < job.concurrency; i++) {
+      activeWorkers.set(job.id, (activeWorkers.get(job.id) || 0) + 1);
+
+      runWorker(job)
+        .catch(error => {
+          console.error(`❌ Job ${job.id} worker failed:`, error);
+          addLog(job, `❌ Worker failed: ${getErrorMessage(error)}`);
+        })
+        .finally(() => {
+          const remaining = (activeWorkers.get(job.id) || 1) - 1;
+          if (remaining > 0) {
+            activeWorkers.set(job.id, remaining);
+            return;
+          }
+          activeWorkers.delete(job.id);
+          settle(job).catch(error => console.error(`❌ Error saving job ${job.id}:`, error));
+        });
+    }
+  };
+
+  // Jobs that were running when the server stopped: requeue their in-flight items and continue
+  const recover = async () => {
+    const jobs = await store.list();
+    for (const job of jobs) {
+      if (job.status !== 'running' || activeWorkers.has(job.id)) continue;
+
+      job.items.forEach(item => {
+        if (item.status === 'running') item.status = 'pending';
+      });
+      addLog(job, 'Resumed after server restart');
+      await save(job);
+      pump(job);
+    }
+  };
+
+  const ready = () => {
+    if (!recovery) recovery = recover();
+    return recovery;
+  };
+
+  // Jobs of other workspaces are reported as not found
+  const getJobOrThrow = async (jobId: string, workspaceId: string) => {
+    await ready();
+    const job = await store.get(jobId);
+    if (!job || !isInWorkspace(job, workspaceId)) throw new JobError(`Job ${jobId} not found`, 404);
+    return job;
+  };
+
+  // Keep jobs.json bounded: drop the oldest finished jobs
+  const pruneFinishedJobs = async () => {
+    const finished = (await store.list())
+      .filter(isJobFinished)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    for (const job of finished.slice(MAX_FINISHED_JOBS)) {
+      await store.remove(job.id);
+    }
+  };
+
+  const toItems = (videos: { videoId: string; title?: string }[], existing: JobItem[] = []): JobItem[] => {
+    const seen = new Set(existing.map(item => item.videoId));
+    return videos
+      .filter(video => {
+        if (!video.videoId || seen.has(video.videoId)) return false;
+        seen.add(video.videoId);
+        return true;
+      })
+      .map(video => ({ videoId: video.videoId, title: video.title, status: 'pending', attempts: 0 }));
+  };
+
+  return {
+    // Called at server start (instrumentation.ts) so interrupted jobs continue without waiting for a request
+    resumeInterrupted: ready,
+
+    async list(workspaceId: string): Promise<JobSummary[]> {
+      await ready();
+      const jobs = await store.list();
+      return jobs
+        .filter(job => isInWorkspace(job, workspaceId))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        .map(summarizeJob);
+    },
+
+    get: getJobOrThrow,
+
+    // Latest job of a type for a workspace index that is still running or paused
+    async findActive(type: JobType, indexId: string, workspaceId: string): Promise<Job | undefined> {
+      await ready();
+      const jobs = await store.list();
+      return jobs
+        .filter(job => job.type === type && job.indexId === indexId && isInWorkspace(job, workspaceId) && !isJobFinished(job))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+    },
+
+    async latest(type: JobType, indexId: string, workspaceId: string): Promise<Job | undefined> {
+      await ready();
+      const jobs = await store.list();
+      return jobs
+        .filter(job => job.type === type && job.indexId === indexId && isInWorkspace(job, workspaceId))
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0];
+    },
+
+    // `prepared` lets callers that already scanned the index pass the videos (and coverage) in
+    async create(
+      request: CreateJobRequest,
+      workspace: Workspace,
+      prepared?: { videos: { videoId: string; title?: string }[]; coverage?: EmbeddingCoverage }
+    ): Promise<Job> {
+      await ready();
+
+      const type = request.type || 'regenerate-metadata';
+      if (!request.indexId) {
+        throw new JobError('indexId is required');
+      }
+      if (!JOB_TYPES.includes(type)) {
+        throw new JobError(`Unknown job type: ${type}`);
+      }
+
+      const options = {
+        useCache: request.options?.useCache ?? true,
+        onlyMissing: request.options?.onlyMissing ?? false,
+        limit: Math.max(0, Math.round(request.options?.limit || 0)),
+      };
+
+      let videos: { videoId: string; title?: string }[];
+      if (prepared) {
+        videos = prepared.videos;
+      } else if (request.videoIds?.length) {
+        videos = request.videoIds.map(videoId => ({ videoId }));
+      } else {
+        const indexVideos = await listAllIndexVideos(request.indexId);
+        videos = indexVideos
+          .filter(video => type !== 'regenerate-metadata' || !options.onlyMissing || !hasGeneratedMetadata(video, workspace.taxonomy))
+          .map(video => ({ videoId: video._id, title: getVideoTitle(video) }));
+      }
+      if (options.limit > 0) {
+        videos = videos.slice(0, options.limit);
+      }
+
+      const createdAt = now();
+      const job: Job = {
+        id: createJobId(),
+        type,
+        workspaceId: workspace.id,
+        indexId: request.indexId,
+        status: 'running',
+        concurrency: clampConcurrency(request.concurrency),
+        options,
+        items: toItems(videos),
+        logs: [],
+        coverage: prepared?.coverage,
+        createdAt,
+        updatedAt: createdAt,
+        startedAt: createdAt,
+      };
+      addLog(job, `Created with ${job.items.length} video(s), concurrency ${job.concurrency}`);
+
+      await save(job);
+      await pruneFinishedJobs();
+      pump(job);
+      return job;
+    },
+
+    // Add more videos to an existing job; a completed job starts running again
+    async enqueue(jobId: string, workspaceId: string, videos: { videoId: string; title?: string }[]): Promise<Job> {
+      const job = await getJobOrThrow(jobId, workspaceId);
+      if (job.status === 'cancelled') {
+        throw new JobError('Cannot add videos to a cancelled job', 409);
+      }
+
+      const items = toItems(videos, job.items);
+      job.items.push(...items);
+      addLog(job, `Enqueued ${items.length} video(s)`);
+
+      if (job.status === 'completed' && items.length > 0) {
+        job.status = 'running';
+        job.finishedAt = undefined;
+      }
+
+      await save(job);
+      if (job.status === 'running') pump(job);
+      return job;
+    },
+
+    // In-flight items finish; no new items are started until resume
+    async pause(jobId: string, workspaceId: string): Promise<Job> {
+      const job = await getJobOrThrow(jobId, workspaceId);
+      if (job.status !== 'running') {
+        throw new JobError(`Only running jobs can be paused (job is ${job.status})`, 409);
+      }
+
+      job.status = 'paused';
+      addLog(job, 'Paused');
+      await save(job);
+      return job;
+    },
+
+    async resume(jobId: string, workspaceId: string): Promise<Job> {
+      const job = await getJobOrThrow(jobId, workspaceId);
+      if (job.status !== 'paused') {
+        throw new JobError(`Only paused jobs can be resumed (job is ${job.status})`, 409);
+      }
+
+      job.status = 'running';
+      addLog(job, 'Resumed');
+      await save(job);
+      pump(job);
+      return job;
+    },
+
+    async cancel(jobId: string, workspaceId: string): Promise<Job> {
+      const job = await getJobOrThrow(jobId, workspaceId);
+      if (job.status === 'completed' || job.status === 'cancelled') {
+        throw new JobError(`Job is already ${job.status}`, 409);
+      }
+
+      job.status = 'cancelled';
+      job.finishedAt = now();
+      job.items.forEach(item => {
+        if (item.status === 'pending') item.status = 'cancelled';
+      });
+      addLog(job, 'Cancelled');
+      await save(job);
+      return job;
+    },
+
+    // Put failed items back in the queue
+    async retryFailed(jobId: string, workspaceId: string): Promise<Job> {
+      const job = await getJobOrThrow(jobId, workspaceId);
+      const failed = job.items.filter(item => item.status === 'failed');
+      if (failed.length === 0) {
+        throw new JobError('Job has no failed items', 409);
+      }
+
+      failed.forEach(item => {
+        item.status = 'pending';
+      });
+      job.status = 'running';
+      job.finishedAt = undefined;
+      addLog(job, `Retrying ${failed.length} failed video(s)`);
+      await save(job);
+      pump(job);
+      return job;
+    },
+  };
+};
+
+export type JobRunner = ReturnType<typeof createJobRunner>;
+
+let jobRunner: JobRunner | null = null;
+
+// Batch jobs run inside the Next.js server process and are persisted to LOCAL_DATA_DIR/jobs.json
+export const getJobRunner = (): JobRunner => {
+  if (!jobRunner) {
+    jobRunner = createJobRunner(createLocalCollection<Job>(process.env.JOBS_PATH || 'jobs.json'));
+  }
+  return jobRunner;
+};
@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Directory for server-side local persistence (LOCAL_DATA_DIR, defaults to ./.data)
+export const getLocalDataDir = () => {
+  return path.resolve(process.env.LOCAL_DATA_DIR || path.join(process.cwd(), '.data'));
+};
+
+export const resolveLocalDataPath = (fileName: string) => {
+  return path.isAbsolute(fileName) ? fileName : path.join(getLocalDataDir(), fileName);
+};
+
+// Read a JSON file, falling back to the given value when it does not exist yet
+export const readJsonFile = async <T>(filePath: string, fallback: T): Promise<T> => {
+  try {
+    const raw = await fs.readFile(filePath, 'utf8');
+    return raw.trim() ? (JSON.parse(raw) as T) : fallback;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+};
+
+// Write via a temp file and rename so readers never see a half-written file
+export const writeJsonFile = async (filePath: string, data: unknown): Promise<void> => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(data), 'utf8');
+  await fs.rename(tempPath, filePath);
+};
+
+type LocalCollectionFile<T> = {
+  items: Record<string, T>;
+};
+
+// Small keyed JSON store under LOCAL_DATA_DIR (plans, caches, ...), loaded lazily with serialized writes
+export const createLocalCollection = <T>(fileName: string) => {
+  const filePath = resolveLocalDataPath(fileName);
+  let items: Record<string, T> | null = null;
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const load = async () => {
+    if (!items) {
+      const data = await readJsonFile<LocalCollectionFile<T>>(filePath, { items: {} });
+      items = data.items || {};
+    }
+    return items;
+  };
+
+  // A failed write is reported to its own caller only; later writes still run
+  const persist = () => {
+    const write = writeQueue.catch(() => undefined).then(() => writeJsonFile(filePath, { items: items || {} }));
+    writeQueue = write;
+    return write;
+  };
+
+  return {
+    async get(id: string): Promise<T | undefined> {
+      return (await load())[id];
+    },
+
+    async list(): Promise<T[]> {
+      return Object.values(await load());
+    },
+
+    async put(id: string, value: T): Promise<T> {
+      (await load())[id] = value;
+      await persist();
+      return value;
+    },
+
+    async remove(id: string): Promise<boolean> {
+      const store = await load();
+      if (!(id in store)) return false;
+      delete store[id];
+      await persist();
+      return true;
+    },
+
+    // Remove several items with a single write; returns how many existed
+    async removeMany(ids: string[]): Promise<number> {
+      const store = await load();
+      const present = ids.filter(id => id in store);
+      if (present.length === 0) return 0;
+      present.forEach(id => delete store[id]);
+      await persist();
+      return present.length;
+    },
+
+    async clear(): Promise<number> {
+      const count = Object.keys(await load()).length;
+      items = {};
+      await persist();
+      return count;
+    },
+  };
+};
+
+export type LocalCollection<T> = ReturnType<typeof createLocalCollection<T>>;
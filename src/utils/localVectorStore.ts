@@ -0,0 +1,132 @@
+import { readJsonFile, resolveLocalDataPath, writeJsonFile } from '@/utils/localData';
+import type {
+  VectorFilter,
+  VectorMatch,
+  VectorQuery,
+  VectorQueryResponse,
+  VectorRecord,
+  VectorRecordMetadata,
+  VectorStore,
+  VectorStoreStats,
+} from '@/utils/vectorStore';
+
+type LocalVectorFile = {
+  records: VectorRecord[];
+};
+
+// Check whether a metadata object satisfies a filter (equality or $in)
+export const matchesFilter = (metadata: VectorRecordMetadata | undefined, filter?: VectorFilter): boolean => {
+  if (!filter) return true;
+
+  return Object.entries(filter).every(([key, condition]) => {
+    const value = metadata?.[key];
+    if (value === undefined) return false;
+
+    if (condition !== null && typeof condition === 'object' && !Array.isArray(condition)) {
+      return condition.$in.some(candidate =>
+        Array.isArray(value) ? value.includes(String(candidate)) : value === candidate
+      );
+    }
+
+    if (Array.isArray(value)) {
+      return Array.isArray(condition)
+        ? condition.every(item => value.includes(item))
+        : value.includes(String(condition));
+    }
+
+    return value === condition;
+  });
+};
+
+// Cosine similarity, 0 when either vector has no magnitude (e.g. zero-vector lookups)
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  const length = Math.min(a.length, b.length);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+// vectors.json for the default namespace, vectors.<namespace>.json for the others
+const getNamespacePath = (namespace: string) => {
+  const filePath = resolveLocalDataPath(process.env.LOCAL_VECTOR_STORE_PATH || 'vectors.json');
+  return namespace ? filePath.replace(/(\.json)?$/, `.${namespace}.json`) : filePath;
+};
+
+// File-backed store for running without a Pinecone account (VECTOR_STORE=local)
+export const createLocalVectorStore = (namespace = ''): VectorStore => {
+  const filePath = getNamespacePath(namespace);
+  let records: Map<string, VectorRecord> | null = null;
+  // Serialize writes so concurrent upserts don't clobber each other
+  let writeQueue: Promise<void> = Promise.resolve();
+
+  const load = async () => {
+    if (records) return records;
+    const data = await readJsonFile<LocalVectorFile>(filePath, { records: [] });
+    records = new Map(data.records.map(record => [record.id, record]));
+    return records;
+  };
+
+  // A failed write is reported to its own caller only; later writes still run
+  const persist = () => {
+    const write = writeQueue.catch(() => undefined).then(() =>
+      writeJsonFile(filePath, { records: Array.from(records?.values() || []) })
+    );
+    writeQueue = write;
+    return write;
+  };
+
+  return {
+    name: 'local',
+
+    async upsert(batch: VectorRecord[]) {
+      const store = await load();
+      batch.forEach(record => store.set(record.id, record));
+      await persist();
+    },
+
+    async query({ vector, topK, filter, includeValues, includeMetadata }: VectorQuery): Promise<VectorQueryResponse> {
+      const store = await load();
+
+      const matches: VectorMatch[] = Array.from(store.values())
+        .filter(record => matchesFilter(record.metadata, filter))
+        .map(record => ({
+          id: record.id,
+          score: cosineSimilarity(vector, record.values),
+          values: includeValues ? record.values : undefined,
+          metadata: includeMetadata ? record.metadata : undefined,
+        }))
+        .sort((a, b) => (b.score ?? 0) - (a.score ?? 0))
+        .slice(0, topK);
+
+      return { matches };
+    },
+
+    async deleteMany(filter: VectorFilter) {
+      const store = await load();
+      Array.from(store.values())
+        .filter(record => matchesFilter(record.metadata, filter))
+        .forEach(record => store.delete(record.id));
+      await persist();
+    },
+
+    async describeStats(): Promise<VectorStoreStats> {
+      const store = await load();
+      const first = store.values().next().value as VectorRecord | undefined;
+
+      return {
+        dimension: first?.values.length,
+        namespaces: store.size > 0 ? 1 : 0,
+        totalRecordCount: store.size,
+      };
+    },
+  };
+};
@@ -0,0 +1,108 @@
+import { MatchExclusion, MatchRule, MatchRules, Taxonomy, TaxonomyCategory } from '@/types';
+import { mapUserMetadataToItem, splitTagValues } from '@/utils/taxonomy';
+
+type RuleDefinition = {
+  category: string; // taxonomy category id the rule looks at; workspaces whose taxonomy lacks it can't use the rule
+  mode: 'block' | 'require';
+  label: string;
+};
+
+export const MATCH_RULE_DEFINITIONS: Record<MatchRule, RuleDefinition> = {
+  blockedBrands: { category: 'brands', mode: 'block', label: 'Blocked brands' },
+  blockedTopics: { category: 'topic_category', mode: 'block', label: 'Blocked topics' },
+  blockedEmotions: { category: 'emotions', mode: 'block', label: 'Blocked emotions' },
+  requiredTopics: { category: 'topic_category', mode: 'require', label: 'Required topics' },
+  requiredLocations: { category: 'locations', mode: 'require', label: 'Required locations' },
+  requiredGenders: { category: 'demo_gender', mode: 'require', label: 'Required gender' },
+  requiredAgeGroups: { category: 'demo_age', mode: 'require', label: 'Required age groups' },
+};
+
+export const MATCH_RULES: MatchRule[] = Object.keys(MATCH_RULE_DEFINITIONS) as MatchRule[];
+
+export const EMPTY_MATCH_RULES: MatchRules = {
+  blockedBrands: [],
+  blockedTopics: [],
+  blockedEmotions: [],
+  requiredTopics: [],
+  requiredLocations: [],
+  requiredGenders: [],
+  requiredAgeGroups: [],
+};
+
+// 'Red Bull', 'redbull' and 'RED-BULL' are the same tag; letters in any script are kept
+const normalizeRuleValue = (value: string) =>
+  value.toLocaleLowerCase().normalize('NFKD').replace(/[\p{P}\p{Z}]/gu, '');
+
+// Trimmed string lists for every rule, one entry per normalized value; values that are only
+// punctuation or spaces would match every untagged video, so they are dropped with anything else
+export const resolveMatchRules = (value: unknown): MatchRules => {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<Record<MatchRule, unknown>>;
+  return MATCH_RULES.reduce((rules, rule) => {
+    const values = Array.isArray(input[rule]) ? input[rule] as unknown[] : [];
+    const byNormalized = new Map<string, string>();
+    values.forEach(item => {
+      if (typeof item !== 'string') return;
+      const normalized = normalizeRuleValue(item);
+      if (normalized && !byNormalized.has(normalized)) byNormalized.set(normalized, item.trim());
+    });
+    rules[rule] = Array.from(byNormalized.values());
+    return rules;
+  }, { ...EMPTY_MATCH_RULES });
+};
+
+export const getMatchRuleCategory = (rule: MatchRule, taxonomy: Taxonomy): TaxonomyCategory | undefined =>
+  taxonomy.categories.find(category => category.id === MATCH_RULE_DEFINITIONS[rule].category);
+
+// Rules the taxonomy has a category for
+export const getAvailableMatchRules = (taxonomy: Taxonomy): MatchRule[] =>
+  MATCH_RULES.filter(rule => getMatchRuleCategory(rule, taxonomy));
+
+// Rules that have values but no category in the taxonomy; saving them is refused
+export const findUnsupportedMatchRules = (rules: MatchRules, taxonomy: Taxonomy): MatchRule[] =>
+  MATCH_RULES.filter(rule => rules[rule].length > 0 && !getMatchRuleCategory(rule, taxonomy));
+
+export const describeUnsupportedMatchRules = (unsupported: MatchRule[]) =>
+  `The workspace taxonomy has no category for ${unsupported.map(rule => MATCH_RULE_DEFINITIONS[rule].label.toLowerCase()).join(', ')}`;
+
+// Union of several rule sets, e.g. an ad's own rules plus its campaign's
+export const mergeMatchRules = (...ruleSets: Partial<MatchRules>[]): MatchRules =>
+  resolveMatchRules(MATCH_RULES.reduce((merged, rule) => {
+    merged[rule] = ruleSets.flatMap(rules => rules[rule] || []);
+    return merged;
+  }, { ...EMPTY_MATCH_RULES }));
+
+export const hasMatchRules = (rules?: MatchRules) => !!rules && MATCH_RULES.some(rule => rules[rule].length > 0);
+
+// First rule the video breaks, or null when it passes every rule. Rules whose category is not in the taxonomy
+// (saved before a taxonomy change, or sent to /api/match) are skipped instead of excluding every video as untagged.
+export const evaluateMatchRules = (
+  rules: MatchRules,
+  userMetadata: Record<string, unknown> | undefined,
+  taxonomy: Taxonomy
+): MatchExclusion | null => {
+  const metadata = mapUserMetadataToItem(userMetadata, taxonomy);
+
+  for (const rule of MATCH_RULES) {
+    if (rules[rule].length === 0 || !getMatchRuleCategory(rule, taxonomy)) continue;
+
+    const { category, mode, label } = MATCH_RULE_DEFINITIONS[rule];
+    const ruleValues = new Set(rules[rule].map(normalizeRuleValue));
+    const videoValues = splitTagValues(metadata[category] || '');
+    const hits = videoValues.filter(value => ruleValues.has(normalizeRuleValue(value)));
+
+    if (mode === 'block' && hits.length > 0) {
+      return { rule, values: hits, reason: `${label}: ${hits.join(', ')}` };
+    }
+    if (mode === 'require' && hits.length === 0) {
+      return {
+        rule,
+        values: videoValues,
+        reason: videoValues.length > 0
+          ? `${label}: has ${videoValues.join(', ')}, needs ${rules[rule].join(' or ')}`
+          : `${label}: untagged, needs ${rules[rule].join(' or ')}`,
+      };
+    }
+  }
+
+  return null;
+};
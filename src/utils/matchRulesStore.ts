@@ -0,0 +1,36 @@
+import { MatchRules, SavedMatchRules } from '@/types';
+import { createLocalCollection, LocalCollection } from '@/utils/localData';
+import { EMPTY_MATCH_RULES } from '@/utils/matchRules';
+import { DEFAULT_WORKSPACE_ID } from '@/utils/workspaces';
+
+let matchRulesStore: LocalCollection<SavedMatchRules> | null = null;
+
+// Saved match rules (LOCAL_DATA_DIR/match-rules.json)
+const getMatchRulesStore = (): LocalCollection<SavedMatchRules> => {
+  if (!matchRulesStore) {
+    matchRulesStore = createLocalCollection<SavedMatchRules>(process.env.MATCH_RULES_PATH || 'match-rules.json');
+  }
+  return matchRulesStore;
+};
+
+// Rules are keyed by workspace and ad video id; the default workspace keeps the plain video id, as break plans do
+const getMatchRulesKey = (workspaceId: string, adVideoId: string) =>
+  workspaceId === DEFAULT_WORKSPACE_ID ? adVideoId : `${workspaceId}/${adVideoId}`;
+
+const isInWorkspace = (saved: SavedMatchRules, workspaceId: string) =>
+  (saved.workspaceId || DEFAULT_WORKSPACE_ID) === workspaceId;
+
+export const getSavedMatchRules = (workspaceId: string, adVideoId: string) =>
+  getMatchRulesStore().get(getMatchRulesKey(workspaceId, adVideoId));
+
+export const listSavedMatchRules = async (workspaceId: string): Promise<SavedMatchRules[]> =>
+  (await getMatchRulesStore().list()).filter(saved => isInWorkspace(saved, workspaceId));
+
+export const saveMatchRules = (workspaceId: string, saved: SavedMatchRules) =>
+  getMatchRulesStore().put(getMatchRulesKey(workspaceId, saved.adVideoId), { ...saved, workspaceId });
+
+export const removeMatchRules = (workspaceId: string, adVideoId: string) =>
+  getMatchRulesStore().remove(getMatchRulesKey(workspaceId, adVideoId));
+
+export const getAdMatchRules = async (workspaceId: string, adVideoId: string): Promise<MatchRules> =>
+  (await getSavedMatchRules(workspaceId, adVideoId))?.rules || EMPTY_MATCH_RULES;
@@ -0,0 +1,165 @@
+import {
+  EmbeddingSearchResult,
+  MatchDirection,
+  MatchExclusion,
+  MatchResponse,
+  MatchRules,
+  RankingOptions,
+  VideoSearchTiming,
+  Workspace,
+} from '@/types';
+import { getTwelveLabsClient, listAllIndexVideos } from '@/utils/twelvelabs';
+import { searchIndexByText, searchIndexByVideo } from '@/utils/embeddingSearch';
+import { getIndexEmbeddingModel } from '@/utils/indexRegistry';
+import { fuseRankings, resolveRankingMethod, resolveRankingWeights } from '@/utils/ranking';
+import { evaluateMatchRules, hasMatchRules, resolveMatchRules } from '@/utils/matchRules';
+import { getAdMatchRules, listSavedMatchRules } from '@/utils/matchRulesStore';
+import { applyPlacementDecisions } from '@/utils/placements';
+import { getAdPlacements, getContentPlacements } from '@/utils/placementStore';
+
+export const MAX_MATCH_LIMIT = 100;
+
+// A failed signal search leaves that signal empty instead of failing the whole match
+const searchSignal = async (signal: string, search: () => Promise<EmbeddingSearchResult[]>) => {
+  try {
+    return await search();
+  } catch (error) {
+    console.warn(`⚠️ ${signal} search failed:`, error);
+    return [];
+  }
+};
+
+// Rule check for each result. Ad -> content: the ad's rules against every content video's tags.
+// Content -> ads: the saved rules of every ad in the workspace against the source content video's tags.
+const findExclusions = async ({
+  direction,
+  results,
+  rules,
+  sourceMetadata,
+  targetIndexId,
+  workspace,
+}: {
+  direction: MatchDirection;
+  results: EmbeddingSearchResult[];
+  rules: MatchRules;
+  sourceMetadata?: Record<string, unknown>;
+  targetIndexId: string;
+  workspace: Workspace;
+}): Promise<Map<string, MatchExclusion>> => {
+  const { taxonomy } = workspace;
+  const exclusions = new Map<string, MatchExclusion>();
+  const resultIds = results.flatMap(result => result.metadata?.tl_video_id ? [result.metadata.tl_video_id] : []);
+
+  if (direction === 'ad-to-content') {
+    if (!hasMatchRules(rules) || resultIds.length === 0) return exclusions;
+
+    // Vector metadata has no tags, so read them from the index
+    const videos = await listAllIndexVideos(targetIndexId);
+    const tagsById = new Map(videos.map(video => [video._id, video.user_metadata]));
+    resultIds.forEach(id => {
+      const exclusion = evaluateMatchRules(rules, tagsById.get(id), taxonomy);
+      if (exclusion) exclusions.set(id, exclusion);
+    });
+    return exclusions;
+  }
+
+  const savedRules = new Map((await listSavedMatchRules(workspace.id)).map(saved => [saved.adVideoId, saved.rules]));
+  resultIds.forEach(id => {
+    const adRules = savedRules.get(id);
+    const exclusion = adRules && hasMatchRules(adRules) ? evaluateMatchRules(adRules, sourceMetadata, taxonomy) : null;
+    if (exclusion) exclusions.set(id, exclusion);
+  });
+  return exclusions;
+};
+
+// Rank the videos of `targetIndexId` for a video of `sourceIndexId` by fusing its tag, title and visual
+// similarity searches. Works both ways: ad -> content and content -> ads. Vectors and rule categories
+// come from `workspace`.
+export const matchVideos = async ({
+  workspace,
+  videoId,
+  direction,
+  sourceIndexId,
+  targetIndexId,
+  limit,
+  rules,
+  ...options
+}: RankingOptions & {
+  workspace: Workspace;
+  videoId: string;
+  direction: MatchDirection;
+  sourceIndexId: string;
+  targetIndexId: string;
+  limit?: number;
+  rules?: Partial<MatchRules>;
+}): Promise<MatchResponse> => {
+  const method = resolveRankingMethod(options.method);
+  const weights = resolveRankingWeights(options.weights);
+  const namespace = workspace.vectorNamespace;
+  const embeddingModel = getIndexEmbeddingModel(workspace, targetIndexId);
+  const startedAt = Date.now();
+
+  // use the tag information (sector, emotions) and the title of the source video as search terms
+  const videoDetails = await getTwelveLabsClient().videos.get(sourceIndexId, videoId);
+  const tagSearchTerm = `${videoDetails.user_metadata?.sector || ''} ${videoDetails.user_metadata?.emotions || ''}`.trim();
+  const title = videoDetails.system_metadata?.video_title ||
+    videoDetails.system_metadata?.filename ||
+    `Video ${videoId}`;
+
+  let visualTiming: VideoSearchTiming | undefined;
+  const [tag, titleResults, visual] = await Promise.all([
+    tagSearchTerm ? searchSignal('Tag', () => searchIndexByText(tagSearchTerm, targetIndexId, namespace, embeddingModel)) : [],
+    searchSignal('Title', () => searchIndexByText(title, targetIndexId, namespace, embeddingModel)),
+    searchSignal('Visual', async () => {
+      const { results, timing } = await searchIndexByVideo(videoId, targetIndexId, namespace);
+      visualTiming = timing;
+      return results;
+    }),
+  ]);
+
+  const ranked = fuseRankings({ tag, title: titleResults, visual }, { method, weights });
+
+  // Explicit rules win over the ad's saved rules; reverse matching uses each ad's saved rules
+  const appliedRules = direction === 'ad-to-content'
+    ? rules ? resolveMatchRules(rules) : await getAdMatchRules(workspace.id, videoId)
+    : resolveMatchRules(undefined);
+  const [exclusions, decisions] = await Promise.all([
+    findExclusions({
+      direction,
+      results: ranked,
+      rules: appliedRules,
+      sourceMetadata: videoDetails.user_metadata,
+      targetIndexId,
+      workspace,
+    }),
+    direction === 'ad-to-content' ? getAdPlacements(workspace.id, videoId) : getContentPlacements(workspace.id, videoId),
+  ]);
+
+  // An approved placement stays even if its tags no longer pass the rules
+  Object.entries(decisions).forEach(([id, decision]) => {
+    if (decision.status === 'approved') exclusions.delete(id);
+  });
+
+  const { results, rejected } = applyPlacementDecisions(
+    ranked.filter(result => !exclusions.has(result.metadata?.tl_video_id || '')),
+    decisions
+  );
+  const excluded = ranked.flatMap(result => {
+    const exclusion = exclusions.get(result.metadata?.tl_video_id || '');
+    return exclusion ? [{ ...result, exclusion }] : [];
+  });
+
+  return {
+    direction,
+    source: { videoId, indexId: sourceIndexId, title, tagSearchTerm },
+    targetIndexId,
+    method,
+    weights,
+    signals: { tag: tag.length, title: titleResults.length, visual: visual.length },
+    timing: { totalMs: Date.now() - startedAt, visual: visualTiming },
+    rules: direction === 'ad-to-content' ? appliedRules : undefined,
+    results: limit ? results.slice(0, limit) : results,
+    excluded,
+    rejected,
+  };
+};
@@ -0,0 +1,230 @@
+import {
+  BreakPosition,
+  Campaign,
+  ChaptersResponse,
+  InsertionSource,
+  MediaPlan,
+  MediaPlanEntry,
+  Taxonomy,
+  VideoData,
+  VmapBreak,
+} from '@/types';
+import { getBreakPlan } from '@/utils/breakPlanStore';
+import { DEFAULT_BREAK_PLAN_RULES, getBreakTime, sortBreaks } from '@/utils/breakPlan';
+import { getResultCache } from '@/utils/resultCache';
+import { getErrorMessage, getTwelveLabsClient, listAllIndexVideos } from '@/utils/twelvelabs';
+import { mapUserMetadataToItem } from '@/utils/taxonomy';
+import { buildVmap, formatTimecode, VastBuildOptions } from '@/utils/vast';
+import { loadVastAd } from '@/utils/vastAds';
+
+// Error for exports that can't be built from the saved data, carrying the HTTP status a route should answer with
+export class MediaPlanError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'MediaPlanError';
+    this.status = status;
+  }
+}
+
+type ContentBreak = {
+  position: BreakPosition;
+  time: number;
+  adVideoIds: string[]; // the break plan's pod; empty for chapter breaks
+};
+
+const getVideoTitle = (video?: VideoData) =>
+  video?.system_metadata?.video_title || video?.system_metadata?.filename;
+
+// Break points of a content video: its break plan in the workspace, else the ends of its latest generated chapters
+export const getContentBreaks = async (
+  contentVideoId: string,
+  workspaceId: string | undefined,
+  duration?: number
+): Promise<{ source: InsertionSource; breaks: ContentBreak[] }> => {
+  const plan = await getBreakPlan(workspaceId, contentVideoId);
+  if (plan && plan.breaks.length > 0) {
+    const planDuration = plan.duration ?? duration;
+    return {
+      source: 'break-plan',
+      breaks: sortBreaks(plan.breaks, planDuration).map(adBreak => ({
+        position: adBreak.position,
+        time: getBreakTime(adBreak, planDuration),
+        adVideoIds: adBreak.ads.map(ad => ad.adVideoId),
+      })),
+    };
+  }
+
+  const chapters = (await getResultCache().latest<ChaptersResponse>('chapters', contentVideoId))?.value.chapters || [];
+  if (chapters.length > 0) {
+    return {
+      source: 'chapters',
+      // As in the break preview: a break after each chapter, a post-roll when the chapter ends the content
+      breaks: chapters.map((chapter): ContentBreak => ({
+        position: duration && chapter.end >= duration - 1 ? 'post-roll' : 'mid-roll',
+        time: chapter.end,
+        adVideoIds: [],
+      })),
+    };
+  }
+
+  return { source: 'none', breaks: [] };
+};
+
+// One entry per shortlisted ad/content pair from the campaign's latest analysis, tagged with the workspace taxonomy
+export const buildCampaignMediaPlan = async (
+  campaign: Campaign,
+  contentIndexId: string,
+  taxonomy: Taxonomy
+): Promise<MediaPlan> => {
+  if (!campaign.analysis) {
+    throw new MediaPlanError('Run the campaign analysis before exporting its media plan');
+  }
+
+  const videos = await listAllIndexVideos(contentIndexId);
+  const videosById = new Map(videos.map(video => [video._id, video]));
+  const contentVideoIds = Array.from(new Set(campaign.analysis.ads.flatMap(ad =>
+    ad.results.flatMap(result => result.metadata?.tl_video_id ? [result.metadata.tl_video_id] : [])
+  )));
+  const breaksById = new Map(await Promise.all(contentVideoIds.map(async id =>
+    [id, await getContentBreaks(id, campaign.workspaceId, videosById.get(id)?.system_metadata?.duration)] as const
+  )));
+
+  const entries = campaign.analysis.ads.flatMap(ad => ad.results.flatMap((result): MediaPlanEntry[] => {
+    const contentVideoId = result.metadata?.tl_video_id;
+    if (!contentVideoId) return [];
+
+    const video = videosById.get(contentVideoId);
+    const { source, breaks } = breaksById.get(contentVideoId) || { source: 'none' as const, breaks: [] };
+    // Breaks whose pod already holds this ad; otherwise every break is a candidate slot
+    const podBreaks = breaks.filter(adBreak => adBreak.adVideoIds.includes(ad.adVideoId));
+
+    return [{
+      adVideoId: ad.adVideoId,
+      adTitle: ad.adTitle,
+      contentVideoId,
+      contentTitle: getVideoTitle(video) || String(result.metadata?.video_title || contentVideoId),
+      insertionTimes: (podBreaks.length > 0 ? podBreaks : breaks).map(adBreak => adBreak.time),
+      insertionSource: source,
+      score: result.score,
+      rank: result.rank,
+      placementStatus: result.placement?.status,
+      tags: mapUserMetadataToItem(video?.user_metadata, taxonomy),
+    }];
+  }));
+
+  return {
+    campaign: {
+      id: campaign.id,
+      name: campaign.name,
+      advertiser: campaign.advertiser,
+      flightStart: campaign.flightStart,
+      flightEnd: campaign.flightEnd,
+    },
+    contentIndexId,
+    generatedAt: new Date().toISOString(),
+    entries,
+  };
+};
+
+// Spreadsheets run text starting with =, +, -, @, tab or CR as a formula, so such text gets a leading quote.
+// Numbers are written as they are.
+const escapeCsv = (value: string | number | undefined) => {
+  const raw = value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${raw}` : raw;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per entry; insertion times as space-separated timecodes, one column per taxonomy category
+export const mediaPlanToCsv = (plan: MediaPlan, taxonomy: Taxonomy): string => {
+  const categories = taxonomy.categories;
+  const header = [
+    'campaign_id', 'campaign_name', 'advertiser', 'flight_start', 'flight_end',
+    'ad_video_id', 'ad_title', 'content_video_id', 'content_title',
+    'insertion_times', 'insertion_source', 'score', 'rank', 'placement_status',
+    ...categories.map(category => category.id),
+  ];
+
+  const rows = plan.entries.map(entry => [
+    plan.campaign.id,
+    plan.campaign.name,
+    plan.campaign.advertiser,
+    plan.campaign.flightStart,
+    plan.campaign.flightEnd,
+    entry.adVideoId,
+    entry.adTitle,
+    entry.contentVideoId,
+    entry.contentTitle,
+    entry.insertionTimes.map(formatTimecode).join(' '),
+    entry.insertionSource,
+    entry.score.toFixed(4),
+    entry.rank,
+    entry.placementStatus,
+    ...categories.map(category => entry.tags[category.id]),
+  ]);
+
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\n');
+};
+
+// VMAP for a content video. Breaks come from its break plan (with their pods) or its chapters;
+// breaks without a pod are filled with the campaign's best matching ads for this video.
+export const buildContentVmap = async ({
+  contentVideoId,
+  workspaceId,
+  contentIndexId,
+  adsIndexId,
+  campaign,
+  vastOptions,
+}: {
+  contentVideoId: string;
+  workspaceId: string;
+  contentIndexId: string;
+  adsIndexId: string;
+  campaign?: Campaign;
+  vastOptions?: VastBuildOptions;
+}): Promise<string> => {
+  let duration: number | undefined;
+  try {
+    duration = (await getTwelveLabsClient().videos.get(contentIndexId, contentVideoId)).system_metadata?.duration;
+  } catch (error) {
+    console.warn(`⚠️ Could not look up duration for ${contentVideoId}:`, getErrorMessage(error));
+  }
+
+  const { breaks } = await getContentBreaks(contentVideoId, workspaceId, duration);
+  if (breaks.length === 0) {
+    throw new MediaPlanError(`Video ${contentVideoId} has no break plan or generated chapters`);
+  }
+
+  const campaignPod = (campaign?.analysis?.ads || [])
+    .flatMap(ad => {
+      const match = ad.results.find(result => result.metadata?.tl_video_id === contentVideoId);
+      return match ? [{ adVideoId: ad.adVideoId, score: match.score }] : [];
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, DEFAULT_BREAK_PLAN_RULES.maxPodSize)
+    .map(ad => ad.adVideoId);
+
+  const pods = breaks.map(adBreak => adBreak.adVideoIds.length > 0 ? adBreak.adVideoIds : campaignPod);
+  const adVideoIds = Array.from(new Set(pods.flat()));
+  const ads = new Map(await Promise.all(adVideoIds.map(async id => [id, await loadVastAd(id, adsIndexId)] as const)));
+
+  const vmapBreaks = breaks
+    .map((adBreak, index): VmapBreak => ({
+      position: adBreak.position,
+      time: adBreak.time,
+      ads: pods[index].flatMap(id => {
+        const ad = ads.get(id);
+        return ad ? [ad] : [];
+      }),
+    }))
+    .filter(adBreak => adBreak.ads.length > 0);
+
+  if (vmapBreaks.length === 0) {
+    throw new MediaPlanError(
+      `No ads are planned for video ${contentVideoId}; save a break plan with ads or export it with a campaign that matched it`
+    );
+  }
+
+  return buildVmap(vmapBreaks, vastOptions);
+};
@@ -0,0 +1,110 @@
+import { GenerateMetadataResponse, Taxonomy } from '@/types';
+import { getIndexGenerationModel, getTwelveLabsClient } from '@/utils/twelvelabs';
+import { buildTaggingPrompt } from '@/utils/taxonomy';
+import {
+  buildGeneratedMetadataSchema,
+  buildRepairPrompt,
+  generatedMetadataToFields,
+  parseJsonOutput,
+  validateGeneratedMetadata,
+  validateLegacyOutput,
+} from '@/utils/metadataSchema';
+import { getPromptVersion, getResultCache } from '@/utils/resultCache';
+import { patchVideoMetadata } from '@/utils/videoMetadata';
+
+// First request plus up to two repair requests
+const MAX_ATTEMPTS = 3;
+
+// Raised when the model output still fails validation after the last repair attempt
+export class MetadataValidationError extends Error {
+  errors: string[];
+  output: string;
+
+  constructor(errors: string[], output: string) {
+    super('Generated metadata failed validation');
+    this.name = 'MetadataValidationError';
+    this.errors = errors;
+    this.output = output;
+  }
+}
+
+// Generate schema-validated tags for a video (server-side), using the result cache unless `refresh` is set
+export const generateVideoMetadata = async (
+  videoId: string,
+  indexId: string,
+  { refresh = false, taxonomy }: { refresh?: boolean; taxonomy: Taxonomy }
+): Promise<GenerateMetadataResponse> => {
+  // Categories and allowed values come from the workspace taxonomy
+  const prompt = buildTaggingPrompt(taxonomy);
+  const schema = buildGeneratedMetadataSchema(taxonomy);
+  const promptVersion = getPromptVersion(prompt, schema);
+  const model = await getIndexGenerationModel(indexId);
+
+  // Same video + prompt + model: serve the stored result instead of paying for a new generation
+  if (!refresh) {
+    try {
+      const cached = await getResultCache().get<GenerateMetadataResponse>('analysis', videoId, promptVersion, model);
+      if (cached) {
+        return { ...cached.value, cached: true };
+      }
+    } catch (error) {
+      console.warn(`⚠️ Could not read result cache for ${videoId}:`, error);
+    }
+  }
+
+  const client = getTwelveLabsClient();
+  let currentPrompt = prompt;
+  let lastOutput = '';
+  let errors: string[] = [];
+
+  // Ask for JSON matching the schema; if it doesn't validate, send the errors back and retry
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const data = await client.analyze(videoId, currentPrompt, {
+      responseFormat: { type: 'json_schema', json_schema: schema },
+    });
+
+    if (!data) {
+      throw new Error("Empty response from API");
+    }
+
+    lastOutput = data.data || '';
+    const parsed = parseJsonOutput(lastOutput);
+    const result = parsed === undefined
+      ? validateLegacyOutput(lastOutput, taxonomy)
+      : validateGeneratedMetadata(parsed, taxonomy);
+    errors = result.errors;
+
+    if (errors.length === 0) {
+      const response: GenerateMetadataResponse = {
+        id: data.id,
+        metadata: result.metadata,
+        attempts: attempt,
+        usage: data.usage,
+      };
+
+      try {
+        await getResultCache().set('analysis', videoId, promptVersion, model, response);
+      } catch (error) {
+        console.warn(`⚠️ Could not write result cache for ${videoId}:`, error);
+      }
+
+      return response;
+    }
+
+    console.warn(`⚠️ Generated metadata for ${videoId} failed validation (attempt ${attempt}/${MAX_ATTEMPTS}):`, errors);
+    currentPrompt = buildRepairPrompt(prompt, lastOutput, errors);
+  }
+
+  throw new MetadataValidationError(errors, lastOutput);
+};
+
+// Generate tags and merge them into the video's user_metadata in one go (used by batch jobs); other fields are kept
+export const regenerateAndStoreMetadata = async (
+  videoId: string,
+  indexId: string,
+  { refresh = false, taxonomy }: { refresh?: boolean; taxonomy: Taxonomy }
+): Promise<GenerateMetadataResponse> => {
+  const generated = await generateVideoMetadata(videoId, indexId, { refresh, taxonomy });
+  await patchVideoMetadata({ indexId, videoId, patch: generatedMetadataToFields(generated.metadata, taxonomy) });
+  return generated;
+};
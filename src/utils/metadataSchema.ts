@@ -0,0 +1,158 @@
+import { GeneratedMetadata, Taxonomy } from '@/types';
+import { findCategoryByOutputKey, getGeneratedCategories, normalizeTaxonomyValue, parseLegacyHashtags, splitTagValues } from '@/utils/taxonomy';
+
+type JsonSchema = {
+  type: string;
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  enum?: string[];
+  required?: string[];
+  minItems?: number;
+  additionalProperties?: boolean;
+  description?: string;
+};
+
+export type MetadataValidationResult = {
+  metadata: GeneratedMetadata;
+  errors: string[];
+};
+
+// JSON schema for the analyze output, derived from the generated taxonomy categories
+export const buildGeneratedMetadataSchema = (taxonomy: Taxonomy): JsonSchema => {
+  const categories = getGeneratedCategories(taxonomy);
+  const properties: Record<string, JsonSchema> = {};
+
+  categories.forEach(category => {
+    properties[category.id] = {
+      type: 'array',
+      description: category.promptLabel,
+      minItems: 1,
+      items: category.type === 'closed'
+        ? { type: 'string', enum: category.values }
+        : { type: 'string' },
+    };
+  });
+
+  return {
+    type: 'object',
+    properties,
+    required: categories.map(category => category.id),
+    additionalProperties: false,
+  };
+};
+
+// Pull the JSON object out of the model text (tolerates code fences and surrounding prose)
+export const parseJsonOutput = (text: string): unknown => {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const start = trimmed.indexOf('{');
+    const end = trimmed.lastIndexOf('}');
+    if (start === -1 || end <= start) return undefined;
+
+    try {
+      return JSON.parse(trimmed.slice(start, end + 1));
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+// Validate the model output against the schema, repairing what can be fixed locally:
+// keys given by label/alias, comma-separated strings instead of arrays, synonyms and casing.
+// Anything that can't be repaired (missing categories, only disallowed values) is reported in `errors`.
+export const validateGeneratedMetadata = (output: unknown, taxonomy: Taxonomy): MetadataValidationResult => {
+  const metadata: GeneratedMetadata = {};
+  const errors: string[] = [];
+
+  if (!output || typeof output !== 'object' || Array.isArray(output)) {
+    return { metadata, errors: ['Output must be a JSON object keyed by category id'] };
+  }
+
+  const categories = getGeneratedCategories(taxonomy);
+  categories.forEach(category => {
+    metadata[category.id] = [];
+  });
+
+  Object.entries(output as Record<string, unknown>).forEach(([key, rawValue]) => {
+    const category = findCategoryByOutputKey(key, taxonomy);
+    if (!category || !(category.id in metadata)) {
+      // unknown keys are dropped rather than failing the whole response
+      return;
+    }
+
+    const rawValues = Array.isArray(rawValue)
+      ? rawValue.filter((value): value is string => typeof value === 'string').flatMap(splitTagValues)
+      : typeof rawValue === 'string' ? splitTagValues(rawValue) : [];
+
+    const rejected: string[] = [];
+    rawValues.forEach(rawItem => {
+      const value = normalizeTaxonomyValue(category, rawItem);
+      if (value === null) {
+        rejected.push(rawItem);
+      } else if (!metadata[category.id].some(existing => existing.toLowerCase() === value.toLowerCase())) {
+        metadata[category.id].push(value);
+      }
+    });
+
+    if (metadata[category.id].length === 0 && rejected.length > 0) {
+      errors.push(`"${category.id}" only contained values that are not allowed (${rejected.join(', ')}); use one of: ${(category.values || []).join(', ')}`);
+    }
+  });
+
+  categories.forEach(category => {
+    const alreadyReported = errors.some(error => error.startsWith(`"${category.id}"`));
+    if (metadata[category.id].length === 0 && !alreadyReported) {
+      errors.push(`"${category.id}" is missing or empty`);
+    }
+  });
+
+  return { metadata, errors };
+};
+
+// Output that is not JSON may still be in the old hashtag format; read it that way before giving up on it
+export const validateLegacyOutput = (text: string, taxonomy: Taxonomy): MetadataValidationResult => {
+  const metadata = parseLegacyHashtags(text, taxonomy);
+  if (!Object.values(metadata).some(values => values.length > 0)) {
+    return { metadata: {}, errors: ['Output is not valid JSON'] };
+  }
+
+  const errors = Object.entries(metadata)
+    .filter(([, values]) => values.length === 0)
+    .map(([categoryId]) => `"${categoryId}" is missing or empty`);
+  return { metadata, errors };
+};
+
+// Follow-up prompt asking the model to fix an output that failed validation
+export const buildRepairPrompt = (originalPrompt: string, previousOutput: string, errors: string[]): string => {
+  return `${originalPrompt}
+
+Your previous answer was:
+${previousOutput}
+
+It failed validation:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return the corrected JSON object only.`;
+};
+
+// Convert generated tags into the user_metadata fields stored on the video
+export const generatedMetadataToFields = (generated: GeneratedMetadata, taxonomy: Taxonomy): Record<string, string> => {
+  const metadata: Record<string, string> = {};
+
+  getGeneratedCategories(taxonomy).forEach(category => {
+    metadata[category.field] = (generated[category.id] || []).join(', ');
+  });
+
+  // for backward compatibility, set demographics field
+  if (metadata.demographics_gender || metadata.demographics_age) {
+    const demographics = [];
+    if (metadata.demographics_gender) demographics.push(metadata.demographics_gender);
+    if (metadata.demographics_age) demographics.push(metadata.demographics_age);
+    metadata.demographics = demographics.join(', ');
+  }
+
+  return metadata;
+};
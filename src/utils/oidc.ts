@@ -0,0 +1,175 @@
+import { createHash, randomBytes } from 'crypto';
+import { UserRole } from '@/types';
+import { AuthError, readSignedValue, signValue } from '@/utils/auth';
+import { isUserRole, sanitizeNextPath, USER_ROLES } from '@/utils/roles';
+
+export const OIDC_STATE_COOKIE = 'bia_oidc';
+export const OIDC_STATE_TTL_SEC = 10 * 60;
+
+type OidcConfig = {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+  rolesClaim?: string;
+  defaultRole: UserRole;
+  redirectUri?: string;
+};
+
+type OidcDiscovery = {
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint: string;
+};
+
+// Kept in a signed cookie between the redirect to the provider and its callback
+type OidcState = {
+  state: string;
+  verifier: string;
+  next: string;
+  exp: number;
+};
+
+// OIDC sign-in is on when OIDC_ISSUER and OIDC_CLIENT_ID are set
+export const getOidcConfig = (): OidcConfig | null => {
+  const issuer = process.env.OIDC_ISSUER?.replace(/\/+$/, '');
+  const clientId = process.env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) return null;
+
+  const defaultRole = process.env.OIDC_DEFAULT_ROLE;
+  return {
+    issuer,
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile',
+    rolesClaim: process.env.OIDC_ROLES_CLAIM,
+    defaultRole: isUserRole(defaultRole) ? defaultRole : 'viewer',
+    redirectUri: process.env.OIDC_REDIRECT_URI,
+  };
+};
+
+let discovery: Promise<OidcDiscovery> | null = null;
+
+const discover = (config: OidcConfig): Promise<OidcDiscovery> => {
+  if (!discovery) {
+    discovery = fetch(`${config.issuer}/.well-known/openid-configuration`)
+      .then(async response => {
+        if (!response.ok) {
+          throw new AuthError(`OIDC discovery failed (${response.status})`, 502);
+        }
+        return response.json() as Promise<OidcDiscovery>;
+      })
+      .catch(error => {
+        discovery = null;
+        throw error;
+      });
+  }
+  return discovery;
+};
+
+const getRedirectUri = (config: OidcConfig, origin: string) =>
+  config.redirectUri || `${origin}/api/auth/oidc/callback`;
+
+// Provider URL to send the browser to, and the state cookie value to set alongside (authorization code flow with PKCE)
+export const createOidcLogin = async (origin: string, next: string): Promise<{ url: string; stateCookie: string }> => {
+  const config = getOidcConfig();
+  if (!config) {
+    throw new AuthError('OIDC sign-in is not configured', 404);
+  }
+
+  const { authorization_endpoint } = await discover(config);
+  const state: OidcState = {
+    state: randomBytes(16).toString('base64url'),
+    verifier: randomBytes(32).toString('base64url'),
+    next: sanitizeNextPath(next),
+    exp: Math.floor(Date.now() / 1000) + OIDC_STATE_TTL_SEC,
+  };
+
+  const url = new URL(authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', config.clientId);
+  url.searchParams.set('redirect_uri', getRedirectUri(config, origin));
+  url.searchParams.set('scope', config.scopes);
+  url.searchParams.set('state', state.state);
+  url.searchParams.set('code_challenge', createHash('sha256').update(state.verifier).digest('base64url'));
+  url.searchParams.set('code_challenge_method', 'S256');
+
+  return { url: url.toString(), stateCookie: signValue(state) };
+};
+
+const getClaimRole = (claims: Record<string, unknown>, config: OidcConfig): UserRole => {
+  if (!config.rolesClaim) return config.defaultRole;
+
+  const value = claims[config.rolesClaim];
+  const values = (Array.isArray(value) ? value : [value]).filter((item): item is string => typeof item === 'string');
+  // The highest app role named in the claim
+  const matched = [...USER_ROLES].reverse().find(role => values.includes(role));
+  return matched || config.defaultRole;
+};
+
+// Exchange the callback's code for the user's email, name and role, after checking the state cookie
+export const completeOidcLogin = async ({
+  origin,
+  code,
+  state,
+  stateCookie,
+}: {
+  origin: string;
+  code: string | null;
+  state: string | null;
+  stateCookie?: string;
+}): Promise<{ email: string; name?: string; role: UserRole; next: string }> => {
+  const config = getOidcConfig();
+  if (!config) {
+    throw new AuthError('OIDC sign-in is not configured', 404);
+  }
+
+  const saved = readSignedValue<OidcState>(stateCookie);
+  if (!saved || saved.exp * 1000 <= Date.now() || !state || saved.state !== state) {
+    throw new AuthError('The sign-in attempt expired or did not start here; try again', 400);
+  }
+  if (!code) {
+    throw new AuthError('The identity provider returned no authorization code', 400);
+  }
+
+  const { token_endpoint, userinfo_endpoint } = await discover(config);
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: getRedirectUri(config, origin),
+    client_id: config.clientId,
+    code_verifier: saved.verifier,
+  });
+  if (config.clientSecret) body.set('client_secret', config.clientSecret);
+
+  const tokenResponse = await fetch(token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+    body,
+  });
+  if (!tokenResponse.ok) {
+    throw new AuthError(`OIDC token exchange failed (${tokenResponse.status})`, 502);
+  }
+  const { access_token: accessToken } = await tokenResponse.json() as { access_token?: string };
+
+  // Claims come from the provider's userinfo endpoint over TLS, so the ID token needn't be verified here
+  const userInfoResponse = await fetch(userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${accessToken}`, 'Accept': 'application/json' },
+  });
+  if (!userInfoResponse.ok) {
+    throw new AuthError(`OIDC userinfo request failed (${userInfoResponse.status})`, 502);
+  }
+  const claims = await userInfoResponse.json() as Record<string, unknown>;
+
+  // A missing email_verified claim counts as unverified
+  if (typeof claims.email !== 'string' || claims.email_verified !== true) {
+    throw new AuthError('The identity provider did not return a verified email', 403);
+  }
+
+  return {
+    email: claims.email,
+    name: typeof claims.name === 'string' ? claims.name : undefined,
+    role: getClaimRole(claims, config),
+    next: saved.next,
+  };
+};
@@ -1,4 +1,12 @@
 import { Pinecone } from '@pinecone-database/pinecone';
+import type {
+  VectorFilter,
+  VectorQuery,
+  VectorQueryResponse,
+  VectorRecord,
+  VectorStore,
+  VectorStoreStats,
+} from '@/utils/vectorStore';
 
 // API 키와 인덱스 이름 확인
 const PINECONE_API_KEY = process.env.PINECONE_API_KEY;
@@ -90,4 +98,36 @@ export const checkPineconeEnvironment = () => {
       message: error instanceof Error ? error.message : 'Unknown error'
     };
   }
-};
\ No newline at end of file
+};
+
+// Pinecone implementation of the VectorStore interface, scoped to one namespace ('' = default)
+export const createPineconeVectorStore = (namespace = ''): VectorStore => {
+  const getIndex = () => namespace ? getPineconeIndex().namespace(namespace) : getPineconeIndex();
+
+  return {
+    name: 'pinecone',
+
+    async upsert(records: VectorRecord[]) {
+      await getIndex().upsert(records);
+    },
+
+    async query(query: VectorQuery): Promise<VectorQueryResponse> {
+      const response = await getIndex().query(query);
+      return { matches: response.matches || [] };
+    },
+
+    async deleteMany(filter: VectorFilter) {
+      await getIndex().deleteMany({ filter });
+    },
+
+    // Index stats cover every namespace; the record count is this namespace's
+    async describeStats(): Promise<VectorStoreStats> {
+      const stats = await getPineconeIndex().describeIndexStats();
+      return {
+        dimension: stats.dimension,
+        namespaces: stats.namespaces ? Object.keys(stats.namespaces).length : 0,
+        totalRecordCount: namespace ? stats.namespaces?.[namespace]?.recordCount || 0 : stats.totalRecordCount || 0,
+      };
+    },
+  };
+};
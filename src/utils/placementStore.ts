@@ -0,0 +1,82 @@
+import { AdPlacements, PlacementDecision, PlacementUpdate } from '@/types';
+import { createLocalCollection, LocalCollection } from '@/utils/localData';
+import { DEFAULT_WORKSPACE_ID } from '@/utils/workspaces';
+
+const MAX_NOTE_LENGTH = 1000;
+
+let placementStore: LocalCollection<AdPlacements> | null = null;
+
+// Placement decisions (LOCAL_DATA_DIR/placements.json)
+const getPlacementStore = (): LocalCollection<AdPlacements> => {
+  if (!placementStore) {
+    placementStore = createLocalCollection<AdPlacements>(process.env.PLACEMENTS_PATH || 'placements.json');
+  }
+  return placementStore;
+};
+
+// Decisions are keyed by workspace and ad video id; the default workspace keeps the plain video id, as break plans do
+const getPlacementKey = (workspaceId: string, adVideoId: string) =>
+  workspaceId === DEFAULT_WORKSPACE_ID ? adVideoId : `${workspaceId}/${adVideoId}`;
+
+const isInWorkspace = (placements: AdPlacements, workspaceId: string) =>
+  (placements.workspaceId || DEFAULT_WORKSPACE_ID) === workspaceId;
+
+export const getPlacements = (workspaceId: string, adVideoId: string) =>
+  getPlacementStore().get(getPlacementKey(workspaceId, adVideoId));
+
+export const getAdPlacements = async (workspaceId: string, adVideoId: string): Promise<Record<string, PlacementDecision>> =>
+  (await getPlacements(workspaceId, adVideoId))?.decisions || {};
+
+// Decisions about one content video across the workspace's ads, keyed by ad video id (for content -> ads matching)
+export const getContentPlacements = async (workspaceId: string, contentVideoId: string): Promise<Record<string, PlacementDecision>> => {
+  const decisions: Record<string, PlacementDecision> = {};
+  (await getPlacementStore().list()).filter(placements => isInWorkspace(placements, workspaceId)).forEach(placements => {
+    const decision = placements.decisions[contentVideoId];
+    // The saved result is a content video, so it can't stand in for the ad
+    if (decision) decisions[placements.adVideoId] = { ...decision, result: undefined };
+  });
+  return decisions;
+};
+
+export const validatePlacementUpdate = (update: Partial<PlacementUpdate>): string[] => {
+  const errors: string[] = [];
+  if (!update.contentVideoId || typeof update.contentVideoId !== 'string') errors.push('contentVideoId is required');
+  if (update.status !== undefined && update.status !== null && update.status !== 'approved' && update.status !== 'rejected') {
+    errors.push('status must be approved, rejected or null');
+  }
+  if (update.note !== undefined && typeof update.note !== 'string') errors.push('note must be a string');
+  if (typeof update.note === 'string' && update.note.length > MAX_NOTE_LENGTH) {
+    errors.push(`note must be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  return errors;
+};
+
+// Merge an update into the ad's decisions; a decision with neither status nor note is dropped
+export const updatePlacement = async (workspaceId: string, adVideoId: string, update: PlacementUpdate): Promise<AdPlacements> => {
+  const store = getPlacementStore();
+  const key = getPlacementKey(workspaceId, adVideoId);
+  const now = new Date().toISOString();
+  const placements = await store.get(key) || { adVideoId, decisions: {}, updatedAt: now };
+  const current = placements.decisions[update.contentVideoId];
+
+  const status = update.status === undefined ? current?.status : update.status || undefined;
+  const note = update.note === undefined ? current?.note : update.note.trim() || undefined;
+  const decisions = { ...placements.decisions };
+
+  if (!status && !note) {
+    delete decisions[update.contentVideoId];
+  } else {
+    decisions[update.contentVideoId] = {
+      contentVideoId: update.contentVideoId,
+      status,
+      note,
+      // Keep the match from when it was first approved; later runs may rank it differently or not at all
+      result: status === 'approved' ? current?.result || update.result : undefined,
+      updatedAt: now,
+    };
+  }
+
+  const updated: AdPlacements = { adVideoId, workspaceId, decisions, updatedAt: now };
+  await store.put(key, updated);
+  return updated;
+};
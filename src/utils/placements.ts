@@ -0,0 +1,39 @@
+import { EmbeddingSearchResult, PlacementAnnotation, PlacementDecision } from '@/types';
+
+const toAnnotation = (decision: PlacementDecision): PlacementAnnotation => ({
+  contentVideoId: decision.contentVideoId,
+  status: decision.status,
+  note: decision.note,
+  updatedAt: decision.updatedAt,
+});
+
+// Pin approved matches to the top and set rejected ones aside, keeping the search order within each group.
+// Approved matches the search no longer returns are listed from the result saved with the decision.
+export const applyPlacementDecisions = (
+  ranked: EmbeddingSearchResult[],
+  decisions: Record<string, PlacementDecision>
+): { results: EmbeddingSearchResult[]; rejected: EmbeddingSearchResult[] } => {
+  const approved: EmbeddingSearchResult[] = [];
+  const undecided: EmbeddingSearchResult[] = [];
+  const rejected: EmbeddingSearchResult[] = [];
+  const seen = new Set<string>();
+
+  ranked.forEach(result => {
+    const videoId = result.metadata?.tl_video_id || '';
+    const decision = decisions[videoId];
+    const annotated = { ...result, placement: decision ? toAnnotation(decision) : undefined };
+    seen.add(videoId);
+
+    if (decision?.status === 'approved') approved.push(annotated);
+    else if (decision?.status === 'rejected') rejected.push(annotated);
+    else undecided.push(annotated);
+  });
+
+  Object.values(decisions).forEach(decision => {
+    if (decision.status === 'approved' && decision.result && !seen.has(decision.contentVideoId)) {
+      approved.push({ ...decision.result, placement: { ...toAnnotation(decision), stale: true } });
+    }
+  });
+
+  return { results: [...approved, ...undecided], rejected };
+};
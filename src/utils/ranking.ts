@@ -0,0 +1,164 @@
+import {
+  EmbeddingSearchResult,
+  MatchedSegment,
+  RankingContribution,
+  RankingMethod,
+  RankingSignal,
+  RankingWeights,
+} from '@/types';
+
+export const RANKING_SIGNALS: RankingSignal[] = ['tag', 'title', 'visual'];
+export const RANKING_METHODS: RankingMethod[] = ['max', 'weighted', 'rrf'];
+
+// 'max' with equal weights reproduces the original contextual analysis ranking
+export const DEFAULT_RANKING_METHOD: RankingMethod = 'max';
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = { tag: 1, title: 1, visual: 1 };
+export const MAX_RANKING_WEIGHT = 5;
+
+// Reciprocal rank fusion damping constant; larger values flatten the gap between top ranks
+export const RRF_K = 60;
+
+// 'max' method: boost for videos found by both a text signal and the visual signal
+export const OVERLAP_BOOST = 2;
+
+// Moments kept per matched video
+export const MAX_MATCHED_SEGMENTS = 3;
+
+const TEXT_SIGNALS: RankingSignal[] = ['tag', 'title'];
+
+export type SignalResults = Partial<Record<RankingSignal, EmbeddingSearchResult[]>>;
+
+type Candidate = {
+  metadata: EmbeddingSearchResult['metadata'];
+  hits: Partial<Record<RankingSignal, { score: number; rank: number }>>;
+  segments: MatchedSegment[];
+};
+
+// Best scoring segments first, one entry per time range
+export const mergeSegments = (segments: MatchedSegment[], limit = MAX_MATCHED_SEGMENTS): MatchedSegment[] => {
+  const byRange = new Map<string, MatchedSegment>();
+  segments.forEach(segment => {
+    const key = `${segment.start}-${segment.end}`;
+    const existing = byRange.get(key);
+    if (!existing || existing.score < segment.score) {
+      byRange.set(key, segment);
+    }
+  });
+  return Array.from(byRange.values()).sort((a, b) => b.score - a.score).slice(0, limit);
+};
+
+export const resolveRankingMethod = (value: unknown): RankingMethod =>
+  RANKING_METHODS.includes(value as RankingMethod) ? value as RankingMethod : DEFAULT_RANKING_METHOD;
+
+// Clamp weights to 0..MAX_RANKING_WEIGHT; missing or invalid weights fall back to the defaults
+export const resolveRankingWeights = (value: unknown): RankingWeights => {
+  const input = (value && typeof value === 'object' ? value : {}) as Partial<Record<RankingSignal, unknown>>;
+  return RANKING_SIGNALS.reduce((weights, signal) => {
+    const weight = input[signal] == null || input[signal] === '' ? NaN : Number(input[signal]);
+    weights[signal] = Number.isFinite(weight) ? Math.min(Math.max(weight, 0), MAX_RANKING_WEIGHT) : DEFAULT_RANKING_WEIGHTS[signal];
+    return weights;
+  }, { ...DEFAULT_RANKING_WEIGHTS });
+};
+
+// Score and rank of every video in every signal's result list
+const collectCandidates = (signalResults: SignalResults) => {
+  const candidates = new Map<string, Candidate>();
+
+  RANKING_SIGNALS.forEach(signal => {
+    const results = [...(signalResults[signal] || [])].sort((a, b) => b.score - a.score);
+    let rank = 0;
+
+    results.forEach(result => {
+      const videoId = result.metadata?.tl_video_id;
+      if (!videoId) return;
+
+      const candidate = candidates.get(videoId) || { metadata: result.metadata, hits: {}, segments: [] };
+      if (candidate.hits[signal]) return;
+
+      rank += 1;
+      candidate.hits[signal] = { score: result.score, rank };
+      candidate.segments.push(...(result.segments || []).map(segment => ({ ...segment, signal })));
+      candidates.set(videoId, candidate);
+    });
+  });
+
+  return candidates;
+};
+
+// Per-signal contribution to the fused score, for the signals that found the video
+const scoreCandidate = (
+  candidate: Candidate,
+  method: RankingMethod,
+  weights: RankingWeights
+): { contributions: RankingContribution[]; overlapBoost?: number } => {
+  const hits = RANKING_SIGNALS.flatMap(signal => {
+    const hit = candidate.hits[signal];
+    return hit ? [{ signal, weight: weights[signal], ...hit }] : [];
+  });
+  const totalWeight = RANKING_SIGNALS.reduce((sum, signal) => sum + weights[signal], 0);
+
+  if (method === 'weighted') {
+    // Weighted average of similarities; a signal that missed the video counts as 0
+    return {
+      contributions: hits.map(hit => ({
+        ...hit,
+        contribution: totalWeight > 0 ? hit.weight * hit.score / totalWeight : 0,
+      })),
+    };
+  }
+
+  if (method === 'rrf') {
+    // Normalized so a video ranked first by every signal scores 1
+    const best = totalWeight / (RRF_K + 1);
+    return {
+      contributions: hits.map(hit => ({
+        ...hit,
+        contribution: best > 0 ? hit.weight / (RRF_K + hit.rank) / best : 0,
+      })),
+    };
+  }
+
+  // max: only the strongest weighted signal counts, boosted when text and visual agree
+  const hasText = TEXT_SIGNALS.some(signal => candidate.hits[signal]);
+  const overlapBoost = hasText && candidate.hits.visual ? OVERLAP_BOOST : 1;
+  const weighted = hits.map(hit => hit.weight * hit.score);
+  const strongest = weighted.indexOf(Math.max(...weighted));
+
+  return {
+    contributions: hits.map((hit, index) => ({
+      ...hit,
+      contribution: index === strongest ? weighted[index] * overlapBoost : 0,
+    })),
+    overlapBoost,
+  };
+};
+
+// Fuse the tag, title and visual result lists into one ranking
+export const fuseRankings = (
+  signalResults: SignalResults,
+  { method = DEFAULT_RANKING_METHOD, weights = DEFAULT_RANKING_WEIGHTS }: { method?: RankingMethod; weights?: RankingWeights } = {}
+): EmbeddingSearchResult[] => {
+  const fused = Array.from(collectCandidates(signalResults).values())
+    // A video found only by signals weighted 0 has nothing to rank it by
+    .filter(candidate => RANKING_SIGNALS.some(signal => candidate.hits[signal] && weights[signal] > 0))
+    .map(candidate => {
+      const { contributions, overlapBoost } = scoreCandidate(candidate, method, weights);
+      const hasText = TEXT_SIGNALS.some(signal => candidate.hits[signal]);
+      const textScores = TEXT_SIGNALS.map(signal => candidate.hits[signal]?.score || 0);
+
+      const result: EmbeddingSearchResult = {
+        score: contributions.reduce((sum, item) => sum + item.contribution, 0),
+        metadata: candidate.metadata,
+        originalSource: hasText && candidate.hits.visual ? 'BOTH' : hasText ? 'TEXT' : 'VIDEO',
+        textScore: Math.max(...textScores),
+        videoScore: candidate.hits.visual?.score || 0,
+        contributions,
+        segments: mergeSegments(candidate.segments),
+      };
+      if (overlapBoost !== undefined) result.overlapBoost = overlapBoost;
+      return result;
+    })
+    .sort((a, b) => b.score - a.score);
+
+  return fused.map((result, index) => ({ ...result, rank: index + 1 }));
+};
@@ -0,0 +1,80 @@
+import { createHash } from 'crypto';
+import { ResultCacheEntry, ResultCacheKind, ResultCacheStats } from '@/types';
+import { createLocalCollection, LocalCollection } from '@/utils/localData';
+
+// Short hash of everything that shapes the output (prompt text, schema, ...)
+export const getPromptVersion = (...parts: unknown[]): string => {
+  const hash = createHash('sha256');
+  parts.forEach(part => hash.update(typeof part === 'string' ? part : JSON.stringify(part ?? null)));
+  return hash.digest('hex').slice(0, 12);
+};
+
+// `model` is the generation model that produced the result (see getIndexGenerationModel), so switching
+// models doesn't serve stale results
+const buildCacheKey = (kind: ResultCacheKind, videoId: string, promptVersion: string, model: string) =>
+  `${kind}:${videoId}:${promptVersion}:${model}`;
+
+const createResultCache = (store: LocalCollection<ResultCacheEntry>) => ({
+  async get<T>(kind: ResultCacheKind, videoId: string, promptVersion: string, model: string): Promise<ResultCacheEntry<T> | undefined> {
+    const entry = await store.get(buildCacheKey(kind, videoId, promptVersion, model));
+    return entry as ResultCacheEntry<T> | undefined;
+  },
+
+  async set<T>(kind: ResultCacheKind, videoId: string, promptVersion: string, model: string, value: T): Promise<ResultCacheEntry<T>> {
+    const entry: ResultCacheEntry<T> = {
+      key: buildCacheKey(kind, videoId, promptVersion, model),
+      kind,
+      videoId,
+      promptVersion,
+      model,
+      value,
+      createdAt: new Date().toISOString(),
+    };
+    await store.put(entry.key, entry);
+    return entry;
+  },
+
+  // Most recent entry of a kind for a video, whatever prompt produced it
+  async latest<T>(kind: ResultCacheKind, videoId: string): Promise<ResultCacheEntry<T> | undefined> {
+    const entries = (await store.list())
+      .filter(entry => entry.kind === kind && entry.videoId === videoId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return entries[0] as ResultCacheEntry<T> | undefined;
+  },
+
+  // Drop entries matching the filter (everything when no filter is given); returns how many were removed
+  async invalidate({ kind, videoId }: { kind?: ResultCacheKind; videoId?: string } = {}): Promise<number> {
+    const entries = (await store.list()).filter(entry =>
+      (!kind || entry.kind === kind) && (!videoId || entry.videoId === videoId)
+    );
+    return store.removeMany(entries.map(entry => entry.key));
+  },
+
+  async stats(): Promise<ResultCacheStats> {
+    const entries = await store.list();
+    const dates = entries.map(entry => entry.createdAt).sort();
+    return {
+      total: entries.length,
+      byKind: {
+        chapters: entries.filter(entry => entry.kind === 'chapters').length,
+        analysis: entries.filter(entry => entry.kind === 'analysis').length,
+      },
+      oldest: dates[0],
+      newest: dates[dates.length - 1],
+    };
+  },
+});
+
+export type ResultCache = ReturnType<typeof createResultCache>;
+
+let resultCache: ResultCache | null = null;
+
+// Generated chapters and analysis results (LOCAL_DATA_DIR/result-cache.json)
+export const getResultCache = (): ResultCache => {
+  if (!resultCache) {
+    resultCache = createResultCache(
+      createLocalCollection<ResultCacheEntry>(process.env.RESULT_CACHE_PATH || 'result-cache.json')
+    );
+  }
+  return resultCache;
+};
@@ -0,0 +1,33 @@
+import { UserAccount, UserRole } from '@/types';
+
+// Lowest to highest; each role can do everything the ones before it can
+export const USER_ROLES: UserRole[] = ['viewer', 'editor', 'admin'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  viewer: 'Viewer',
+  editor: 'Editor',
+  admin: 'Admin',
+};
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === 'string' && USER_ROLES.includes(value as UserRole);
+
+export const hasRole = (user: Pick<UserAccount, 'role'> | null | undefined, required: UserRole): boolean =>
+  !!user && USER_ROLES.indexOf(user.role) >= USER_ROLES.indexOf(required);
+
+const NEXT_PATH_BASE = 'http://localhost';
+
+// Browsers read `/\host` as `//host`, and drop tabs and newlines from URLs
+const hasUnsafeCharacter = (path: string) =>
+  [...path].some(char => char === '\\' || char.charCodeAt(0) < 0x20 || char.charCodeAt(0) === 0x7f);
+
+// Page to return to after sign-in; only same-site paths are allowed
+export const sanitizeNextPath = (next: string | null | undefined): string => {
+  if (!next || !next.startsWith('/') || hasUnsafeCharacter(next)) return '/';
+  try {
+    const url = new URL(next, NEXT_PATH_BASE);
+    return url.origin === NEXT_PATH_BASE ? `${url.pathname}${url.search}${url.hash}` : '/';
+  } catch {
+    return '/';
+  }
+};
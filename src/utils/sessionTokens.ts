@@ -0,0 +1,235 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { IssuedSessionToken, SessionTokenRecord, SessionTokenRequest, SessionTokenScope, Workspace } from '@/types';
+import { createLocalCollection, LocalCollection } from '@/utils/localData';
+
+export const SESSION_TOKEN_SCOPES: SessionTokenScope[] = [
+  'indexes:read', 'videos:read', 'videos:write', 'tasks:read', 'tasks:create', 'search',
+];
+
+// Read-only access unless more is asked for
+const DEFAULT_SCOPES: SessionTokenScope[] = ['videos:read', 'search'];
+export const DEFAULT_TOKEN_TTL_SEC = 15 * 60;
+export const MAX_TOKEN_TTL_SEC = 60 * 60;
+
+const TOKEN_PREFIX = 'st1';
+
+// Error for token requests and checks, carrying the HTTP status a route should answer with
+export class SessionTokenError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'SessionTokenError';
+    this.status = status;
+  }
+}
+
+type TokenPayload = {
+  id: string;
+  scopes: SessionTokenScope[];
+  indexIds: string[];
+  exp: number; // unix seconds
+};
+
+// SESSION_TOKEN_SECRET signs tokens; without it a key is derived from the TwelveLabs key, which never leaves the server
+const getSigningKey = () => {
+  const secret = process.env.SESSION_TOKEN_SECRET;
+  if (secret) return secret;
+
+  const apiKey = process.env.TWELVELABS_API_KEY;
+  if (!apiKey) {
+    throw new SessionTokenError('SESSION_TOKEN_SECRET or TWELVELABS_API_KEY must be configured', 500);
+  }
+  return createHash('sha256').update(`session-tokens:${apiKey}`).digest('hex');
+};
+
+const sign = (data: string) => createHmac('sha256', getSigningKey()).update(data).digest('base64url');
+
+// Indexes tokens may be issued for: the workspace's own (override with SESSION_TOKEN_INDEX_IDS, comma separated)
+export const getTokenIndexIds = (workspace: Workspace): string[] => {
+  const configured = process.env.SESSION_TOKEN_INDEX_IDS
+    ? process.env.SESSION_TOKEN_INDEX_IDS.split(',')
+    : [workspace.adsIndexId, workspace.contentIndexId];
+  return Array.from(new Set(configured.map(id => id.trim()).filter(Boolean)));
+};
+
+const validateTokenRequest = (request: SessionTokenRequest, allowedIndexIds: string[]) => {
+  const scopes = request.scopes === undefined ? DEFAULT_SCOPES : Array.from(new Set(request.scopes));
+  const indexIds = request.indexIds === undefined ? allowedIndexIds : Array.from(new Set(request.indexIds));
+  const ttlSec = request.ttlSec ?? DEFAULT_TOKEN_TTL_SEC;
+
+  const errors: string[] = [];
+  if (!Array.isArray(scopes) || scopes.length === 0) {
+    errors.push('scopes must list at least one scope');
+  } else {
+    const unknown = scopes.filter(scope => !SESSION_TOKEN_SCOPES.includes(scope));
+    if (unknown.length > 0) errors.push(`unknown scopes: ${unknown.join(', ')} (allowed: ${SESSION_TOKEN_SCOPES.join(', ')})`);
+  }
+  if (!Array.isArray(indexIds) || indexIds.length === 0) {
+    errors.push('indexIds must list at least one index');
+  } else {
+    const denied = indexIds.filter(id => !allowedIndexIds.includes(id));
+    if (denied.length > 0) errors.push(`tokens cannot be issued for indexes: ${denied.join(', ')}`);
+  }
+  if (!Number.isFinite(ttlSec) || ttlSec <= 0 || ttlSec > MAX_TOKEN_TTL_SEC) {
+    errors.push(`ttlSec must be between 1 and ${MAX_TOKEN_TTL_SEC}`);
+  }
+
+  if (errors.length > 0) {
+    throw new SessionTokenError(errors.join('; '));
+  }
+  return { scopes, indexIds, ttlSec };
+};
+
+const createSessionTokenService = (store: LocalCollection<SessionTokenRecord>) => {
+  // Expired records are only kept until the next issue
+  const purgeExpired = async () => {
+    const now = new Date().toISOString();
+    for (const record of await store.list()) {
+      if (record.expiresAt < now) await store.remove(record.id);
+    }
+  };
+
+  return {
+    async issue(request: SessionTokenRequest, workspace: Workspace): Promise<IssuedSessionToken> {
+      const { scopes, indexIds, ttlSec } = validateTokenRequest(request, getTokenIndexIds(workspace));
+      await purgeExpired();
+
+      const issuedAt = Date.now();
+      const payload: TokenPayload = {
+        id: `token-${issuedAt}-${randomBytes(6).toString('hex')}`,
+        scopes,
+        indexIds,
+        exp: Math.floor(issuedAt / 1000) + Math.round(ttlSec),
+      };
+      const record: SessionTokenRecord = {
+        id: payload.id,
+        scopes,
+        indexIds,
+        label: request.label?.trim() || undefined,
+        issuedAt: new Date(issuedAt).toISOString(),
+        expiresAt: new Date(payload.exp * 1000).toISOString(),
+      };
+      await store.put(record.id, record);
+
+      const body = Buffer.from(JSON.stringify(payload)).toString('base64url');
+      return { ...record, token: `${TOKEN_PREFIX}.${body}.${sign(`${TOKEN_PREFIX}.${body}`)}` };
+    },
+
+    // Tokens that are neither expired nor revoked, newest first
+    async listActive(): Promise<SessionTokenRecord[]> {
+      const now = new Date().toISOString();
+      return (await store.list())
+        .filter(record => !record.revokedAt && record.expiresAt >= now)
+        .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+    },
+
+    async revoke(tokenId: string): Promise<SessionTokenRecord> {
+      const record = await store.get(tokenId);
+      if (!record) {
+        throw new SessionTokenError(`Token ${tokenId} not found`, 404);
+      }
+      const revoked = { ...record, revokedAt: record.revokedAt || new Date().toISOString() };
+      await store.put(tokenId, revoked);
+      return revoked;
+    },
+
+    // The token's record if its signature, expiry and revocation check out; 401 otherwise
+    async verify(token: string): Promise<SessionTokenRecord> {
+      const [prefix, body, signature] = token.split('.');
+      if (prefix !== TOKEN_PREFIX || !body || !signature) {
+        throw new SessionTokenError('Malformed session token', 401);
+      }
+
+      const expected = Buffer.from(sign(`${prefix}.${body}`));
+      const actual = Buffer.from(signature);
+      if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        throw new SessionTokenError('Invalid session token', 401);
+      }
+
+      const payload = JSON.parse(Buffer.from(body, 'base64url').toString('utf8')) as TokenPayload;
+      if (payload.exp * 1000 <= Date.now()) {
+        throw new SessionTokenError('Session token expired', 401);
+      }
+
+      const record = await store.get(payload.id);
+      if (!record || record.revokedAt) {
+        throw new SessionTokenError('Session token revoked', 401);
+      }
+      return record;
+    },
+  };
+};
+
+export type SessionTokenService = ReturnType<typeof createSessionTokenService>;
+
+let sessionTokenService: SessionTokenService | null = null;
+
+// Issued tokens saved in LOCAL_DATA_DIR/session-tokens.json (override with SESSION_TOKENS_PATH)
+export const getSessionTokenService = (): SessionTokenService => {
+  if (!sessionTokenService) {
+    sessionTokenService = createSessionTokenService(
+      createLocalCollection<SessionTokenRecord>(process.env.SESSION_TOKENS_PATH || 'session-tokens.json')
+    );
+  }
+  return sessionTokenService;
+};
+
+// The bearer token of a request (Authorization header, or x-session-token for clients that can't set it)
+export const getRequestToken = (req: Request): string | null => {
+  const authorization = req.headers.get('authorization');
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : req.headers.get('x-session-token');
+};
+
+// Permission a proxied TwelveLabs call needs. indexId is the index it touches when the request names one;
+// null means the call isn't allowed through the proxy at all.
+export type ProxyOperation = { scope: SessionTokenScope; indexId?: string };
+
+export const resolveProxyOperation = (
+  method: string,
+  path: string[],
+  { query, form }: { query: URLSearchParams; form?: FormData }
+): ProxyOperation | null => {
+  // URL resolution would fold "." and ".." into another path than the one authorized here
+  if (path.some(segment => segment === '' || segment === '.' || segment === '..')) return null;
+  const [resource, id, sub, subId, ...rest] = path;
+  if (rest.length > 0) return null;
+  // Only one index is checked below, and the whole query and form are forwarded
+  if (query.getAll('index_id').length > 1 || (form?.getAll('index_id').length || 0) > 1) {
+    throw new SessionTokenError('index_id may only be given once');
+  }
+  const formIndexId = form?.get('index_id');
+  const bodyIndexId = typeof formIndexId === 'string' ? formIndexId : undefined;
+
+  if (resource === 'indexes' && id) {
+    if (!sub && method === 'GET') return { scope: 'indexes:read', indexId: id };
+    if (sub === 'videos' && method === 'GET') return { scope: 'videos:read', indexId: id };
+    if (sub === 'videos' && subId && method === 'PUT') return { scope: 'videos:write', indexId: id };
+    return null;
+  }
+
+  if (resource === 'tasks' && !sub) {
+    if (method === 'GET') return { scope: 'tasks:read', indexId: id ? undefined : query.get('index_id') || '' };
+    if (method === 'POST' && !id) return { scope: 'tasks:create', indexId: bodyIndexId || '' };
+    return null;
+  }
+
+  if (resource === 'search' && !sub) {
+    // A page token can only come from a search the token was allowed to run
+    if (method === 'GET' && id) return { scope: 'search' };
+    if (method === 'POST' && !id) return { scope: 'search', indexId: bodyIndexId || '' };
+  }
+
+  return null;
+};
+
+// 403 unless the token has the operation's scope and, when the call names an index, that index
+export const authorizeProxyOperation = (record: SessionTokenRecord, operation: ProxyOperation) => {
+  if (!record.scopes.includes(operation.scope)) {
+    throw new SessionTokenError(`Token lacks the ${operation.scope} scope`, 403);
+  }
+  if (operation.indexId !== undefined && !record.indexIds.includes(operation.indexId)) {
+    throw new SessionTokenError(operation.indexId ? `Token is not valid for index ${operation.indexId}` : 'index_id is required', 403);
+  }
+};
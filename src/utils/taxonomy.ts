@@ -0,0 +1,232 @@
+import { GeneratedMetadata, Taxonomy, TaxonomyCategory } from '@/types';
+import taxonomyConfig from '../../taxonomy.json';
+
+const DEFAULT_COLUMN_WIDTH = '110px';
+
+// Fill in defaults and catch config mistakes early (duplicate ids, closed lists without values)
+export const loadTaxonomy = (config: Taxonomy): Taxonomy => {
+  if (!Array.isArray(config?.categories) || config.categories.length === 0) {
+    throw new Error('A taxonomy needs at least one category');
+  }
+  const seen = new Set<string>();
+
+  const categories = config.categories.map(category => {
+    if (!category.id || !category.field || !category.label) {
+      throw new Error(`Invalid taxonomy category: ${JSON.stringify(category)}`);
+    }
+    if (category.type !== 'closed' && category.type !== 'free') {
+      throw new Error(`Taxonomy category "${category.id}" needs a type of "closed" or "free"`);
+    }
+    if (seen.has(category.id)) {
+      throw new Error(`Duplicate taxonomy category id: ${category.id}`);
+    }
+    if (category.type === 'closed' && !category.values?.length) {
+      throw new Error(`Closed taxonomy category "${category.id}" needs at least one value`);
+    }
+    seen.add(category.id);
+
+    return {
+      ...category,
+      promptLabel: category.promptLabel || category.label,
+      aliases: category.aliases || [],
+      values: category.values || [],
+      synonyms: category.synonyms || {},
+      legacyKeywords: category.legacyKeywords || [],
+      generated: category.generated !== false,
+      filterable: category.filterable !== false,
+      width: category.width || DEFAULT_COLUMN_WIDTH,
+    };
+  });
+
+  return { categories };
+};
+
+const defaultTaxonomy = loadTaxonomy(taxonomyConfig as Taxonomy);
+
+// The shared taxonomy.json, used by workspaces without their own taxonomy. The helpers below take the
+// workspace's taxonomy explicitly: the request's on the server, useTaxonomy() in components.
+export const getDefaultTaxonomy = (): Taxonomy => defaultTaxonomy;
+
+// Categories the analyze prompt asks the model to fill in
+export const getGeneratedCategories = (taxonomy: Taxonomy) =>
+  taxonomy.categories.filter(category => category.generated);
+
+export const getFilterableCategories = (taxonomy: Taxonomy) =>
+  taxonomy.categories.filter(category => category.filterable);
+
+// Look up a category by id, stored field name or label (case-insensitive)
+export const findTaxonomyCategory = (key: string, taxonomy: Taxonomy): TaxonomyCategory | undefined => {
+  const normalizedKey = key.trim().toLowerCase();
+  return taxonomy.categories.find(category =>
+    category.id.toLowerCase() === normalizedKey ||
+    category.field.toLowerCase() === normalizedKey ||
+    category.label.toLowerCase() === normalizedKey
+  );
+};
+
+// Find the category a key in the model output refers to (id, prompt label, label or alias)
+export const findCategoryByOutputKey = (key: string, taxonomy: Taxonomy): TaxonomyCategory | undefined => {
+  const normalizedLabel = key.trim().toLowerCase();
+  return taxonomy.categories.find(category =>
+    [category.id, category.promptLabel, category.label, ...(category.aliases || [])]
+      .some(candidate => candidate?.toLowerCase() === normalizedLabel)
+  );
+};
+
+export const splitTagValues = (value: string): string[] => {
+  return value.split(',').map(part => part.trim().replace(/^#/, '')).filter(part => part !== '');
+};
+
+// Canonical form of a value, or null when a closed category doesn't allow it
+export const normalizeTaxonomyValue = (category: TaxonomyCategory, value: string): string | null => {
+  const trimmed = value.trim().replace(/^#/, '');
+  if (!trimmed) return null;
+
+  const lower = trimmed.toLowerCase();
+  const allowed = (category.values || []).find(candidate => candidate.toLowerCase() === lower);
+  if (allowed) return category.type === 'closed' ? allowed : trimmed;
+
+  const synonymKey = Object.keys(category.synonyms || {}).find(candidate => candidate.toLowerCase() === lower);
+  if (synonymKey) return category.synonyms![synonymKey];
+
+  return category.type === 'closed' ? null : trimmed;
+};
+
+// Split a comma-separated value into accepted (canonicalized) and rejected parts
+export const validateTaxonomyValues = (category: TaxonomyCategory, value: string) => {
+  const accepted: string[] = [];
+  const invalid: string[] = [];
+
+  splitTagValues(value).forEach(part => {
+    const normalized = normalizeTaxonomyValue(category, part);
+    if (normalized === null) {
+      invalid.push(part);
+    } else if (!accepted.some(existing => existing.toLowerCase() === normalized.toLowerCase())) {
+      accepted.push(normalized);
+    }
+  });
+
+  return { value: accepted.join(', '), invalid };
+};
+
+// Tags from the old plain-text analyze output: "Topic: Beauty" lines, or before that bare hashtags.
+// Hashtags go to the category listing them as a value, synonym or legacy keyword; unmatched ones fill
+// empty categories in `legacyFallback` order (location, then brand), as the old parser did.
+export const parseLegacyHashtags = (text: string, taxonomy: Taxonomy): GeneratedMetadata => {
+  const categories = getGeneratedCategories(taxonomy);
+  const metadata: GeneratedMetadata = {};
+  categories.forEach(category => {
+    metadata[category.id] = [];
+  });
+
+  const addTag = (category: TaxonomyCategory, value: string | null) => {
+    const tags = metadata[category.id];
+    if (value && !tags.some(tag => tag.toLowerCase() === value.toLowerCase())) {
+      tags.push(value);
+    }
+  };
+
+  let hasLabeledLines = false;
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(/^([^:#]+):\s*(.*)$/);
+    const category = match && findCategoryByOutputKey(match[1], taxonomy);
+    if (!match || !category || !(category.id in metadata)) continue;
+
+    hasLabeledLines = true;
+    splitTagValues(match[2]).forEach(value => addTag(category, normalizeTaxonomyValue(category, value)));
+  }
+  if (hasLabeledLines) return metadata;
+
+  const isKnownTag = (category: TaxonomyCategory, tag: string) =>
+    [...(category.values || []), ...Object.keys(category.synonyms || {}), ...(category.legacyKeywords || [])]
+      .some(candidate => candidate.toLowerCase() === tag);
+
+  const unclassifiedTags: string[] = [];
+  text.split(/\s+/).filter(tag => tag.startsWith('#')).forEach(tag => {
+    const cleanTag = tag.slice(1).toLowerCase();
+    const category = categories.find(candidate => isKnownTag(candidate, cleanTag));
+    if (category) {
+      addTag(category, normalizeTaxonomyValue(category, cleanTag) ?? cleanTag);
+    } else if (cleanTag) {
+      unclassifiedTags.push(cleanTag);
+    }
+  });
+
+  categories
+    .filter(category => category.legacyFallback !== undefined)
+    .sort((a, b) => (a.legacyFallback ?? 0) - (b.legacyFallback ?? 0))
+    .forEach(category => {
+      if (metadata[category.id].length > 0) return;
+      const tag = unclassifiedTags.shift();
+      if (tag) addTag(category, tag);
+    });
+
+  return metadata;
+};
+
+// Map stored user_metadata onto the UI metadata keys (category ids)
+export const mapUserMetadataToItem = (
+  userMetadata: Record<string, unknown> | undefined,
+  taxonomy: Taxonomy
+): Record<string, string> => {
+  const metadata: Record<string, string> = {};
+  if (!userMetadata) return metadata;
+
+  taxonomy.categories.forEach(category => {
+    const value = userMetadata[category.field] ?? userMetadata[category.id];
+    if (typeof value === 'string') {
+      metadata[category.id] = value;
+    }
+  });
+
+  return metadata;
+};
+
+// Prompt for the analyze endpoint, built from the generated categories
+// The model answers with a JSON object keyed by category id (see metadataSchema.ts)
+export const buildTaggingPrompt = (taxonomy: Taxonomy): string => {
+  const categories = getGeneratedCategories(taxonomy);
+  const closedCategories = categories.filter(category => category.type === 'closed');
+  const freeCategories = categories.filter(category => category.type === 'free');
+
+  const keys = categories
+    .map(category => `  - "${category.id}": ${category.promptLabel}`)
+    .join('\n');
+
+  const allowedValues = closedCategories
+    .map(category => `${category.id}: ${(category.values || []).join(', ')}`)
+    .join('\n');
+
+  const freeKeys = freeCategories.map(category => `"${category.id}"`).join(' and ');
+
+  const example: Record<string, string[]> = {};
+  categories.forEach(category => {
+    example[category.id] = [category.values?.[0] || 'example'];
+  });
+
+  return `You are a marketing assistant specialized in tagging video content.
+
+Based on the input video, return the tags for each category below.
+
+**Output Format:**
+Return a single JSON object and nothing else. Each key is a category id and each value is an array of strings.
+Keys:
+${keys}
+
+
+**Allowed Values:**
+
+${allowedValues}
+
+**Instructions:**
+
+1. Use only the values provided in Allowed Values, spelled exactly as listed.
+2. Do not invent new values${freeKeys ? ` except for ${freeKeys}` : ''}, which may contain any value seen or heard in the video.
+3. Every key must be present with at least one value.
+4. Do not output any explanations, markdown or code fences—only the JSON object.
+
+**Output Example:**
+
+${JSON.stringify(example, null, 2)}
+`;
+};
@@ -0,0 +1,455 @@
+import {
+  ChaptersResponse,
+  IndexResponse,
+  IndexingTask,
+  SearchResult,
+  VideoData,
+} from '@/types';
+
+const DEFAULT_BASE_URL = 'https://api.twelvelabs.io/v1.3';
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRIES = 2;
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+// A gateway error doesn't say whether a POST was applied, so POSTs are only retried when rate limited
+const POST_RETRYABLE_STATUSES = [429];
+
+// Error raised for any failed TwelveLabs call, carrying the upstream status
+export class TwelveLabsError extends Error {
+  status: number;
+  code?: string;
+  details?: unknown;
+
+  constructor(message: string, status: number, code?: string, details?: unknown) {
+    super(message);
+    this.name = 'TwelveLabsError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// HTTP status a route should answer with for an error thrown by the client
+export const getErrorStatus = (error: unknown): number => {
+  return error instanceof TwelveLabsError ? error.status : 500;
+};
+
+export const getErrorMessage = (error: unknown): string => {
+  return error instanceof Error ? error.message : 'Unknown error';
+};
+
+type QueryValue = string | number | boolean | string[] | undefined;
+
+type RequestOptions = {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  query?: Record<string, QueryValue>;
+  json?: unknown;
+  form?: FormData;
+  stream?: { body: ReadableStream<Uint8Array>; contentType: string };
+  timeoutMs?: number;
+  retries?: number;
+};
+
+export type TwelveLabsClientOptions = {
+  apiKey?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  retries?: number;
+};
+
+export type TwelveLabsPageInfo = {
+  page: number;
+  limit_per_page: number;
+  total_page: number;
+  total_results: number;
+  total_duration?: number;
+};
+
+export type VideoListResponse = {
+  data: VideoData[];
+  page_info: TwelveLabsPageInfo;
+};
+
+export type VideoUpdateBody = {
+  user_metadata?: Record<string, unknown>;
+  system_metadata?: Record<string, string | undefined>;
+};
+
+export type TaskListResponse = {
+  data: IndexingTask[];
+  page_info?: Partial<TwelveLabsPageInfo>;
+};
+
+export type CreateTaskOptions = {
+  indexId: string;
+  // A stream is forwarded as it arrives instead of being held in memory
+  file?: Blob | ReadableStream<Uint8Array>;
+  filename?: string;
+  videoUrl?: string;
+};
+
+export type CreateTaskResponse = {
+  _id: string;
+  video_id?: string;
+};
+
+export type SearchOptions = {
+  indexId: string;
+  queryText: string;
+  searchOptions?: string[];
+  adjustConfidenceLevel?: number;
+  page?: number;
+  pageSize?: number;
+  offset?: number;
+};
+
+export type SearchResponse = {
+  data: SearchResult[];
+  page_info?: {
+    total_results?: number;
+    next_page_token?: string;
+    prev_page_token?: string;
+    page_expires_at?: string;
+    [key: string]: unknown;
+  };
+  search_pool?: {
+    index_id?: string;
+    [key: string]: unknown;
+  };
+};
+
+export type TextEmbeddingResponse = {
+  model_name?: string;
+  text_embedding: {
+    segments: Array<{ float: number[] }>;
+  };
+};
+
+export type AnalyzeResponse = {
+  id?: string;
+  data: string;
+  finish_reason?: string;
+  usage?: Record<string, number>;
+};
+
+export type AnalyzeOptions = {
+  timeoutMs?: number;
+  temperature?: number;
+  // Ask for structured output, e.g. { type: 'json_schema', json_schema: {...} }
+  responseFormat?: { type: 'json_schema'; json_schema: Record<string, unknown> };
+};
+
+export type SummarizeOptions = {
+  videoId: string;
+  type: 'summary' | 'chapter' | 'highlight';
+  prompt?: string;
+};
+
+// An id or page token as one URL path segment. Encoding keeps "/" and "?" inside the segment; "." and ".."
+// are refused because URL resolution would still fold them into another endpoint. Methods using it are
+// async, so a refused id rejects like any other API error.
+const pathSegment = (value: string): string => {
+  if (!value || value === '.' || value === '..') {
+    throw new TwelveLabsError(`Invalid id in TwelveLabs path: "${value}"`, 400, 'invalid_id');
+  }
+  return encodeURIComponent(value);
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Wrap a file stream in a multipart/form-data body without buffering it
+const streamMultipart = (
+  fields: Record<string, string>,
+  file: { name: string; filename: string; body: ReadableStream<Uint8Array> }
+): { body: ReadableStream<Uint8Array>; contentType: string } => {
+  const boundary = `----twelvelabs-${crypto.randomUUID()}`;
+  const encoder = new TextEncoder();
+  const filename = file.filename.replace(/["\r\n\\]/g, '_');
+  const head = Object.entries(fields)
+    .map(([name, value]) => `--${boundary}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`)
+    .join('');
+  const reader = file.body.getReader();
+  let started = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        controller.enqueue(encoder.encode(
+          `${head}--${boundary}\r\nContent-Disposition: form-data; name="${file.name}"; filename="${filename}"\r\n` +
+          'Content-Type: application/octet-stream\r\n\r\n'
+        ));
+        return;
+      }
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.enqueue(encoder.encode(`\r\n--${boundary}--\r\n`));
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return { body, contentType: `multipart/form-data; boundary=${boundary}` };
+};
+
+// Pull a readable message/code out of a TwelveLabs error body
+const parseErrorBody = (text: string): { message?: string; code?: string; body: unknown } => {
+  try {
+    const body = JSON.parse(text);
+    return { message: body?.message, code: body?.code, body };
+  } catch {
+    return { message: text || undefined, body: text };
+  }
+};
+
+export const createTwelveLabsClient = (options: TwelveLabsClientOptions = {}) => {
+  const apiKey = options.apiKey ?? process.env.TWELVELABS_API_KEY;
+  const baseUrl = (options.baseUrl ?? process.env.TWELVELABS_API_BASE_URL ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const defaultTimeoutMs = options.timeoutMs ?? (Number(process.env.TWELVELABS_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS);
+  const defaultRetries = options.retries ?? DEFAULT_RETRIES;
+
+  const buildUrl = (path: string, query?: Record<string, QueryValue>) => {
+    const url = new URL(`${baseUrl}${path}`);
+    Object.entries(query || {}).forEach(([key, value]) => {
+      if (value === undefined) return;
+      if (Array.isArray(value)) {
+        value.forEach(item => url.searchParams.append(key, item));
+      } else {
+        url.searchParams.append(key, String(value));
+      }
+    });
+    return url.toString();
+  };
+
+  const request = async <T>(path: string, requestOptions: RequestOptions = {}): Promise<T> => {
+    if (!apiKey) {
+      throw new TwelveLabsError('TwelveLabs API key is not configured', 500, 'missing_api_key');
+    }
+
+    const method = requestOptions.method || 'GET';
+    const timeoutMs = requestOptions.timeoutMs ?? defaultTimeoutMs;
+    const retries = requestOptions.retries ?? defaultRetries;
+    const url = buildUrl(path, requestOptions.query);
+
+    const headers: Record<string, string> = {
+      'x-api-key': apiKey,
+      'Accept': 'application/json',
+    };
+    if (requestOptions.json !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (requestOptions.stream) {
+      headers['Content-Type'] = requestOptions.stream.contentType;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        // Node's fetch needs `duplex` to send a stream body
+        const init: RequestInit & { duplex?: 'half' } = {
+          method,
+          headers,
+          body: requestOptions.stream?.body ?? requestOptions.form ??
+            (requestOptions.json !== undefined ? JSON.stringify(requestOptions.json) : undefined),
+          signal: controller.signal,
+        };
+        if (requestOptions.stream) init.duplex = 'half';
+        const response = await fetch(url, init);
+
+        if (!response.ok) {
+          const text = await response.text();
+          const { message, code, body } = parseErrorBody(text);
+
+          const retryable = method === 'POST' ? POST_RETRYABLE_STATUSES : RETRYABLE_STATUSES;
+          if (retryable.includes(response.status) && attempt < retries) {
+            const retryAfter = Number(response.headers.get('retry-after'));
+            await sleep(retryAfter > 0 ? retryAfter * 1000 : 500 * 2 ** attempt);
+            continue;
+          }
+
+          throw new TwelveLabsError(
+            `TwelveLabs API error (${response.status}): ${message || response.statusText}`,
+            response.status,
+            code,
+            body
+          );
+        }
+
+        const text = await response.text();
+        return (text ? JSON.parse(text) : {}) as T;
+      } catch (error) {
+        if (error instanceof TwelveLabsError) throw error;
+
+        const isTimeout = error instanceof Error && error.name === 'AbortError';
+        // Only replay network failures for reads; writes may already have been applied
+        if (method === 'GET' && attempt < retries) {
+          await sleep(500 * 2 ** attempt);
+          continue;
+        }
+
+        throw new TwelveLabsError(
+          isTimeout
+            ? `TwelveLabs API request timed out after ${timeoutMs}ms`
+            : `TwelveLabs API request failed: ${getErrorMessage(error)}`,
+          isTimeout ? 504 : 502,
+          isTimeout ? 'timeout' : 'network_error'
+        );
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  };
+
+  return {
+    baseUrl,
+    isConfigured: () => !!apiKey,
+    request,
+
+    indexes: {
+      get: async (indexId: string) => request<IndexResponse>(`/indexes/${pathSegment(indexId)}`),
+    },
+
+    videos: {
+      list: async (indexId: string, { page = 1, pageLimit = 12 }: { page?: number; pageLimit?: number } = {}) =>
+        request<VideoListResponse>(`/indexes/${pathSegment(indexId)}/videos`, {
+          query: { page, page_limit: pageLimit },
+        }),
+
+      get: async (indexId: string, videoId: string, { embeddingOptions }: { embeddingOptions?: string[] } = {}) =>
+        request<VideoData & { embedding?: Record<string, unknown> }>(`/indexes/${pathSegment(indexId)}/videos/${pathSegment(videoId)}`, {
+          query: { embedding_option: embeddingOptions },
+        }),
+
+      update: async (indexId: string, videoId: string, body: VideoUpdateBody) =>
+        request<Record<string, unknown>>(`/indexes/${pathSegment(indexId)}/videos/${pathSegment(videoId)}`, {
+          method: 'PUT',
+          json: body,
+        }),
+    },
+
+    tasks: {
+      list: (indexId: string, { page = 1, pageLimit = 20 }: { page?: number; pageLimit?: number } = {}) =>
+        request<TaskListResponse>('/tasks', {
+          query: { index_id: indexId, page, page_size: pageLimit },
+        }),
+
+      get: async (taskId: string) => request<IndexingTask>(`/tasks/${pathSegment(taskId)}`),
+
+      // Start an indexing task from an uploaded file or a public video URL
+      create: ({ indexId, file, filename, videoUrl }: CreateTaskOptions) => {
+        // Uploads can be large, so don't cut them off at the default timeout or replay them
+        if (file instanceof ReadableStream) {
+          const stream = streamMultipart({ index_id: indexId }, { name: 'video_file', filename: filename || 'video.mp4', body: file });
+          return request<CreateTaskResponse>('/tasks', { method: 'POST', stream, timeoutMs: 10 * 60 * 1000, retries: 0 });
+        }
+
+        const form = new FormData();
+        form.append('index_id', indexId);
+        if (file) {
+          form.append('video_file', file, filename || 'video.mp4');
+        } else if (videoUrl) {
+          form.append('video_url', videoUrl);
+        }
+
+        return request<CreateTaskResponse>('/tasks', { method: 'POST', form, timeoutMs: 10 * 60 * 1000, retries: 0 });
+      },
+    },
+
+    search: {
+      query: ({ indexId, queryText, searchOptions = ['visual', 'audio'], adjustConfidenceLevel, page, pageSize, offset }: SearchOptions) => {
+        const form = new FormData();
+        searchOptions.forEach(option => form.append('search_options', option));
+        form.append('index_id', indexId);
+        form.append('query_text', queryText);
+        if (adjustConfidenceLevel !== undefined) form.append('adjust_confidence_level', String(adjustConfidenceLevel));
+        if (page !== undefined) form.append('page', String(page));
+        if (pageSize !== undefined) form.append('page_size', String(pageSize));
+        if (offset) form.append('offset', String(offset));
+
+        return request<SearchResponse>('/search', { method: 'POST', form });
+      },
+
+      retrieve: async (pageToken: string) => request<SearchResponse>(`/search/${pathSegment(pageToken)}`),
+    },
+
+    embed: {
+      text: (text: string, { modelName = 'Marengo-retrieval-2.7' }: { modelName?: string } = {}) => {
+        const form = new FormData();
+        form.append('text', text);
+        form.append('text_truncate', 'end');
+        form.append('model_name', modelName);
+
+        return request<TextEmbeddingResponse>('/embed', { method: 'POST', form });
+      },
+    },
+
+    analyze: (videoId: string, prompt: string, { timeoutMs = 60000, responseFormat, temperature }: AnalyzeOptions = {}) =>
+      request<AnalyzeResponse>('/analyze', {
+        method: 'POST',
+        json: { prompt, video_id: videoId, stream: false, response_format: responseFormat, temperature },
+        timeoutMs,
+      }),
+
+    summarize: ({ videoId, type, prompt }: SummarizeOptions, { timeoutMs = 60000 }: { timeoutMs?: number } = {}) =>
+      request<ChaptersResponse & Record<string, unknown>>('/summarize', {
+        method: 'POST',
+        json: { type, video_id: videoId, prompt },
+        timeoutMs,
+      }),
+  };
+};
+
+export type TwelveLabsClient = ReturnType<typeof createTwelveLabsClient>;
+
+let twelveLabsClient: TwelveLabsClient | null = null;
+
+// Shared client configured from TWELVELABS_API_KEY / TWELVELABS_API_BASE_URL
+export const getTwelveLabsClient = (): TwelveLabsClient => {
+  if (!twelveLabsClient) {
+    twelveLabsClient = createTwelveLabsClient();
+  }
+  return twelveLabsClient;
+};
+
+// Every video in an index, page by page (the API caps page_limit at 50)
+export const listAllIndexVideos = async (indexId: string, client: TwelveLabsClient = getTwelveLabsClient()): Promise<VideoData[]> => {
+  const videos: VideoData[] = [];
+  let page = 1;
+  let totalPages = 1;
+
+  do {
+    const response = await client.videos.list(indexId, { page, pageLimit: 50 });
+    videos.push(...(response.data || []));
+    totalPages = response.page_info?.total_page || 1;
+    page++;
+  } while (page <= totalPages);
+
+  return videos;
+};
+
+// An index's models are fixed when it is created, so each index is looked up once per process
+const generationModels = new Map<string, Promise<string>>();
+
+// The generative (Pegasus) model analyze/summarize run with for videos of an index
+export const getIndexGenerationModel = (indexId: string, client: TwelveLabsClient = getTwelveLabsClient()): Promise<string> => {
+  let model = generationModels.get(indexId);
+  if (!model) {
+    model = client.indexes.get(indexId).then(index => {
+      const name = index.models?.find(candidate => candidate.model_name.startsWith('pegasus'))?.model_name;
+      if (!name) {
+        throw new TwelveLabsError(`Index ${indexId} has no generative model`, 400, 'no_generative_model');
+      }
+      return name;
+    });
+    // Don't remember failed lookups
+    model.catch(() => generationModels.delete(indexId));
+    generationModels.set(indexId, model);
+  }
+  return model;
+};
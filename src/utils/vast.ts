@@ -0,0 +1,121 @@
+import { VastAd, VastTrackingEvent, VmapBreak } from '@/types';
+
+const AD_SYSTEM = 'Brand Integration Assistant';
+
+// Linear events written into <TrackingEvents>
+const LINEAR_TRACKING_EVENTS: VastTrackingEvent[] = [
+  'creativeView', 'start', 'firstQuartile', 'midpoint', 'thirdQuartile', 'complete', 'skip', 'pause', 'resume',
+];
+
+// Companion banner size written into the VAST; the preview scales the image to fit
+const COMPANION_WIDTH = 300;
+const COMPANION_HEIGHT = 250;
+
+export type VastBuildOptions = {
+  // Tracker URL for an ad's event; without it the document has no impression or tracking URLs
+  trackingUrl?: (adVideoId: string, event: VastTrackingEvent) => string;
+};
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// HH:MM:SS.mmm, the time format VAST durations and VMAP offsets use
+export const formatTimecode = (seconds: number): string => {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms, 3)}`;
+};
+
+const indent = (xml: string, spaces: number) =>
+  xml.split('\n').map(line => line ? `${' '.repeat(spaces)}${line}` : line).join('\n');
+
+const cdata = (value: string) => `<![CDATA[${value}]]>`;
+
+const buildVastAd = (ad: VastAd, sequence: number, { trackingUrl }: VastBuildOptions) => {
+  const size = ad.width && ad.height ? ` width="${ad.width}" height="${ad.height}"` : '';
+  const skipOffset = ad.skipOffset !== undefined ? ` skipoffset="${formatTimecode(ad.skipOffset)}"` : '';
+  const tracker = (event: VastTrackingEvent) => cdata(trackingUrl ? trackingUrl(ad.adVideoId, event) : '');
+
+  const trackingEvents = trackingUrl ? [
+    '          <TrackingEvents>',
+    ...LINEAR_TRACKING_EVENTS.map(event => `            <Tracking event="${event}">${tracker(event)}</Tracking>`),
+    '          </TrackingEvents>',
+  ] : [];
+
+  const companionAds = ad.companionImageUrl ? [
+    `      <Creative id="${escapeXml(ad.adVideoId)}-companion" sequence="1">`,
+    '        <CompanionAds>',
+    `          <Companion width="${COMPANION_WIDTH}" height="${COMPANION_HEIGHT}">`,
+    `            <StaticResource creativeType="image/jpeg">${cdata(ad.companionImageUrl)}</StaticResource>`,
+    ...(trackingUrl ? [
+      '            <TrackingEvents>',
+      `              <Tracking event="creativeView">${tracker('creativeView')}</Tracking>`,
+      '            </TrackingEvents>',
+    ] : []),
+    '          </Companion>',
+    '        </CompanionAds>',
+    '      </Creative>',
+  ] : [];
+
+  return [
+    `<Ad id="${escapeXml(ad.adVideoId)}" sequence="${sequence}">`,
+    '  <InLine>',
+    `    <AdSystem>${AD_SYSTEM}</AdSystem>`,
+    `    <AdTitle>${escapeXml(ad.title)}</AdTitle>`,
+    ...(trackingUrl ? [`    <Impression>${tracker('impression')}</Impression>`] : []),
+    '    <Creatives>',
+    `      <Creative id="${escapeXml(ad.adVideoId)}" sequence="1">`,
+    `        <Linear${skipOffset}>`,
+    `          <Duration>${formatTimecode(ad.duration || 0)}</Duration>`,
+    ...trackingEvents,
+    '          <MediaFiles>',
+    `            <MediaFile delivery="streaming" type="application/x-mpegURL"${size}>${cdata(ad.mediaUrl)}</MediaFile>`,
+    '          </MediaFiles>',
+    '        </Linear>',
+    '      </Creative>',
+    ...companionAds,
+    '    </Creatives>',
+    '  </InLine>',
+    '</Ad>',
+  ].join('\n');
+};
+
+// VAST 3.0 document with the ads as an ad pod, played in order
+export const buildVast = (ads: VastAd[], options: VastBuildOptions = {}): string => [
+  '<VAST version="3.0">',
+  ...ads.map((ad, index) => indent(buildVastAd(ad, index + 1, options), 2)),
+  '</VAST>',
+].join('\n');
+
+const getTimeOffset = (adBreak: VmapBreak) => {
+  if (adBreak.position === 'pre-roll') return 'start';
+  if (adBreak.position === 'post-roll') return 'end';
+  return formatTimecode(adBreak.time);
+};
+
+// VMAP 1.0 document with one ad break per entry, each carrying its pod as inline VAST
+export const buildVmap = (breaks: VmapBreak[], options: VastBuildOptions = {}): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<vmap:VMAP xmlns:vmap="http://www.iab.net/videosuite/vmap" version="1.0">',
+  ...breaks.map((adBreak, index) => {
+    const breakId = `${adBreak.position}-${index + 1}`;
+    return [
+      `  <vmap:AdBreak timeOffset="${getTimeOffset(adBreak)}" breakType="linear" breakId="${breakId}">`,
+      `    <vmap:AdSource id="${breakId}-ads" allowMultipleAds="true" followRedirects="true">`,
+      '      <vmap:VASTAdData>',
+      indent(buildVast(adBreak.ads, options), 8),
+      '      </vmap:VASTAdData>',
+      '    </vmap:AdSource>',
+      '  </vmap:AdBreak>',
+    ].join('\n');
+  }),
+  '</vmap:VMAP>',
+].join('\n');
@@ -0,0 +1,87 @@
+import { VastAd, VastEventLogEntry, VastTrackingEvent } from '@/types';
+import { createLocalCollection, LocalCollection } from '@/utils/localData';
+import { getErrorMessage, getTwelveLabsClient } from '@/utils/twelvelabs';
+import { VastBuildOptions } from '@/utils/vast';
+import { readSignedValue, signValue } from '@/utils/auth';
+
+// The log keeps the latest VAST_EVENTS_MAX events (10000 by default); older ones are dropped
+const DEFAULT_MAX_EVENTS = 10000;
+
+export const VAST_TRACKING_EVENTS: VastTrackingEvent[] = [
+  'impression', 'creativeView', 'start', 'firstQuartile', 'midpoint', 'thirdQuartile', 'complete', 'skip', 'pause', 'resume', 'clickThrough',
+];
+
+// An ad video from the ads index as a VAST linear ad; null when it has no stream to play
+export const loadVastAd = async (
+  adVideoId: string,
+  adsIndexId: string,
+  { skipOffset }: { skipOffset?: number } = {}
+): Promise<VastAd | null> => {
+  try {
+    const video = await getTwelveLabsClient().videos.get(adsIndexId, adVideoId);
+    if (!video.hls?.video_url) {
+      console.warn(`⚠️ Ad ${adVideoId} has no stream URL, leaving it out of the VAST`);
+      return null;
+    }
+    return {
+      adVideoId,
+      title: video.system_metadata?.video_title || video.system_metadata?.filename || adVideoId,
+      mediaUrl: video.hls.video_url,
+      duration: video.system_metadata?.duration,
+      width: video.system_metadata?.width,
+      height: video.system_metadata?.height,
+      skipOffset,
+      companionImageUrl: video.hls.thumbnail_urls?.[0],
+    };
+  } catch (error) {
+    console.warn(`⚠️ Could not load ad ${adVideoId} for the VAST:`, getErrorMessage(error));
+    return null;
+  }
+};
+
+export type VastTracker = { event: VastTrackingEvent; adId: string; contentVideoId?: string };
+
+// Tracker URLs pointing at /api/vast/track on this server, so every ping lands in the event log. The tracker is
+// signed, since the endpoint takes hits from players without a session and only records trackers we issued.
+export const createTrackingOptions = (origin: string, contentVideoId?: string): VastBuildOptions => ({
+  trackingUrl: (adVideoId, event) => {
+    const tracker: VastTracker = { event, adId: adVideoId, contentVideoId };
+    return `${origin}/api/vast/track?${new URLSearchParams({ t: signValue(tracker) }).toString()}`;
+  },
+});
+
+// The tracker of a signed tracker URL, or null when it was not issued by this server
+export const readVastTracker = (signed: string | null): VastTracker | null => {
+  const tracker = readSignedValue<VastTracker>(signed || undefined);
+  return tracker && VAST_TRACKING_EVENTS.includes(tracker.event) && tracker.adId ? tracker : null;
+};
+
+const getMaxEvents = () => Number(process.env.VAST_EVENTS_MAX) || DEFAULT_MAX_EVENTS;
+
+let vastEventLog: LocalCollection<VastEventLogEntry> | null = null;
+
+// Tracking events from previews and tracker hits (LOCAL_DATA_DIR/vast-events.json)
+export const getVastEventLog = (): LocalCollection<VastEventLogEntry> => {
+  if (!vastEventLog) {
+    vastEventLog = createLocalCollection<VastEventLogEntry>(process.env.VAST_EVENTS_PATH || 'vast-events.json');
+  }
+  return vastEventLog;
+};
+
+export const recordVastEvent = async (entry: Omit<VastEventLogEntry, 'id' | 'createdAt'>): Promise<VastEventLogEntry> => {
+  const logged: VastEventLogEntry = {
+    ...entry,
+    id: `event-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+  };
+  const log = getVastEventLog();
+  await log.put(logged.id, logged);
+
+  const events = await log.list();
+  const overflow = events.length - getMaxEvents();
+  if (overflow > 0) {
+    const oldest = events.sort((a, b) => a.createdAt.localeCompare(b.createdAt)).slice(0, overflow);
+    await log.removeMany(oldest.map(entry => entry.id));
+  }
+  return logged;
+};
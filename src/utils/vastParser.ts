@@ -0,0 +1,137 @@
+import { VastCompanion, VastPlaybackAd, VastTrackingEvent } from '@/types';
+
+// Browser-side VAST reader for the break preview (uses DOMParser)
+
+// Media types the preview player can play, best first
+const PLAYABLE_TYPES = ['application/x-mpegurl', 'application/vnd.apple.mpegurl', 'video/mp4', 'video/webm'];
+
+// Linear tracking events the preview fires; anything else in <TrackingEvents> is ignored
+const LINEAR_EVENTS: VastTrackingEvent[] = [
+  'creativeView', 'start', 'firstQuartile', 'midpoint', 'thirdQuartile', 'complete', 'skip', 'pause', 'resume',
+];
+
+const children = (parent: Element | Document, tagName: string) =>
+  Array.from(parent.getElementsByTagName(tagName));
+
+const text = (element?: Element | null) => element?.textContent?.trim() || '';
+
+// The VAST is pasted or fetched from anywhere, so its URLs end up in src and href only when they are http(s);
+// anything else (javascript:, data:, relative paths) reads as missing
+const webUrl = (element?: Element | null) => {
+  const value = text(element);
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:' ? value : '';
+  } catch {
+    return '';
+  }
+};
+
+const urlsOf = (elements: Element[]) => elements.map(webUrl).filter(Boolean);
+
+const toNumber = (value: string | null) => {
+  const number = value ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// HH:MM:SS(.mmm) to seconds
+export const parseTimecode = (value: string): number | undefined => {
+  const match = value.trim().match(/^(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+  if (!match) return undefined;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+};
+
+// skipoffset is a timecode or a percentage of the duration
+const parseSkipOffset = (value: string | null, duration?: number) => {
+  if (!value) return undefined;
+  const percent = value.trim().match(/^(\d+(?:\.\d+)?)%$/);
+  if (percent) {
+    return duration !== undefined ? duration * Number(percent[1]) / 100 : undefined;
+  }
+  return parseTimecode(value);
+};
+
+const pickMediaFile = (linear: Element) => {
+  const files = children(linear, 'MediaFile').filter(file => webUrl(file));
+  const rank = (file: Element) => {
+    const index = PLAYABLE_TYPES.indexOf((file.getAttribute('type') || '').toLowerCase());
+    return index === -1 ? PLAYABLE_TYPES.length : index;
+  };
+  return files.sort((a, b) => rank(a) - rank(b))[0];
+};
+
+const parseCompanions = (inline: Element): VastCompanion[] =>
+  children(inline, 'Companion').flatMap((companion): VastCompanion[] => {
+    const imageUrl = webUrl(children(companion, 'StaticResource')[0]);
+    if (!imageUrl) return [];
+    return [{
+      imageUrl,
+      width: toNumber(companion.getAttribute('width')),
+      height: toNumber(companion.getAttribute('height')),
+      clickThrough: webUrl(children(companion, 'CompanionClickThrough')[0]) || undefined,
+      creativeViewUrls: urlsOf(children(companion, 'Tracking').filter(tracking => tracking.getAttribute('event') === 'creativeView')),
+    }];
+  });
+
+const parseInlineAd = (ad: Element, index: number): VastPlaybackAd | null => {
+  const inline = children(ad, 'InLine')[0];
+  const linear = inline && children(inline, 'Linear')[0];
+  const mediaFile = linear && pickMediaFile(linear);
+  if (!inline || !linear || !mediaFile) return null;
+
+  const duration = parseTimecode(text(children(linear, 'Duration')[0]));
+  const tracking: VastPlaybackAd['tracking'] = { impression: urlsOf(children(inline, 'Impression')) };
+  // Only the linear's own trackers; companion trackers belong to the companion
+  const trackingEvents = children(linear, 'TrackingEvents')[0];
+  if (trackingEvents) {
+    children(trackingEvents, 'Tracking').forEach(element => {
+      const event = element.getAttribute('event') as VastTrackingEvent | null;
+      const url = webUrl(element);
+      if (event && url && LINEAR_EVENTS.includes(event)) {
+        tracking[event] = [...(tracking[event] || []), url];
+      }
+    });
+  }
+  tracking.clickThrough = urlsOf(children(linear, 'ClickTracking'));
+
+  return {
+    id: ad.getAttribute('id') || `ad-${index + 1}`,
+    title: text(children(inline, 'AdTitle')[0]) || `Ad ${index + 1}`,
+    mediaUrl: webUrl(mediaFile),
+    duration,
+    skipOffset: parseSkipOffset(linear.getAttribute('skipoffset'), duration),
+    clickThrough: webUrl(children(linear, 'ClickThrough')[0]) || undefined,
+    tracking,
+    companions: parseCompanions(inline),
+  };
+};
+
+// The inline linear ads of a VAST document in pod order. Wrapper ads are not followed.
+export const parseVast = (xml: string): VastPlaybackAd[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (children(doc, 'parsererror').length > 0) {
+    throw new Error('The VAST document is not valid XML');
+  }
+
+  const ads = children(doc, 'Ad');
+  if (ads.length === 0) {
+    throw new Error('The VAST document has no ads');
+  }
+
+  const sequence = (ad: Element) => toNumber(ad.getAttribute('sequence')) ?? Number.MAX_SAFE_INTEGER;
+  const playable = ads
+    .map((ad, index) => ({ ad, index }))
+    .sort((a, b) => sequence(a.ad) - sequence(b.ad) || a.index - b.index)
+    .flatMap(({ ad, index }) => {
+      const parsed = parseInlineAd(ad, index);
+      return parsed ? [parsed] : [];
+    });
+
+  if (playable.length === 0) {
+    const wrappers = children(doc, 'Wrapper').length;
+    throw new Error(wrappers > 0
+      ? 'Wrapper ads are not supported; paste the inline VAST they point to'
+      : 'The VAST document has no inline linear ad with an http(s) media file');
+  }
+  return playable;
+};
@@ -0,0 +1,82 @@
+import { createPineconeVectorStore } from '@/utils/pinecone';
+import { createLocalVectorStore } from '@/utils/localVectorStore';
+
+// Metadata values supported by every backend (same shape Pinecone accepts)
+export type VectorMetadataValue = string | number | boolean | string[];
+
+export type VectorRecordMetadata = Record<string, VectorMetadataValue>;
+
+// Equality on a field, or membership with $in
+export type VectorFilterCondition = VectorMetadataValue | { $in: Array<string | number | boolean> };
+
+export type VectorFilter = Record<string, VectorFilterCondition>;
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata?: VectorRecordMetadata;
+}
+
+export interface VectorQuery {
+  vector: number[];
+  topK: number;
+  filter?: VectorFilter;
+  includeValues?: boolean;
+  includeMetadata?: boolean;
+}
+
+export interface VectorMatch {
+  id: string;
+  score?: number;
+  values?: number[];
+  metadata?: VectorRecordMetadata;
+}
+
+export interface VectorQueryResponse {
+  matches: VectorMatch[];
+}
+
+export interface VectorStoreStats {
+  dimension?: number;
+  namespaces: number;
+  totalRecordCount: number;
+}
+
+// Common contract for the vector backends used by the api routes
+export interface VectorStore {
+  readonly name: string;
+  upsert(records: VectorRecord[]): Promise<void>;
+  query(query: VectorQuery): Promise<VectorQueryResponse>;
+  deleteMany(filter: VectorFilter): Promise<void>;
+  describeStats(): Promise<VectorStoreStats>;
+}
+
+export type VectorStoreBackend = 'pinecone' | 'local';
+
+export const VECTOR_DIMENSION = 1024;
+
+// Zero vector used for filter-only lookups
+export const zeroVector = () => new Array(VECTOR_DIMENSION).fill(0);
+
+// One store per vector namespace (workspace)
+const vectorStores = new Map<string, VectorStore>();
+
+// Backend selected by VECTOR_STORE (defaults to pinecone)
+export const getVectorStoreBackend = (): VectorStoreBackend => {
+  const backend = (process.env.VECTOR_STORE || 'pinecone').toLowerCase();
+  if (backend !== 'pinecone' && backend !== 'local') {
+    throw new Error(`Unsupported VECTOR_STORE "${backend}". Use "pinecone" or "local".`);
+  }
+  return backend;
+};
+
+// Store for a workspace's vector namespace; '' is the backend's default namespace
+export const getVectorStore = (namespace = ''): VectorStore => {
+  const existing = vectorStores.get(namespace);
+  if (existing) return existing;
+
+  const backend = getVectorStoreBackend();
+  const store = backend === 'local' ? createLocalVectorStore(namespace) : createPineconeVectorStore(namespace);
+  vectorStores.set(namespace, store);
+  return store;
+};
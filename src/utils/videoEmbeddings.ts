@@ -0,0 +1,220 @@
+import { EmbeddingCoverage, Segment, VideoData, Workspace } from '@/types';
+import { getTwelveLabsClient, listAllIndexVideos } from '@/utils/twelvelabs';
+import { getVectorStore, VectorRecord, zeroVector } from '@/utils/vectorStore';
+import { getIndexVectorCategory } from '@/utils/indexRegistry';
+
+// Embedding as returned by the video detail endpoint, plus the places a filename can hide
+export type VideoEmbeddingPayload = {
+  video_embedding?: { segments?: Segment[] };
+  system_metadata?: { filename?: string; video_title?: string };
+  metadata?: { filename?: string };
+  hls?: { metadata?: { filename?: string } };
+  source?: { filename?: string };
+};
+
+const UPSERT_BATCH_SIZE = 100;
+
+// Pinecone caps topK at 1000 when metadata is included. 20 videos fit at up to 50 segments each;
+// a chunk that fills topK may hide some of its videos, so those are checked one by one.
+const EXISTS_CHUNK_SIZE = 20;
+const EXISTS_TOP_K = 1000;
+
+export const sanitizeVectorId = (str: string) => {
+  const sanitized = str
+    .replace(/[^\x00-\x7F]/g, '') // Remove non-ASCII characters
+    .replace(/[^a-zA-Z0-9-_]/g, '_') // Replace other special characters with underscore
+    .replace(/_{2,}/g, '_'); // Replace multiple consecutive underscores with single underscore
+  return sanitized;
+};
+
+export const hasEmbeddingSegments = (embedding?: VideoEmbeddingPayload) =>
+  !!embedding?.video_embedding?.segments?.length;
+
+// Title and filename for the vector metadata: system_metadata first, then the provided name, then other fields
+const resolveVideoNames = (videoId: string, embedding: VideoEmbeddingPayload, videoName?: string) => {
+  let videoTitle = embedding.system_metadata?.video_title || '';
+  let actualFileName = embedding.system_metadata?.filename || '';
+
+  if ((!videoTitle || !videoTitle.trim()) && videoName && videoName.trim() !== '') {
+    // If videoName contains an extension, use it as filename and the name part as title
+    if (videoName.includes('.')) {
+      actualFileName = videoName;
+      videoTitle = videoName.split('.')[0];
+    } else {
+      videoTitle = videoName;
+      if (!actualFileName) {
+        actualFileName = `${videoName}.mp4`; // Default extension
+      }
+    }
+  }
+
+  if (!videoTitle || !videoTitle.trim()) {
+    const fallbackFileName = embedding.metadata?.filename || embedding.hls?.metadata?.filename || embedding.source?.filename;
+    if (fallbackFileName) {
+      actualFileName = fallbackFileName;
+      if (fallbackFileName.includes('.')) {
+        videoTitle = fallbackFileName.split('.')[0];
+      }
+    }
+  }
+
+  // Fall back to video ID if still nothing found
+  if (!videoTitle || !videoTitle.trim()) {
+    videoTitle = videoId;
+  }
+  if (!actualFileName || !actualFileName.trim()) {
+    actualFileName = `${videoTitle}.mp4`;
+  }
+
+  return { videoTitle, actualFileName };
+};
+
+// One vector per embedding segment, tagged with the video/index ids and the index role's category
+export const buildVideoVectors = ({ videoId, videoName, embedding, indexId, category }: {
+  videoId: string;
+  videoName?: string;
+  embedding: VideoEmbeddingPayload;
+  indexId?: string;
+  category: string;
+}): VectorRecord[] => {
+  const segments = embedding.video_embedding?.segments || [];
+  const { videoTitle, actualFileName } = resolveVideoNames(videoId, embedding, videoName);
+
+  // Determine vector ID base by sanitizing the title
+  const vectorIdBase = sanitizeVectorId(videoTitle.replace(/\.[^/.]+$/, '')); // Remove file extension if present
+
+  const vectorDimension = segments[0]?.float?.length || 0;
+  if (vectorDimension !== 1024) {
+    console.warn(`⚠️ WARNING: Vector dimension is ${vectorDimension}, expected 1024`);
+  }
+
+  return segments.map((segment, index) => ({
+    id: `${vectorIdBase}_segment${index + 1}`,
+    values: segment.float,
+    metadata: {
+      video_file: actualFileName,
+      video_title: videoTitle,
+      video_segment: index + 1,
+      start_time: segment.start_offset_sec,
+      end_time: segment.end_offset_sec,
+      scope: segment.embedding_scope,
+      tl_video_id: videoId,
+      tl_index_id: indexId || '',
+      category,
+    },
+  }));
+};
+
+// Upsert in batches into a vector namespace, checking the store connection before each batch
+export const upsertVideoVectors = async (vectors: VectorRecord[], namespace: string) => {
+  const store = getVectorStore(namespace);
+
+  for (let i = 0; i < vectors.length; i += UPSERT_BATCH_SIZE) {
+    const batch = vectors.slice(i, i + UPSERT_BATCH_SIZE);
+    const batchNumber = Math.floor(i / UPSERT_BATCH_SIZE) + 1;
+
+    try {
+      try {
+        await store.describeStats();
+      } catch (statsError) {
+        throw new Error(`Failed to connect to vector store: ${statsError instanceof Error ? statsError.message : 'Unknown error'}`);
+      }
+
+      await store.upsert(batch);
+    } catch (error) {
+      console.error(`❌ Error in batch ${batchNumber}:`, error);
+      throw error;
+    }
+  }
+};
+
+// Which of the given videos already have vectors, using one filtered query per chunk of ids
+export const findVideosWithVectors = async (videoIds: string[], namespace: string): Promise<Set<string>> => {
+  const store = getVectorStore(namespace);
+  const found = new Set<string>();
+
+  const queryVideoIds = async (ids: string[], topK: number) => {
+    const response = await store.query({
+      vector: zeroVector(),
+      filter: { tl_video_id: { $in: ids } },
+      topK,
+      includeMetadata: true,
+    });
+
+    response.matches.forEach(match => {
+      const videoId = match.metadata?.tl_video_id;
+      if (typeof videoId === 'string') found.add(videoId);
+    });
+    return response.matches.length;
+  };
+
+  for (let i = 0; i < videoIds.length; i += EXISTS_CHUNK_SIZE) {
+    const chunk = videoIds.slice(i, i + EXISTS_CHUNK_SIZE);
+    const matchCount = await queryVideoIds(chunk, EXISTS_TOP_K);
+
+    if (matchCount >= EXISTS_TOP_K) {
+      for (const videoId of chunk.filter(id => !found.has(id))) {
+        await queryVideoIds([videoId], 1);
+      }
+    }
+  }
+
+  return found;
+};
+
+// Fetch a video's embedding from TwelveLabs and store its segment vectors in the workspace's namespace (server-side)
+export const fetchAndStoreVideoEmbeddings = async (workspace: Workspace, indexId: string, videoId: string) => {
+  const video = await getTwelveLabsClient().videos.get(indexId, videoId, {
+    embeddingOptions: ['visual-text', 'audio'],
+  });
+  const embedding = video.embedding as VideoEmbeddingPayload | undefined;
+
+  if (!embedding || !hasEmbeddingSegments(embedding)) {
+    throw new Error('No embedding data found - the video may still be indexing');
+  }
+
+  const vectors = buildVideoVectors({
+    videoId,
+    videoName: video.system_metadata?.filename,
+    embedding: { ...embedding, system_metadata: video.system_metadata },
+    indexId,
+    category: getIndexVectorCategory(workspace, indexId),
+  });
+
+  await upsertVideoVectors(vectors, workspace.vectorNamespace);
+  return { video: video as VideoData, vectorCount: vectors.length };
+};
+
+// Walk an index and split its videos into embedded / missing / still indexing
+export const scanEmbeddingCoverage = async (indexId: string, namespace: string) => {
+  const client = getTwelveLabsClient();
+  const videos = await listAllIndexVideos(indexId, client);
+
+  // Recent tasks tell us which videos are still being indexed
+  const tasks = await client.tasks.list(indexId, { page: 1, pageLimit: 50 });
+  const indexingIds = new Set(
+    (tasks.data || [])
+      .filter(task => task.video_id && task.status && task.status !== 'ready')
+      .map(task => task.video_id as string)
+  );
+
+  const readyVideos = videos.filter(video => !indexingIds.has(video._id));
+  const embeddedIds = await findVideosWithVectors(readyVideos.map(video => video._id), namespace);
+  const missingVideos = readyVideos
+    .filter(video => !embeddedIds.has(video._id))
+    .map(video => ({
+      videoId: video._id,
+      title: video.system_metadata?.filename || video.system_metadata?.video_title,
+    }));
+
+  const coverage: EmbeddingCoverage = {
+    indexId,
+    total: videos.length,
+    embedded: embeddedIds.size,
+    missing: missingVideos.length,
+    indexing: videos.length - readyVideos.length,
+    checkedAt: new Date().toISOString(),
+  };
+
+  return { coverage, missingVideos };
+};
@@ -0,0 +1,111 @@
+import { Taxonomy, VideoMetadataUpdate } from '@/types';
+import { getTwelveLabsClient } from '@/utils/twelvelabs';
+
+const CUSTOM_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]{0,63}$/;
+// Stored structured demographics; the legacy `demographics` string is derived from them
+const DEMOGRAPHICS_FIELDS = ['demographics_gender', 'demographics_age'];
+
+// Error for rejected metadata updates, carrying the HTTP status a route should answer with.
+// A 409 also carries the video's current metadata so the editor can show what changed.
+export class MetadataUpdateError extends Error {
+  status: number;
+  current?: VideoMetadataUpdate;
+
+  constructor(message: string, status = 400, current?: VideoMetadataUpdate) {
+    super(message);
+    this.name = 'MetadataUpdateError';
+    this.status = status;
+    this.current = current;
+  }
+}
+
+// Patch keys are taxonomy ids (topic_category) or stored fields (sector); any other valid key is kept as a custom field.
+// An empty string clears a field.
+export const normalizeMetadataPatch = (patch: unknown, taxonomy: Taxonomy): Record<string, string> => {
+  if (!patch || typeof patch !== 'object' || Array.isArray(patch)) {
+    throw new MetadataUpdateError('metadata must be an object of fields to change');
+  }
+
+  const fields: Record<string, string> = {};
+  const errors: string[] = [];
+  Object.entries(patch).forEach(([key, value]) => {
+    if (typeof value !== 'string') {
+      errors.push(`${key} must be a string`);
+      return;
+    }
+    const category = taxonomy.categories.find(candidate => candidate.id === key || candidate.field === key);
+    if (!category && !CUSTOM_KEY_PATTERN.test(key)) {
+      errors.push(`"${key}" is not a valid metadata key (letters, digits and underscores, starting with a letter)`);
+      return;
+    }
+    fields[category ? category.field : key] = value.trim();
+  });
+
+  if (errors.length > 0) {
+    throw new MetadataUpdateError(errors.join('; '));
+  }
+  if (Object.keys(fields).length === 0) {
+    throw new MetadataUpdateError('metadata needs at least one field');
+  }
+  return fields;
+};
+
+// `patch` over the stored fields, leaving the others (numbers and booleans too) exactly as they are.
+// Changing gender or age rebuilds the legacy demographics string unless the patch sets it too.
+export const mergeUserMetadata = (
+  current: Record<string, unknown> = {},
+  patch: Record<string, string>
+): Record<string, unknown> => {
+  const merged: Record<string, unknown> = { ...current, ...patch };
+
+  if (DEMOGRAPHICS_FIELDS.some(field => field in patch) && !('demographics' in patch)) {
+    merged.demographics = DEMOGRAPHICS_FIELDS.map(field => merged[field]).filter(value => typeof value === 'string' && value).join(', ');
+  }
+  return merged;
+};
+
+const videoUpdates = new Map<string, Promise<unknown>>();
+
+// Updates to one video run one after another in this process, so two requests can't interleave their
+// read-check-write below. TwelveLabs has no conditional update, so this can't guard other processes.
+const inVideoOrder = async <T>(key: string, task: () => Promise<T>): Promise<T> => {
+  const run = (videoUpdates.get(key) || Promise.resolve()).catch(() => undefined).then(task);
+  videoUpdates.set(key, run);
+  try {
+    return await run;
+  } finally {
+    if (videoUpdates.get(key) === run) videoUpdates.delete(key);
+  }
+};
+
+// Merge `patch` into the video's user_metadata. With `expectedUpdatedAt`, the update is refused (409) when the
+// video was changed since the caller read it.
+export const patchVideoMetadata = ({
+  indexId,
+  videoId,
+  patch,
+  expectedUpdatedAt,
+}: {
+  indexId: string;
+  videoId: string;
+  patch: Record<string, string>;
+  expectedUpdatedAt?: string;
+}): Promise<VideoMetadataUpdate> => inVideoOrder(`${indexId}/${videoId}`, async () => {
+  const client = getTwelveLabsClient();
+  const video = await client.videos.get(indexId, videoId);
+
+  if (expectedUpdatedAt && video.updated_at && video.updated_at !== expectedUpdatedAt) {
+    throw new MetadataUpdateError(
+      'This video was changed by someone else since you loaded it; review the current tags and try again',
+      409,
+      { userMetadata: mergeUserMetadata(video.user_metadata, {}), updatedAt: video.updated_at }
+    );
+  }
+
+  const userMetadata = mergeUserMetadata(video.user_metadata, patch);
+  await client.videos.update(indexId, videoId, { user_metadata: userMetadata });
+
+  // The update sets a new updated_at, which the caller sends with its next change
+  const updated = await client.videos.get(indexId, videoId);
+  return { userMetadata, updatedAt: updated.updated_at };
+});
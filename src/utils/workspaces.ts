@@ -0,0 +1,241 @@
+import { NextResponse } from 'next/server';
+import { Taxonomy, UserAccount, Workspace, WorkspaceInput } from '@/types';
+import { getRequestCookie, getSessionUser, normalizeEmail } from '@/utils/auth';
+import { hasRole } from '@/utils/roles';
+import { getIndexEntry } from '@/utils/indexRegistry';
+import { createLocalCollection, LocalCollection } from '@/utils/localData';
+import { getDefaultTaxonomy, loadTaxonomy } from '@/utils/taxonomy';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+export const WORKSPACE_COOKIE = 'bia_workspace';
+export const WORKSPACE_HEADER = 'x-workspace-id';
+const MAX_NAME_LENGTH = 100;
+const NAMESPACE_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+// Error for invalid workspace operations, carrying the HTTP status a route should answer with
+export class WorkspaceError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'WorkspaceError';
+    this.status = status;
+  }
+}
+
+// Workspace as stored; the taxonomy is kept as entered and loaded on read. Workspaces saved before
+// membership have no member list and are open to admins only.
+type StoredWorkspace = Omit<Workspace, 'taxonomy' | 'customTaxonomy' | 'isDefault' | 'memberEmails'> & {
+  taxonomy?: Taxonomy;
+  memberEmails?: string[];
+};
+
+const now = () => new Date().toISOString();
+
+const createWorkspaceId = () => `workspace-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// The workspace configured by env vars; existing vectors live in the store's default namespace
+export const getDefaultWorkspace = (): Workspace => ({
+  id: DEFAULT_WORKSPACE_ID,
+  name: process.env.DEFAULT_WORKSPACE_NAME || 'Default',
+  adsIndexId: process.env.NEXT_PUBLIC_ADS_INDEX_ID || '',
+  contentIndexId: process.env.NEXT_PUBLIC_CONTENT_INDEX_ID || '',
+  vectorNamespace: '',
+  memberEmails: [],
+  taxonomy: getDefaultTaxonomy(),
+  customTaxonomy: false,
+  isDefault: true,
+  createdAt: new Date(0).toISOString(),
+  updatedAt: new Date(0).toISOString(),
+});
+
+const toWorkspace = (workspace: StoredWorkspace): Workspace => ({
+  ...workspace,
+  memberEmails: workspace.memberEmails || [],
+  taxonomy: workspace.taxonomy ? loadTaxonomy(workspace.taxonomy) : getDefaultTaxonomy(),
+  customTaxonomy: !!workspace.taxonomy,
+  isDefault: false,
+});
+
+// Admins open every workspace and everyone opens the default one; the others need the user on their member list
+export const canAccessWorkspace = (workspace: Workspace, user: UserAccount | null): boolean =>
+  !!user && (workspace.isDefault || hasRole(user, 'admin') || workspace.memberEmails.includes(normalizeEmail(user.email)));
+
+const createWorkspaceService = (store: LocalCollection<StoredWorkspace>) => {
+  const load = async (workspaceId: string): Promise<StoredWorkspace> => {
+    const workspace = await store.get(workspaceId);
+    if (!workspace) {
+      throw new WorkspaceError(
+        workspaceId === DEFAULT_WORKSPACE_ID
+          ? 'The default workspace is configured by env vars and cannot be changed here'
+          : `Workspace ${workspaceId} not found`,
+        workspaceId === DEFAULT_WORKSPACE_ID ? 409 : 404
+      );
+    }
+    return workspace;
+  };
+
+  // Apply `input` over `base`, returning the validated workspace fields
+  const buildWorkspaceFields = async (input: WorkspaceInput, base?: StoredWorkspace) => {
+    const name = (input.name ?? base?.name ?? '').trim();
+    const adsIndexId = (input.adsIndexId ?? base?.adsIndexId ?? '').trim();
+    const contentIndexId = (input.contentIndexId ?? base?.contentIndexId ?? '').trim();
+    const vectorNamespace = (input.vectorNamespace ?? base?.vectorNamespace ?? '').trim();
+    const taxonomy = input.taxonomy === null ? undefined : input.taxonomy ?? base?.taxonomy;
+    const memberEmails = input.memberEmails ?? base?.memberEmails ?? [];
+
+    const errors: string[] = [];
+    if (!name) errors.push('name is required');
+    if (name.length > MAX_NAME_LENGTH) errors.push(`name must be at most ${MAX_NAME_LENGTH} characters`);
+    if (!adsIndexId || !contentIndexId) errors.push('adsIndexId and contentIndexId are required');
+    if (adsIndexId && adsIndexId === contentIndexId) errors.push('adsIndexId and contentIndexId must differ');
+    if (!NAMESPACE_PATTERN.test(vectorNamespace)) {
+      errors.push('vectorNamespace must be 1-64 letters, digits, dashes or underscores');
+    } else {
+      const others = (await store.list()).filter(workspace => workspace.id !== base?.id);
+      if (others.some(workspace => workspace.vectorNamespace === vectorNamespace)) {
+        errors.push(`vector namespace "${vectorNamespace}" is already used by another workspace`);
+      }
+    }
+    if (!Array.isArray(memberEmails) || memberEmails.some(email => typeof email !== 'string' || !email.includes('@'))) {
+      errors.push('memberEmails must be a list of email addresses');
+    }
+    if (taxonomy) {
+      try {
+        loadTaxonomy(taxonomy);
+      } catch (error) {
+        errors.push(`invalid taxonomy: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new WorkspaceError(errors.join('; '));
+    }
+
+    return {
+      name,
+      adsIndexId,
+      contentIndexId,
+      vectorNamespace,
+      memberEmails: [...new Set(memberEmails.map(normalizeEmail))],
+      taxonomy,
+    };
+  };
+
+  return {
+    // The default workspace first, then the others by name
+    async list(): Promise<Workspace[]> {
+      const workspaces = (await store.list())
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(toWorkspace);
+      return [getDefaultWorkspace(), ...workspaces];
+    },
+
+    async get(workspaceId: string): Promise<Workspace | null> {
+      if (workspaceId === DEFAULT_WORKSPACE_ID) return getDefaultWorkspace();
+      const workspace = await store.get(workspaceId);
+      return workspace ? toWorkspace(workspace) : null;
+    },
+
+    // The workspace saved on a job or campaign; records from before workspaces belong to the default one
+    async resolve(workspaceId?: string): Promise<Workspace> {
+      if (!workspaceId || workspaceId === DEFAULT_WORKSPACE_ID) return getDefaultWorkspace();
+      return toWorkspace(await load(workspaceId));
+    },
+
+    async create(input: WorkspaceInput): Promise<Workspace> {
+      const id = createWorkspaceId();
+      const timestamp = now();
+      const workspace: StoredWorkspace = {
+        id,
+        // New workspaces get their own namespace unless one is given
+        ...await buildWorkspaceFields({ ...input, vectorNamespace: input.vectorNamespace || id }),
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      };
+      await store.put(id, workspace);
+      return toWorkspace(workspace);
+    },
+
+    async update(workspaceId: string, input: WorkspaceInput): Promise<Workspace> {
+      const workspace = await load(workspaceId);
+      const updated: StoredWorkspace = {
+        ...workspace,
+        ...await buildWorkspaceFields(input, workspace),
+        updatedAt: now(),
+      };
+      await store.put(workspaceId, updated);
+      return toWorkspace(updated);
+    },
+
+    // Campaigns and jobs of a removed workspace stay on disk but are no longer listed
+    async remove(workspaceId: string): Promise<void> {
+      await load(workspaceId);
+      await store.remove(workspaceId);
+    },
+  };
+};
+
+export type WorkspaceService = ReturnType<typeof createWorkspaceService>;
+
+let workspaceService: WorkspaceService | null = null;
+
+// Workspaces saved in LOCAL_DATA_DIR/workspaces.json (override with WORKSPACES_PATH)
+export const getWorkspaceService = (): WorkspaceService => {
+  if (!workspaceService) {
+    workspaceService = createWorkspaceService(
+      createLocalCollection<StoredWorkspace>(process.env.WORKSPACES_PATH || 'workspaces.json')
+    );
+  }
+  return workspaceService;
+};
+
+// The request's workspace: `?workspaceId=` (links used outside the app, e.g. VAST tags), the x-workspace-id
+// header (scripts), then the cookie set by the workspace switcher. Naming a workspace the user may not open
+// answers 403; a stale cookie, or one for a workspace the user was removed from, falls back to the default.
+export const getRequestWorkspace = async (req: Request): Promise<Workspace> => {
+  const service = getWorkspaceService();
+  const user = await getSessionUser(req);
+  const requestedId = new URL(req.url).searchParams.get('workspaceId') || req.headers.get(WORKSPACE_HEADER);
+  if (requestedId) {
+    const workspace = await service.resolve(requestedId);
+    if (!canAccessWorkspace(workspace, user)) {
+      throw new WorkspaceError(`You are not a member of workspace "${workspace.name}"`, 403);
+    }
+    return workspace;
+  }
+
+  const selectedId = getRequestCookie(req, WORKSPACE_COOKIE);
+  const selected = selectedId ? await service.get(selectedId) : null;
+  return selected && canAccessWorkspace(selected, user) ? selected : getDefaultWorkspace();
+};
+
+// The workspace's ads and content indexes, plus the indexes.json entries it shares in
+export const isWorkspaceIndex = (workspace: Workspace, indexId: string) => !!getIndexEntry(workspace, indexId);
+
+// Index ids a request names must be the workspace's own
+export const assertWorkspaceIndexes = (workspace: Workspace, indexIds: Array<string | null | undefined>) => {
+  const foreign = indexIds.filter((id): id is string => !!id && !isWorkspaceIndex(workspace, id));
+  if (foreign.length > 0) {
+    throw new WorkspaceError(`Index ${foreign.join(', ')} is not part of workspace "${workspace.name}"`, 403);
+  }
+};
+
+// For route handlers: the request's workspace, or an error response when it is unknown or `indexIds`
+// are not its indexes
+export const getRouteWorkspace = async (
+  req: Request,
+  indexIds: Array<string | null | undefined> = []
+): Promise<Workspace | NextResponse> => {
+  try {
+    const workspace = await getRequestWorkspace(req);
+    assertWorkspaceIndexes(workspace, indexIds);
+    return workspace;
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('❌ Error resolving workspace:', error);
+    return NextResponse.json({ error: 'Failed to resolve workspace' }, { status: 500 });
+  }
+};